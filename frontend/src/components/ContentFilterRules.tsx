@@ -0,0 +1,308 @@
+import React, { useEffect, useState } from "react";
+import {
+  ContentFilterRule,
+  CONTENT_FILTER_ACTIONS,
+  CONTENT_FILTER_ACTION_LABELS,
+  CONTENT_FILTER_RULE_TYPES,
+  ContentFilterAction,
+  ContentFilterRuleType,
+  getContentFilterActionColor,
+} from "@/types/export";
+import {
+  ContentFilterRuleInput,
+  subscribeToContentFilterRules,
+  validateContentFilterRule,
+  createContentFilterRule,
+  updateContentFilterRule,
+  deleteContentFilterRule,
+} from "@/lib/firestore/contentFilterRules";
+import { useToast } from "@/contexts/ToastContext";
+
+const EMPTY_RULE: ContentFilterRuleInput = {
+  type: CONTENT_FILTER_RULE_TYPES.KEYWORD,
+  pattern: "",
+  action: CONTENT_FILTER_ACTIONS.FLAG,
+  enabled: true,
+  description: "",
+};
+
+/**
+ * Configuration card for the keyword/regex rules new posts are screened against.
+ * Rules are saved as soon as they are changed, independent of the page's Save button
+ */
+export default function ContentFilterRules() {
+  const toast = useToast();
+  const [rules, setRules] = useState<ContentFilterRule[]>([]);
+  const [newRule, setNewRule] = useState<ContentFilterRuleInput>(EMPTY_RULE);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [ruleToDelete, setRuleToDelete] = useState<ContentFilterRule | null>(
+    null,
+  );
+
+  useEffect(() => {
+    const unsubscribe = subscribeToContentFilterRules(
+      (data) => {
+        setRules(data);
+        setLoadError(null);
+      },
+      () => setLoadError("Failed to load content filter rules"),
+    );
+    return unsubscribe;
+  }, []);
+
+  const handleAddRule = async () => {
+    const validationErrors = validateContentFilterRule(newRule);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    setSaving(true);
+    try {
+      await createContentFilterRule(newRule);
+      setNewRule(EMPTY_RULE);
+      toast.success("Content filter rule added");
+    } catch (error) {
+      console.error("Error adding content filter rule:", error);
+      toast.error("Failed to add content filter rule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdateRule = async (
+    rule: ContentFilterRule,
+    updates: Partial<ContentFilterRuleInput>,
+  ) => {
+    try {
+      await updateContentFilterRule(rule, updates);
+    } catch (error) {
+      console.error("Error updating content filter rule:", error);
+      toast.error("Failed to update content filter rule");
+    }
+  };
+
+  const confirmDeleteRule = async () => {
+    if (!ruleToDelete) return;
+
+    try {
+      await deleteContentFilterRule(ruleToDelete);
+      toast.success("Content filter rule deleted");
+    } catch (error) {
+      console.error("Error deleting content filter rule:", error);
+      toast.error("Failed to delete content filter rule");
+    } finally {
+      setRuleToDelete(null);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xl font-medium text-gray-900 dark:text-white">
+          Content Filter Rules
+        </h3>
+        <div className="p-2 rounded-full bg-purple-100 dark:bg-purple-900">
+          <svg
+            className="w-5 h-5 text-purple-600 dark:text-purple-300"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z"
+            />
+          </svg>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-6">
+        New posts are checked against the enabled rules when they are created.
+        Keywords match anywhere in the text, ignoring case. When several rules
+        match, the strictest action applies. Changes here are saved
+        immediately.
+      </p>
+
+      {loadError && (
+        <p className="mb-4 text-sm text-red-600 dark:text-red-400">
+          {loadError}
+        </p>
+      )}
+
+      {/* Existing rules */}
+      <div className="space-y-2 mb-6">
+        {rules.length === 0 ? (
+          <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 text-center text-sm text-gray-500 dark:text-gray-400">
+            No content filter rules yet.
+          </div>
+        ) : (
+          rules.map((rule) => (
+            <div
+              key={rule.id}
+              className={`flex items-center gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700 ${
+                rule.enabled ? "" : "opacity-60"
+              }`}
+            >
+              <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 uppercase">
+                {rule.type}
+              </span>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-mono text-gray-900 dark:text-white truncate">
+                  {rule.pattern}
+                </p>
+                {rule.description && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {rule.description}
+                  </p>
+                )}
+              </div>
+              <select
+                value={rule.action}
+                onChange={(e) =>
+                  handleUpdateRule(rule, {
+                    action: e.target.value as ContentFilterAction,
+                  })
+                }
+                className={`px-2 py-1 text-xs font-medium rounded-md border-0 ${getContentFilterActionColor(rule.action)}`}
+              >
+                {(
+                  Object.keys(
+                    CONTENT_FILTER_ACTION_LABELS,
+                  ) as ContentFilterAction[]
+                ).map((action) => (
+                  <option key={action} value={action}>
+                    {CONTENT_FILTER_ACTION_LABELS[action]}
+                  </option>
+                ))}
+              </select>
+              <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) =>
+                    handleUpdateRule(rule, { enabled: e.target.checked })
+                  }
+                  className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                />
+                Enabled
+              </label>
+              <button
+                onClick={() => setRuleToDelete(rule)}
+                className="text-xs text-red-600 dark:text-red-400 hover:underline"
+              >
+                Delete
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* New rule */}
+      <div className="grid grid-cols-1 md:grid-cols-12 gap-3 items-start">
+        <select
+          value={newRule.type}
+          onChange={(e) =>
+            setNewRule({
+              ...newRule,
+              type: e.target.value as ContentFilterRuleType,
+            })
+          }
+          className="md:col-span-2 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-purple-500 focus:border-purple-500 dark:bg-gray-700 dark:text-white"
+        >
+          <option value={CONTENT_FILTER_RULE_TYPES.KEYWORD}>Keyword</option>
+          <option value={CONTENT_FILTER_RULE_TYPES.REGEX}>Regex</option>
+        </select>
+        <input
+          type="text"
+          value={newRule.pattern}
+          onChange={(e) => setNewRule({ ...newRule, pattern: e.target.value })}
+          placeholder={
+            newRule.type === CONTENT_FILTER_RULE_TYPES.REGEX
+              ? "e.g. line\\.me/\\S+"
+              : "e.g. free coins"
+          }
+          className="md:col-span-3 px-3 py-2 text-sm font-mono border border-gray-300 dark:border-gray-600 rounded-md focus:ring-purple-500 focus:border-purple-500 dark:bg-gray-700 dark:text-white"
+        />
+        <input
+          type="text"
+          value={newRule.description}
+          onChange={(e) =>
+            setNewRule({ ...newRule, description: e.target.value })
+          }
+          placeholder="Note (optional)"
+          className="md:col-span-3 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-purple-500 focus:border-purple-500 dark:bg-gray-700 dark:text-white"
+        />
+        <select
+          value={newRule.action}
+          onChange={(e) =>
+            setNewRule({
+              ...newRule,
+              action: e.target.value as ContentFilterAction,
+            })
+          }
+          className="md:col-span-2 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-purple-500 focus:border-purple-500 dark:bg-gray-700 dark:text-white"
+        >
+          {(
+            Object.keys(CONTENT_FILTER_ACTION_LABELS) as ContentFilterAction[]
+          ).map((action) => (
+            <option key={action} value={action}>
+              {CONTENT_FILTER_ACTION_LABELS[action]}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleAddRule}
+          disabled={saving}
+          className="md:col-span-2 px-4 py-2 text-sm font-medium text-white bg-purple-600 rounded-md hover:bg-purple-700 disabled:opacity-50"
+        >
+          {saving ? "Adding..." : "Add Rule"}
+        </button>
+      </div>
+      {errors.length > 0 && (
+        <ul className="mt-2 text-xs text-red-600 dark:text-red-400 list-disc list-inside">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      {/* Delete confirmation */}
+      {ruleToDelete && (
+        <>
+          <div
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm z-60"
+            onClick={() => setRuleToDelete(null)}
+          />
+          <div className="fixed inset-0 z-70 flex items-center justify-center p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full mx-4 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+                Delete Rule
+              </h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+                New posts will no longer be checked against{" "}
+                <span className="font-mono">{ruleToDelete.pattern}</span>.
+                Posts it already flagged keep their flag.
+              </p>
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => setRuleToDelete(null)}
+                  className="flex-1 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-lg hover:bg-gray-200 transition-colors dark:text-gray-300 dark:bg-gray-700 dark:border-gray-600 dark:hover:bg-gray-600"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={confirmDeleteRule}
+                  className="flex-1 px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Announcement,
+  Post,
+  Report,
+  SearchResult,
+  SEARCH_RESULT_TYPES,
+  SEARCH_RESULT_TYPE_LABELS,
+  USER_STATUS,
+  getSearchResultTypeColor,
+} from "@/types/export";
+import { User } from "@/types";
+import { searchAll } from "@/lib/firestore/search";
+import { getPostById } from "@/lib/firestore/posts";
+import { getReportById } from "@/lib/firestore/reports";
+import { fetchAnnouncementById } from "@/lib/firestore/announcements";
+import { fetchUserById } from "@/lib/firestore/users";
+import { formatBulkFailures, moderateUser } from "@/lib/firestore/moderation";
+import { useAdminConfiguration } from "@/hooks/useAdminConfiguration";
+import { useToast } from "@/contexts/ToastContext";
+import PostDetailDrawer from "./drawers/PostDetailDrawer";
+import UserDetailDrawer from "./drawers/UserDetailDrawer";
+import ReportDetailDrawer from "./drawers/ReportDetailDrawer";
+import AnnouncementDetailDrawer from "./drawers/AnnouncementDetailDrawer";
+
+// Wait for the admin to stop typing before querying the index
+const SEARCH_DEBOUNCE_MS = 300;
+const MIN_SEARCH_LENGTH = 2;
+
+/**
+ * Sidebar search across posts, users, reports and announcements
+ * Selecting a result opens the same detail drawer as the matching table
+ */
+export default function GlobalSearch() {
+  const toast = useToast();
+  const { config } = useAdminConfiguration();
+  const [term, setTerm] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [isDropdownOpen, setIsDropdownOpen] = useState(false);
+  const [selectedPost, setSelectedPost] = useState<Post | null>(null);
+  const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const [selectedReport, setSelectedReport] = useState<Report | null>(null);
+  const [selectedAnnouncement, setSelectedAnnouncement] =
+    useState<Announcement | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const trimmedTerm = term.trim();
+  const visibleResults =
+    trimmedTerm.length >= MIN_SEARCH_LENGTH ? results : [];
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(event.target as Node)
+      ) {
+        setIsDropdownOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  useEffect(() => {
+    if (trimmedTerm.length < MIN_SEARCH_LENGTH) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const found = await searchAll(trimmedTerm);
+        if (!cancelled) setResults(found);
+      } catch {
+        if (!cancelled) {
+          setResults([]);
+          toast.error("Search failed");
+        }
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [trimmedTerm, toast]);
+
+  const handleSelect = async (result: SearchResult) => {
+    setIsDropdownOpen(false);
+
+    try {
+      switch (result.type) {
+        case SEARCH_RESULT_TYPES.POST: {
+          const post = await getPostById(result.targetId);
+          if (post) setSelectedPost(post);
+          else toast.error("This post no longer exists");
+          break;
+        }
+        case SEARCH_RESULT_TYPES.USER: {
+          const user = await fetchUserById(result.targetId);
+          if (user) setSelectedUser(user);
+          else toast.error("This user no longer exists");
+          break;
+        }
+        case SEARCH_RESULT_TYPES.REPORT: {
+          const report = await getReportById(result.targetId);
+          if (report) setSelectedReport(report);
+          else toast.error("This report no longer exists");
+          break;
+        }
+        case SEARCH_RESULT_TYPES.ANNOUNCEMENT: {
+          const announcement = await fetchAnnouncementById(result.targetId);
+          if (announcement) setSelectedAnnouncement(announcement);
+          else toast.error("This announcement no longer exists");
+          break;
+        }
+      }
+    } catch (error) {
+      console.error("Error opening search result:", error);
+      toast.error("Failed to open search result");
+    }
+  };
+
+  const refreshSelectedUser = async (userId: string) => {
+    const updatedUser = await fetchUserById(userId);
+    if (updatedUser) {
+      setSelectedUser(updatedUser);
+    }
+  };
+
+  const handleUserWarn = async (userId: string) => {
+    try {
+      const result = await moderateUser(userId, "warn");
+      await refreshSelectedUser(userId);
+      console.log(`User warned successfully (${result.escalation}):`, userId);
+      if (result.failed.length > 0) {
+        toast.warning(
+          `User warned, but ${result.failed.length} post(s)/report(s) could not be updated: ${formatBulkFailures(result.failed)}`,
+        );
+      }
+    } catch (error) {
+      console.error("Error warning user:", error);
+      toast.error("Failed to warn user");
+    }
+  };
+
+  const handleUserSuspendToggle = async (
+    userId: string,
+    currentStatus: string,
+  ) => {
+    try {
+      const action =
+        currentStatus === USER_STATUS.SUSPENDED ? "unsuspend" : "suspend";
+      await moderateUser(userId, action);
+      await refreshSelectedUser(userId);
+    } catch (error) {
+      console.error("Error updating user status:", error);
+      toast.error("Failed to update user status");
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <div className="relative">
+        <svg
+          className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+          />
+        </svg>
+        <input
+          type="text"
+          value={term}
+          onChange={(e) => {
+            setTerm(e.target.value);
+            setIsDropdownOpen(true);
+          }}
+          onFocus={() => setIsDropdownOpen(true)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && visibleResults.length > 0) {
+              handleSelect(visibleResults[0]);
+            } else if (e.key === "Escape") {
+              setIsDropdownOpen(false);
+            }
+          }}
+          placeholder="Search everything..."
+          className="pl-9 pr-3 py-2 w-full text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+        />
+      </div>
+
+      {isDropdownOpen && trimmedTerm.length >= MIN_SEARCH_LENGTH && (
+        <div className="absolute left-0 top-full mt-1 w-96 max-h-96 overflow-y-auto z-50 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700">
+          {searching && visibleResults.length === 0 ? (
+            <div className="p-4 text-sm text-gray-500 dark:text-gray-400">
+              Searching...
+            </div>
+          ) : visibleResults.length === 0 ? (
+            <div className="p-4 text-sm text-gray-500 dark:text-gray-400">
+              No results for &ldquo;{trimmedTerm}&rdquo;
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+              {visibleResults.map((result) => (
+                <li key={result.id}>
+                  <button
+                    onClick={() => handleSelect(result)}
+                    className="w-full text-left px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-700"
+                  >
+                    <div className="flex items-center gap-2">
+                      <span
+                        className={`px-2 py-0.5 text-xs font-medium rounded-full ${getSearchResultTypeColor(result.type)}`}
+                      >
+                        {SEARCH_RESULT_TYPE_LABELS[result.type] || result.type}
+                      </span>
+                      <span className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                        {result.title || "(no text)"}
+                      </span>
+                    </div>
+                    {result.subtitle && (
+                      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 truncate">
+                        {result.subtitle}
+                      </p>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <PostDetailDrawer
+        post={selectedPost}
+        isOpen={selectedPost !== null}
+        onClose={() => setSelectedPost(null)}
+      />
+
+      <UserDetailDrawer
+        user={selectedUser}
+        isOpen={selectedUser !== null}
+        onClose={() => setSelectedUser(null)}
+        onWarn={handleUserWarn}
+        onSuspendToggle={handleUserSuspendToggle}
+        confirmActions={true}
+        suspendDurationDays={config?.suspendDurationDays || 30}
+      />
+
+      <ReportDetailDrawer
+        report={selectedReport}
+        isOpen={selectedReport !== null}
+        onClose={() => setSelectedReport(null)}
+      />
+
+      <AnnouncementDetailDrawer
+        announcement={selectedAnnouncement}
+        isOpen={selectedAnnouncement !== null}
+        onClose={() => setSelectedAnnouncement(null)}
+      />
+    </div>
+  );
+}
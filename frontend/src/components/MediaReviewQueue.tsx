@@ -0,0 +1,346 @@
+import React, { useEffect, useState } from "react";
+import {
+  Announcement,
+  MediaReview,
+  MediaReviewStatus,
+  MEDIA_PARENT_TYPE_LABELS,
+  MEDIA_REVIEW_STATUS,
+  Post,
+  getMediaReviewStatusColor,
+} from "@/types/export";
+import {
+  MediaReviewAction,
+  reviewMedia,
+  subscribeToMediaReviews,
+} from "@/lib/firestore/mediaReviews";
+import { getPostById } from "@/lib/firestore/posts";
+import { fetchAnnouncementById } from "@/lib/firestore/announcements";
+import { useStorageUrl } from "@/lib/storageUtils";
+import { useToast } from "@/contexts/ToastContext";
+import PostDetailDrawer from "@/components/drawers/PostDetailDrawer";
+import AnnouncementDetailDrawer from "@/components/drawers/AnnouncementDetailDrawer";
+
+// Photo of one review; blurred photos stay blurred here too
+function MediaReviewPhoto({ review }: { review: MediaReview }) {
+  const deleted = review.status === MEDIA_REVIEW_STATUS.DELETED;
+  const { url, loading } = useStorageUrl(deleted ? null : review.path);
+
+  if (deleted || (!loading && !url)) {
+    return (
+      <div className="w-full h-48 bg-gray-100 dark:bg-gray-700 flex items-center justify-center">
+        <span className="text-sm text-gray-500 dark:text-gray-400">
+          {deleted ? "Photo deleted" : "Photo unavailable"}
+        </span>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="w-full h-48 bg-gray-200 dark:bg-gray-700 animate-pulse" />
+    );
+  }
+
+  return (
+    <a href={url || undefined} target="_blank" rel="noopener noreferrer">
+      <img
+        src={url || undefined}
+        alt={`Photo from ${review.parentType} ${review.parentId}`}
+        className={`w-full h-48 object-cover ${
+          review.status === MEDIA_REVIEW_STATUS.BLURRED ? "blur-md" : ""
+        }`}
+      />
+    </a>
+  );
+}
+
+/**
+ * Queue of photos uploaded to posts and announcements.
+ * Each photo can be approved, blurred for app users, or deleted, which also
+ * removes it from its post or announcement and notifies the author
+ */
+export default function MediaReviewQueue() {
+  const toast = useToast();
+  const [reviews, setReviews] = useState<MediaReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<MediaReviewStatus | "">(
+    MEDIA_REVIEW_STATUS.PENDING,
+  );
+  const [parentTypeFilter, setParentTypeFilter] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [reviewToDelete, setReviewToDelete] = useState<MediaReview | null>(
+    null,
+  );
+  const [deleteReason, setDeleteReason] = useState("");
+  const [selectedPost, setSelectedPost] = useState<Post | null>(null);
+  const [selectedAnnouncement, setSelectedAnnouncement] =
+    useState<Announcement | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToMediaReviews(
+      statusFilter,
+      (data) => {
+        setReviews(data);
+        setError(null);
+        setLoading(false);
+      },
+      () => {
+        setError("Failed to load photos");
+        setLoading(false);
+      },
+    );
+
+    return unsubscribe;
+  }, [statusFilter]);
+
+  const visibleReviews = reviews.filter(
+    (review) =>
+      parentTypeFilter === "" || review.parentType === parentTypeFilter,
+  );
+
+  const handleAction = async (
+    review: MediaReview,
+    action: MediaReviewAction,
+    reason?: string,
+  ) => {
+    setBusyId(review.id);
+    try {
+      const result = await reviewMedia(review.id, action, reason);
+      if (action === "delete" && result.storageDeleted === false) {
+        toast.error(
+          `Photo removed from the ${review.parentType}, but its file could not be deleted from Storage`,
+        );
+      } else {
+        toast.success(
+          action === "approve"
+            ? "Photo approved"
+            : action === "blur"
+              ? "Photo blurred"
+              : "Photo deleted and the author notified",
+        );
+      }
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to review photo",
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const confirmDelete = () => {
+    if (!reviewToDelete) return;
+    handleAction(reviewToDelete, "delete", deleteReason.trim() || undefined);
+    setReviewToDelete(null);
+    setDeleteReason("");
+  };
+
+  const openParent = async (review: MediaReview) => {
+    try {
+      if (review.parentType === "post") {
+        const post = await getPostById(review.parentId);
+        if (post) setSelectedPost(post);
+        else toast.error("This post no longer exists");
+      } else {
+        const announcement = await fetchAnnouncementById(review.parentId);
+        if (announcement) setSelectedAnnouncement(announcement);
+        else toast.error("This announcement no longer exists");
+      }
+    } catch (error) {
+      console.error("Error opening photo context:", error);
+      toast.error(`Failed to open ${review.parentType}`);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+      {/* Filters */}
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <select
+            value={statusFilter}
+            onChange={(e) => {
+              setStatusFilter(e.target.value as MediaReviewStatus | "");
+              setLoading(true);
+            }}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            <option value="">All Status</option>
+            <option value={MEDIA_REVIEW_STATUS.PENDING}>Pending</option>
+            <option value={MEDIA_REVIEW_STATUS.APPROVED}>Approved</option>
+            <option value={MEDIA_REVIEW_STATUS.BLURRED}>Blurred</option>
+            <option value={MEDIA_REVIEW_STATUS.DELETED}>Deleted</option>
+          </select>
+
+          <select
+            value={parentTypeFilter}
+            onChange={(e) => setParentTypeFilter(e.target.value)}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            <option value="">Posts and Announcements</option>
+            {Object.entries(MEDIA_PARENT_TYPE_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>
+                {label}s
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="px-6 py-3 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {/* Photo Grid */}
+      <div className="p-6">
+        {loading ? (
+          <div className="py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-500 mx-auto"></div>
+          </div>
+        ) : visibleReviews.length === 0 ? (
+          <p className="py-12 text-center text-sm text-gray-500 dark:text-gray-400">
+            No photos to review.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+            {visibleReviews.map((review) => (
+              <div
+                key={review.id}
+                className="rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden flex flex-col"
+              >
+                <MediaReviewPhoto review={review} />
+
+                <div className="p-3 flex-1 flex flex-col">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-300">
+                      {MEDIA_PARENT_TYPE_LABELS[review.parentType]}
+                    </span>
+                    <span
+                      className={`px-2 py-0.5 text-xs font-medium rounded-full capitalize ${getMediaReviewStatusColor(review.status)}`}
+                    >
+                      {review.status}
+                    </span>
+                  </div>
+                  <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                    {review.authorName}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                    {new Date(review.uploadedAt).toLocaleString()}
+                  </p>
+                  <p className="text-sm text-gray-600 dark:text-gray-300 line-clamp-3 mb-2">
+                    {review.parentText || "(no text)"}
+                  </p>
+                  {review.reviewedBy && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                      Reviewed by {review.reviewedBy}
+                      {review.reason && ` · ${review.reason}`}
+                    </p>
+                  )}
+
+                  <button
+                    onClick={() => openParent(review)}
+                    className="text-left text-xs text-purple-600 dark:text-purple-400 hover:underline mb-3"
+                  >
+                    View {review.parentType}
+                  </button>
+
+                  {review.status !== MEDIA_REVIEW_STATUS.DELETED && (
+                    <div className="mt-auto grid grid-cols-3 gap-2">
+                      <button
+                        onClick={() => handleAction(review, "approve")}
+                        disabled={
+                          busyId === review.id ||
+                          review.status === MEDIA_REVIEW_STATUS.APPROVED
+                        }
+                        className="px-2 py-1.5 text-xs font-medium rounded-lg bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200 hover:bg-green-200 dark:hover:bg-green-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {review.status === MEDIA_REVIEW_STATUS.BLURRED
+                          ? "Unblur"
+                          : "Approve"}
+                      </button>
+                      <button
+                        onClick={() => handleAction(review, "blur")}
+                        disabled={
+                          busyId === review.id ||
+                          review.status === MEDIA_REVIEW_STATUS.BLURRED
+                        }
+                        className="px-2 py-1.5 text-xs font-medium rounded-lg bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200 hover:bg-orange-200 dark:hover:bg-orange-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Blur
+                      </button>
+                      <button
+                        onClick={() => setReviewToDelete(review)}
+                        disabled={busyId === review.id}
+                        className="px-2 py-1.5 text-xs font-medium rounded-lg bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200 hover:bg-red-200 dark:hover:bg-red-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Confirm Delete Modal */}
+      {reviewToDelete && (
+        <>
+          <div
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm z-60"
+            onClick={() => setReviewToDelete(null)}
+          />
+          <div className="fixed inset-0 z-70 flex items-center justify-center pointer-events-none">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700 p-6 w-full max-w-md mx-4 pointer-events-auto">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+                Delete Photo
+              </h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                The photo will be removed from the {reviewToDelete.parentType}{" "}
+                and deleted from Storage, and {reviewToDelete.authorName} will
+                be notified. This cannot be undone.
+              </p>
+              <textarea
+                value={deleteReason}
+                onChange={(e) => setDeleteReason(e.target.value)}
+                placeholder="Reason shown to the author (optional)"
+                rows={3}
+                className="w-full mb-6 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              />
+              <div className="flex justify-end gap-3">
+                <button
+                  onClick={() => setReviewToDelete(null)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={confirmDelete}
+                  className="px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg transition-colors"
+                >
+                  Delete Photo
+                </button>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+
+      <PostDetailDrawer
+        post={selectedPost}
+        isOpen={selectedPost !== null}
+        onClose={() => setSelectedPost(null)}
+      />
+
+      <AnnouncementDetailDrawer
+        announcement={selectedAnnouncement}
+        isOpen={selectedAnnouncement !== null}
+        onClose={() => setSelectedAnnouncement(null)}
+      />
+    </div>
+  );
+}
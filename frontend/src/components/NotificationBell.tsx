@@ -68,6 +68,8 @@ export default function NotificationBell({
       (error) => {
         console.error("Error subscribing to posts for notifications:", error);
       },
+      // Only reported posts can reach the urgent threshold
+      { minReportCount: 1 },
     );
 
     return () => {
@@ -4,6 +4,7 @@ import Link from "next/link";
 import { Icons } from "../utils/icons";
 import { auth } from "@/lib/firebase";
 import { signOut } from "firebase/auth";
+import GlobalSearch from "./GlobalSearch";
 
 export default function Sidebar() {
   const router = useRouter();
@@ -60,6 +61,21 @@ export default function Sidebar() {
           label: "Reports",
           icon: Icons.reports,
         },
+        {
+          href: "/appeals",
+          label: "Appeals",
+          icon: Icons.appeals,
+        },
+        {
+          href: "/media",
+          label: "Media Review",
+          icon: Icons.media,
+        },
+        {
+          href: "/audit",
+          label: "Audit Log",
+          icon: Icons.audit,
+        },
       ],
     },
     {
@@ -107,6 +123,10 @@ export default function Sidebar() {
         </div>
       </div>
 
+      <div className="px-4 pb-4">
+        <GlobalSearch />
+      </div>
+
       {/* Divisor below logo */}
       <div className="border-t border-gray-200 dark:border-gray-700 mx-4"></div>
 
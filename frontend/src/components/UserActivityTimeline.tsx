@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  UserActivityItem,
+  UserActivityKind,
+  USER_ACTIVITY_KIND_LABELS,
+  getUserActivityKindColor,
+} from "@/types/export";
+import { fetchUserActivity } from "@/lib/firestore/userActivity";
+import { SearchIcon } from "@/components/ui/icons";
+
+interface UserActivityTimelineProps {
+  userId: string;
+}
+
+// Converts a yyyy-mm-dd date input into a timestamp bound in the admin's timezone
+const toRangeBound = (date: string, endOfDay: boolean): number | null => {
+  if (!date) return null;
+  return new Date(
+    `${date}T${endOfDay ? "23:59:59.999" : "00:00:00"}`,
+  ).getTime();
+};
+
+export default function UserActivityTimeline({
+  userId,
+}: UserActivityTimelineProps) {
+  const [items, setItems] = useState<UserActivityItem[]>([]);
+  const [failedKinds, setFailedKinds] = useState<UserActivityKind[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<UserActivityKind | "all">("all");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+
+  // Mounted once per user (the profile page keys it by user id)
+  useEffect(() => {
+    fetchUserActivity(userId)
+      .then((activity) => {
+        setItems(activity.items);
+        setFailedKinds(activity.failedKinds);
+        setError(null);
+      })
+      .catch((err) => {
+        console.error("Error fetching user activity:", err);
+        setError("Failed to load activity");
+      })
+      .finally(() => setLoading(false));
+  }, [userId]);
+
+  const kinds = Object.keys(USER_ACTIVITY_KIND_LABELS) as UserActivityKind[];
+  const from = toRangeBound(startDate, false);
+  const to = toRangeBound(endDate, true);
+
+  // Tab counts follow the search and date filters so they match what each tab shows
+  const matchingItems = items.filter((item) => {
+    const term = searchTerm.toLowerCase();
+    const time = new Date(item.date).getTime();
+    return (
+      (from === null || time >= from) &&
+      (to === null || time <= to) &&
+      (term === "" ||
+        item.title.toLowerCase().includes(term) ||
+        item.detail.toLowerCase().includes(term) ||
+        (item.status || "").toLowerCase().includes(term))
+    );
+  });
+
+  const visibleItems =
+    activeTab === "all"
+      ? matchingItems
+      : matchingItems.filter((item) => item.kind === activeTab);
+
+  const countFor = (kind: UserActivityKind) =>
+    matchingItems.filter((item) => item.kind === kind).length;
+
+  const tabClassName = (selected: boolean) =>
+    `px-3 py-2 text-sm font-medium rounded-lg whitespace-nowrap transition-colors ${
+      selected
+        ? "bg-purple-600 text-white"
+        : "text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+    }`;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+      {/* Tabs */}
+      <div className="px-6 pt-6 flex space-x-2 overflow-x-auto">
+        <button
+          onClick={() => setActiveTab("all")}
+          className={tabClassName(activeTab === "all")}
+        >
+          All ({matchingItems.length})
+        </button>
+        {kinds.map((kind) => (
+          <button
+            key={kind}
+            onClick={() => setActiveTab(kind)}
+            className={tabClassName(activeTab === kind)}
+          >
+            {USER_ACTIVITY_KIND_LABELS[kind]} ({countFor(kind)})
+          </button>
+        ))}
+      </div>
+
+      {/* Search and Filters */}
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="relative md:col-span-2">
+            <SearchIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Search titles, details or statuses..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10 pr-4 py-2 w-full border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+          </div>
+          <input
+            type="date"
+            value={startDate}
+            max={endDate || undefined}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            title="From date"
+          />
+          <input
+            type="date"
+            value={endDate}
+            min={startDate || undefined}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            title="To date"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="px-6 py-3 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+      {failedKinds.length > 0 && (
+        <div className="px-6 py-3 text-sm text-yellow-700 dark:text-yellow-400">
+          Could not load:{" "}
+          {failedKinds.map((kind) => USER_ACTIVITY_KIND_LABELS[kind]).join(", ")}
+        </div>
+      )}
+
+      {/* Timeline */}
+      <div className="p-6">
+        {loading ? (
+          <div className="py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-500 mx-auto"></div>
+          </div>
+        ) : visibleItems.length === 0 ? (
+          <div className="py-12 text-center text-sm text-gray-500 dark:text-gray-400">
+            No activity found.
+          </div>
+        ) : (
+          <ol className="relative border-l border-gray-200 dark:border-gray-700 space-y-6 ml-2">
+            {visibleItems.map((item) => (
+              <li key={item.id} className="ml-6">
+                <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-purple-500 border-2 border-white dark:border-gray-800"></span>
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span
+                      className={`px-2 py-1 text-xs font-medium rounded-full shrink-0 ${getUserActivityKindColor(item.kind)}`}
+                    >
+                      {USER_ACTIVITY_KIND_LABELS[item.kind]}
+                    </span>
+                    {item.href ? (
+                      <Link
+                        href={item.href}
+                        className="text-sm font-medium text-purple-600 dark:text-purple-400 hover:underline truncate"
+                      >
+                        {item.title}
+                      </Link>
+                    ) : (
+                      <span className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                        {item.title}
+                      </span>
+                    )}
+                  </div>
+                  <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {item.date ? new Date(item.date).toLocaleString() : "—"}
+                  </span>
+                </div>
+                {item.detail && (
+                  <p className="mt-1 text-sm text-gray-600 dark:text-gray-300 break-words">
+                    {item.detail}
+                  </p>
+                )}
+                {item.status && (
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 capitalize">
+                    {item.status.replace(/_/g, " ")}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import React, { useState } from "react";
+import {
+  Appeal,
+  APPEAL_STATUS,
+  SANCTION_TYPE_LABELS,
+  getAppealStatusColor,
+} from "@/types/export";
+import { decideAppeal, AppealDecision } from "@/lib/firestore/appeals";
+import { useToast } from "@/contexts/ToastContext";
+
+// Labels for the reversals recorded by the decideAppeal Cloud Function
+const REVERSED_ACTION_LABELS: Record<string, string> = {
+  post_restored: "Post restored",
+  warning_removed: "Warning removed",
+  posting_restriction_lifted: "Posting restriction lifted",
+  suspension_lifted: "Suspension lifted",
+  ban_lifted: "Ban lifted",
+};
+
+// What granting each kind of appeal will undo
+const GRANT_EFFECTS: Record<string, string> = {
+  post_removal: "The removed post will be restored.",
+  warning:
+    "One warning will be taken back, along with the restriction, suspension or ban it led to, and the related post restored if it was removed.",
+  suspension: "The suspension will be lifted immediately.",
+  ban: "The ban will be lifted.",
+};
+
+interface AppealDetailDrawerProps {
+  appeal: Appeal | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function AppealDetailDrawer({
+  appeal,
+  isOpen,
+  onClose,
+}: AppealDetailDrawerProps) {
+  const toast = useToast();
+  const [response, setResponse] = useState("");
+  const [processing, setProcessing] = useState<AppealDecision | null>(null);
+
+  if (!isOpen || !appeal) return null;
+
+  const isPending = appeal.status === APPEAL_STATUS.PENDING;
+
+  const handleDecision = async (decision: AppealDecision) => {
+    setProcessing(decision);
+    try {
+      await decideAppeal(appeal.id, decision, response || undefined);
+      toast.success(
+        decision === "granted"
+          ? "Appeal granted and sanction reversed"
+          : "Appeal denied",
+      );
+      setResponse("");
+    } catch (error) {
+      console.error("Error deciding appeal:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to decide appeal",
+      );
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return "—";
+    return new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 z-40" onClick={onClose} />
+
+      {/* Drawer */}
+      <div className="fixed right-0 top-0 h-full w-125 bg-white dark:bg-gray-800 shadow-xl z-50 transform transition-transform duration-300 ease-in-out flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700 shrink-0">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+            Appeal Details
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+          >
+            <svg
+              className="w-6 h-6"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6 flex-1 overflow-y-auto">
+          {/* Status Badge */}
+          <div className="flex justify-between items-start">
+            <span
+              className={`px-3 py-1 text-sm font-medium rounded-full capitalize ${getAppealStatusColor(appeal.status)}`}
+            >
+              {appeal.status}
+            </span>
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              ID: {appeal.id}
+            </span>
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                User
+              </label>
+              <div className="bg-gray-50 dark:bg-gray-700 p-2 rounded">
+                <p className="text-sm text-gray-900 dark:text-white">
+                  {appeal.userName || "Unknown User"}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  ID: {appeal.userId}
+                </p>
+              </div>
+            </div>
+
+            {/* Sanction being appealed */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Sanction
+              </label>
+              <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-lg space-y-1">
+                <p className="text-sm font-medium text-gray-900 dark:text-white">
+                  {appeal.sanctionType
+                    ? SANCTION_TYPE_LABELS[appeal.sanctionType]
+                    : "Unknown"}
+                  {appeal.sanctionTitle && ` — ${appeal.sanctionTitle}`}
+                </p>
+                {appeal.sanctionMessage && (
+                  <p className="text-sm text-gray-600 dark:text-gray-300">
+                    {appeal.sanctionMessage}
+                  </p>
+                )}
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Issued {formatDate(appeal.sanctionIssuedAt)}
+                </p>
+                {appeal.relatedPostId && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 font-mono">
+                    Post ID: {appeal.relatedPostId}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Appeal
+              </label>
+              <div className="text-sm text-gray-900 dark:text-white bg-gray-50 dark:bg-gray-700 p-3 rounded-lg max-h-40 overflow-y-auto whitespace-pre-wrap">
+                {appeal.message}
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Submitted {formatDate(appeal.createdAt)}
+              </p>
+            </div>
+          </div>
+
+          {/* Decision */}
+          {isPending ? (
+            <div className="space-y-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+              {appeal.sanctionType && (
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  Granting: {GRANT_EFFECTS[appeal.sanctionType]}
+                </p>
+              )}
+              <textarea
+                value={response}
+                onChange={(e) => setResponse(e.target.value)}
+                rows={3}
+                placeholder="Response to the user (optional)"
+                className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => handleDecision("denied")}
+                  disabled={processing !== null}
+                  className="flex-1 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-lg hover:bg-gray-200 transition-colors dark:text-gray-300 dark:bg-gray-700 dark:border-gray-600 dark:hover:bg-gray-600 disabled:opacity-50"
+                >
+                  {processing === "denied" ? "Processing..." : "Deny"}
+                </button>
+                <button
+                  onClick={() => handleDecision("granted")}
+                  disabled={processing !== null}
+                  className="flex-1 px-4 py-2 text-sm font-medium text-white bg-green-600 border border-green-600 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                >
+                  {processing === "granted" ? "Processing..." : "Grant"}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2 pt-4 border-t border-gray-200 dark:border-gray-700">
+              <p className="text-sm text-gray-700 dark:text-gray-300">
+                Decided {formatDate(appeal.decidedAt)}
+                {appeal.decidedByEmail && ` by ${appeal.decidedByEmail}`}
+              </p>
+              {appeal.response && (
+                <div className="text-sm text-gray-900 dark:text-white bg-gray-50 dark:bg-gray-700 p-3 rounded-lg">
+                  {appeal.response}
+                </div>
+              )}
+              {appeal.reversedActions.length > 0 && (
+                <ul className="text-xs text-green-700 dark:text-green-400 space-y-1">
+                  {appeal.reversedActions.map((action) => (
+                    <li key={action}>
+                      • {REVERSED_ACTION_LABELS[action] || action}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -1,18 +1,26 @@
 import React, { useEffect, useState } from "react";
-import { Post, POST_STATUS, USER_STATUS } from "@/types/export";
+import {
+  ContentFilterMatch,
+  CONTENT_FILTER_ACTION_LABELS,
+  DuplicateImageMatch,
+  MEDIA_PARENT_TYPE_LABELS,
+  Post,
+  PostRevision,
+  POST_STATUS,
+  USER_STATUS,
+  getContentFilterActionColor,
+  getUserStatusIndicator,
+} from "@/types/export";
 import { User } from "@/types";
 import { useAdminConfiguration } from "@/hooks/useAdminConfiguration";
-import { sendWarningNotificationToUser } from "@/lib/firestore/notifications";
-import { sendTemporaryBan } from "@/lib/notifications";
-import {
-  incrementUserWarningCount,
-  fetchUserById,
-  updateUserStatus,
-} from "@/lib/firestore/users";
-import { useAuthState } from "react-firebase-hooks/auth";
-import { auth } from "@/lib/firebase";
+import { fetchUserById } from "@/lib/firestore/users";
+import { formatBulkFailures, moderateUser } from "@/lib/firestore/moderation";
+import { getPostRevisions } from "@/lib/firestore/posts";
+import { getReportsByPostId } from "@/lib/firestore/reports";
+import { diffText } from "@/utils/textDiff";
 import UserDetailDrawer from "./UserDetailDrawer";
 import { useStorageUrl } from "@/lib/storageUtils";
+import { useToast } from "@/contexts/ToastContext";
 
 // Component to display individual photo (needed for hook usage)
 function PostPhoto({
@@ -192,12 +200,306 @@ function FullScreenPhotoModal({
   );
 }
 
+// Wraps the text matched by content filter rules in <mark>, merging overlapping ranges
+function HighlightedContent({
+  content,
+  matches,
+}: {
+  content: string;
+  matches: ContentFilterMatch[];
+}) {
+  const ranges = matches
+    .filter(
+      (match) =>
+        match.start >= 0 &&
+        match.end > match.start &&
+        match.end <= content.length,
+    )
+    .map((match) => ({ start: match.start, end: match.end }))
+    .sort((a, b) => a.start - b.start)
+    .reduce<{ start: number; end: number }[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+      return merged;
+    }, []);
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach((range) => {
+    if (range.start > cursor) {
+      parts.push(content.slice(cursor, range.start));
+    }
+    parts.push(
+      <mark
+        key={range.start}
+        className="bg-yellow-200 dark:bg-yellow-600 text-gray-900 dark:text-white rounded px-0.5"
+      >
+        {content.slice(range.start, range.end)}
+      </mark>,
+    );
+    cursor = range.end;
+  });
+  parts.push(content.slice(cursor));
+
+  return <>{parts}</>;
+}
+
+// Renders a diff with removed text struck through in red and added text in green
+function TextDiff({ before, after }: { before: string; after: string }) {
+  return (
+    <>
+      {diffText(before, after).map((part, index) =>
+        part.type === "removed" ? (
+          <del
+            key={index}
+            className="bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300"
+          >
+            {part.text}
+          </del>
+        ) : part.type === "added" ? (
+          <ins
+            key={index}
+            className="no-underline bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300"
+          >
+            {part.text}
+          </ins>
+        ) : (
+          <span key={index}>{part.text}</span>
+        ),
+      )}
+    </>
+  );
+}
+
+// Edit history of a post; each version is diffed against the text first reported,
+// or against the version before it when the post has no reports
+function PostRevisionTimeline({ postId }: { postId: string }) {
+  const [revisions, setRevisions] = useState<PostRevision[]>([]);
+  const [reportedText, setReportedText] = useState<{
+    content: string;
+    reportDate: string;
+  } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([getPostRevisions(postId), getReportsByPostId(postId)])
+      .then(([postRevisions, reports]) => {
+        if (cancelled) return;
+        // Reports come newest first; the oldest one shows what was first reported
+        const firstReport = [...reports]
+          .reverse()
+          .find((report) => report.postContent);
+        setRevisions(postRevisions);
+        setReportedText(
+          firstReport
+            ? {
+                content: firstReport.postContent,
+                reportDate: firstReport.reportDate,
+              }
+            : null,
+        );
+      })
+      .catch((error) => {
+        console.error("Error loading post history:", error);
+        if (!cancelled) setLoadError(true);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [postId]);
+
+  if (loading) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Loading edit history...
+      </p>
+    );
+  }
+
+  if (loadError) {
+    return (
+      <p className="text-sm text-red-600 dark:text-red-400">
+        Failed to load edit history
+      </p>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        This post has not been edited.
+      </p>
+    );
+  }
+
+  const versions = [
+    {
+      key: "original",
+      label: "Original",
+      date: null as string | null,
+      content: revisions[0].previousContent,
+      previousContent: revisions[0].previousContent,
+      photoChange: null as { added: number; removed: number } | null,
+    },
+    ...revisions.map((revision) => ({
+      key: revision.id,
+      label: `Edit ${revision.revision}`,
+      date: revision.editedAt,
+      content: revision.content,
+      previousContent: revision.previousContent,
+      photoChange: {
+        added: revision.photoPaths.filter(
+          (path) => !revision.previousPhotoPaths.includes(path),
+        ).length,
+        removed: revision.previousPhotoPaths.filter(
+          (path) => !revision.photoPaths.includes(path),
+        ).length,
+      },
+    })),
+  ];
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {reportedText
+          ? `Changes compared with the text reported on ${new Date(reportedText.reportDate).toLocaleString()}`
+          : "Changes compared with the version before each edit"}
+      </p>
+      <ol className="relative border-l border-gray-200 dark:border-gray-600 ml-2 space-y-4">
+        {versions.map((version) => (
+          <li key={version.key} className="ml-4">
+            <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-purple-500 border-2 border-white dark:border-gray-800" />
+            <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400 mb-1">
+              <span className="font-medium text-gray-700 dark:text-gray-300">
+                {version.label}
+              </span>
+              {version.date && (
+                <span>{new Date(version.date).toLocaleString()}</span>
+              )}
+              {reportedText && version.content === reportedText.content && (
+                <span className="px-1.5 py-0.5 rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300">
+                  as reported
+                </span>
+              )}
+            </div>
+            <div className="text-sm text-gray-900 dark:text-white bg-gray-50 dark:bg-gray-700 p-2 rounded whitespace-pre-wrap break-words">
+              <TextDiff
+                before={reportedText?.content ?? version.previousContent}
+                after={version.content}
+              />
+            </div>
+            {version.photoChange &&
+              (version.photoChange.added > 0 ||
+                version.photoChange.removed > 0) && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Photos: {version.photoChange.added} added,{" "}
+                  {version.photoChange.removed} removed
+                </p>
+              )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+// One side of a duplicate image comparison; the removed original may have been deleted since
+function ComparisonPhoto({
+  photoPath,
+  label,
+  onClick,
+}: {
+  photoPath: string;
+  label: string;
+  onClick: () => void;
+}) {
+  const { url: photoUrl, loading } = useStorageUrl(photoPath);
+
+  return (
+    <div>
+      <p className="text-xs text-gray-600 dark:text-gray-400 mb-1 truncate">
+        {label}
+      </p>
+      {loading ? (
+        <div className="w-full h-32 bg-gray-200 dark:bg-gray-700 rounded-lg animate-pulse" />
+      ) : photoUrl ? (
+        <img
+          src={photoUrl}
+          alt={label}
+          className="w-full h-32 object-cover rounded-lg cursor-pointer hover:opacity-90 transition-opacity"
+          onClick={onClick}
+        />
+      ) : (
+        <div className="w-full h-32 bg-gray-100 dark:bg-gray-700 rounded-lg flex items-center justify-center p-2">
+          <span className="text-xs text-center text-gray-500 dark:text-gray-400">
+            Photo no longer in Storage
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Each photo of the post next to the removed photo its perceptual hash matched
+function DuplicateImageComparison({
+  matches,
+  onPhotoClick,
+}: {
+  matches: DuplicateImageMatch[];
+  onPhotoClick: (photoPath: string) => void;
+}) {
+  return (
+    <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+      <h4 className="text-sm font-medium text-red-800 dark:text-red-300">
+        Matches a Removed Photo
+      </h4>
+      <p className="text-xs text-red-700 dark:text-red-400 mt-1 mb-3">
+        This post was flagged because a photo looks like one moderators removed
+        before.
+      </p>
+      <div className="space-y-3">
+        {matches.map((match) => (
+          <div key={`${match.path}-${match.matchedPath}`}>
+            <div className="grid grid-cols-2 gap-2">
+              <ComparisonPhoto
+                photoPath={match.path}
+                label="This post"
+                onClick={() => onPhotoClick(match.path)}
+              />
+              <ComparisonPhoto
+                photoPath={match.matchedPath}
+                label={`Removed ${MEDIA_PARENT_TYPE_LABELS[match.matchedParentType].toLowerCase()} ${match.matchedParentId}`}
+                onClick={() => onPhotoClick(match.matchedPath)}
+              />
+            </div>
+            <p className="text-xs text-red-700 dark:text-red-400 mt-1">
+              {Math.round((1 - match.distance / 64) * 100)}% similar
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 interface PostDetailDrawerProps {
   post: Post | null;
   isOpen: boolean;
   onClose: () => void;
   onWarn?: (postId: string) => void;
   onRemove?: (postId: string) => void;
+  onRestore?: (postId: string) => void;
 }
 
 export default function PostDetailDrawer({
@@ -206,15 +508,16 @@ export default function PostDetailDrawer({
   onClose,
   onWarn,
   onRemove,
+  onRestore,
 }: PostDetailDrawerProps) {
   const { config, loading: configLoading } = useAdminConfiguration();
-  const [user] = useAuthState(auth);
   const [showConfirmModal, setShowConfirmModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [isUserDrawerOpen, setIsUserDrawerOpen] = useState(false);
   const [loadingUser, setLoadingUser] = useState(false);
   const [fullScreenPhoto, setFullScreenPhoto] = useState<string | null>(null);
+  const toast = useToast();
 
   if (!isOpen || !post) return null;
 
@@ -232,32 +535,13 @@ export default function PostDetailDrawer({
   };
 
   // Actually execute the warning after confirmation
-  const confirmWarn = async () => {
-    if (!onWarn || !post || !user) return;
-
-    try {
-      // First update the post status
-      onWarn(post.id);
+  const confirmWarn = () => {
+    if (!onWarn || !post) return;
 
-      // Then send notification to the user
-      await sendWarningNotificationToUser(post.user.id, post.id, user.uid);
-
-      // Increment user warning count
-      await incrementUserWarningCount(post.user.id);
-
-      console.log(
-        "Warning notification sent to user and warning count incremented:",
-        post.user.id,
-      );
-      setShowConfirmModal(false);
-    } catch (error) {
-      console.error(
-        "Error sending warning notification or incrementing warning count:",
-        error,
-      );
-      // Still proceed with the warning even if notification/increment fails
-      setShowConfirmModal(false);
-    }
+    // The table runs the removal, report resolution and author warning
+    // server-side once the admin has sent the warning notification
+    onWarn(post.id);
+    setShowConfirmModal(false);
   };
 
   // Cancel warning
@@ -318,21 +602,23 @@ export default function PostDetailDrawer({
   // Handle warning user from user detail drawer
   const handleUserWarn = async (userId: string) => {
     try {
-      // Increment warning count
-      await incrementUserWarningCount(userId);
-
-      // Update user status to warning if not already banned
-      if (selectedUser && selectedUser.status !== USER_STATUS.BANNED) {
-        await updateUserStatus(userId, USER_STATUS.WARNING);
+      // Warning count, post/report updates and suspend/ban escalation run server-side
+      const result = await moderateUser(userId, "warn", {
+        relatedPostId: post?.id,
+      });
 
-        // Update selected user state to reflect changes
-        const updatedUser = await fetchUserById(userId);
-        if (updatedUser) {
-          setSelectedUser(updatedUser);
-        }
+      // Update selected user state to reflect changes
+      const updatedUser = await fetchUserById(userId);
+      if (updatedUser) {
+        setSelectedUser(updatedUser);
       }
 
-      console.log("User warned successfully:", userId);
+      console.log(`User warned successfully (${result.escalation}):`, userId);
+      if (result.failed.length > 0) {
+        toast.warning(
+          `User warned, but ${result.failed.length} post(s)/report(s) could not be updated: ${formatBulkFailures(result.failed)}`,
+        );
+      }
     } catch (error) {
       console.error("Error warning user:", error);
     }
@@ -344,36 +630,11 @@ export default function PostDetailDrawer({
     currentStatus: string,
   ) => {
     try {
-      const newStatus =
-        currentStatus === USER_STATUS.SUSPENDED
-          ? USER_STATUS.ACTIVE
-          : USER_STATUS.SUSPENDED;
-      await updateUserStatus(
-        userId,
-        newStatus,
-        config?.suspendDurationDays || 30,
-      );
+      const action =
+        currentStatus === USER_STATUS.SUSPENDED ? "unsuspend" : "suspend";
 
-      // Send notification if suspending (not unsuspending)
-      if (newStatus === USER_STATUS.SUSPENDED) {
-        try {
-          const duration = config?.suspendDurationDays
-            ? `${config.suspendDurationDays} days`
-            : "30 days";
-          await sendTemporaryBan(
-            userId,
-            user?.uid || "admin",
-            duration,
-            "Manual suspension by admin",
-            post?.id,
-          );
-          console.log(
-            `Temporary suspension notification sent to user ${userId}`,
-          );
-        } catch (error) {
-          console.error("Error sending suspension notification:", error);
-        }
-      }
+      // Suspension notification is sent by the Cloud Function
+      await moderateUser(userId, action, { relatedPostId: post?.id });
 
       // Update selected user state to reflect changes
       const updatedUser = await fetchUserById(userId);
@@ -382,7 +643,7 @@ export default function PostDetailDrawer({
       }
 
       console.log(
-        `User ${newStatus === USER_STATUS.SUSPENDED ? "suspended" : "unsuspended"} successfully:`,
+        `User ${action === "suspend" ? "suspended" : "unsuspended"} successfully:`,
         userId,
       );
     } catch (error) {
@@ -398,6 +659,8 @@ export default function PostDetailDrawer({
         return "bg-yellow-100 text-yellow-800 border-yellow-200";
       case POST_STATUS.REMOVED:
         return "bg-red-100 text-red-800 border-red-200";
+      case POST_STATUS.UNDER_REVIEW:
+        return "bg-orange-100 text-orange-800 border-orange-200";
       default:
         return "bg-gray-100 text-gray-800 border-gray-200";
     }
@@ -452,13 +715,72 @@ export default function PostDetailDrawer({
             <span
               className={`px-3 py-1 text-sm font-medium rounded-full border ${getStatusColor(post.status)}`}
             >
-              {post.status.charAt(0).toUpperCase() + post.status.slice(1)}
+              {post.status.charAt(0).toUpperCase() +
+                post.status.slice(1).replace(/_/g, " ")}
             </span>
             <span className="text-xs text-gray-500 dark:text-gray-400">
               ID: {post.id}
             </span>
           </div>
 
+          {/* Held for review notice */}
+          {post.status === POST_STATUS.UNDER_REVIEW && (
+            <div className="p-3 bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800 rounded-lg">
+              <h4 className="text-sm font-medium text-orange-800 dark:text-orange-300">
+                Hidden for Review
+              </h4>
+              <p className="text-sm text-orange-700 dark:text-orange-400 mt-1">
+                {post.heldReason ||
+                  "This post was hidden automatically after reaching the urgent report threshold."}{" "}
+                Restore it to make it visible again, or remove it.
+              </p>
+            </div>
+          )}
+
+          {/* Content filter notice */}
+          {post.contentFilter && post.contentFilter.matches.length > 0 && (
+            <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-medium text-yellow-800 dark:text-yellow-300">
+                  Auto-flagged by Content Filter
+                </h4>
+                <span
+                  className={`px-2 py-0.5 text-xs font-medium rounded-full ${getContentFilterActionColor(post.contentFilter.action)}`}
+                >
+                  {CONTENT_FILTER_ACTION_LABELS[post.contentFilter.action]}
+                </span>
+              </div>
+              <ul className="mt-2 space-y-1">
+                {[
+                  ...new Map(
+                    post.contentFilter.matches.map((match) => [
+                      match.ruleId,
+                      match,
+                    ]),
+                  ).values(),
+                ].map((match) => (
+                  <li
+                    key={match.ruleId}
+                    className="text-xs text-yellow-700 dark:text-yellow-400"
+                  >
+                    <span className="uppercase">{match.ruleType}</span>{" "}
+                    <span className="font-mono">{match.pattern}</span> matched
+                    &ldquo;{match.matchedText}&rdquo;
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Duplicate image notice */}
+          {post.duplicateImageMatches &&
+            post.duplicateImageMatches.length > 0 && (
+              <DuplicateImageComparison
+                matches={post.duplicateImageMatches}
+                onPhotoClick={setFullScreenPhoto}
+              />
+            )}
+
           {/* Post Content */}
           <div className="space-y-4">
             <div>
@@ -466,7 +788,14 @@ export default function PostDetailDrawer({
                 Content
               </label>
               <div className="text-sm text-gray-900 dark:text-white bg-gray-50 dark:bg-gray-700 p-3 rounded-lg max-h-40 overflow-y-auto">
-                {post.content}
+                {post.contentFilter ? (
+                  <HighlightedContent
+                    content={post.content}
+                    matches={post.contentFilter.matches}
+                  />
+                ) : (
+                  post.content
+                )}
               </div>
             </div>
 
@@ -475,8 +804,16 @@ export default function PostDetailDrawer({
                 Author
               </label>
               <div className="flex items-center justify-between bg-gray-50 dark:bg-gray-700 p-2 rounded">
-                <span className="text-sm text-gray-900 dark:text-white">
+                <span className="flex items-center text-sm text-gray-900 dark:text-white">
                   {post.user.name}
+                  {post.author && post.author.status !== USER_STATUS.ACTIVE && (
+                    <span className="ml-2 flex items-center text-xs text-gray-500 dark:text-gray-400 capitalize">
+                      <span
+                        className={`w-2 h-2 rounded-full mr-1 ${getUserStatusIndicator(post.author.status)}`}
+                      />
+                      {post.author.status}
+                    </span>
+                  )}
                 </span>
                 <button
                   onClick={handleViewUser}
@@ -554,6 +891,24 @@ export default function PostDetailDrawer({
               </p>
             </div>
 
+            {post.expiresAt && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  {post.status === POST_STATUS.EXPIRED ? "Expired" : "Expires"}
+                </label>
+                <p className="text-sm text-gray-900 dark:text-white bg-gray-50 dark:bg-gray-700 p-2 rounded">
+                  {formatDate(post.expiresAt)}
+                </p>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Edit History
+              </label>
+              <PostRevisionTimeline key={post.id} postId={post.id} />
+            </div>
+
             <div className="grid grid-cols-3 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -658,6 +1013,28 @@ export default function PostDetailDrawer({
               </button>
             )}
 
+            {onRestore && post.status === POST_STATUS.UNDER_REVIEW && (
+              <button
+                onClick={() => onRestore(post.id)}
+                className="w-full px-4 py-2 text-sm font-medium text-green-700 bg-green-50 border border-green-200 rounded-lg hover:bg-green-100 transition-colors flex items-center justify-center space-x-2 dark:text-green-300 dark:bg-green-900/50 dark:border-green-800 dark:hover:bg-green-900/70"
+              >
+                <svg
+                  className="w-4 h-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                  />
+                </svg>
+                <span>Restore Post</span>
+              </button>
+            )}
+
             {onRemove && post.status !== POST_STATUS.REMOVED && (
               <button
                 onClick={handleRemove}
@@ -899,7 +1276,6 @@ export default function PostDetailDrawer({
         onWarn={handleUserWarn}
         onSuspendToggle={handleUserSuspendToggle}
         confirmActions={true}
-        suspendThreshold={config?.suspendThreshold || 5}
         suspendDurationDays={config?.suspendDurationDays || 30}
       />
 
@@ -1,33 +1,30 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import {
   Report,
   REPORT_STATUS,
   USER_STATUS,
-  POST_STATUS,
-  CATEGORY_SEVERITY_MAP,
   CATEGORY_LABELS,
   REPORT_SEVERITY,
   normalizeReportCategory,
+  getCategorySeverity,
 } from "@/types/export";
-import { User } from "@/types";
+import { ReporterStats, User } from "@/types";
+import { fetchUserById } from "@/lib/firestore/users";
+import { updateReportStatus } from "@/lib/firestore/reports";
 import {
-  fetchUserById,
-  incrementUserWarningCount,
-  updateUserStatus,
-} from "@/lib/firestore/users";
+  fetchReporterStats,
+  isLowAccuracyReporter,
+} from "@/lib/firestore/reporterStats";
 import {
-  updatePostStatus,
-  updatePostWarningStatus,
-} from "@/lib/firestore/posts";
-import {
-  updateReportStatus,
-  resolveReportsByPostId,
-} from "@/lib/firestore/reports";
-import { sendWarningNotificationToUser } from "@/lib/firestore/notifications";
-import { sendTemporaryBan } from "@/lib/notifications";
+  formatBulkFailures,
+  moderatePost,
+  moderateUser,
+} from "@/lib/firestore/moderation";
 import { useAuthState } from "react-firebase-hooks/auth";
 import { auth } from "@/lib/firebase";
+import { NextSanctionPreview } from "@/components/ui/NextSanctionPreview";
 import { useAdminConfiguration } from "@/hooks/useAdminConfiguration";
+import { useToast } from "@/contexts/ToastContext";
 import UserDetailDrawer from "./UserDetailDrawer";
 
 interface ReportDetailDrawerProps {
@@ -50,6 +47,7 @@ export default function ReportDetailDrawer({
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [isUserDrawerOpen, setIsUserDrawerOpen] = useState(false);
   const [loadingUserId, setLoadingUserId] = useState<string | null>(null);
+  const toast = useToast();
   const [dismissingReport, setDismissingReport] = useState(false);
   const [reportDismissed, setReportDismissed] = useState(false);
 
@@ -57,13 +55,46 @@ export default function ReportDetailDrawer({
   const [showRemoveWarnModal, setShowRemoveWarnModal] = useState(false);
   const [processing, setProcessing] = useState(false);
   const [actionCompleted, setActionCompleted] = useState(false);
+  const [reporterStats, setReporterStats] = useState<ReporterStats | null>(
+    null,
+  );
+
+  const reporterId = report?.reporter.id;
+
+  useEffect(() => {
+    if (!isOpen || !reporterId) return;
+
+    let cancelled = false;
+    fetchReporterStats(reporterId).then((stats) => {
+      if (!cancelled) setReporterStats(stats);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, reporterId]);
 
   if (!isOpen || !report) return null;
 
+  // Ignore stats still loaded for a previously opened report
+  const currentReporterStats =
+    reporterStats?.userId === report.reporter.id ? reporterStats : null;
+  const lowAccuracyReporter = isLowAccuracyReporter(
+    currentReporterStats,
+    config?.reporterReputation,
+  );
+
+  // Auto-removed reports are dismissed again when an admin restores the post
+  const isStillAutoRemoved =
+    report.autoRemoved === true && report.status === REPORT_STATUS.RESOLVED;
+
   const getStatusColor = (report: Report) => {
-    if (report.autoRemoved) {
+    if (isStillAutoRemoved) {
       return "bg-red-100 text-red-800 border-red-200";
     }
+    if (report.autoRemoved) {
+      return "bg-blue-100 text-blue-800 border-blue-200";
+    }
 
     const status = report.status;
     switch (status) {
@@ -78,18 +109,17 @@ export default function ReportDetailDrawer({
 
   const getStatusLabel = (report: Report) => {
     if (report.autoRemoved) {
-      return "Removed";
+      return isStillAutoRemoved ? "Removed" : "Restored";
     }
 
     return report.status.charAt(0).toUpperCase() + report.status.slice(1);
   };
 
   const getCategoryColor = (category: string) => {
-    const normalizedCategory = normalizeReportCategory(category);
-    const severity =
-      CATEGORY_SEVERITY_MAP[
-        normalizedCategory as keyof typeof CATEGORY_SEVERITY_MAP
-      ];
+    const severity = getCategorySeverity(
+      category,
+      config?.severityPolicy?.categorySeverity,
+    );
 
     switch (severity) {
       case REPORT_SEVERITY.HIGH:
@@ -125,34 +155,9 @@ export default function ReportDetailDrawer({
 
     setProcessing(true);
     try {
-      // Update post status to removed
-      await updatePostStatus(report.postId, POST_STATUS.REMOVED);
-
-      // Set post as warned
-      await updatePostWarningStatus(report.postId, true);
-
-      // Warning user: increment warning count
-      await incrementUserWarningCount(report.reported.id);
-
-      // Update user status to warning (if not suspended or banned)
-      const user = await fetchUserById(report.reported.id);
-      if (
-        user &&
-        user.status !== USER_STATUS.SUSPENDED &&
-        user.status !== USER_STATUS.BANNED
-      ) {
-        await updateUserStatus(report.reported.id, USER_STATUS.WARNING);
-      }
-
-      // Send warning notification
-      await sendWarningNotificationToUser(
-        report.reported.id,
-        report.postId,
-        authUser.uid,
-      );
-
-      // Auto-resolve all related reports since post is warned
-      await resolveReportsByPostId(report.postId);
+      // Remove the post, set it as warned, warn the user (with suspend/ban
+      // escalation), notify them and resolve all related reports in one transaction
+      await moderatePost(report.postId, "remove_and_warn");
 
       setActionCompleted(true);
       setShowRemoveWarnModal(false);
@@ -213,15 +218,16 @@ export default function ReportDetailDrawer({
   // Handle warning user from user detail drawer
   const handleUserWarn = async (userId: string) => {
     try {
-      await incrementUserWarningCount(userId);
-      if (
-        selectedUser &&
-        selectedUser.status !== USER_STATUS.SUSPENDED &&
-        selectedUser.status !== USER_STATUS.BANNED
-      ) {
-        await updateUserStatus(userId, USER_STATUS.WARNING);
-        const updatedUser = await fetchUserById(userId);
-        if (updatedUser) setSelectedUser(updatedUser);
+      // Warning count, post/report updates and suspend/ban escalation run server-side
+      const result = await moderateUser(userId, "warn", {
+        relatedPostId: report?.postId,
+      });
+      const updatedUser = await fetchUserById(userId);
+      if (updatedUser) setSelectedUser(updatedUser);
+      if (result.failed.length > 0) {
+        toast.warning(
+          `User warned, but ${result.failed.length} post(s)/report(s) could not be updated: ${formatBulkFailures(result.failed)}`,
+        );
       }
     } catch (error) {
       console.error("Error warning user:", error);
@@ -234,36 +240,11 @@ export default function ReportDetailDrawer({
     currentStatus: string,
   ) => {
     try {
-      const newStatus =
-        currentStatus === USER_STATUS.SUSPENDED
-          ? USER_STATUS.ACTIVE
-          : USER_STATUS.SUSPENDED;
-      await updateUserStatus(
-        userId,
-        newStatus,
-        config?.suspendDurationDays || 30,
-      );
-
-      // Send notification if suspending (not unsuspending)
-      if (newStatus === USER_STATUS.SUSPENDED) {
-        try {
-          const duration = config?.suspendDurationDays
-            ? `${config.suspendDurationDays} days`
-            : "30 days";
-          await sendTemporaryBan(
-            userId,
-            authUser?.uid || "admin",
-            duration,
-            "Manual suspension by admin",
-            report?.postId,
-          );
-          console.log(
-            `Temporary suspension notification sent to user ${userId}`,
-          );
-        } catch (error) {
-          console.error("Error sending suspension notification:", error);
-        }
-      }
+      const action =
+        currentStatus === USER_STATUS.SUSPENDED ? "unsuspend" : "suspend";
+
+      // Suspension notification is sent by the Cloud Function
+      await moderateUser(userId, action, { relatedPostId: report?.postId });
 
       const updatedUser = await fetchUserById(userId);
       if (updatedUser) setSelectedUser(updatedUser);
@@ -387,6 +368,33 @@ export default function ReportDetailDrawer({
                 </span>
                 <ViewButton userId={report.reporter.id} />
               </div>
+              {currentReporterStats && (
+                <div className="flex items-center justify-between mt-1 text-xs">
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {currentReporterStats.resolvedCount} upheld ·{" "}
+                    {currentReporterStats.dismissedCount} dismissed ·{" "}
+                    {currentReporterStats.pendingCount} pending
+                  </span>
+                  <span
+                    className={`px-2 py-0.5 font-medium rounded-full ${
+                      lowAccuracyReporter
+                        ? "bg-red-100 text-red-800"
+                        : "bg-gray-100 text-gray-800"
+                    }`}
+                  >
+                    {currentReporterStats.accuracy === null
+                      ? "No decided reports"
+                      : `${currentReporterStats.accuracy}% accurate`}
+                  </span>
+                </div>
+              )}
+              {report.lowReporterAccuracy && (
+                <p className="mt-1 text-xs text-amber-700 dark:text-amber-300">
+                  Auto-removal was skipped because this reporter&apos;s
+                  accuracy ({report.reporterAccuracy ?? "?"}%) was below the
+                  configured minimum.
+                </p>
+              )}
             </div>
 
             <div>
@@ -607,6 +615,11 @@ export default function ReportDetailDrawer({
                       <li>• This action cannot be undone</li>
                     </ul>
                   </div>
+
+                  <NextSanctionPreview
+                    userId={report.reported.id}
+                    className="mt-4"
+                  />
                 </div>
 
                 {/* Actions */}
@@ -676,7 +689,6 @@ export default function ReportDetailDrawer({
         onWarn={handleUserWarn}
         onSuspendToggle={handleUserSuspendToggle}
         confirmActions={true}
-        suspendThreshold={config?.suspendThreshold || 5}
         suspendDurationDays={config?.suspendDurationDays || 30}
       />
     </>
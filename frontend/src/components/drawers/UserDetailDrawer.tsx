@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from "react";
+import Link from "next/link";
 import {
   User,
   USER_STATUS,
@@ -6,13 +7,47 @@ import {
   getPostCategoryIndicator,
   ActionColors,
   StatisticsColors,
+  MODERATION_ACTION_LABELS,
+  getModerationActionColor,
+  WARNING_STATUS,
+  getWarningStatusColor,
+  USER_RESTRICTION_LABELS,
+  USER_RESTRICTION_DESCRIPTIONS,
+  UserRestrictionType,
 } from "@/types/export";
 import { fetchUserById } from "@/lib/firestore/users";
-import { Post } from "@/types";
+import { fetchUserModerationLogs } from "@/lib/firestore/moderationLogs";
+import { fetchUserWarnings } from "@/lib/firestore/warnings";
+import {
+  fetchUserRestrictions,
+  restrictUser,
+  liftUserRestriction,
+} from "@/lib/firestore/restrictions";
+import {
+  fetchReporterStats,
+  isLowAccuracyReporter,
+} from "@/lib/firestore/reporterStats";
+import {
+  fetchDailyPostCount,
+  setDailyPostLimitOverride,
+} from "@/lib/firestore/postLimits";
+import { useAdminConfiguration } from "@/hooks/useAdminConfiguration";
+import { NextSanctionPreview } from "@/components/ui/NextSanctionPreview";
+import { useToast } from "@/contexts/ToastContext";
+import {
+  Post,
+  ModerationLog,
+  ReporterStats,
+  DailyPostCount,
+  WarningRecord,
+  ActiveUserRestriction,
+} from "@/types";
 import { collection, getDocs, query, where, orderBy } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import UserPostsDrawer from "./UserPostsDrawer";
 
+const DEFAULT_RESTRICTION_DAYS = "7";
+
 interface UserDetailDrawerProps {
   user: User | null;
   isOpen: boolean;
@@ -20,7 +55,6 @@ interface UserDetailDrawerProps {
   onWarn?: (userId: string) => void;
   onSuspendToggle?: (userId: string, currentStatus: string) => void;
   confirmActions?: boolean;
-  suspendThreshold?: number;
   suspendDurationDays?: number;
 }
 
@@ -31,7 +65,6 @@ export default function UserDetailDrawer({
   onWarn,
   onSuspendToggle,
   confirmActions = false,
-  suspendThreshold = 5,
   suspendDurationDays = 30,
 }: UserDetailDrawerProps) {
   const [showPostsDrawer, setShowPostsDrawer] = useState(false);
@@ -41,9 +74,32 @@ export default function UserDetailDrawer({
     totalLikes: 0,
     totalDislikes: 0,
     totalReports: 0,
-    todayPosts: 0,
   });
   const [loading, setLoading] = useState(false);
+  const [moderationHistory, setModerationHistory] = useState<ModerationLog[]>(
+    [],
+  );
+  const [warningHistory, setWarningHistory] = useState<WarningRecord[]>([]);
+  const [reporterStats, setReporterStats] = useState<ReporterStats | null>(
+    null,
+  );
+  const [dailyPostCount, setDailyPostCount] = useState<DailyPostCount | null>(
+    null,
+  );
+  const [restrictions, setRestrictions] = useState<ActiveUserRestriction[]>(
+    [],
+  );
+  // Selected duration per restriction type; "" restricts until lifted
+  const [restrictionDays, setRestrictionDays] = useState<
+    Partial<Record<UserRestrictionType, string>>
+  >({});
+  const [restrictionReason, setRestrictionReason] = useState("");
+  const [savingRestriction, setSavingRestriction] =
+    useState<UserRestrictionType | null>(null);
+  const [limitInput, setLimitInput] = useState("");
+  const [savingLimit, setSavingLimit] = useState(false);
+  const { config, getDailyFreePostLimit } = useAdminConfiguration();
+  const toast = useToast();
   const [showWarnConfirmModal, setShowWarnConfirmModal] = useState(false);
   const [showSuspendConfirmModal, setShowSuspendConfirmModal] = useState(false);
 
@@ -118,18 +174,11 @@ export default function UserDetailDrawer({
         0,
       );
 
-      // Count today's posts
-      const today = new Date().toDateString();
-      const todayPosts = posts.filter(
-        (post) => new Date(post.postDate).toDateString() === today,
-      ).length;
-
       setUserStats({
         totalPosts,
         totalLikes,
         totalDislikes,
         totalReports,
-        todayPosts,
       });
     } catch (error) {
       console.error("Error fetching user data:", error);
@@ -138,12 +187,57 @@ export default function UserDetailDrawer({
     }
   };
 
+  // Fetch the actions admins (and scheduled functions) took against this user
+  const fetchModerationHistory = (userId: string) => {
+    fetchUserModerationLogs(userId)
+      .then(setModerationHistory)
+      .catch((error) => {
+        console.error("Error fetching moderation history:", error);
+        setModerationHistory([]);
+      });
+  };
+
+  // Every warning the user received, including expired and revoked ones
+  const fetchWarningHistory = (userId: string) => {
+    fetchUserWarnings(userId)
+      .then(setWarningHistory)
+      .catch((error) => {
+        console.error("Error fetching warning history:", error);
+        setWarningHistory([]);
+      });
+  };
+
+  // How often this user's own reports were upheld by admins
+  const fetchReporterReputation = (userId: string) => {
+    fetchReporterStats(userId).then(setReporterStats);
+  };
+
+  // Today's post count and limit override, counted server-side by Cloud Functions
+  const fetchDailyPosts = (userId: string) => {
+    fetchDailyPostCount(userId).then((counter) => {
+      setDailyPostCount(counter);
+      setLimitInput(
+        counter.limitOverride !== null ? String(counter.limitOverride) : "",
+      );
+    });
+  };
+
+  // Posting, reporting and AR restrictions that have not expired
+  const fetchRestrictions = (userId: string) => {
+    fetchUserRestrictions(userId).then(setRestrictions);
+  };
+
   // Fetch data when user changes
   useEffect(() => {
     if (user && isOpen) {
       fetchUserData(user.id);
+      fetchModerationHistory(user.id);
+      fetchWarningHistory(user.id);
+      fetchRestrictions(user.id);
+      fetchReporterReputation(user.id);
+      fetchDailyPosts(user.id);
     }
-  }, [user?.id, isOpen]);
+  }, [user?.id, isOpen, user?.status, user?.warningCount]);
 
   useEffect(() => {
     if (!isOpen) {
@@ -229,6 +323,70 @@ export default function UserDetailDrawer({
     setShowSuspendConfirmModal(false);
   };
 
+  const defaultPostLimit = getDailyFreePostLimit();
+  const effectivePostLimit = dailyPostCount?.limitOverride ?? defaultPostLimit;
+
+  const toggleRestriction = async (type: UserRestrictionType) => {
+    const active = restrictions.some((restriction) => restriction.type === type);
+    const label = USER_RESTRICTION_LABELS[type];
+    const reason = restrictionReason.trim() || undefined;
+
+    setSavingRestriction(type);
+    try {
+      if (active) {
+        await liftUserRestriction(user.id, type, reason);
+        toast.success(`${label} restriction lifted for ${user.name}`);
+      } else {
+        // "" (until lifted) becomes null
+        const days = Number(restrictionDays[type] ?? DEFAULT_RESTRICTION_DAYS) || null;
+        await restrictUser(user.id, type, days, reason);
+        toast.success(
+          `${label} restricted for ${user.name} ${days ? `for ${days} day${days === 1 ? "" : "s"}` : "until lifted"}`,
+        );
+      }
+      setRestrictionReason("");
+      fetchRestrictions(user.id);
+      fetchModerationHistory(user.id);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update restriction",
+      );
+    } finally {
+      setSavingRestriction(null);
+    }
+  };
+
+  // null clears the override so the configured limit applies again
+  const saveLimitOverride = async (limit: number | null) => {
+    if (
+      limit !== null &&
+      (!Number.isInteger(limit) || limit < 0 || limit > 100)
+    ) {
+      toast.error("Enter a whole number of posts between 0 and 100");
+      return;
+    }
+
+    setSavingLimit(true);
+    try {
+      await setDailyPostLimitOverride(user.id, limit);
+      toast.success(
+        limit === null
+          ? `${user.name} is back on the default daily post limit`
+          : `${user.name} can now post ${limit} time${limit === 1 ? "" : "s"} a day`,
+      );
+      fetchDailyPosts(user.id);
+      fetchModerationHistory(user.id);
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to set daily post limit",
+      );
+    } finally {
+      setSavingLimit(false);
+    }
+  };
+
   return (
     <>
       {/* Backdrop */}
@@ -241,24 +399,32 @@ export default function UserDetailDrawer({
           <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
             User Profile
           </h2>
-          <button
-            onClick={onClose}
-            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
-          >
-            <svg
-              className="w-6 h-6"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
+          <div className="flex items-center space-x-4">
+            <Link
+              href={`/users/${user.id}`}
+              className="text-sm text-purple-600 dark:text-purple-400 hover:underline"
             >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M6 18L18 6M6 6l12 12"
-              />
-            </svg>
-          </button>
+              View full profile
+            </Link>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+            >
+              <svg
+                className="w-6 h-6"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
         </div>
 
         {/* Content */}
@@ -502,6 +668,335 @@ export default function UserDetailDrawer({
             )}
           </div>
 
+          {/* Restrictions Section */}
+          <div className="mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-lg font-semibold text-purple-600 dark:text-purple-400">
+                Restrictions
+              </h4>
+              {restrictions.length > 0 && (
+                <span className="px-2 py-1 text-xs font-medium rounded-full bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300">
+                  {restrictions.length} active
+                </span>
+              )}
+            </div>
+
+            <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 space-y-3">
+              {(Object.keys(USER_RESTRICTION_LABELS) as UserRestrictionType[]).map(
+                (type) => {
+                  const active = restrictions.find(
+                    (restriction) => restriction.type === type,
+                  );
+
+                  return (
+                    <div
+                      key={type}
+                      className="flex items-center justify-between gap-3"
+                    >
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 dark:text-white">
+                          {USER_RESTRICTION_LABELS[type]}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {active
+                            ? `Restricted ${active.expiresAt ? `until ${new Date(active.expiresAt).toLocaleDateString()}` : "until lifted"}${active.reason ? ` · ${active.reason}` : ""}`
+                            : USER_RESTRICTION_DESCRIPTIONS[type]}
+                        </p>
+                      </div>
+                      <div className="flex gap-2 shrink-0">
+                        {!active && (
+                          <select
+                            value={restrictionDays[type] ?? DEFAULT_RESTRICTION_DAYS}
+                            onChange={(e) =>
+                              setRestrictionDays((previous) => ({
+                                ...previous,
+                                [type]: e.target.value,
+                              }))
+                            }
+                            disabled={savingRestriction !== null}
+                            className="px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                          >
+                            <option value="1">1 day</option>
+                            <option value="3">3 days</option>
+                            <option value="7">7 days</option>
+                            <option value="30">30 days</option>
+                            <option value="">Until lifted</option>
+                          </select>
+                        )}
+                        <button
+                          onClick={() => toggleRestriction(type)}
+                          disabled={savingRestriction !== null}
+                          className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                            active
+                              ? "text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-600"
+                              : "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200 hover:bg-orange-200 dark:hover:bg-orange-800"
+                          }`}
+                        >
+                          {savingRestriction === type
+                            ? "Saving..."
+                            : active
+                              ? "Lift"
+                              : "Restrict"}
+                        </button>
+                      </div>
+                    </div>
+                  );
+                },
+              )}
+              <input
+                type="text"
+                value={restrictionReason}
+                onChange={(e) => setRestrictionReason(e.target.value)}
+                placeholder="Reason (optional, shown to the user)"
+                disabled={savingRestriction !== null}
+                className="w-full px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          {/* Daily Post Limit Section */}
+          <div className="mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-lg font-semibold text-purple-600 dark:text-purple-400">
+                Daily Posts
+              </h4>
+              {dailyPostCount?.limitOverride !== null &&
+                dailyPostCount?.limitOverride !== undefined && (
+                  <span className="px-2 py-1 text-xs font-medium rounded-full bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-300">
+                    Custom limit
+                  </span>
+                )}
+            </div>
+
+            <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+              <div className="flex items-baseline justify-between mb-3">
+                <span className="text-sm text-gray-600 dark:text-gray-300">
+                  Posted today
+                </span>
+                <span
+                  className={`text-lg font-semibold ${
+                    dailyPostCount && dailyPostCount.count >= effectivePostLimit
+                      ? "text-red-600 dark:text-red-400"
+                      : "text-gray-900 dark:text-white"
+                  }`}
+                >
+                  {dailyPostCount ? dailyPostCount.count : "..."} /{" "}
+                  {effectivePostLimit}
+                </span>
+              </div>
+              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                Limit override (default: {defaultPostLimit} posts/day)
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={limitInput}
+                  onChange={(e) => setLimitInput(e.target.value)}
+                  placeholder={String(defaultPostLimit)}
+                  disabled={savingLimit}
+                  className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                />
+                <button
+                  onClick={() => saveLimitOverride(Number(limitInput))}
+                  disabled={savingLimit || limitInput.trim() === ""}
+                  className="px-3 py-1.5 text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Save
+                </button>
+                <button
+                  onClick={() => saveLimitOverride(null)}
+                  disabled={
+                    savingLimit ||
+                    dailyPostCount === null ||
+                    dailyPostCount.limitOverride === null
+                  }
+                  className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Use Default
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {/* Reporter Reputation Section */}
+          <div className="mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-lg font-semibold text-purple-600 dark:text-purple-400">
+                Reporter Reputation
+              </h4>
+              {reporterStats?.accuracy !== null &&
+                reporterStats?.accuracy !== undefined && (
+                  <span
+                    className={`px-2 py-1 text-xs font-medium rounded-full ${
+                      isLowAccuracyReporter(
+                        reporterStats,
+                        config?.reporterReputation,
+                      )
+                        ? "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300"
+                        : "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300"
+                    }`}
+                  >
+                    {reporterStats.accuracy}% accurate
+                  </span>
+                )}
+            </div>
+
+            {!reporterStats || reporterStats.totalReports === 0 ? (
+              <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-6 text-center">
+                <p className="text-gray-500 dark:text-gray-400 text-sm">
+                  This user hasn&apos;t reported any posts.
+                </p>
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-4 gap-2">
+                  {[
+                    { label: "Reports", value: reporterStats.totalReports },
+                    { label: "Upheld", value: reporterStats.resolvedCount },
+                    { label: "Dismissed", value: reporterStats.dismissedCount },
+                    { label: "Pending", value: reporterStats.pendingCount },
+                  ].map((stat) => (
+                    <div
+                      key={stat.label}
+                      className="bg-gray-50 dark:bg-gray-700 rounded-lg p-3 text-center"
+                    >
+                      <div className="text-lg font-semibold text-gray-900 dark:text-white">
+                        {stat.value}
+                      </div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {stat.label}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                {isLowAccuracyReporter(
+                  reporterStats,
+                  config?.reporterReputation,
+                ) && (
+                  <p className="mt-2 text-xs text-red-600 dark:text-red-400">
+                    Below the {config?.reporterReputation.minAccuracy}% minimum
+                    accuracy: this user&apos;s reports are sent to manual review
+                    instead of auto-removing posts.
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+
+          {/* Warning History Section */}
+          <div className="mb-6">
+            <h4 className="text-lg font-semibold text-purple-600 dark:text-purple-400 mb-3">
+              Warning History
+            </h4>
+
+            {warningHistory.length === 0 ? (
+              <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-6 text-center">
+                <p className="text-gray-500 dark:text-gray-400 text-sm">
+                  No warnings recorded for this user.
+                </p>
+              </div>
+            ) : (
+              <ol className="relative border-l-2 border-gray-200 dark:border-gray-600 ml-2 space-y-4">
+                {warningHistory.map((warning) => (
+                  <li key={warning.id} className="ml-4">
+                    <span
+                      className={`absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full border-2 border-white dark:border-gray-800 ${
+                        warning.status === WARNING_STATUS.ACTIVE
+                          ? "bg-yellow-400"
+                          : "bg-gray-300 dark:bg-gray-500"
+                      }`}
+                    />
+                    <div className="flex items-center justify-between mb-1">
+                      <span
+                        className={`px-2 py-0.5 text-xs font-medium rounded-full capitalize ${getWarningStatusColor(warning.status)}`}
+                      >
+                        {warning.status}
+                      </span>
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        {formatRelativeTime(warning.date)}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-900 dark:text-white">
+                      {warning.reason}
+                    </p>
+                    {warning.postContent && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 line-clamp-2">
+                        Post: &ldquo;{warning.postContent}&rdquo;
+                        {warning.reportCounts > 0 &&
+                          ` (${warning.reportCounts} report${warning.reportCounts === 1 ? "" : "s"})`}
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-600 dark:text-gray-300 mt-1">
+                      By {warning.adminName}
+                      {warning.escalation !== "none" &&
+                        warning.escalation !== "warning" &&
+                        ` · escalated to ${warning.escalation}`}
+                    </p>
+                    {warning.status === WARNING_STATUS.EXPIRED &&
+                      warning.expiredAt && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                          Expired {formatRelativeTime(warning.expiredAt)}
+                        </p>
+                      )}
+                    {warning.status === WARNING_STATUS.REVOKED &&
+                      warning.revokedAt && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                          Revoked on appeal{" "}
+                          {formatRelativeTime(warning.revokedAt)}
+                        </p>
+                      )}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+
+          {/* Moderation History Section */}
+          <div className="mb-6">
+            <h4 className="text-lg font-semibold text-purple-600 dark:text-purple-400 mb-3">
+              Moderation History
+            </h4>
+
+            {moderationHistory.length === 0 ? (
+              <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-6 text-center">
+                <p className="text-gray-500 dark:text-gray-400 text-sm">
+                  No moderation actions recorded for this user.
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {moderationHistory.map((log) => (
+                  <div
+                    key={log.id}
+                    className="bg-white dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600 p-3"
+                  >
+                    <div className="flex items-center justify-between mb-1">
+                      <span
+                        className={`px-2 py-0.5 text-xs font-medium rounded-full ${getModerationActionColor(log.action)}`}
+                      >
+                        {MODERATION_ACTION_LABELS[log.action] || log.action}
+                      </span>
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        {formatRelativeTime(log.timestamp)}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-600 dark:text-gray-300">
+                      {log.beforeStatus || "—"} → {log.afterStatus || "—"} by{" "}
+                      {log.adminEmail}
+                    </p>
+                    {log.reason && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Reason: {log.reason}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
           {/* Action Buttons */}
           <div className="space-y-3">
             {onWarn && (
@@ -546,17 +1041,16 @@ export default function UserDetailDrawer({
             <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
               Warn User
             </h3>
-            <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
               Are you sure you want to warn {user.name}? This will:
               <ul className="list-disc ml-5 mt-2">
                 <li>Increment their warning count by 1</li>
                 <li>Mark all their posts as warned</li>
                 <li>Resolve all reports for their posts</li>
-                <li className="text-orange-600 dark:text-orange-400 font-medium">
-                  Auto-suspend if warnings reach {suspendThreshold}
-                </li>
+                <li>Apply the next step of the sanction ladder</li>
               </ul>
             </p>
+            <NextSanctionPreview user={user} className="mb-6" />
             <div className="flex justify-end gap-3">
               <button
                 onClick={() => setShowWarnConfirmModal(false)}
@@ -189,6 +189,13 @@ export default function UserPostsDrawer({ user, isOpen, onClose, onBack }: UserP
                     </span>
                   </div>
                 )}
+                {post.status === 'under_review' && (
+                  <div className="absolute top-3 right-3">
+                    <span className="text-white text-xs font-medium px-2 py-1 rounded bg-orange-600">
+                      UNDER REVIEW
+                    </span>
+                  </div>
+                )}
 
                 <div className="flex items-start space-x-3">
                   {/* Category Indicator */}
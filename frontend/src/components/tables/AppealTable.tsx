@@ -0,0 +1,251 @@
+import React, { useEffect, useState } from "react";
+import {
+  Appeal,
+  APPEAL_STATUS,
+  SANCTION_TYPE_LABELS,
+  getAppealStatusColor,
+} from "@/types/export";
+import { subscribeToAppeals } from "@/lib/firestore/appeals";
+import AppealDetailDrawer from "@/components/drawers/AppealDetailDrawer";
+import { RegularTableHeader } from "@/components/ui/SortableTableHeader";
+import {
+  SearchIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+} from "@/components/ui/icons";
+
+export default function AppealTable() {
+  const [appeals, setAppeals] = useState<Appeal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState<string>(
+    APPEAL_STATUS.PENDING,
+  );
+  const [sanctionFilter, setSanctionFilter] = useState("");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [selectedAppealId, setSelectedAppealId] = useState<string | null>(
+    null,
+  );
+  const rowsPerPage = 25;
+
+  useEffect(() => {
+    const unsubscribe = subscribeToAppeals(
+      (data) => {
+        setAppeals(data);
+        setError(null);
+        setLoading(false);
+      },
+      () => {
+        setError("Failed to load appeals");
+        setLoading(false);
+      },
+    );
+
+    return unsubscribe;
+  }, []);
+
+  // Look the appeal up on every render so the drawer follows live updates
+  const selectedAppeal =
+    appeals.find((appeal) => appeal.id === selectedAppealId) || null;
+
+  const filteredAppeals = appeals.filter((appeal) => {
+    const term = searchTerm.toLowerCase();
+    return (
+      (statusFilter === "" || appeal.status === statusFilter) &&
+      (sanctionFilter === "" || appeal.sanctionType === sanctionFilter) &&
+      (term === "" ||
+        appeal.userId.toLowerCase().includes(term) ||
+        (appeal.userName || "").toLowerCase().includes(term) ||
+        appeal.message.toLowerCase().includes(term) ||
+        (appeal.relatedPostId || "").toLowerCase().includes(term))
+    );
+  });
+
+  const totalPages = Math.max(
+    1,
+    Math.ceil(filteredAppeals.length / rowsPerPage),
+  );
+  const startIndex = (currentPage - 1) * rowsPerPage;
+  const paginatedAppeals = filteredAppeals.slice(
+    startIndex,
+    startIndex + rowsPerPage,
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+      {/* Search and Filters */}
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex flex-col space-y-4">
+          <div className="relative">
+            <SearchIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Search by user, appeal text or post ID..."
+              value={searchTerm}
+              onChange={(e) => {
+                setSearchTerm(e.target.value);
+                setCurrentPage(1);
+              }}
+              className="pl-10 pr-4 py-2 w-full border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <select
+              value={statusFilter}
+              onChange={(e) => {
+                setStatusFilter(e.target.value);
+                setCurrentPage(1);
+              }}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              <option value="">All Status</option>
+              <option value={APPEAL_STATUS.PENDING}>Pending</option>
+              <option value={APPEAL_STATUS.GRANTED}>Granted</option>
+              <option value={APPEAL_STATUS.DENIED}>Denied</option>
+            </select>
+
+            <select
+              value={sanctionFilter}
+              onChange={(e) => {
+                setSanctionFilter(e.target.value);
+                setCurrentPage(1);
+              }}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              <option value="">All Sanctions</option>
+              {Object.entries(SANCTION_TYPE_LABELS).map(([type, label]) => (
+                <option key={type} value={type}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="px-6 py-3 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {/* Table */}
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50 dark:bg-gray-700">
+            <tr>
+              <RegularTableHeader label="Submitted" />
+              <RegularTableHeader label="User" />
+              <RegularTableHeader label="Sanction" />
+              <RegularTableHeader label="Appeal" />
+              <RegularTableHeader label="Status" />
+              <RegularTableHeader label="Action" />
+            </tr>
+          </thead>
+          <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+            {loading ? (
+              <tr>
+                <td colSpan={6} className="px-6 py-12 text-center">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-500 mx-auto"></div>
+                </td>
+              </tr>
+            ) : paginatedAppeals.length === 0 ? (
+              <tr>
+                <td
+                  colSpan={6}
+                  className="px-6 py-12 text-center text-sm text-gray-500 dark:text-gray-400"
+                >
+                  No appeals found.
+                </td>
+              </tr>
+            ) : (
+              paginatedAppeals.map((appeal) => (
+                <tr
+                  key={appeal.id}
+                  className="hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                    {new Date(appeal.createdAt).toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900 dark:text-white">
+                      {appeal.userName || "Unknown User"}
+                    </div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">
+                      ID: {appeal.userId}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                    {appeal.sanctionType
+                      ? SANCTION_TYPE_LABELS[appeal.sanctionType]
+                      : "—"}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400 max-w-xs truncate">
+                    {appeal.message}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span
+                      className={`px-2 py-1 text-xs font-medium rounded-full capitalize ${getAppealStatusColor(appeal.status)}`}
+                    >
+                      {appeal.status}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <button
+                      onClick={() => setSelectedAppealId(appeal.id)}
+                      className="text-purple-600 dark:text-purple-400 hover:text-purple-700 dark:hover:text-purple-300"
+                    >
+                      {appeal.status === APPEAL_STATUS.PENDING
+                        ? "Review"
+                        : "View"}
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pagination */}
+      <div className="bg-white dark:bg-gray-800 px-4 py-3 border-t border-gray-200 dark:border-gray-700 sm:px-6">
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-700 dark:text-gray-300">
+            {filteredAppeals.length === 0 ? 0 : startIndex + 1}-
+            {Math.min(startIndex + rowsPerPage, filteredAppeals.length)} of{" "}
+            {filteredAppeals.length} appeals
+          </span>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setCurrentPage(currentPage - 1)}
+              disabled={currentPage === 1}
+              className="p-1 rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ChevronLeftIcon className="w-4 h-4" />
+            </button>
+            <span className="text-sm text-gray-700 dark:text-gray-300">
+              Page {currentPage} of {totalPages}
+            </span>
+            <button
+              onClick={() => setCurrentPage(currentPage + 1)}
+              disabled={currentPage === totalPages}
+              className="p-1 rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ChevronRightIcon className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Appeal Detail Drawer */}
+      <AppealDetailDrawer
+        key={selectedAppealId}
+        appeal={selectedAppeal}
+        isOpen={selectedAppeal !== null}
+        onClose={() => setSelectedAppealId(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+import React, { useEffect, useState } from "react";
+import {
+  ModerationLog,
+  ModerationTargetType,
+  MODERATION_TARGET_TYPES,
+  MODERATION_ACTION_LABELS,
+  getModerationActionColor,
+} from "@/types/export";
+import { fetchModerationLogs } from "@/lib/firestore/moderationLogs";
+import { RegularTableHeader } from "@/components/ui/SortableTableHeader";
+import {
+  SearchIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+} from "@/components/ui/icons";
+
+// Converts a yyyy-mm-dd date input into an ISO bound in the admin's timezone
+const toRangeBound = (date: string, endOfDay: boolean): string | undefined => {
+  if (!date) return undefined;
+  return new Date(
+    `${date}T${endOfDay ? "23:59:59.999" : "00:00:00"}`,
+  ).toISOString();
+};
+
+export default function AuditLogTable() {
+  const [logs, setLogs] = useState<ModerationLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [adminFilter, setAdminFilter] = useState("");
+  const [targetTypeFilter, setTargetTypeFilter] = useState<
+    ModerationTargetType | ""
+  >("");
+  // Admin id -> email, collected across loads so picking an admin keeps the others listed
+  const [admins, setAdmins] = useState<Record<string, string>>({});
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [currentPage, setCurrentPage] = useState(1);
+  const rowsPerPage = 25;
+
+  // Admin, target type and date range are applied by the query, the search term client-side
+  useEffect(() => {
+    fetchModerationLogs({
+      startDate: toRangeBound(startDate, false),
+      endDate: toRangeBound(endDate, true),
+      adminId: adminFilter || undefined,
+      targetType: targetTypeFilter || undefined,
+    })
+      .then((data) => {
+        setLogs(data);
+        setError(null);
+        setAdmins((current) => {
+          const next = { ...current };
+          data.forEach((log) => {
+            next[log.adminId] = log.adminEmail;
+          });
+          return next;
+        });
+      })
+      .catch((err) => {
+        console.error("Error fetching moderation logs:", err);
+        setError("Failed to load audit log");
+      })
+      .finally(() => setLoading(false));
+  }, [startDate, endDate, adminFilter, targetTypeFilter]);
+
+  const handleFilterChange = <T,>(setter: (value: T) => void, value: T) => {
+    setLoading(true);
+    setCurrentPage(1);
+    setter(value);
+  };
+
+  const adminOptions = Object.entries(admins).sort(([, a], [, b]) =>
+    a.localeCompare(b),
+  );
+
+  const filteredLogs = logs.filter((log) => {
+    const term = searchTerm.toLowerCase();
+    return (
+      term === "" ||
+        log.targetId.toLowerCase().includes(term) ||
+        (log.targetUserId || "").toLowerCase().includes(term) ||
+      (log.reason || "").toLowerCase().includes(term)
+    );
+  });
+
+  const totalPages = Math.max(1, Math.ceil(filteredLogs.length / rowsPerPage));
+  const startIndex = (currentPage - 1) * rowsPerPage;
+  const paginatedLogs = filteredLogs.slice(
+    startIndex,
+    startIndex + rowsPerPage,
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+      {/* Search and Filters */}
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex flex-col space-y-4">
+          <div className="relative">
+            <SearchIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Search by target ID, user ID or reason..."
+              value={searchTerm}
+              onChange={(e) => {
+                setSearchTerm(e.target.value);
+                setCurrentPage(1);
+              }}
+              className="pl-10 pr-4 py-2 w-full border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <select
+              value={adminFilter}
+              onChange={(e) => handleFilterChange(setAdminFilter, e.target.value)}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              <option value="">All Admins</option>
+              {adminOptions.map(([adminId, adminEmail]) => (
+                <option key={adminId} value={adminId}>
+                  {adminEmail}
+                </option>
+              ))}
+            </select>
+
+            <select
+              value={targetTypeFilter}
+              onChange={(e) =>
+                handleFilterChange(
+                  setTargetTypeFilter,
+                  e.target.value as ModerationTargetType | "",
+                )
+              }
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              <option value="">All Targets</option>
+              {Object.values(MODERATION_TARGET_TYPES).map((type) => (
+                <option key={type} value={type}>
+                  {type.charAt(0).toUpperCase() + type.slice(1)}
+                </option>
+              ))}
+            </select>
+
+            <input
+              type="date"
+              value={startDate}
+              max={endDate || undefined}
+              onChange={(e) => handleFilterChange(setStartDate, e.target.value)}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              title="From date"
+            />
+            <input
+              type="date"
+              value={endDate}
+              min={startDate || undefined}
+              onChange={(e) => handleFilterChange(setEndDate, e.target.value)}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              title="To date"
+            />
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="px-6 py-3 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {/* Table */}
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50 dark:bg-gray-700">
+            <tr>
+              <RegularTableHeader label="Date" />
+              <RegularTableHeader label="Admin" />
+              <RegularTableHeader label="Action" />
+              <RegularTableHeader label="Target" />
+              <RegularTableHeader label="Status Change" />
+              <RegularTableHeader label="Reason" />
+            </tr>
+          </thead>
+          <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+            {loading ? (
+              <tr>
+                <td colSpan={6} className="px-6 py-12 text-center">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-500 mx-auto"></div>
+                </td>
+              </tr>
+            ) : paginatedLogs.length === 0 ? (
+              <tr>
+                <td
+                  colSpan={6}
+                  className="px-6 py-12 text-center text-sm text-gray-500 dark:text-gray-400"
+                >
+                  No moderation actions found.
+                </td>
+              </tr>
+            ) : (
+              paginatedLogs.map((log) => (
+                <tr
+                  key={log.id}
+                  className="hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                    {new Date(log.timestamp).toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                    {log.adminEmail}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span
+                      className={`px-2 py-1 text-xs font-medium rounded-full ${getModerationActionColor(log.action)}`}
+                    >
+                      {MODERATION_ACTION_LABELS[log.action] || log.action}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900 dark:text-white capitalize">
+                      {log.targetType}
+                    </div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">
+                      ID: {log.targetId}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                    {log.beforeStatus || "—"} → {log.afterStatus || "—"}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400 max-w-xs truncate">
+                    {log.reason || "—"}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pagination */}
+      <div className="bg-white dark:bg-gray-800 px-4 py-3 border-t border-gray-200 dark:border-gray-700 sm:px-6">
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-700 dark:text-gray-300">
+            {filteredLogs.length === 0 ? 0 : startIndex + 1}-
+            {Math.min(startIndex + rowsPerPage, filteredLogs.length)} of{" "}
+            {filteredLogs.length} entries
+          </span>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setCurrentPage(currentPage - 1)}
+              disabled={currentPage === 1}
+              className="p-1 rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ChevronLeftIcon className="w-4 h-4" />
+            </button>
+            <span className="text-sm text-gray-700 dark:text-gray-300">
+              Page {currentPage} of {totalPages}
+            </span>
+            <button
+              onClick={() => setCurrentPage(currentPage + 1)}
+              disabled={currentPage === totalPages}
+              className="p-1 rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ChevronRightIcon className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
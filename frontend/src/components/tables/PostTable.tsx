@@ -1,52 +1,102 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import { QueryDocumentSnapshot, DocumentData } from "firebase/firestore";
 import { Post, POST_STATUS, POST_CATEGORIES } from "@/types/export";
 import PostDetailDrawer from "../drawers/PostDetailDrawer";
 import SendNotificationModal from "@/components/SendNotificationModal";
+import { NextSanctionPreview } from "@/components/ui/NextSanctionPreview";
 import { useAdminAuth } from "@/hooks/useAdminAuth";
-import { useAdminConfiguration } from "@/hooks/useAdminConfiguration";
 import {
-  subscribeToPostsUpdates,
-  updatePostStatus,
-  updatePostWarningStatus,
+  AUTO_FLAGGED_FILTER,
+  PostFilters,
+  PostSortField,
+  countPosts,
+  getMatchingPostIds,
+  subscribeToPostsPage,
   deletePost,
 } from "@/lib/firestore/posts";
-import { resolveReportsByPostId } from "@/lib/firestore/reports";
+import {
+  moderatePost,
+  bulkModerate,
+  formatBulkFailures,
+} from "@/lib/firestore/moderation";
 import { sendWarningNotificationToUser } from "@/lib/firestore/notifications";
-import { incrementUserWarningCount } from "@/lib/firestore/users";
+import { useToast } from "@/contexts/ToastContext";
 import { useAuthState } from "react-firebase-hooks/auth";
 import { auth } from "@/lib/firebase";
 import {
   SortableTableHeader,
   RegularTableHeader,
 } from "@/components/ui/SortableTableHeader";
+import { BulkAction, BulkActionBar } from "@/components/ui/BulkActionBar";
 
 interface PostTableProps {
-  posts?: Post[];
   initialSearchTerm?: string;
 }
 
-export default function PostTable({
-  posts: propPosts,
-  initialSearchTerm = "",
-}: PostTableProps) {
+// Date inputs are in the admin's local timezone; the query needs the instant each day starts/ends
+const toDayBoundary = (value: string, endOfDay: boolean): string | undefined => {
+  if (!value) return undefined;
+  const date = new Date(`${value}T${endOfDay ? "23:59:59.999" : "00:00:00"}`);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+type PostBulkAction = "remove_posts" | "remove_posts_and_warn" | "warn_authors";
+
+const POST_BULK_ACTIONS: BulkAction<PostBulkAction>[] = [
+  {
+    key: "remove_posts",
+    label: "Remove",
+    confirmMessage: (count) =>
+      `Remove ${count} post${count === 1 ? "" : "s"}? Their pending reports will be resolved.`,
+    className: "bg-red-600 hover:bg-red-700",
+  },
+  {
+    key: "remove_posts_and_warn",
+    label: "Remove & Warn Authors",
+    confirmMessage: (count) =>
+      `Remove ${count} post${count === 1 ? "" : "s"} and warn each author once? Each warning applies the author's next sanction ladder step.`,
+    className: "bg-yellow-600 hover:bg-yellow-700",
+  },
+  {
+    key: "warn_authors",
+    label: "Warn Authors",
+    confirmMessage: (count) =>
+      `Warn the author${count === 1 ? "" : "s"} of ${count} post${count === 1 ? "" : "s"} once each, keeping the posts up? Each warning applies the author's next sanction ladder step.`,
+    className: "bg-orange-500 hover:bg-orange-600",
+  },
+];
+
+export default function PostTable({ initialSearchTerm = "" }: PostTableProps) {
   const { isAuthenticated, isLoading: authLoading } = useAdminAuth();
-  const { config } = useAdminConfiguration();
   const [user] = useAuthState(auth);
-  const [searchTerm, setSearchTerm] = useState(initialSearchTerm);
-  const [dateFilter, setDateFilter] = useState("");
+  const toast = useToast();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [postIdFilter, setPostIdFilter] = useState(initialSearchTerm);
+  const [prevInitialSearchTerm, setPrevInitialSearchTerm] =
+    useState(initialSearchTerm);
+  const [startDateFilter, setStartDateFilter] = useState("");
+  const [endDateFilter, setEndDateFilter] = useState("");
   const [categoryFilter, setCategoryFilter] = useState("");
   const [statusFilter, setStatusFilter] = useState("");
-  const [sortBy, setSortBy] = useState<
-    "likes" | "dislikes" | "date" | "reports"
-  >("date");
+  const [locationFilter, setLocationFilter] = useState("");
+  const [minReportsFilter, setMinReportsFilter] = useState("");
+  const [sortBy, setSortBy] = useState<PostSortField>("date");
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
   const [currentPage, setCurrentPage] = useState(1);
   const [rowsPerPage, setRowsPerPage] = useState(10);
+  // pageCursors[i] is the last document before page i + 1 (null for the first page)
+  const [pageCursors, setPageCursors] = useState<
+    (QueryDocumentSnapshot<DocumentData> | null)[]
+  >([null]);
   const [selectedPost, setSelectedPost] = useState<Post | null>(null);
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
 
   // Firestore state
-  const [firestorePosts, setFirestorePosts] = useState<Post[]>([]);
+  const [pagePosts, setPagePosts] = useState<Post[]>([]);
+  const [lastDoc, setLastDoc] =
+    useState<QueryDocumentSnapshot<DocumentData> | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [totalCount, setTotalCount] = useState(0);
   const [isLoadingPosts, setIsLoadingPosts] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -59,121 +109,113 @@ export default function PostTable({
   const [selectedPostForNotification, setSelectedPostForNotification] =
     useState<Post | null>(null);
 
-  // Update search term when initialSearchTerm changes
-  useEffect(() => {
-    if (initialSearchTerm) {
-      setSearchTerm(initialSearchTerm);
-    }
-  }, [initialSearchTerm]);
+  // Bulk selection state
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [allMatchingSelected, setAllMatchingSelected] = useState(false);
+  const [selectingAllMatching, setSelectingAllMatching] = useState(false);
+  const [bulkProgress, setBulkProgress] = useState<{
+    processed: number;
+    total: number;
+  } | null>(null);
 
-  // Subscribe to Firestore posts
-  useEffect(() => {
-    if (!isAuthenticated || propPosts) {
-      setIsLoadingPosts(false);
-      return;
-    }
+  // Any change to the query starts again from the first page
+  const resetPaging = () => {
+    setCurrentPage(1);
+    setPageCursors([null]);
+  };
 
-    const loadPosts = () => {
-      setIsLoadingPosts(true);
-      const unsubscribe = subscribeToPostsUpdates(
-        (posts) => {
-          setFirestorePosts(posts);
-          setIsLoadingPosts(false);
-          setError(null);
-        },
-        (error) => {
-          console.error("Error loading posts:", error);
-          setError("Failed to load posts from database");
-          setIsLoadingPosts(false);
-        },
-      );
-      return unsubscribe;
-    };
+  // A post id passed in (e.g. /posts?id=...) narrows the query to that post
+  if (initialSearchTerm !== prevInitialSearchTerm) {
+    setPrevInitialSearchTerm(initialSearchTerm);
+    setPostIdFilter(initialSearchTerm);
+    resetPaging();
+  }
 
-    const unsubscribe = loadPosts();
+  const filters = useMemo<PostFilters>(
+    () => ({
+      postId: postIdFilter || undefined,
+      status: statusFilter || undefined,
+      category: categoryFilter || undefined,
+      location: locationFilter.trim() || undefined,
+      startDate: toDayBoundary(startDateFilter, false),
+      endDate: toDayBoundary(endDateFilter, true),
+      minReportCount: Number(minReportsFilter) || undefined,
+    }),
+    [
+      postIdFilter,
+      statusFilter,
+      categoryFilter,
+      locationFilter,
+      startDateFilter,
+      endDateFilter,
+      minReportsFilter,
+    ],
+  );
+  // A selection only applies to the filter it was made under
+  const [selectionFilters, setSelectionFilters] = useState(filters);
+  if (filters !== selectionFilters) {
+    setSelectionFilters(filters);
+    setSelectedIds(new Set());
+    setAllMatchingSelected(false);
+  }
+
+  const hasActiveFilters = Object.values(filters).some(
+    (value) => value !== undefined,
+  );
+  const pageCursor = pageCursors[currentPage - 1] ?? null;
+
+  // Subscribe to the current page of posts
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const unsubscribe = subscribeToPostsPage(
+      filters,
+      { pageSize: rowsPerPage, sortBy, sortOrder, cursor: pageCursor },
+      (page) => {
+        setPagePosts(page.posts);
+        setLastDoc(page.lastDoc);
+        setHasMore(page.hasMore);
+        setIsLoadingPosts(false);
+        setError(null);
+      },
+      (error) => {
+        console.error("Error loading posts:", error);
+        setError("Failed to load posts from database");
+        setIsLoadingPosts(false);
+      },
+    );
 
     return () => {
-      if (unsubscribe) {
-        unsubscribe();
-      }
+      unsubscribe();
     };
-  }, [isAuthenticated, propPosts]);
+  }, [isAuthenticated, filters, rowsPerPage, sortBy, sortOrder, pageCursor]);
 
-  // Use prop posts or Firestore posts
-  const displayPosts = propPosts || firestorePosts;
+  // Total for the pagination summary, counted server-side
+  useEffect(() => {
+    if (!isAuthenticated) return;
 
-  // Use local date parts so date input filtering matches the user's timezone.
-  const toLocalDateInputValue = (value: string): string => {
-    const date = new Date(value);
-    if (isNaN(date.getTime())) return "";
+    let cancelled = false;
+    countPosts(filters)
+      .then((count) => {
+        if (!cancelled) setTotalCount(count);
+      })
+      .catch(() => {
+        if (!cancelled) setTotalCount(0);
+      });
 
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, "0");
-    const day = String(date.getDate()).padStart(2, "0");
-    return `${year}-${month}-${day}`;
-  };
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated, filters]);
 
-  // Auto-expire active posts past visibility duration
-  useEffect(() => {
-    if (!config?.postVisibilityDuration || displayPosts.length === 0) return;
-
-    const visibilityMs = config.postVisibilityDuration * 60 * 60 * 1000;
-    const now = Date.now();
-
-    displayPosts.forEach(async (post) => {
-      if (post.status !== POST_STATUS.ACTIVE) return;
-      const postTime = new Date(post.postDate).getTime();
-      if (isNaN(postTime)) return;
-      if (now - postTime > visibilityMs) {
-        try {
-          await updatePostStatus(post.id, POST_STATUS.EXPIRED);
-          console.log("Post auto-expired:", post.id);
-        } catch (err) {
-          console.error("Error auto-expiring post:", err);
-        }
-      }
-    });
-  }, [displayPosts, config?.postVisibilityDuration]);
-
-  // Filter posts
-  const filteredPosts = displayPosts
-    .filter((post) => {
-      const searchLower = searchTerm.toLowerCase();
-      const contentMatch = post.content.toLowerCase().includes(searchLower);
-      const userMatch = post.user.name.toLowerCase().includes(searchLower);
-      const idMatch = post.id.toLowerCase().includes(searchLower);
-      const postDate = toLocalDateInputValue(post.postDate);
-      const dateMatch = dateFilter === "" || postDate === dateFilter;
-      const categoryMatch =
-        categoryFilter === "" || post.category === categoryFilter;
-      const statusMatch = statusFilter === "" || post.status === statusFilter;
-
-      return (
-        (contentMatch || userMatch || idMatch) &&
-        dateMatch &&
-        categoryMatch &&
-        statusMatch
-      );
-    })
-    .sort((a, b) => {
-      const getValue = (post: Post, field: string) => {
-        switch (field) {
-          case "likes":
-            return post.likes;
-          case "dislikes":
-            return post.dislikes;
-          case "reports":
-            return post.reportCount;
-          case "date":
-            return new Date(post.postDate).getTime();
-          default:
-            return 0;
-        }
-      };
-      const aVal = getValue(a, sortBy);
-      const bVal = getValue(b, sortBy);
-      return sortOrder === "asc" ? aVal - bVal : bVal - aVal;
-    });
+  // Filtering and sorting happen in the query; the search box narrows the loaded page
+  const searchLower = searchTerm.toLowerCase();
+  const filteredPosts = pagePosts.filter(
+    (post) =>
+      post.content.toLowerCase().includes(searchLower) ||
+      post.user.name.toLowerCase().includes(searchLower) ||
+      post.id.toLowerCase().includes(searchLower),
+  );
 
   const handleView = (postId: string) => {
     const post = filteredPosts.find((p) => p.id === postId);
@@ -204,23 +246,15 @@ export default function PostTable({
       if (!selectedPostForNotification) return;
 
       try {
-        // Update post status to removed
-        await updatePostStatus(
+        // Remove the post, set it as warned, resolve related reports and warn
+        // the author (with the next sanction ladder step) in one transaction
+        const result = await moderatePost(
           selectedPostForNotification.id,
-          POST_STATUS.REMOVED,
+          "remove_and_warn",
         );
 
-        // Set post as warned
-        await updatePostWarningStatus(selectedPostForNotification.id, true);
-
-        // Auto-resolve all related reports since post is warned
-        await resolveReportsByPostId(selectedPostForNotification.id);
-
-        // Increment user warning count
-        await incrementUserWarningCount(selectedPostForNotification.user.id);
-
         console.log(
-          "Post warned successfully, isWarned set to true, and related reports resolved:",
+          `Post warned successfully (author escalation: ${result.escalation}), ${result.resolvedReportIds.length} related reports resolved:`,
           selectedPostForNotification.id,
         );
         setShowNotificationModal(false);
@@ -250,8 +284,9 @@ export default function PostTable({
     if (!postToDelete) return;
 
     try {
-      // Change status to removed instead of deleting from database
-      await updatePostStatus(postToDelete.id, POST_STATUS.REMOVED);
+      // Change status to removed instead of deleting from database,
+      // resolving its pending reports in the same transaction
+      await moderatePost(postToDelete.id, "remove");
       console.log("Post status changed to removed:", postToDelete.id);
       setShowDeleteModal(false);
       setPostToDelete(null);
@@ -263,35 +298,123 @@ export default function PostTable({
     }
   }, [postToDelete]);
 
+  // Restore a post that was hidden for review, dismissing its pending reports
+  const handleRestore = useCallback(async (postId: string) => {
+    try {
+      const result = await moderatePost(postId, "restore");
+      console.log(
+        `Post restored, ${result.resolvedReportIds.length} pending reports dismissed:`,
+        postId,
+      );
+      setIsDrawerOpen(false);
+      setSelectedPost(null);
+    } catch (error) {
+      console.error("Error restoring post:", error);
+      setError("Failed to restore post");
+    }
+  }, []);
+
   // Cancel removal
   const cancelRemove = useCallback(() => {
     setShowDeleteModal(false);
     setPostToDelete(null);
   }, []);
 
-  const totalPages = Math.ceil(filteredPosts.length / rowsPerPage);
+  const pageSelected =
+    filteredPosts.length > 0 &&
+    filteredPosts.every((post) => selectedIds.has(post.id));
+
+  const toggleSelected = (postId: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(postId)) next.delete(postId);
+    else next.add(postId);
+    setSelectedIds(next);
+    setAllMatchingSelected(false);
+  };
+
+  const togglePageSelected = () => {
+    const next = new Set(selectedIds);
+    filteredPosts.forEach((post) =>
+      pageSelected ? next.delete(post.id) : next.add(post.id),
+    );
+    setSelectedIds(next);
+    setAllMatchingSelected(false);
+  };
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setAllMatchingSelected(false);
+  };
+
+  const handleSelectAllMatching = async () => {
+    setSelectingAllMatching(true);
+    try {
+      const ids = await getMatchingPostIds(filters);
+      setSelectedIds(new Set(ids));
+      setAllMatchingSelected(true);
+    } catch (error) {
+      console.error("Error selecting matching posts:", error);
+      toast.error("Failed to select all matching posts");
+    } finally {
+      setSelectingAllMatching(false);
+    }
+  };
+
+  const handleBulkAction = async (action: PostBulkAction) => {
+    const ids = [...selectedIds];
+    setBulkProgress({ processed: 0, total: ids.length });
+
+    const result = await bulkModerate(action, ids, (processed, total) =>
+      setBulkProgress({ processed, total }),
+    );
+
+    setBulkProgress(null);
+    // Keep the failed posts selected so they can be retried
+    setSelectedIds(new Set(result.failed.map((failure) => failure.id)));
+    setAllMatchingSelected(false);
+
+    const summary =
+      action === "warn_authors"
+        ? `Warned ${result.warnedUserIds.length} author(s) of ${result.succeeded.length} post(s)`
+        : `Removed ${result.succeeded.length} post(s)` +
+          (action === "remove_posts_and_warn"
+            ? `, ${result.warnedUserIds.length} author(s) warned`
+            : "");
+    if (result.failed.length === 0) {
+      toast.success(summary);
+    } else {
+      toast.warning(
+        `${summary}; ${result.failed.length} failed: ${formatBulkFailures(result.failed)}`,
+      );
+    }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / rowsPerPage));
   const startIndex = (currentPage - 1) * rowsPerPage;
-  const paginatedPosts = filteredPosts.slice(
-    startIndex,
-    startIndex + rowsPerPage,
-  );
 
-  const handlePageChange = (page: number) => {
-    setCurrentPage(page);
+  const handleNextPage = () => {
+    if (!hasMore || !lastDoc) return;
+    setPageCursors([...pageCursors.slice(0, currentPage), lastDoc]);
+    setCurrentPage(currentPage + 1);
+  };
+
+  const handlePreviousPage = () => {
+    setCurrentPage(Math.max(1, currentPage - 1));
   };
 
   const handleRowsPerPageChange = (rows: number) => {
     setRowsPerPage(rows);
-    setCurrentPage(1);
+    resetPaging();
   };
 
-  const handleSort = (field: "likes" | "dislikes" | "date" | "reports") => {
+  const handleSort = (field: PostSortField) => {
     if (sortBy === field) {
       setSortOrder(sortOrder === "asc" ? "desc" : "asc");
     } else {
       setSortBy(field);
       setSortOrder("desc");
     }
+    resetPaging();
   };
 
   const getStatusColor = (status: string) => {
@@ -302,6 +425,8 @@ export default function PostTable({
         return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300";
       case POST_STATUS.REMOVED:
         return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300";
+      case POST_STATUS.UNDER_REVIEW:
+        return "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300";
       default:
         return "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-300";
     }
@@ -340,8 +465,8 @@ export default function PostTable({
     );
   }
 
-  // Show empty state if no posts
-  if (!isLoadingPosts && displayPosts.length === 0) {
+  // Show empty state if there are no posts at all
+  if (!isLoadingPosts && !hasActiveFilters && pagePosts.length === 0) {
     return (
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-12">
         <div className="text-center">
@@ -391,26 +516,85 @@ export default function PostTable({
             </svg>
             <input
               type="text"
-              placeholder="Search by content, or author..."
+              placeholder="Search this page by content, or author..."
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="pl-10 pr-4 py-2 w-full border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
             />
           </div>
 
+          {postIdFilter && (
+            <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <span>
+                Showing post <span className="font-mono">{postIdFilter}</span>
+              </span>
+              <button
+                onClick={() => {
+                  setPostIdFilter("");
+                  resetPaging();
+                }}
+                className="text-purple-600 dark:text-purple-400 hover:underline"
+              >
+                Show all posts
+              </button>
+            </div>
+          )}
+
           {/* Filters */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <input
               type="date"
-              value={dateFilter}
-              onChange={(e) => setDateFilter(e.target.value)}
+              value={startDateFilter}
+              max={endDateFilter || undefined}
+              onChange={(e) => {
+                setStartDateFilter(e.target.value);
+                resetPaging();
+              }}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              title="Posted from"
+            />
+
+            <input
+              type="date"
+              value={endDateFilter}
+              min={startDateFilter || undefined}
+              onChange={(e) => {
+                setEndDateFilter(e.target.value);
+                resetPaging();
+              }}
               className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-              placeholder="Filter by date"
+              title="Posted until"
+            />
+
+            <input
+              type="text"
+              value={locationFilter}
+              onChange={(e) => {
+                setLocationFilter(e.target.value);
+                resetPaging();
+              }}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              placeholder="Location"
+            />
+
+            <input
+              type="number"
+              min={0}
+              value={minReportsFilter}
+              onChange={(e) => {
+                setMinReportsFilter(e.target.value);
+                resetPaging();
+              }}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              placeholder="Min. reports"
             />
 
             <select
               value={categoryFilter}
-              onChange={(e) => setCategoryFilter(e.target.value)}
+              onChange={(e) => {
+                setCategoryFilter(e.target.value);
+                resetPaging();
+              }}
               className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
             >
               <option value="">All Categories</option>
@@ -436,13 +620,18 @@ export default function PostTable({
 
             <select
               value={statusFilter}
-              onChange={(e) => setStatusFilter(e.target.value)}
+              onChange={(e) => {
+                setStatusFilter(e.target.value);
+                resetPaging();
+              }}
               className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
             >
               <option value="">All Status</option>
               <option value="active">Active</option>
               <option value="expired">Expired</option>
               <option value="removed">Removed</option>
+              <option value="under_review">Under Review</option>
+              <option value={AUTO_FLAGGED_FILTER}>Auto-flagged</option>
             </select>
           </div>
         </div>
@@ -450,9 +639,32 @@ export default function PostTable({
 
       {/* Table */}
       <div className="overflow-x-auto">
+        <BulkActionBar
+          selectedCount={selectedIds.size}
+          matchingCount={totalCount}
+          allMatchingSelected={allMatchingSelected}
+          selectingAllMatching={selectingAllMatching}
+          itemLabel="post"
+          actions={POST_BULK_ACTIONS}
+          progress={bulkProgress}
+          onSelectAllMatching={handleSelectAllMatching}
+          onClearSelection={clearSelection}
+          onRun={handleBulkAction}
+          className="mx-6 my-4"
+        />
         <table className="w-full">
           <thead className="bg-gray-50 dark:bg-gray-700">
             <tr>
+              <th className="pl-6 py-3 w-4">
+                <input
+                  type="checkbox"
+                  checked={pageSelected}
+                  onChange={togglePageSelected}
+                  disabled={bulkProgress !== null}
+                  className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                  title="Select this page"
+                />
+              </th>
               <SortableTableHeader
                 field="date"
                 label="Post Date"
@@ -489,11 +701,24 @@ export default function PostTable({
             </tr>
           </thead>
           <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-            {paginatedPosts.map((post) => (
+            {filteredPosts.map((post) => (
               <tr
                 key={post.id}
-                className="hover:bg-gray-50 dark:hover:bg-gray-700"
+                className={`hover:bg-gray-50 dark:hover:bg-gray-700 ${
+                  selectedIds.has(post.id)
+                    ? "bg-purple-50 dark:bg-purple-900/20"
+                    : ""
+                }`}
               >
+                <td className="pl-6 py-4 w-4">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.has(post.id)}
+                    onChange={() => toggleSelected(post.id)}
+                    disabled={bulkProgress !== null}
+                    className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                  />
+                </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
                   {new Date(post.postDate).toLocaleDateString()}
                 </td>
@@ -544,8 +769,16 @@ export default function PostTable({
                   <span
                     className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(post.status)}`}
                   >
-                    {post.status}
+                    {post.status.replace(/_/g, " ")}
                   </span>
+                  {post.autoFlagged && (
+                    <span
+                      className="ml-1 px-2 py-1 text-xs font-medium rounded-full bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300"
+                      title="Matched a content filter rule"
+                    >
+                      flagged
+                    </span>
+                  )}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm space-x-2">
                   <button
@@ -573,7 +806,8 @@ export default function PostTable({
                       />
                     </svg>
                   </button>
-                  {post.status === POST_STATUS.ACTIVE && (
+                  {(post.status === POST_STATUS.ACTIVE ||
+                    post.status === POST_STATUS.UNDER_REVIEW) && (
                     <button
                       onClick={() => handleRemove(post.id)}
                       className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300"
@@ -597,6 +831,16 @@ export default function PostTable({
                 </td>
               </tr>
             ))}
+            {filteredPosts.length === 0 && (
+              <tr>
+                <td
+                  colSpan={10}
+                  className="px-6 py-8 text-center text-sm text-gray-500 dark:text-gray-400"
+                >
+                  No posts match these filters.
+                </td>
+              </tr>
+            )}
           </tbody>
         </table>
       </div>
@@ -617,14 +861,14 @@ export default function PostTable({
               <option value={100}>100</option>
             </select>
             <span>
-              {startIndex + 1}-
-              {Math.min(startIndex + rowsPerPage, filteredPosts.length)} of{" "}
-              {filteredPosts.length} rows
+              {totalCount === 0 ? 0 : startIndex + 1}-
+              {Math.min(startIndex + pagePosts.length, totalCount)} of{" "}
+              {totalCount} rows
             </span>
           </div>
           <div className="flex items-center space-x-2">
             <button
-              onClick={() => handlePageChange(1)}
+              onClick={resetPaging}
               disabled={currentPage === 1}
               className="p-1 rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
             >
@@ -643,7 +887,7 @@ export default function PostTable({
               </svg>
             </button>
             <button
-              onClick={() => handlePageChange(currentPage - 1)}
+              onClick={handlePreviousPage}
               disabled={currentPage === 1}
               className="p-1 rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
             >
@@ -661,36 +905,12 @@ export default function PostTable({
                 />
               </svg>
             </button>
-            {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-              const page = i + 1;
-              return (
-                <button
-                  key={page}
-                  onClick={() => handlePageChange(page)}
-                  className={`px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded ${
-                    currentPage === page
-                      ? "bg-purple-50 dark:bg-purple-900 text-purple-600 dark:text-purple-300"
-                      : "hover:bg-gray-50 dark:hover:bg-gray-700"
-                  }`}
-                >
-                  {page}
-                </button>
-              );
-            })}
-            {totalPages > 5 && (
-              <>
-                <span className="px-2">...</span>
-                <button
-                  onClick={() => handlePageChange(totalPages)}
-                  className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded hover:bg-gray-50 dark:hover:bg-gray-700"
-                >
-                  {totalPages}
-                </button>
-              </>
-            )}
+            <span className="px-3 py-1 text-sm text-gray-700 dark:text-gray-300">
+              Page {currentPage} of {totalPages}
+            </span>
             <button
-              onClick={() => handlePageChange(currentPage + 1)}
-              disabled={currentPage === totalPages}
+              onClick={handleNextPage}
+              disabled={!hasMore}
               className="p-1 rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <svg
@@ -707,25 +927,6 @@ export default function PostTable({
                 />
               </svg>
             </button>
-            <button
-              onClick={() => handlePageChange(totalPages)}
-              disabled={currentPage === totalPages}
-              className="p-1 rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              <svg
-                className="w-4 h-4"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M13 5l7 7-7 7M5 5l7 7-7 7"
-                />
-              </svg>
-            </button>
           </div>
         </div>
       </div>
@@ -736,6 +937,7 @@ export default function PostTable({
         isOpen={isDrawerOpen}
         onClose={handleCloseDrawer}
         onRemove={handleRemove}
+        onRestore={handleRestore}
       />
 
       {/* Send Notification Modal */}
@@ -763,6 +965,10 @@ export default function PostTable({
                 </p>
               </div>
               <div className="p-4">
+                <NextSanctionPreview
+                  userId={selectedPostForNotification.user.id}
+                  className="mb-4"
+                />
                 <SendNotificationModal
                   userId={selectedPostForNotification.user.id}
                   adminId={user?.uid || "admin"}
@@ -1,29 +1,74 @@
 import React, { useState, useEffect } from "react";
 import {
   Report,
+  ReportedPost,
   REPORT_CATEGORIES,
   REPORT_STATUS,
-  CATEGORY_SEVERITY_MAP,
   CATEGORY_LABELS,
   REPORT_SEVERITY,
   normalizeReportCategory,
+  getCategorySeverity,
 } from "@/types/export";
 import { useAdminAuth } from "@/hooks/useAdminAuth";
 import { useAdminConfiguration } from "@/hooks/useAdminConfiguration";
 import { useReports } from "@/hooks/useReports";
 import { SearchIcon } from "@/components/ui/icons";
 import SendNotificationModal from "@/components/SendNotificationModal";
+import { NextSanctionPreview } from "@/components/ui/NextSanctionPreview";
 import ReportDetailDrawer from "@/components/drawers/ReportDetailDrawer";
 import { useAuthState } from "react-firebase-hooks/auth";
 import { auth } from "@/lib/firebase";
-import { updatePostStatus } from "@/lib/firestore/posts";
-import { updatePostWarningStatus } from "@/lib/firestore/posts";
-import { resolveReportsByPostId } from "@/lib/firestore/reports";
+import {
+  moderatePost,
+  bulkModerate,
+  formatBulkFailures,
+} from "@/lib/firestore/moderation";
+import { subscribeToReportedPosts } from "@/lib/firestore/reportedPosts";
 import { useToast } from "@/contexts/ToastContext";
 import {
   SortableTableHeader,
   RegularTableHeader,
 } from "@/components/ui/SortableTableHeader";
+import { BulkAction, BulkActionBar } from "@/components/ui/BulkActionBar";
+type ReportViewMode = "reports" | "posts" | "auto_removed";
+type GroupAction = "dismiss_reports" | "resolve_reports";
+type ReportBulkAction =
+  | "dismiss_reports"
+  | "resolve_reports"
+  | "remove_posts"
+  | "remove_posts_and_warn";
+
+const REPORT_BULK_ACTIONS: BulkAction<ReportBulkAction>[] = [
+  {
+    key: "dismiss_reports",
+    label: "Dismiss",
+    confirmMessage: (count) =>
+      `Dismiss ${count} report${count === 1 ? "" : "s"}? Reports that are no longer pending are skipped.`,
+    className: "bg-gray-600 hover:bg-gray-700",
+  },
+  {
+    key: "resolve_reports",
+    label: "Resolve",
+    confirmMessage: (count) =>
+      `Resolve ${count} report${count === 1 ? "" : "s"}? Reports that are no longer pending are skipped.`,
+    className: "bg-green-600 hover:bg-green-700",
+  },
+  {
+    key: "remove_posts",
+    label: "Remove Posts",
+    confirmMessage: (count) =>
+      `Remove the posts of ${count} selected report${count === 1 ? "" : "s"}? All pending reports on those posts will be resolved.`,
+    className: "bg-red-600 hover:bg-red-700",
+  },
+  {
+    key: "remove_posts_and_warn",
+    label: "Remove & Warn Authors",
+    confirmMessage: (count) =>
+      `Remove the posts of ${count} selected report${count === 1 ? "" : "s"} and warn each author once? Each warning applies the author's next sanction ladder step.`,
+    className: "bg-yellow-600 hover:bg-yellow-700",
+  },
+];
+
 interface ReportTableProps {
   highlightPostId?: string | null;
   initialSearchTerm?: string;
@@ -41,7 +86,6 @@ export default function ReportTable({
     reports,
     loading: reportsLoading,
     error,
-    updateStatus,
   } = useReports();
   const [searchTerm, setSearchTerm] = useState(initialSearchTerm || "");
   const [dateFilter, setDateFilter] = useState("");
@@ -57,6 +101,36 @@ export default function ReportTable({
     useState<Report | null>(null);
   const [showReportDetailDrawer, setShowReportDetailDrawer] = useState(false);
   const [warnedPostIds, setWarnedPostIds] = useState<Set<string>>(new Set());
+  const [viewMode, setViewMode] = useState<ReportViewMode>("reports");
+  const [reportedPosts, setReportedPosts] = useState<ReportedPost[]>([]);
+  const [groupToSettle, setGroupToSettle] = useState<{
+    group: ReportedPost;
+    action: GroupAction;
+  } | null>(null);
+  const [settlingGroup, setSettlingGroup] = useState(false);
+  const [reportToRestore, setReportToRestore] = useState<Report | null>(null);
+  const [restoringPost, setRestoringPost] = useState(false);
+
+  // Bulk selection state (reports view only)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkProgress, setBulkProgress] = useState<{
+    processed: number;
+    total: number;
+  } | null>(null);
+
+  // A selection only applies to the view and filters it was made under
+  const selectionKey = [
+    viewMode,
+    searchTerm,
+    dateFilter,
+    categoryFilter,
+    statusFilter,
+  ].join("|");
+  const [prevSelectionKey, setPrevSelectionKey] = useState(selectionKey);
+  if (selectionKey !== prevSelectionKey) {
+    setPrevSelectionKey(selectionKey);
+    setSelectedIds(new Set());
+  }
 
   // Confirmation modal states
   const [showRemoveWarnModal, setShowRemoveWarnModal] = useState(false);
@@ -73,6 +147,17 @@ export default function ReportTable({
     }
   }, [initialSearchTerm]);
 
+  // The per-post aggregates are only needed by the grouped view
+  useEffect(() => {
+    if (viewMode !== "posts") return;
+
+    const unsubscribe = subscribeToReportedPosts((groups) => {
+      setReportedPosts(groups);
+    });
+
+    return unsubscribe;
+  }, [viewMode]);
+
   // Helper function to determine color based on report count and configuration
   const getReportCountColor = (count: number) => {
     if (!config?.reportThresholds) {
@@ -199,8 +284,13 @@ export default function ReportTable({
     );
   }
 
-  // Filter reports
-  const filteredReportsUnsorted = reports.filter((report) => {
+  // An auto-removed post stays removed until an admin restores it,
+  // which flips its triggering report to dismissed
+  const isStillAutoRemoved = (report: Report) =>
+    report.autoRemoved === true && report.status === REPORT_STATUS.RESOLVED;
+
+  // Search, date and category filters shared by the report and auto-removed views
+  const matchesReportFilters = (report: Report) => {
     const reporterName = report.reporter?.name || "";
     const reportedName = report.reported?.name || "";
     const postContent = report.postContent || "";
@@ -219,13 +309,28 @@ export default function ReportTable({
         postId.toLowerCase().includes(searchTerm.toLowerCase())) &&
       (dateFilter === "" || reportDate === dateFilter) &&
       (categoryFilter === "" ||
-        normalizeReportCategory(report.category) === categoryFilter) &&
+        normalizeReportCategory(report.category) === categoryFilter)
+    );
+  };
+
+  // Filter reports
+  const filteredReportsUnsorted = reports.filter(
+    (report) =>
+      matchesReportFilters(report) &&
       (statusFilter === "" ||
         (statusFilter === "removed"
-          ? report.autoRemoved === true
-          : report.status === statusFilter))
+          ? isStillAutoRemoved(report)
+          : report.status === statusFilter)),
+  );
+
+  // Posts taken down by handleNewReport, still removed ones first
+  const autoRemovedReports = reports
+    .filter(
+      (report) => report.autoRemoved === true && matchesReportFilters(report),
+    )
+    .sort(
+      (a, b) => Number(isStillAutoRemoved(b)) - Number(isStillAutoRemoved(a)),
     );
-  });
 
   // Calculate report count by postId (accumulate reports with same postId)
   const reportCountByPostId = reports.reduce<Record<string, number>>(
@@ -248,12 +353,143 @@ export default function ReportTable({
 
   const filteredReports = sortedReports;
 
-  const totalPages = Math.ceil(filteredReports.length / rowsPerPage);
+  // Pending reports per post, shown next to each group in the "by post" view
+  const pendingCountByPostId = reports.reduce<Record<string, number>>(
+    (acc, r) => {
+      if (r.status === REPORT_STATUS.PENDING) {
+        acc[r.postId] = (acc[r.postId] || 0) + 1;
+      }
+      return acc;
+    },
+    {},
+  );
+
+  const filteredGroupsUnsorted = reportedPosts.filter((group) => {
+    const term = searchTerm.toLowerCase();
+    const pendingCount = pendingCountByPostId[group.postId] || 0;
+
+    return (
+      (term === "" ||
+        group.postId.toLowerCase().includes(term) ||
+        group.postContent.toLowerCase().includes(term) ||
+        (group.reportedUserId || "").toLowerCase().includes(term)) &&
+      (dateFilter === "" ||
+        toLocalDateInputValue(group.lastReportedAt) === dateFilter) &&
+      (categoryFilter === "" || (group.categoryCounts[categoryFilter] || 0) > 0) &&
+      (statusFilter === "" ||
+        (statusFilter === REPORT_STATUS.PENDING
+          ? pendingCount > 0
+          : statusFilter === "removed"
+            ? group.postStatus === "removed"
+            : pendingCount === 0))
+    );
+  });
+
+  const filteredGroups = sortBy
+    ? [...filteredGroupsUnsorted].sort((a, b) =>
+        sortOrder === "asc"
+          ? a.reporterCount - b.reporterCount
+          : b.reporterCount - a.reporterCount,
+      )
+    : filteredGroupsUnsorted;
+
+  const totalRows =
+    viewMode === "posts"
+      ? filteredGroups.length
+      : viewMode === "auto_removed"
+        ? autoRemovedReports.length
+        : filteredReports.length;
+  const totalPages = Math.ceil(totalRows / rowsPerPage);
   const startIndex = (currentPage - 1) * rowsPerPage;
   const paginatedReports = filteredReports.slice(
     startIndex,
     startIndex + rowsPerPage,
   );
+  const paginatedGroups = filteredGroups.slice(
+    startIndex,
+    startIndex + rowsPerPage,
+  );
+  const paginatedAutoRemoved = autoRemovedReports.slice(
+    startIndex,
+    startIndex + rowsPerPage,
+  );
+
+  const pageSelected =
+    paginatedReports.length > 0 &&
+    paginatedReports.every((report) => selectedIds.has(report.id));
+  const allMatchingSelected =
+    filteredReports.length > 0 &&
+    filteredReports.every((report) => selectedIds.has(report.id));
+
+  const toggleSelected = (reportId: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(reportId)) next.delete(reportId);
+    else next.add(reportId);
+    setSelectedIds(next);
+  };
+
+  const togglePageSelected = () => {
+    const next = new Set(selectedIds);
+    paginatedReports.forEach((report) =>
+      pageSelected ? next.delete(report.id) : next.add(report.id),
+    );
+    setSelectedIds(next);
+  };
+
+  const handleBulkAction = async (action: ReportBulkAction) => {
+    const selectedReports = reports.filter((report) =>
+      selectedIds.has(report.id),
+    );
+    const removesPosts =
+      action === "remove_posts" || action === "remove_posts_and_warn";
+    // Post actions run once per post, however many of its reports are selected
+    const ids = removesPosts
+      ? [...new Set(selectedReports.map((report) => report.postId))]
+      : selectedReports.map((report) => report.id);
+
+    setBulkProgress({ processed: 0, total: ids.length });
+    const result = await bulkModerate(action, ids, (processed, total) =>
+      setBulkProgress({ processed, total }),
+    );
+    setBulkProgress(null);
+
+    // Keep the reports behind failed items selected so they can be retried
+    const failedIds = new Set(result.failed.map((failure) => failure.id));
+    setSelectedIds(
+      new Set(
+        selectedReports
+          .filter((report) =>
+            failedIds.has(removesPosts ? report.postId : report.id),
+          )
+          .map((report) => report.id),
+      ),
+    );
+
+    if (action === "remove_posts_and_warn") {
+      setWarnedPostIds((prev) => new Set([...prev, ...result.succeeded]));
+    }
+
+    const noun = removesPosts ? "post" : "report";
+    const verb = {
+      dismiss_reports: "Dismissed",
+      resolve_reports: "Resolved",
+      remove_posts: "Removed",
+      remove_posts_and_warn: "Removed",
+    }[action];
+    const warned =
+      action === "remove_posts_and_warn"
+        ? `, ${result.warnedUserIds.length} author(s) warned`
+        : "";
+    const summary = `${verb} ${result.succeeded.length} ${noun}(s)${warned}`;
+
+    if (result.failed.length === 0) {
+      toast.success(summary);
+    } else {
+      toast.warning(
+        `${summary}; ${result.failed.length} failed: ${formatBulkFailures(result.failed)}`,
+      );
+    }
+  };
 
   const handlePageChange = (page: number) => {
     setCurrentPage(page);
@@ -294,18 +530,14 @@ export default function ReportTable({
     if (!reportToDismiss) return;
 
     try {
-      // Update all reports with the same postId to dismissed
-      const relatedReports = reports.filter(
-        (r) => r.postId === reportToDismiss.postId,
-      );
-      await Promise.all(
-        relatedReports.map((r) => updateStatus(r.id, "dismissed")),
-      );
+      // Dismiss all pending reports with the same postId in one transaction
+      await moderatePost(reportToDismiss.postId, "dismiss_reports");
 
       setShowDismissModal(false);
       setReportToDismiss(null);
     } catch (error) {
       console.error("Failed to dismiss report:", error);
+      toast.error("Failed to dismiss report");
     }
   };
 
@@ -313,11 +545,12 @@ export default function ReportTable({
     if (!reportToRemoveWarn) return;
 
     try {
-      // Update post status to removed
-      await updatePostStatus(reportToRemoveWarn.postId, "removed");
-
-      // Set post as warned
-      await updatePostWarningStatus(reportToRemoveWarn.postId, true);
+      // Remove the post, mark it as warned, resolve all related reports and
+      // warn the author (with the next sanction ladder step) in one transaction
+      const result = await moderatePost(
+        reportToRemoveWarn.postId,
+        "remove_and_warn",
+      );
 
       // Send warning notification
       handleSendNotification(reportToRemoveWarn);
@@ -325,27 +558,87 @@ export default function ReportTable({
       // Mark the post as warned
       setWarnedPostIds((prev) => new Set(prev).add(reportToRemoveWarn.postId));
 
-      // Auto-resolve all related reports since post is removed and user is warned
-      await resolveReportsByPostId(reportToRemoveWarn.postId);
+      if (
+        result.escalation === "restricted" ||
+        result.escalation === "suspended" ||
+        result.escalation === "banned"
+      ) {
+        toast.warning(
+          `${reportToRemoveWarn.reported.name} has been ${result.escalation === "restricted" ? "restricted from posting" : result.escalation}`,
+        );
+      }
 
       setShowRemoveWarnModal(false);
       setReportToRemoveWarn(null);
     } catch (error) {
       console.error("Failed to handle post removal and warning:", error);
+      toast.error("Failed to remove post and warn user");
+    }
+  };
+
+  const confirmSettleGroup = async () => {
+    if (!groupToSettle) return;
+
+    const { group, action } = groupToSettle;
+    setSettlingGroup(true);
+
+    try {
+      // Settles every pending report against the post in one transaction
+      const result = await moderatePost(group.postId, action);
+      const count = result.resolvedReportIds.length;
+
+      toast.success(
+        `${count} report${count === 1 ? "" : "s"} ${result.reportStatus}`,
+      );
+      setGroupToSettle(null);
+    } catch (error) {
+      console.error("Failed to settle reports for post:", error);
+      toast.error(
+        action === "dismiss_reports"
+          ? "Failed to dismiss reports"
+          : "Failed to resolve reports",
+      );
+    } finally {
+      setSettlingGroup(false);
+    }
+  };
+
+  const confirmRestorePost = async () => {
+    if (!reportToRestore) return;
+
+    setRestoringPost(true);
+    try {
+      // Reactivates the post, dismisses the reports that removed it and
+      // retracts the author's "Post Removed" notice in one transaction
+      await moderatePost(reportToRestore.postId, "restore");
+
+      toast.success("Post restored and author notified");
+      setReportToRestore(null);
+    } catch (error) {
+      console.error("Failed to restore post:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to restore post",
+      );
+    } finally {
+      setRestoringPost(false);
     }
   };
 
+  const handleViewModeChange = (mode: ReportViewMode) => {
+    setViewMode(mode);
+    setCurrentPage(1);
+  };
+
   const handleSendNotification = (report: Report) => {
     setSelectedReport(report);
     setShowNotificationModal(true);
   };
 
   const getCategoryColor = (category: string) => {
-    const normalizedCategory = normalizeReportCategory(category);
-    const severity =
-      CATEGORY_SEVERITY_MAP[
-        normalizedCategory as keyof typeof CATEGORY_SEVERITY_MAP
-      ];
+    const severity = getCategorySeverity(
+      category,
+      config?.severityPolicy?.categorySeverity,
+    );
 
     switch (severity) {
       case REPORT_SEVERITY.HIGH:
@@ -371,9 +664,12 @@ export default function ReportTable({
   };
 
   const getStatusColor = (report: Report) => {
-    if (report.autoRemoved) {
+    if (isStillAutoRemoved(report)) {
       return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300";
     }
+    if (report.autoRemoved) {
+      return "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300";
+    }
 
     const status = report.status;
     switch (status) {
@@ -387,7 +683,23 @@ export default function ReportTable({
   };
 
   const getStatusLabel = (report: Report) => {
-    return report.autoRemoved ? "removed" : report.status;
+    if (report.autoRemoved) {
+      return isStillAutoRemoved(report) ? "removed" : "restored";
+    }
+    return report.status;
+  };
+
+  const getPostStatusColor = (status: string) => {
+    switch (status) {
+      case "active":
+        return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300";
+      case "removed":
+        return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300";
+      case "under_review":
+        return "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300";
+      default:
+        return "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-300";
+    }
   };
 
   const handleView = (reportId: string) => {
@@ -408,6 +720,29 @@ export default function ReportTable({
       {/* Search and Filters */}
       <div className="p-6 border-b border-gray-200 dark:border-gray-700">
         <div className="flex flex-col space-y-4">
+          {/* View Mode */}
+          <div className="inline-flex self-start rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden">
+            {(
+              [
+                ["reports", "By Report"],
+                ["posts", "By Post"],
+                ["auto_removed", "Auto-removed"],
+              ] as [ReportViewMode, string][]
+            ).map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => handleViewModeChange(mode)}
+                className={`px-4 py-2 text-sm font-medium transition-colors ${
+                  viewMode === mode
+                    ? "bg-purple-600 text-white"
+                    : "bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
           {/* Search Box */}
           <div className="relative">
             <SearchIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
@@ -476,6 +811,7 @@ export default function ReportTable({
             <select
               value={statusFilter}
               onChange={(e) => setStatusFilter(e.target.value)}
+              disabled={viewMode === "auto_removed"}
               className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
             >
               <option value="">All Status</option>
@@ -489,195 +825,255 @@ export default function ReportTable({
       </div>
 
       {/* Table */}
-      <div className="overflow-x-auto">
-        <table className="w-full table-fixed">
-          <colgroup>
-            <col className="w-28" /> {/* Date */}
-            <col className="w-48" /> {/* Content */}
-            <col className="w-36" /> {/* Reporter */}
-            <col className="w-36" /> {/* Reported User */}
-            <col className="w-32" /> {/* Category */}
-            <col className="w-28" /> {/* Report Count */}
-            <col className="w-24" /> {/* Status */}
-            <col className="w-44" /> {/* Action */}
-          </colgroup>
-          <thead className="bg-gray-50 dark:bg-gray-700">
-            <tr>
-              <RegularTableHeader
-                label="Date"
-                className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
-              />
-              <RegularTableHeader
-                label="Content"
-                className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
-              />
-              <RegularTableHeader
-                label="Reporter"
-                className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
-              />
-              <RegularTableHeader
-                label="Reported User"
-                className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
-              />
-              <RegularTableHeader
-                label="Category"
-                className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
-              />
-              <SortableTableHeader
-                field="reportCount"
-                label="Report Count"
-                currentSortField={sortBy}
-                sortOrder={sortOrder}
-                onSort={handleSort}
-                className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
-              />
-              <RegularTableHeader
-                label="Status"
-                className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
-              />
-              <RegularTableHeader
-                label="Action"
-                className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
-              />
-            </tr>
-          </thead>
-          <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-            {paginatedReports.map((report) => {
-              const isHighlighted =
-                highlightPostId && report.postId === highlightPostId;
-
-              return (
-                <tr
-                  key={report.id}
-                  id={`report-${report.postId}`}
-                  className={`hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors ${
-                    isHighlighted
-                      ? "bg-yellow-100 dark:bg-yellow-900/30 border-l-4 border-yellow-500"
-                      : ""
-                  }`}
-                >
-                  <td className="px-3 py-4 text-sm text-gray-900 dark:text-white">
-                    <div className="truncate">
-                      {formatDate(report.reportDate)}
-                    </div>
-                  </td>
-                  <td className="px-3 py-4 text-sm text-gray-900 dark:text-white">
-                    <div className="truncate mb-1" title={report.postContent}>
-                      {report.postContent || "(No content)"}
-                    </div>
-                    <div
-                      className="text-xs text-gray-500 dark:text-gray-400 font-mono truncate"
-                      title={report.postId}
-                    >
-                      ID: {report.postId || "N/A"}
-                    </div>
-                  </td>
-                  <td className="px-3 py-4">
-                    <div
-                      className="text-sm font-medium text-gray-900 dark:text-white truncate"
-                      title={report.reporter?.name || "Unknown Reporter"}
-                    >
-                      {report.reporter?.name || "Unknown Reporter"}
-                    </div>
-                    <div
-                      className="text-xs text-gray-500 dark:text-gray-400 truncate"
-                      title={report.reporter?.id || "N/A"}
-                    >
-                      ID: {report.reporter?.id || "N/A"}
-                    </div>
-                  </td>
-                  <td className="px-3 py-4">
-                    <div
-                      className="text-sm font-medium text-gray-900 dark:text-white truncate"
-                      title={report.reported?.name || "Unknown User"}
-                    >
-                      {report.reported?.name || "Unknown User"}
-                    </div>
-                    <div
-                      className="text-xs text-gray-500 dark:text-gray-400 truncate"
-                      title={report.reported?.id || "N/A"}
-                    >
-                      ID: {report.reported?.id || "N/A"}
-                    </div>
-                  </td>
-                  <td className="px-3 py-4">
-                    <span
-                      className={`px-2 py-1 text-xs font-medium rounded-full truncate inline-block max-w-full ${getCategoryColor(report.category)}`}
-                      title={getCategoryLabel(report.category)}
-                    >
-                      {getCategoryLabel(report.category)}
-                    </span>
-                  </td>
-                  <td className="px-3 py-4 text-sm text-gray-900 dark:text-white">
-                    <span className="flex items-center">
+      {viewMode === "reports" ? (
+        <div className="overflow-x-auto">
+          <BulkActionBar
+            selectedCount={selectedIds.size}
+            matchingCount={filteredReports.length}
+            allMatchingSelected={allMatchingSelected}
+            itemLabel="report"
+            actions={REPORT_BULK_ACTIONS}
+            progress={bulkProgress}
+            onSelectAllMatching={() =>
+              setSelectedIds(new Set(filteredReports.map((report) => report.id)))
+            }
+            onClearSelection={() => setSelectedIds(new Set())}
+            onRun={handleBulkAction}
+            className="mx-3 my-4"
+          />
+          <table className="w-full table-fixed">
+            <colgroup>
+              <col className="w-10" /> {/* Select */}
+              <col className="w-28" /> {/* Date */}
+              <col className="w-48" /> {/* Content */}
+              <col className="w-36" /> {/* Reporter */}
+              <col className="w-36" /> {/* Reported User */}
+              <col className="w-32" /> {/* Category */}
+              <col className="w-28" /> {/* Report Count */}
+              <col className="w-24" /> {/* Status */}
+              <col className="w-44" /> {/* Action */}
+            </colgroup>
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-3 py-3">
+                  <input
+                    type="checkbox"
+                    checked={pageSelected}
+                    onChange={togglePageSelected}
+                    disabled={bulkProgress !== null}
+                    className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                    title="Select this page"
+                  />
+                </th>
+                <RegularTableHeader
+                  label="Date"
+                  className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
+                />
+                <RegularTableHeader
+                  label="Content"
+                  className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
+                />
+                <RegularTableHeader
+                  label="Reporter"
+                  className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
+                />
+                <RegularTableHeader
+                  label="Reported User"
+                  className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
+                />
+                <RegularTableHeader
+                  label="Category"
+                  className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
+                />
+                <SortableTableHeader
+                  field="reportCount"
+                  label="Report Count"
+                  currentSortField={sortBy}
+                  sortOrder={sortOrder}
+                  onSort={handleSort}
+                  className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
+                />
+                <RegularTableHeader
+                  label="Status"
+                  className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
+                />
+                <RegularTableHeader
+                  label="Action"
+                  className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
+                />
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {paginatedReports.map((report) => {
+                const isHighlighted =
+                  highlightPostId && report.postId === highlightPostId;
+
+                return (
+                  <tr
+                    key={report.id}
+                    id={`report-${report.postId}`}
+                    className={`hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors ${
+                      isHighlighted
+                        ? "bg-yellow-100 dark:bg-yellow-900/30 border-l-4 border-yellow-500"
+                        : selectedIds.has(report.id)
+                          ? "bg-purple-50 dark:bg-purple-900/20"
+                          : ""
+                    }`}
+                  >
+                    <td className="px-3 py-4">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(report.id)}
+                        onChange={() => toggleSelected(report.id)}
+                        disabled={bulkProgress !== null}
+                        className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                      />
+                    </td>
+                    <td className="px-3 py-4 text-sm text-gray-900 dark:text-white">
+                      <div className="truncate">
+                        {formatDate(report.reportDate)}
+                      </div>
+                    </td>
+                    <td className="px-3 py-4 text-sm text-gray-900 dark:text-white">
+                      <div className="truncate mb-1" title={report.postContent}>
+                        {report.postContent || "(No content)"}
+                      </div>
+                      <div
+                        className="text-xs text-gray-500 dark:text-gray-400 font-mono truncate"
+                        title={report.postId}
+                      >
+                        ID: {report.postId || "N/A"}
+                      </div>
+                    </td>
+                    <td className="px-3 py-4">
+                      <div
+                        className="text-sm font-medium text-gray-900 dark:text-white truncate"
+                        title={report.reporter?.name || "Unknown Reporter"}
+                      >
+                        {report.reporter?.name || "Unknown Reporter"}
+                      </div>
+                      <div
+                        className="text-xs text-gray-500 dark:text-gray-400 truncate"
+                        title={report.reporter?.id || "N/A"}
+                      >
+                        ID: {report.reporter?.id || "N/A"}
+                      </div>
+                    </td>
+                    <td className="px-3 py-4">
+                      <div
+                        className="text-sm font-medium text-gray-900 dark:text-white truncate"
+                        title={report.reported?.name || "Unknown User"}
+                      >
+                        {report.reported?.name || "Unknown User"}
+                      </div>
+                      <div
+                        className="text-xs text-gray-500 dark:text-gray-400 truncate"
+                        title={report.reported?.id || "N/A"}
+                      >
+                        ID: {report.reported?.id || "N/A"}
+                      </div>
+                    </td>
+                    <td className="px-3 py-4">
                       <span
-                        className={`w-2 h-2 rounded-full mr-2 shrink-0 ${getReportCountColor(reportCountByPostId[report.postId] || report.reportCount)}`}
-                      ></span>
-                      {reportCountByPostId[report.postId] || report.reportCount}
-                    </span>
-                  </td>
-                  <td className="px-3 py-4">
-                    <span
-                      className={`px-2 py-1 text-xs font-medium rounded-full truncate inline-block max-w-full ${getStatusColor(report)}`}
-                    >
-                      {getStatusLabel(report)}
-                    </span>
-                  </td>
-                  <td className="px-3 py-4 text-sm">
-                    <div className="flex items-center space-x-1">
-                      {/* View Details Button */}
-                      <button
-                        onClick={() => handleView(report.id)}
-                        className="text-purple-600 dark:text-purple-400 hover:text-purple-700 dark:hover:text-purple-300 p-1"
-                        title="View Details"
+                        className={`px-2 py-1 text-xs font-medium rounded-full truncate inline-block max-w-full ${getCategoryColor(report.category)}`}
+                        title={getCategoryLabel(report.category)}
+                      >
+                        {getCategoryLabel(report.category)}
+                      </span>
+                    </td>
+                    <td className="px-3 py-4 text-sm text-gray-900 dark:text-white">
+                      <span className="flex items-center">
+                        <span
+                          className={`w-2 h-2 rounded-full mr-2 shrink-0 ${getReportCountColor(reportCountByPostId[report.postId] || report.reportCount)}`}
+                        ></span>
+                        {reportCountByPostId[report.postId] || report.reportCount}
+                      </span>
+                    </td>
+                    <td className="px-3 py-4">
+                      <span
+                        className={`px-2 py-1 text-xs font-medium rounded-full truncate inline-block max-w-full ${getStatusColor(report)}`}
                       >
-                        <svg
-                          className="w-4 h-4"
-                          fill="none"
-                          stroke="currentColor"
-                          viewBox="0 0 24 24"
+                        {getStatusLabel(report)}
+                      </span>
+                    </td>
+                    <td className="px-3 py-4 text-sm">
+                      <div className="flex items-center space-x-1">
+                        {/* View Details Button */}
+                        <button
+                          onClick={() => handleView(report.id)}
+                          className="text-purple-600 dark:text-purple-400 hover:text-purple-700 dark:hover:text-purple-300 p-1"
+                          title="View Details"
                         >
-                          <path
-                            strokeLinecap="round"
-                            strokeLinejoin="round"
-                            strokeWidth={2}
-                            d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
-                          />
-                          <path
-                            strokeLinecap="round"
-                            strokeLinejoin="round"
-                            strokeWidth={2}
-                            d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"
-                          />
-                        </svg>
-                      </button>
-
-                      {/* Remove Post & Warn Button - Only show if report is pending and not already warned */}
-                      {report.status === "pending" &&
-                        !warnedPostIds.has(report.postId) && (
-                          <button
-                            onClick={() =>
-                              handlePostRemovalAndWarning(report.id)
-                            }
-                            className="px-1 py-1 rounded transition-colors text-white bg-red-600 hover:bg-red-700 flex items-center space-x-1"
-                            title="Remove Post & Warn User"
+                          <svg
+                            className="w-4 h-4"
+                            fill="none"
+                            stroke="currentColor"
+                            viewBox="0 0 24 24"
                           >
-                            <svg
-                              className="w-3 h-3"
-                              fill="none"
-                              stroke="currentColor"
-                              viewBox="0 0 24 24"
+                            <path
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              strokeWidth={2}
+                              d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+                            />
+                            <path
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              strokeWidth={2}
+                              d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"
+                            />
+                          </svg>
+                        </button>
+
+                        {/* Remove Post & Warn Button - Only show if report is pending and not already warned */}
+                        {report.status === "pending" &&
+                          !warnedPostIds.has(report.postId) && (
+                            <button
+                              onClick={() =>
+                                handlePostRemovalAndWarning(report.id)
+                              }
+                              className="px-1 py-1 rounded transition-colors text-white bg-red-600 hover:bg-red-700 flex items-center space-x-1"
+                              title="Remove Post & Warn User"
                             >
-                              <path
-                                strokeLinecap="round"
-                                strokeLinejoin="round"
-                                strokeWidth={2}
-                                d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L4.082 16.5c-.77.833.192 2.5 1.732 2.5z"
-                              />
-                            </svg>
-                            <span className="text-xs">&</span>
+                              <svg
+                                className="w-3 h-3"
+                                fill="none"
+                                stroke="currentColor"
+                                viewBox="0 0 24 24"
+                              >
+                                <path
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                  strokeWidth={2}
+                                  d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L4.082 16.5c-.77.833.192 2.5 1.732 2.5z"
+                                />
+                              </svg>
+                              <span className="text-xs">&</span>
+                              <svg
+                                className="w-3 h-3"
+                                fill="none"
+                                stroke="currentColor"
+                                viewBox="0 0 24 24"
+                              >
+                                <path
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                  strokeWidth={2}
+                                  d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                                />
+                              </svg>
+                            </button>
+                          )}
+
+                        {/* Dismiss Button - Only show for pending reports */}
+                        {report.status === "pending" && (
+                          <button
+                            onClick={() => handleDismissReport(report.id)}
+                            className="p-1 rounded transition-colors text-white bg-gray-600 hover:bg-gray-700"
+                            title="Dismiss Report"
+                          >
                             <svg
-                              className="w-3 h-3"
+                              className="w-4 h-4"
                               fill="none"
                               stroke="currentColor"
                               viewBox="0 0 24 24"
@@ -686,42 +1082,321 @@ export default function ReportTable({
                                 strokeLinecap="round"
                                 strokeLinejoin="round"
                                 strokeWidth={2}
-                                d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                                d="M6 18L18 6M6 6l12 12"
                               />
                             </svg>
                           </button>
                         )}
-
-                      {/* Dismiss Button - Only show for pending reports */}
-                      {report.status === "pending" && (
-                        <button
-                          onClick={() => handleDismissReport(report.id)}
-                          className="p-1 rounded transition-colors text-white bg-gray-600 hover:bg-gray-700"
-                          title="Dismiss Report"
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ) : viewMode === "posts" ? (
+        <div className="overflow-x-auto">
+          <table className="w-full table-fixed">
+            <colgroup>
+              <col className="w-56" /> {/* Post */}
+              <col className="w-28" /> {/* Reporters */}
+              <col className="w-56" /> {/* Categories */}
+              <col className="w-40" /> {/* First / Last Report */}
+              <col className="w-28" /> {/* Post Status */}
+              <col className="w-24" /> {/* Pending */}
+              <col className="w-44" /> {/* Action */}
+            </colgroup>
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <RegularTableHeader
+                  label="Post"
+                  className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
+                />
+                <SortableTableHeader
+                  field="reportCount"
+                  label="Reporters"
+                  currentSortField={sortBy}
+                  sortOrder={sortOrder}
+                  onSort={handleSort}
+                  className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
+                />
+                <RegularTableHeader
+                  label="Categories"
+                  className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
+                />
+                <RegularTableHeader
+                  label="First / Last Report"
+                  className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
+                />
+                <RegularTableHeader
+                  label="Post Status"
+                  className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
+                />
+                <RegularTableHeader
+                  label="Pending"
+                  className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
+                />
+                <RegularTableHeader
+                  label="Action"
+                  className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
+                />
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {paginatedGroups.length === 0 ? (
+                <tr>
+                  <td
+                    colSpan={7}
+                    className="px-6 py-12 text-center text-sm text-gray-500 dark:text-gray-400"
+                  >
+                    No reported posts match the current filters.
+                  </td>
+                </tr>
+              ) : (
+                paginatedGroups.map((group) => {
+                  const pendingCount = pendingCountByPostId[group.postId] || 0;
+                  const isHighlighted =
+                    highlightPostId && group.postId === highlightPostId;
+
+                  return (
+                    <tr
+                      key={group.id}
+                      id={`reported-post-${group.postId}`}
+                      className={`hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors ${
+                        isHighlighted
+                          ? "bg-yellow-100 dark:bg-yellow-900/30 border-l-4 border-yellow-500"
+                          : ""
+                      }`}
+                    >
+                      <td className="px-3 py-4 text-sm text-gray-900 dark:text-white">
+                        <div className="truncate mb-1" title={group.postContent}>
+                          {group.postContent || "(No content)"}
+                        </div>
+                        <div
+                          className="text-xs text-gray-500 dark:text-gray-400 font-mono truncate"
+                          title={group.postId}
                         >
-                          <svg
-                            className="w-4 h-4"
-                            fill="none"
-                            stroke="currentColor"
-                            viewBox="0 0 24 24"
-                          >
-                            <path
-                              strokeLinecap="round"
-                              strokeLinejoin="round"
-                              strokeWidth={2}
-                              d="M6 18L18 6M6 6l12 12"
-                            />
-                          </svg>
-                        </button>
-                      )}
-                    </div>
+                          ID: {group.postId}
+                        </div>
+                      </td>
+                      <td className="px-3 py-4 text-sm text-gray-900 dark:text-white">
+                        <span className="flex items-center">
+                          <span
+                            className={`w-2 h-2 rounded-full mr-2 shrink-0 ${getReportCountColor(group.reporterCount)}`}
+                          ></span>
+                          {group.reporterCount}
+                        </span>
+                      </td>
+                      <td className="px-3 py-4">
+                        <div className="flex flex-wrap gap-1">
+                          {Object.entries(group.categoryCounts)
+                            .filter(([, count]) => count > 0)
+                            .sort(([, a], [, b]) => b - a)
+                            .map(([category, count]) => (
+                              <span
+                                key={category}
+                                className={`px-2 py-0.5 text-xs font-medium rounded-full ${getCategoryColor(category)}`}
+                                title={getCategoryLabel(category)}
+                              >
+                                {getCategoryLabel(category)} × {count}
+                              </span>
+                            ))}
+                        </div>
+                      </td>
+                      <td className="px-3 py-4 text-xs text-gray-500 dark:text-gray-400">
+                        <div>{formatDate(group.firstReportedAt)}</div>
+                        <div>{formatDate(group.lastReportedAt)}</div>
+                      </td>
+                      <td className="px-3 py-4">
+                        <span
+                          className={`px-2 py-1 text-xs font-medium rounded-full truncate inline-block max-w-full ${getPostStatusColor(group.postStatus)}`}
+                        >
+                          {group.postStatus.replace(/_/g, " ")}
+                        </span>
+                      </td>
+                      <td className="px-3 py-4 text-sm text-gray-900 dark:text-white">
+                        {pendingCount}
+                      </td>
+                      <td className="px-3 py-4 text-sm">
+                        {pendingCount > 0 ? (
+                          <div className="flex items-center space-x-1">
+                            <button
+                              onClick={() =>
+                                setGroupToSettle({
+                                  group,
+                                  action: "resolve_reports",
+                                })
+                              }
+                              className="px-2 py-1 text-xs rounded transition-colors text-white bg-green-600 hover:bg-green-700"
+                              title="Resolve all pending reports for this post"
+                            >
+                              Resolve
+                            </button>
+                            <button
+                              onClick={() =>
+                                setGroupToSettle({
+                                  group,
+                                  action: "dismiss_reports",
+                                })
+                              }
+                              className="px-2 py-1 text-xs rounded transition-colors text-white bg-gray-600 hover:bg-gray-700"
+                              title="Dismiss all pending reports for this post"
+                            >
+                              Dismiss
+                            </button>
+                          </div>
+                        ) : (
+                          <span className="text-xs text-gray-400">—</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full table-fixed">
+            <colgroup>
+              <col className="w-28" /> {/* Removed */}
+              <col className="w-56" /> {/* Post */}
+              <col className="w-40" /> {/* Triggering Report */}
+              <col className="w-36" /> {/* Reporter */}
+              <col className="w-24" /> {/* Status */}
+              <col className="w-32" /> {/* Action */}
+            </colgroup>
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <RegularTableHeader
+                  label="Removed"
+                  className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
+                />
+                <RegularTableHeader
+                  label="Post"
+                  className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
+                />
+                <RegularTableHeader
+                  label="Triggering Report"
+                  className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
+                />
+                <RegularTableHeader
+                  label="Reporter"
+                  className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
+                />
+                <RegularTableHeader
+                  label="Status"
+                  className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
+                />
+                <RegularTableHeader
+                  label="Action"
+                  className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
+                />
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {paginatedAutoRemoved.length === 0 ? (
+                <tr>
+                  <td
+                    colSpan={6}
+                    className="px-6 py-12 text-center text-sm text-gray-500 dark:text-gray-400"
+                  >
+                    No auto-removed posts match the current filters.
                   </td>
                 </tr>
-              );
-            })}
-          </tbody>
-        </table>
-      </div>
+              ) : (
+                paginatedAutoRemoved.map((report) => (
+                  <tr
+                    key={report.id}
+                    id={`auto-removed-${report.postId}`}
+                    className="hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                  >
+                    <td className="px-3 py-4 text-sm text-gray-900 dark:text-white">
+                      <div className="truncate">
+                        {formatDate(report.reportDate)}
+                      </div>
+                    </td>
+                    <td className="px-3 py-4 text-sm text-gray-900 dark:text-white">
+                      <div className="truncate mb-1" title={report.postContent}>
+                        {report.postContent || "(No content)"}
+                      </div>
+                      <div
+                        className="text-xs text-gray-500 dark:text-gray-400 truncate"
+                        title={report.reported?.name || "Unknown User"}
+                      >
+                        by {report.reported?.name || "Unknown User"}
+                      </div>
+                      <div
+                        className="text-xs text-gray-500 dark:text-gray-400 font-mono truncate"
+                        title={report.postId}
+                      >
+                        ID: {report.postId || "N/A"}
+                      </div>
+                    </td>
+                    <td className="px-3 py-4">
+                      <span
+                        className={`px-2 py-1 text-xs font-medium rounded-full truncate inline-block max-w-full ${getCategoryColor(report.category)}`}
+                        title={getCategoryLabel(report.category)}
+                      >
+                        {getCategoryLabel(report.category)}
+                      </span>
+                      <div
+                        className="text-xs text-gray-500 dark:text-gray-400 truncate mt-1"
+                        title={report.description}
+                      >
+                        {report.description || "(No description)"}
+                      </div>
+                    </td>
+                    <td className="px-3 py-4">
+                      <div
+                        className="text-sm font-medium text-gray-900 dark:text-white truncate"
+                        title={report.reporter?.name || "Unknown Reporter"}
+                      >
+                        {report.reporter?.name || "Unknown Reporter"}
+                      </div>
+                      <div
+                        className="text-xs text-gray-500 dark:text-gray-400 truncate"
+                        title={report.reporter?.id || "N/A"}
+                      >
+                        ID: {report.reporter?.id || "N/A"}
+                      </div>
+                    </td>
+                    <td className="px-3 py-4">
+                      <span
+                        className={`px-2 py-1 text-xs font-medium rounded-full truncate inline-block max-w-full ${getStatusColor(report)}`}
+                      >
+                        {getStatusLabel(report)}
+                      </span>
+                    </td>
+                    <td className="px-3 py-4 text-sm">
+                      <div className="flex items-center space-x-1">
+                        <button
+                          onClick={() => handleView(report.id)}
+                          className="px-2 py-1 text-xs rounded transition-colors text-purple-700 bg-purple-50 hover:bg-purple-100 dark:text-purple-300 dark:bg-purple-900/30 dark:hover:bg-purple-900/50"
+                          title="View Details"
+                        >
+                          View
+                        </button>
+                        {isStillAutoRemoved(report) && (
+                          <button
+                            onClick={() => setReportToRestore(report)}
+                            className="px-2 py-1 text-xs rounded transition-colors text-white bg-green-600 hover:bg-green-700"
+                            title="Restore the post and dismiss this report"
+                          >
+                            Restore
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
 
       {/* Pagination */}
       <div className="bg-white dark:bg-gray-800 px-4 py-3 border-t border-gray-200 dark:border-gray-700 sm:px-6">
@@ -740,8 +1415,8 @@ export default function ReportTable({
             </select>
             <span>
               {startIndex + 1}-
-              {Math.min(startIndex + rowsPerPage, filteredReports.length)} of{" "}
-              {filteredReports.length} rows
+              {Math.min(startIndex + rowsPerPage, totalRows)} of {totalRows}{" "}
+              rows
             </span>
           </div>
           <div className="flex items-center space-x-2">
@@ -978,6 +1653,11 @@ export default function ReportTable({
                       <li>• This action cannot be undone</li>
                     </ul>
                   </div>
+
+                  <NextSanctionPreview
+                    userId={reportToRemoveWarn.reported.id}
+                    className="mt-4"
+                  />
                 </div>
 
                 {/* Actions */}
@@ -1131,6 +1811,126 @@ export default function ReportTable({
           </div>
         </>
       )}
+
+      {/* Group Dismiss / Resolve Confirmation Modal */}
+      {groupToSettle && (
+        <>
+          {/* Modal backdrop */}
+          <div
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm z-60"
+            onClick={() => !settlingGroup && setGroupToSettle(null)}
+          />
+
+          {/* Modal */}
+          <div className="fixed inset-0 z-70 flex items-center justify-center p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full mx-4">
+              <div className="p-6">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+                  {groupToSettle.action === "dismiss_reports"
+                    ? "Dismiss All Reports"
+                    : "Resolve All Reports"}
+                </h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                  {pendingCountByPostId[groupToSettle.group.postId] || 0}{" "}
+                  pending report(s) from {groupToSettle.group.reporterCount}{" "}
+                  reporter(s) will be marked as{" "}
+                  {groupToSettle.action === "dismiss_reports"
+                    ? "dismissed"
+                    : "resolved"}
+                  . The post itself is left unchanged.
+                </p>
+
+                <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-3 mb-6">
+                  <p className="text-xs text-gray-600 dark:text-gray-400 mb-1">
+                    Reported content:
+                  </p>
+                  <p className="text-sm text-gray-900 dark:text-white line-clamp-3">
+                    &ldquo;{groupToSettle.group.postContent}&rdquo;
+                  </p>
+                </div>
+
+                <div className="flex space-x-3">
+                  <button
+                    onClick={() => setGroupToSettle(null)}
+                    disabled={settlingGroup}
+                    className="flex-1 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-lg hover:bg-gray-200 transition-colors dark:text-gray-300 dark:bg-gray-700 dark:border-gray-600 dark:hover:bg-gray-600 disabled:opacity-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={confirmSettleGroup}
+                    disabled={settlingGroup}
+                    className={`flex-1 px-4 py-2 text-sm font-medium text-white rounded-lg transition-colors disabled:opacity-50 ${
+                      groupToSettle.action === "dismiss_reports"
+                        ? "bg-gray-600 hover:bg-gray-700"
+                        : "bg-green-600 hover:bg-green-700"
+                    }`}
+                  >
+                    {settlingGroup
+                      ? "Processing..."
+                      : groupToSettle.action === "dismiss_reports"
+                        ? "Dismiss"
+                        : "Resolve"}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+
+      {reportToRestore && (
+        <>
+          {/* Modal backdrop */}
+          <div
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm z-60"
+            onClick={() => !restoringPost && setReportToRestore(null)}
+          />
+
+          {/* Modal */}
+          <div className="fixed inset-0 z-70 flex items-center justify-center p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full mx-4">
+              <div className="p-6">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+                  Restore Post
+                </h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                  The post by {reportToRestore.reported?.name || "this user"}{" "}
+                  will be visible again, the reports that removed it will be
+                  dismissed and the author will be told the removal notice no
+                  longer applies.
+                </p>
+
+                <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-3 mb-6">
+                  <p className="text-xs text-gray-600 dark:text-gray-400 mb-1">
+                    Removed content:
+                  </p>
+                  <p className="text-sm text-gray-900 dark:text-white line-clamp-3">
+                    &ldquo;{reportToRestore.postContent}&rdquo;
+                  </p>
+                </div>
+
+                <div className="flex space-x-3">
+                  <button
+                    onClick={() => setReportToRestore(null)}
+                    disabled={restoringPost}
+                    className="flex-1 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-lg hover:bg-gray-200 transition-colors dark:text-gray-300 dark:bg-gray-700 dark:border-gray-600 dark:hover:bg-gray-600 disabled:opacity-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={confirmRestorePost}
+                    disabled={restoringPost}
+                    className="flex-1 px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {restoringPost ? "Restoring..." : "Restore"}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
     </div>
   );
 }
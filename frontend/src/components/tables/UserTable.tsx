@@ -1,18 +1,15 @@
 import React, { useEffect, useState } from "react";
 import { User, USER_STATUS, FACULTIES, UserStatus } from "@/types/export";
+import { fetchUsers } from "@/lib/firestore/users";
 import {
-  fetchUsers,
-  incrementUserWarningCount,
-  updateUserStatus,
-} from "@/lib/firestore/users";
-import { markUserPostsAsWarned } from "@/lib/firestore/posts";
-import { resolveReportsByPostIds } from "@/lib/firestore/reports";
+  formatBulkFailures,
+  moderateUser,
+  ModeratedUserState,
+} from "@/lib/firestore/moderation";
 import UserDetailDrawer from "../drawers/UserDetailDrawer";
 import { useAdminAuth } from "@/hooks/useAdminAuth";
 import { useAdminConfiguration } from "@/hooks/useAdminConfiguration";
-import { useAuthState } from "react-firebase-hooks/auth";
-import { auth } from "@/lib/firebase";
-import { sendTemporaryBan, sendPermanentBan } from "@/lib/notifications";
+import { NextSanctionPreview } from "@/components/ui/NextSanctionPreview";
 import {
   SortableTableHeader,
   RegularTableHeader,
@@ -40,10 +37,7 @@ export default function UserTable({
   initialSearchTerm = "",
 }: UserTableProps) {
   const { isAuthenticated, isLoading } = useAdminAuth();
-  const { config } = useAdminConfiguration();
-  const [user] = useAuthState(auth);
-  const suspendThreshold = config?.suspendThreshold || 5;
-  const banAfterSuspendCount = config?.banAfterSuspendCount || 3;
+  const { config, getNextSanction } = useAdminConfiguration();
   const [searchTerm, setSearchTerm] = useState(initialSearchTerm);
   const [statusFilter, setStatusFilter] = useState("");
   const [facultyFilter, setFacultyFilter] = useState("");
@@ -71,92 +65,19 @@ export default function UserTable({
   useEffect(() => {
     setLoading(true);
     fetchUsers()
-      .then(async (data) => {
+      .then((data) => {
+        // Escalation (suspend/ban) is applied server-side by moderateUser when a warning is issued
         const users: User[] = data.map((user) => ({
           ...user,
           status: user.status.toLowerCase() as UserStatus,
           suspendCount: user.suspendCount || 0,
         }));
 
-        const autoModerationPromises: Promise<void>[] = [];
-
-        // Auto-ban users whose suspendCount >= banAfterSuspendCount
-        users
-          .filter(
-            (u) =>
-              (u.suspendCount || 0) >= banAfterSuspendCount &&
-              u.status !== USER_STATUS.BANNED,
-          )
-          .forEach((u) => {
-            autoModerationPromises.push(
-              updateUserStatus(u.id, USER_STATUS.BANNED).then(async () => {
-                u.status = USER_STATUS.BANNED as UserStatus;
-                // Send permanent ban notification
-                try {
-                  await sendPermanentBan(
-                    u.id,
-                    user?.uid || "admin",
-                    `Exceeded maximum suspension limit (${banAfterSuspendCount} suspensions)`,
-                  );
-                  console.log(
-                    `Permanent ban notification sent to user ${u.id}`,
-                  );
-                } catch (error) {
-                  console.error("Error sending ban notification:", error);
-                }
-              }),
-            );
-          });
-
-        // Auto-suspend users whose warningCount >= suspendThreshold (only if not already banned)
-        users
-          .filter(
-            (u) =>
-              u.warningCount >= suspendThreshold &&
-              u.status !== USER_STATUS.SUSPENDED &&
-              u.status !== USER_STATUS.BANNED &&
-              (u.suspendCount || 0) < banAfterSuspendCount,
-          )
-          .forEach((u) => {
-            autoModerationPromises.push(
-              updateUserStatus(
-                u.id,
-                USER_STATUS.SUSPENDED,
-                config?.suspendDurationDays || 30,
-              ).then(async () => {
-                u.status = USER_STATUS.SUSPENDED as UserStatus;
-                u.suspendCount = (u.suspendCount || 0) + 1;
-                // Send temporary ban notification
-                try {
-                  const duration = config?.suspendDurationDays
-                    ? `${config.suspendDurationDays} days`
-                    : "30 days";
-                  await sendTemporaryBan(
-                    u.id,
-                    user?.uid || "admin",
-                    duration,
-                    `Exceeded warning limit (${suspendThreshold} warnings)`,
-                  );
-                  console.log(
-                    `Temporary suspension notification sent to user ${u.id}`,
-                  );
-                } catch (error) {
-                  console.error(
-                    "Error sending suspension notification:",
-                    error,
-                  );
-                }
-              }),
-            );
-          });
-
-        await Promise.all(autoModerationPromises);
-
         setFetchedUsers(users);
       })
       .catch((err) => console.error("Error fetching users:", err))
       .finally(() => setLoading(false));
-  }, [suspendThreshold, banAfterSuspendCount]);
+  }, []);
 
   // Update search term when initialSearchTerm changes
   useEffect(() => {
@@ -180,6 +101,10 @@ export default function UserTable({
 
   const displayUsers = users || (fetchedUsers.length > 0 ? fetchedUsers : []);
 
+  // The sanction ladder's next step for this user is a permanent ban
+  const isBanNext = (user: User) =>
+    getNextSanction(user).nextStep.type === "ban";
+
   const filteredUsers = displayUsers
     .filter((user) => {
       return (
@@ -257,96 +182,46 @@ export default function UserTable({
     });
   };
 
+  // Merge the state returned by moderateUser into the table and open drawer
+  const applyModeratedUser = (moderated: ModeratedUserState) => {
+    const merge = (u: User): User => ({
+      ...u,
+      status: moderated.status,
+      warningCount: moderated.warningCount,
+      suspendCount: moderated.suspendCount,
+      suspendedAt: moderated.suspendedAt || undefined,
+      suspendExpiresAt: moderated.suspendExpiresAt || undefined,
+      bannedAt: moderated.bannedAt || undefined,
+      sanctionLevel: moderated.sanctionLevel ?? undefined,
+      lastViolationAt: moderated.lastViolationAt || undefined,
+    });
+
+    setFetchedUsers((prev) =>
+      prev.map((u) => (u.id === moderated.id ? merge(u) : u)),
+    );
+    setSelectedUser((prev) =>
+      prev && prev.id === moderated.id ? merge(prev) : prev,
+    );
+  };
+
   const confirmWarn = async () => {
     const { userId } = warnModal;
     setWarnModal({ isOpen: false, userId: "", userName: "" });
     try {
-      // Increment warning count
-      await incrementUserWarningCount(userId);
-
-      // Mark all user's posts as warned and get their IDs
-      const warnedPostIds = await markUserPostsAsWarned(userId);
-
-      // Resolve all reports for the user's posts
-      if (warnedPostIds.length > 0) {
-        await resolveReportsByPostIds(warnedPostIds);
-      }
-
-      // Refresh users data to get updated warning count
-      setLoading(true);
-      const updatedUsers = await fetchUsers();
-      const users: User[] = updatedUsers.map((user) => ({
-        ...user,
-        status: user.status.toLowerCase() as UserStatus,
-      }));
-
-      // Auto-suspend if warning count now exceeds threshold, or ban if suspend count is too high
-      const warnedUser = users.find((u) => u.id === userId);
-      if (warnedUser) {
-        // First check if should be permanently banned (suspendCount >= threshold)
-        if ((warnedUser.suspendCount || 0) >= banAfterSuspendCount) {
-          await updateUserStatus(userId, USER_STATUS.BANNED);
-          warnedUser.status = USER_STATUS.BANNED as UserStatus;
-          // Send permanent ban notification
-          try {
-            await sendPermanentBan(
-              userId,
-              user?.uid || "admin",
-              `Exceeded maximum suspension limit (${banAfterSuspendCount} suspensions)`,
-            );
-            console.log(`Permanent ban notification sent to user ${userId}`);
-          } catch (error) {
-            console.error("Error sending ban notification:", error);
-          }
-        }
-        // Then check if should be suspended (warningCount >= threshold)
-        else if (
-          warnedUser.warningCount >= suspendThreshold &&
-          warnedUser.status !== USER_STATUS.SUSPENDED &&
-          warnedUser.status !== USER_STATUS.BANNED
-        ) {
-          await updateUserStatus(
-            userId,
-            USER_STATUS.SUSPENDED,
-            config?.suspendDurationDays || 30,
-          );
-          warnedUser.status = USER_STATUS.SUSPENDED as UserStatus;
-          warnedUser.suspendCount = (warnedUser.suspendCount || 0) + 1;
-          // Send temporary ban notification
-          try {
-            const duration = config?.suspendDurationDays
-              ? `${config.suspendDurationDays} days`
-              : "30 days";
-            await sendTemporaryBan(
-              userId,
-              user?.uid || "admin",
-              duration,
-              `Exceeded warning limit (${suspendThreshold} warnings)`,
-            );
-            console.log(
-              `Temporary suspension notification sent to user ${userId}`,
-            );
-          } catch (error) {
-            console.error("Error sending suspension notification:", error);
-          }
-        }
-        // Otherwise just set to warning
-        else if (
-          warnedUser.status !== USER_STATUS.SUSPENDED &&
-          warnedUser.status !== USER_STATUS.BANNED
-        ) {
-          await updateUserStatus(userId, USER_STATUS.WARNING);
-          warnedUser.status = USER_STATUS.WARNING as UserStatus;
-        }
-      }
-
-      setFetchedUsers(users);
-      setLoading(false);
+      // Increments the warning count, marks the user's posts as warned, resolves
+      // their pending reports and applies the next sanction ladder step in one transaction
+      const result = await moderateUser(userId, "warn");
+      applyModeratedUser(result.user);
 
       console.log(
-        "User warned successfully, posts marked as warned, and related reports resolved:",
+        `User warned successfully (${result.escalation}), ${result.warnedPostIds.length} posts marked as warned and ${result.resolvedReportIds.length} reports resolved:`,
         userId,
       );
+      if (result.failed.length > 0) {
+        setError(
+          `User warned, but ${result.failed.length} post(s)/report(s) could not be updated: ${formatBulkFailures(result.failed)}`,
+        );
+      }
     } catch (error) {
       console.error("Error warning user:", error);
       setError("Failed to warn user");
@@ -372,43 +247,15 @@ export default function UserTable({
       userName: "",
     });
     try {
-      const newStatus =
-        currentStatus === USER_STATUS.SUSPENDED
-          ? USER_STATUS.ACTIVE
-          : USER_STATUS.SUSPENDED;
-      await updateUserStatus(
-        userId,
-        newStatus,
-        config?.suspendDurationDays || 30,
-      );
-
-      // Send notification if suspending (not unsuspending)
-      if (newStatus === USER_STATUS.SUSPENDED) {
-        try {
-          const duration = config?.suspendDurationDays
-            ? `${config.suspendDurationDays} days`
-            : "30 days";
-          await sendTemporaryBan(
-            userId,
-            user?.uid || "admin",
-            duration,
-            "Manual suspension by admin",
-          );
-          console.log(
-            `Temporary suspension notification sent to user ${userId}`,
-          );
-        } catch (error) {
-          console.error("Error sending suspension notification:", error);
-        }
-      }
+      const action =
+        currentStatus === USER_STATUS.SUSPENDED ? "unsuspend" : "suspend";
 
-      setLoading(true);
-      const updatedUsers = await fetchUsers();
-      setFetchedUsers(updatedUsers);
-      setLoading(false);
+      // Suspension notification is sent by the Cloud Function
+      const result = await moderateUser(userId, action);
+      applyModeratedUser(result.user);
 
       console.log(
-        `User ${newStatus === USER_STATUS.SUSPENDED ? "suspended" : "unsuspended"} successfully:`,
+        `User ${action === "suspend" ? "suspended" : "unsuspended"} successfully:`,
         userId,
       );
     } catch (error) {
@@ -536,7 +383,7 @@ export default function UserTable({
                 <td className="px-6 py-4 whitespace-nowrap">
                   <span
                     className={`px-3 py-1 text-sm font-medium rounded-full ${
-                      (user.suspendCount || 0) >= banAfterSuspendCount
+                      isBanNext(user)
                         ? "bg-red-100 text-red-800 border border-red-200 dark:bg-red-900 dark:text-red-300 dark:border-red-800"
                         : (user.suspendCount || 0) > 0
                           ? "bg-amber-100 text-amber-800 border border-amber-200 dark:bg-amber-900 dark:text-amber-300 dark:border-amber-800"
@@ -583,12 +430,10 @@ export default function UserTable({
                   <button
                     onClick={() => handleSuspendToggle(user.id, user.status)}
                     disabled={
-                      user.status === USER_STATUS.BANNED ||
-                      (user.suspendCount || 0) >= banAfterSuspendCount
+                      user.status === USER_STATUS.BANNED || isBanNext(user)
                     }
                     className={
-                      user.status === USER_STATUS.BANNED ||
-                      (user.suspendCount || 0) >= banAfterSuspendCount
+                      user.status === USER_STATUS.BANNED || isBanNext(user)
                         ? "text-gray-400 dark:text-gray-600 cursor-not-allowed p-1"
                         : user.status === USER_STATUS.SUSPENDED
                           ? "text-green-600 dark:text-green-400 hover:text-green-700 dark:hover:text-green-300 p-1"
@@ -597,7 +442,7 @@ export default function UserTable({
                     title={
                       user.status === USER_STATUS.BANNED
                         ? "Permanently Banned"
-                        : (user.suspendCount || 0) >= banAfterSuspendCount
+                        : isBanNext(user)
                           ? "Will be auto-banned on next warning"
                           : user.status === USER_STATUS.SUSPENDED
                             ? "Unsuspend"
@@ -755,19 +600,20 @@ export default function UserTable({
             <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
               Warn User
             </h3>
-            <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
               Are you sure you want to warn {warnModal.userName}? This will:
               <ul className="list-disc ml-5 mt-2">
                 <li>Increment their warning count by 1</li>
                 <li>Mark all their posts as warned</li>
                 <li>Resolve all reports for their posts</li>
-                {config && config.suspendThreshold && (
-                  <li className="text-orange-600 dark:text-orange-400 font-medium">
-                    Auto-suspend if warnings reach {config.suspendThreshold}
-                  </li>
-                )}
+                <li>Apply the next step of the sanction ladder</li>
               </ul>
             </p>
+            <NextSanctionPreview
+              user={displayUsers.find((u) => u.id === warnModal.userId)}
+              userId={warnModal.userId}
+              className="mb-6"
+            />
             <div className="flex justify-end gap-3">
               <button
                 onClick={() =>
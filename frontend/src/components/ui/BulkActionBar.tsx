@@ -0,0 +1,154 @@
+import React, { useState } from "react";
+
+export interface BulkAction<T extends string> {
+  key: T;
+  label: string;
+  // Shown in the confirmation dialog, e.g. "Remove 12 posts?"
+  confirmMessage: (count: number) => string;
+  className: string;
+}
+
+interface BulkActionBarProps<T extends string> {
+  selectedCount: number;
+  // Everything matching the current filter, when more than the selection
+  matchingCount: number;
+  allMatchingSelected: boolean;
+  selectingAllMatching?: boolean;
+  itemLabel: string;
+  actions: BulkAction<T>[];
+  progress: { processed: number; total: number } | null;
+  onSelectAllMatching: () => void;
+  onClearSelection: () => void;
+  onRun: (action: T) => void;
+  className?: string;
+}
+
+/**
+ * Toolbar shown above a table while rows are selected
+ * Confirms the chosen bulk action and shows its progress while it runs
+ */
+export function BulkActionBar<T extends string>({
+  selectedCount,
+  matchingCount,
+  allMatchingSelected,
+  selectingAllMatching = false,
+  itemLabel,
+  actions,
+  progress,
+  onSelectAllMatching,
+  onClearSelection,
+  onRun,
+  className = "mb-4",
+}: BulkActionBarProps<T>) {
+  const [pendingAction, setPendingAction] = useState<BulkAction<T> | null>(
+    null,
+  );
+
+  if (selectedCount === 0 && !progress) return null;
+
+  const isRunning = progress !== null;
+  const percent =
+    progress && progress.total > 0
+      ? Math.round((progress.processed / progress.total) * 100)
+      : 0;
+
+  return (
+    <div
+      className={`${className} p-3 bg-purple-50 dark:bg-purple-900/20 border border-purple-200 dark:border-purple-800 rounded-lg`}
+    >
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-purple-900 dark:text-purple-200">
+          {selectedCount} {itemLabel}
+          {selectedCount === 1 ? "" : "s"} selected
+        </span>
+
+        {!isRunning && !allMatchingSelected && matchingCount > selectedCount && (
+          <button
+            onClick={onSelectAllMatching}
+            disabled={selectingAllMatching}
+            className="text-sm text-purple-600 dark:text-purple-400 hover:underline disabled:opacity-50"
+          >
+            {selectingAllMatching
+              ? "Selecting..."
+              : `Select all ${matchingCount} matching the filter`}
+          </button>
+        )}
+
+        {!isRunning && (
+          <button
+            onClick={onClearSelection}
+            className="text-sm text-gray-600 dark:text-gray-400 hover:underline"
+          >
+            Clear selection
+          </button>
+        )}
+
+        <div className="flex flex-wrap gap-2 ml-auto">
+          {actions.map((action) => (
+            <button
+              key={action.key}
+              onClick={() => setPendingAction(action)}
+              disabled={isRunning || selectedCount === 0}
+              className={`px-3 py-1.5 text-sm font-medium text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${action.className}`}
+            >
+              {action.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {progress && (
+        <div className="mt-3">
+          <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400 mb-1">
+            <span>Processing...</span>
+            <span>
+              {progress.processed} / {progress.total}
+            </span>
+          </div>
+          <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-purple-600 transition-all"
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {pendingAction && (
+        <>
+          <div
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm z-60"
+            onClick={() => setPendingAction(null)}
+          />
+          <div className="fixed inset-0 z-70 flex items-center justify-center pointer-events-none">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700 p-6 w-full max-w-md mx-4 pointer-events-auto">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+                {pendingAction.label}
+              </h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+                {pendingAction.confirmMessage(selectedCount)}
+              </p>
+              <div className="flex justify-end gap-3">
+                <button
+                  onClick={() => setPendingAction(null)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => {
+                    onRun(pendingAction.key);
+                    setPendingAction(null);
+                  }}
+                  className={`px-4 py-2 text-sm font-medium text-white rounded-lg transition-colors ${pendingAction.className}`}
+                >
+                  {pendingAction.label}
+                </button>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from "react";
+import { User, USER_STATUS, getSanctionStepColor } from "@/types/export";
+import { fetchUserById } from "@/lib/firestore/users";
+import { describeSanctionStep } from "@/lib/businessRules";
+import { useAdminConfiguration } from "@/hooks/useAdminConfiguration";
+
+interface NextSanctionPreviewProps {
+  // The user when the caller already has it, otherwise it is fetched by userId
+  user?: User | null;
+  userId?: string;
+  className?: string;
+}
+
+/**
+ * Shows the sanction ladder step a warning will apply, before an admin confirms it
+ */
+export function NextSanctionPreview({
+  user,
+  userId,
+  className = "",
+}: NextSanctionPreviewProps) {
+  const { getNextSanction, getSanctionLadder } = useAdminConfiguration();
+  const [fetched, setFetched] = useState<{
+    userId: string;
+    user: User | null;
+  } | null>(null);
+
+  useEffect(() => {
+    if (user || !userId) return;
+
+    let cancelled = false;
+    fetchUserById(userId).then((result) => {
+      if (!cancelled) setFetched({ userId, user: result });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, userId]);
+
+  const target =
+    user || (fetched && fetched.userId === userId ? fetched.user : undefined);
+
+  if (target === undefined) {
+    return (
+      <div
+        className={`p-3 rounded-lg bg-gray-50 dark:bg-gray-900 text-sm text-gray-500 dark:text-gray-400 ${className}`}
+      >
+        Checking the next sanction...
+      </div>
+    );
+  }
+
+  // Nothing to preview for an account that no longer exists
+  if (!target) return null;
+
+  if (target.status === USER_STATUS.BANNED) {
+    return (
+      <div
+        className={`p-3 rounded-lg bg-gray-50 dark:bg-gray-900 text-sm text-gray-600 dark:text-gray-400 ${className}`}
+      >
+        This user is already banned; the warning is recorded without a further
+        sanction.
+      </div>
+    );
+  }
+
+  const { currentLevel, nextLevel, nextStep } = getNextSanction(target);
+  const ladderLength = getSanctionLadder().length;
+
+  // moderateUser only escalates a suspended user further when the step is a ban
+  if (target.status === USER_STATUS.SUSPENDED && nextStep.type !== "ban") {
+    return (
+      <div
+        className={`p-3 rounded-lg bg-gray-50 dark:bg-gray-900 text-sm text-gray-600 dark:text-gray-400 ${className}`}
+      >
+        This user is already suspended; the warning moves them to step{" "}
+        {nextLevel} without restarting the suspension.
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`p-3 rounded-lg border border-gray-200 dark:border-gray-700 text-sm ${className}`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium text-gray-700 dark:text-gray-300">
+          Next step
+        </span>
+        <span
+          className={`px-2 py-0.5 text-xs font-medium rounded-full ${getSanctionStepColor(nextStep.type)}`}
+        >
+          {describeSanctionStep(nextStep)}
+        </span>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+        {currentLevel === 0
+          ? "No standing sanctions."
+          : `Currently on step ${currentLevel} of ${ladderLength}.`}{" "}
+        {currentLevel === ladderLength
+          ? "The last step repeats."
+          : `This warning moves them to step ${nextLevel}.`}
+      </p>
+    </div>
+  );
+}
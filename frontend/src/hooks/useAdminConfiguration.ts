@@ -5,6 +5,7 @@ import {
   subscribeToConfiguration,
   DEFAULT_CONFIGURATION 
 } from '@/lib/firestore/configuration';
+import { evaluateNextSanction, SanctionHistory } from '@/lib/businessRules';
 
 /**
  * Hook for accessing and monitoring admin configuration settings
@@ -83,6 +84,10 @@ export const useAdminConfiguration = () => {
     return config?.dailyFreeCoin || DEFAULT_CONFIGURATION.dailyFreeCoin;
   }, [config]);
 
+  const getSanctionLadder = useCallback(() => {
+    return config?.sanctionLadder || DEFAULT_CONFIGURATION.sanctionLadder;
+  }, [config]);
+
 
 
   // Check if a post should be marked as urgent based on report count
@@ -106,6 +111,11 @@ export const useAdminConfiguration = () => {
     return currentPostCount >= dailyLimit;
   }, [getDailyFreePostLimit]);
 
+  // Preview the sanction ladder step the user's next warning applies
+  const getNextSanction = useCallback((user: SanctionHistory) => {
+    return evaluateNextSanction(getSanctionLadder(), user);
+  }, [getSanctionLadder]);
+
   // Calculate when a post should expire (for new posts)
   const calculatePostExpirationDate = useCallback((createdDate: Date = new Date()) => {
     const visibilityHours = getPostVisibilityDuration();
@@ -135,11 +145,13 @@ export const useAdminConfiguration = () => {
     getReportThresholds,
     getEmojiPinPrice,
     getDailyFreeCoin,
+    getSanctionLadder,
     
     // Business logic helpers (admin-relevant only)
     shouldMarkPostAsUrgent,
     getPostSeverityLevel,
     hasReachedDailyPostLimit,
+    getNextSanction,
     calculatePostExpirationDate,
     isPostExpired,
   };
@@ -164,7 +176,8 @@ export const usePostVisibilityFilter = () => {
 
 /**
  * Hook for post creation validation
- * This can be used in post creation forms to enforce daily limits and other rules
+ * This can be used in post creation forms to show daily limits and other rules up front;
+ * the limit itself is enforced by firestore.rules and the createPost Cloud Function
  */
 export const usePostCreationValidation = () => {
   const { hasReachedDailyPostLimit, getDailyFreePostLimit } = useAdminConfiguration();
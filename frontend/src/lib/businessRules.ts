@@ -2,23 +2,35 @@
  * Business Rules Service
  * This service enforces all the configuration-based business rules across the application
  * 
- * Report Severity Rules:
+ * Report Severity Rules (defaults, editable via admin_configuration.severityPolicy):
  * - HIGH (🔴): Threats/Violence, Inappropriate, Hate Speech, Scam
- *   → Auto-removes post immediately via Cloud Function
+ *   → Auto-remove: removes post immediately via Cloud Function
  *   → Sends notification to reported user
  *   → Marks report as resolved
+ *   → Skipped (left for review) when the reporter's accuracy is below
+ *     admin_configuration.reporterReputation.minAccuracy
  * 
  * - MEDIUM (🟡): Harassment, Impersonation, Misinformation
- *   → Requires manual review and admin action
+ *   → Review: requires manual review and admin action
  * 
  * - LOW (🟢): Spam
- *   → Requires manual review
+ *   → Review: requires manual review
  * 
  * - OTHER (🟤): Other violations
- *   → Requires manual review
+ *   → Review: requires manual review
+ * 
+ * Any severity can instead be set to "ignore", which dismisses the report automatically
+ *
+ * Sanction Ladder (admin_configuration.sanctionLadder):
+ * - Every warning moves the user one step up the ladder; the last step repeats
+ * - Steps are warnings, timed posting restrictions, timed suspensions or a permanent ban
+ * - A step with decayDays moves the user back down one step for every decayDays
+ *   that pass without a new violation
+ * - Applied by the moderation Cloud Functions with functions/src/businessRules.ts;
+ *   evaluateNextSanction below previews the same step and must stay in sync with it
  */
 
-import { AdminConfiguration } from '@/types';
+import { AdminConfiguration, SanctionStep, User } from '@/types';
 import { getAdminConfiguration } from './firestore/configuration';
 
 export interface PostValidationResult {
@@ -27,6 +39,18 @@ export interface PostValidationResult {
   canPost: boolean;
 }
 
+export interface SanctionEvaluation {
+  // Steps the user stands on after decay; 0 means no standing sanction
+  currentLevel: number;
+  // The level, and ladder step, the next warning applies
+  nextLevel: number;
+  nextStep: SanctionStep;
+}
+
+export type SanctionHistory = Pick<User, 'warningCount' | 'sanctionLevel' | 'lastViolationAt' | 'lastWarningDate'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export interface PostModerationInfo {
   severityLevel: 'normal' | 'warning' | 'urgent';
   requiresUrgentReview: boolean;
@@ -243,6 +267,69 @@ export class BusinessRulesService {
   }
 }
 
+/**
+ * The user's ladder level once every step that decayed since the last violation is taken off
+ * Users warned before the ladder existed start from their warning count
+ */
+export const getSanctionLevel = (
+  ladder: SanctionStep[],
+  user: SanctionHistory,
+  now: Date = new Date()
+): number => {
+  let level = Math.min(user.sanctionLevel ?? user.warningCount ?? 0, ladder.length);
+  const lastViolationAt = user.lastViolationAt || user.lastWarningDate;
+  const lastViolation = lastViolationAt ? new Date(lastViolationAt).getTime() : NaN;
+
+  if (Number.isNaN(lastViolation)) {
+    return level;
+  }
+
+  let elapsedDays = (now.getTime() - lastViolation) / DAY_MS;
+  while (level > 0) {
+    const decayDays = ladder[level - 1].decayDays;
+    if (!decayDays || elapsedDays < decayDays) {
+      break;
+    }
+    elapsedDays -= decayDays;
+    level--;
+  }
+  return level;
+};
+
+/**
+ * What the next warning does to the user, for previews before an admin confirms
+ */
+export const evaluateNextSanction = (
+  ladder: SanctionStep[],
+  user: SanctionHistory,
+  now: Date = new Date()
+): SanctionEvaluation => {
+  const currentLevel = getSanctionLevel(ladder, user, now);
+  const nextLevel = Math.min(currentLevel + 1, ladder.length);
+
+  return {
+    currentLevel,
+    nextLevel,
+    nextStep: ladder[nextLevel - 1]
+  };
+};
+
+/**
+ * Short description of a ladder step, e.g. "14-day suspension"
+ */
+export const describeSanctionStep = (step: SanctionStep): string => {
+  switch (step.type) {
+    case 'posting_restriction':
+      return `${step.durationDays}-day posting restriction`;
+    case 'suspension':
+      return `${step.durationDays}-day suspension`;
+    case 'ban':
+      return 'Permanent ban';
+    default:
+      return 'Warning';
+  }
+};
+
 // Export a singleton instance
 export const businessRules = BusinessRulesService.getInstance();
 
@@ -3,6 +3,7 @@ import { collection, getDocs, doc, getDoc, addDoc, updateDoc, deleteDoc, Timesta
 import { httpsCallable } from 'firebase/functions';
 import { Announcement } from '@/types';
 import { createAnnouncementNotification } from '../notifications';
+import { logModerationAction } from './moderationLogs';
 
 const ANNOUNCEMENTS_COLLECTION = 'announcements';
 
@@ -324,6 +325,14 @@ export const approveAnnouncement = async (id: string): Promise<void> => {
       updatedAt: Timestamp.now()
     });
 
+    await logModerationAction({
+      action: 'approve_announcement',
+      targetType: 'announcement',
+      targetId: id,
+      beforeStatus: announcementData.status || 'pending',
+      afterStatus: 'scheduled'
+    });
+
     // Send notification to announcer
     if (announcerUserId) {
       try {
@@ -375,6 +384,14 @@ export const declineAnnouncement = async (id: string): Promise<void> => {
       updatedAt: Timestamp.now()
     });
 
+    await logModerationAction({
+      action: 'decline_announcement',
+      targetType: 'announcement',
+      targetId: id,
+      beforeStatus: announcementData.status || 'pending',
+      afterStatus: 'declined'
+    });
+
     // Send notification to announcer
     if (announcerUserId) {
       try {
@@ -0,0 +1,99 @@
+import {
+  collection,
+  query,
+  orderBy,
+  onSnapshot,
+  DocumentData,
+  QuerySnapshot,
+  Unsubscribe,
+  Timestamp
+} from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "@/lib/firebase";
+import { Appeal } from "@/types/export";
+
+const APPEALS_COLLECTION = 'appeals';
+
+export type AppealDecision = 'granted' | 'denied';
+
+export interface DecideAppealResult {
+  appeal: { id: string; status: AppealDecision };
+  reversedActions: string[];
+}
+
+const toIsoString = (value: unknown): string | null => {
+  if (value instanceof Timestamp) {
+    return value.toDate().toISOString();
+  }
+  return typeof value === 'string' ? value : null;
+};
+
+const mapAppealDoc = (docSnapshot: { id: string; data: () => DocumentData }): Appeal => {
+  const data = docSnapshot.data();
+  return {
+    id: docSnapshot.id,
+    userId: data.userId || '',
+    userName: data.userName ?? null,
+    message: data.message || '',
+    status: data.status || 'pending',
+    createdAt: toIsoString(data.createdAt) || new Date().toISOString(),
+    sanctionType: data.sanctionType ?? null,
+    sanctionTitle: data.sanctionTitle || '',
+    sanctionMessage: data.sanctionMessage || '',
+    sanctionIssuedAt: data.sanctionIssuedAt ?? null,
+    relatedPostId: data.relatedPostId ?? null,
+    response: data.response ?? null,
+    reversedActions: data.reversedActions || [],
+    decidedAt: data.decidedAt ?? null,
+    decidedByEmail: data.decidedByEmail ?? null,
+  };
+};
+
+/**
+ * Subscribe to all appeals, newest first
+ */
+export const subscribeToAppeals = (
+  callback: (appeals: Appeal[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  const q = query(collection(db, APPEALS_COLLECTION), orderBy('createdAt', 'desc'));
+
+  return onSnapshot(
+    q,
+    (snapshot: QuerySnapshot<DocumentData>) => {
+      callback(snapshot.docs.map(mapAppealDoc));
+    },
+    (error) => {
+      console.error('Error in appeals subscription:', error);
+      if (onError) {
+        onError(error);
+      }
+    }
+  );
+};
+
+/**
+ * ✅ Grants or denies an appeal via Cloud Function
+ * Granting reverses the sanction; the user is notified of either decision
+ */
+export async function decideAppeal(
+  appealId: string,
+  decision: AppealDecision,
+  response?: string
+): Promise<DecideAppealResult> {
+  try {
+    const decideAppealFn = httpsCallable(functions, 'decideAppeal');
+
+    const result = await decideAppealFn({ appealId, decision, response });
+    const data = result.data as { success: boolean; message?: string } & DecideAppealResult;
+
+    if (!data.success) {
+      throw new Error(data.message || 'Failed to decide appeal');
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error deciding appeal:', error);
+    throw new Error(error instanceof Error ? error.message : 'Failed to decide appeal');
+  }
+}
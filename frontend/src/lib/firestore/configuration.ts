@@ -8,14 +8,23 @@ import {
   onSnapshot,
   query,
   orderBy,
-  limit
+  limit,
+  DocumentData
 } from 'firebase/firestore';
 import { auth, db } from '@/lib/firebase';
-import { AdminConfiguration, ConfigurationLog } from '@/types';
+import { AdminConfiguration, ConfigurationLog, SanctionStep, SeverityPolicy } from '@/types';
+import {
+  CATEGORY_SEVERITY_MAP,
+  DEFAULT_SEVERITY_ACTIONS,
+  REPORT_SEVERITY,
+  SEVERITY_ACTIONS,
+  SANCTION_STEP_TYPE_LABELS
+} from '@/types/constants';
 
 const CONFIGURATION_COLLECTION = 'admin_configuration';
 const CONFIGURATION_LOG_COLLECTION = 'configuration_logs';
 const DEFAULT_CONFIG_ID = 'default';
+const MAX_SANCTION_STEPS = 10;
 
 // Default configuration values
 export const DEFAULT_CONFIGURATION: Omit<AdminConfiguration, 'id' | 'lastUpdated' | 'updatedBy'> = {
@@ -32,7 +41,65 @@ export const DEFAULT_CONFIGURATION: Omit<AdminConfiguration, 'id' | 'lastUpdated
   urgentAnnouncementThreshold: 48,
   suspendThreshold: 5,
   suspendDurationDays: 30,
-  banAfterSuspendCount: 3
+  banAfterSuspendCount: 3,
+  // Mirrored by DEFAULT_SANCTION_LADDER in functions/src/businessRules.ts
+  sanctionLadder: [
+    { type: 'warning', durationDays: null, decayDays: 90 },
+    { type: 'posting_restriction', durationDays: 3, decayDays: 90 },
+    { type: 'suspension', durationDays: 14, decayDays: 180 },
+    { type: 'suspension', durationDays: 60, decayDays: 365 },
+    { type: 'ban', durationDays: null, decayDays: null }
+  ],
+  // Mirrored by DEFAULT_WARNING_EXPIRY_DAYS in functions/src/warnings.ts
+  warningExpiryDays: 365,
+  severityPolicy: {
+    categorySeverity: { ...CATEGORY_SEVERITY_MAP },
+    severityActions: { ...DEFAULT_SEVERITY_ACTIONS }
+  },
+  reporterReputation: {
+    minAccuracy: 50,
+    minDecidedReports: 5
+  }
+};
+
+/**
+ * Fill in any categories or severities missing from a stored severity policy
+ */
+const normalizeSeverityPolicy = (policy?: Partial<SeverityPolicy>): SeverityPolicy => ({
+  categorySeverity: {
+    ...DEFAULT_CONFIGURATION.severityPolicy.categorySeverity,
+    ...(policy?.categorySeverity || {})
+  },
+  severityActions: {
+    ...DEFAULT_CONFIGURATION.severityPolicy.severityActions,
+    ...(policy?.severityActions || {})
+  }
+});
+
+/**
+ * The stored sanction ladder, or for configurations saved before it existed the ladder
+ * that reproduces their fixed escalation: warnings up to suspendThreshold, then a
+ * suspension per warning until banAfterSuspendCount suspensions, then a ban
+ * Must match getModerationConfig in functions/src/moderation.ts
+ */
+const resolveSanctionLadder = (data: DocumentData): SanctionStep[] => {
+  if (Array.isArray(data.sanctionLadder) && data.sanctionLadder.length > 0) {
+    return data.sanctionLadder;
+  }
+
+  const suspendThreshold = data.suspendThreshold || data.banThreshold || DEFAULT_CONFIGURATION.suspendThreshold;
+  const suspendDurationDays = data.suspendDurationDays || data.banDurationDays || DEFAULT_CONFIGURATION.suspendDurationDays;
+  const banAfterSuspendCount = data.banAfterSuspendCount || DEFAULT_CONFIGURATION.banAfterSuspendCount;
+
+  return [
+    ...Array.from({ length: Math.max(0, suspendThreshold - 1) }, (): SanctionStep => (
+      { type: 'warning', durationDays: null, decayDays: null }
+    )),
+    ...Array.from({ length: Math.max(1, banAfterSuspendCount) }, (): SanctionStep => (
+      { type: 'suspension', durationDays: suspendDurationDays, decayDays: null }
+    )),
+    { type: 'ban', durationDays: null, decayDays: null }
+  ];
 };
 
 /**
@@ -60,12 +127,16 @@ export const getAdminConfiguration = async (): Promise<AdminConfiguration> => {
         suspendThreshold: data.suspendThreshold || data.banThreshold || DEFAULT_CONFIGURATION.suspendThreshold,
         suspendDurationDays: data.suspendDurationDays || data.banDurationDays || DEFAULT_CONFIGURATION.suspendDurationDays,
         banAfterSuspendCount: data.banAfterSuspendCount || DEFAULT_CONFIGURATION.banAfterSuspendCount,
+        sanctionLadder: resolveSanctionLadder(data),
+        warningExpiryDays: data.warningExpiryDays ?? DEFAULT_CONFIGURATION.warningExpiryDays,
+        severityPolicy: normalizeSeverityPolicy(data.severityPolicy),
+        reporterReputation: { ...DEFAULT_CONFIGURATION.reporterReputation, ...(data.reporterReputation || {}) },
         lastUpdated: data.lastUpdated || new Date().toISOString(),
         updatedBy: data.updatedBy || 'migration'
       };
 
       // If the document had old structure or missing newly added fields, backfill it
-      if (data.adminInterfaceSettings || data.maxCoinReward === undefined) {
+      if (data.adminInterfaceSettings || data.maxCoinReward === undefined || data.severityPolicy === undefined || data.reporterReputation === undefined || data.sanctionLadder === undefined || data.warningExpiryDays === undefined) {
         console.log('Migrating configuration document to latest schema...');
         await setDoc(configRef, cleanedData);
       }
@@ -171,7 +242,15 @@ export const subscribeToConfiguration = (
     (doc) => {
       try {
         if (doc.exists()) {
-          const config = { id: doc.id, ...doc.data() } as AdminConfiguration;
+          const data = doc.data();
+          const config = {
+            id: doc.id,
+            ...data,
+            severityPolicy: normalizeSeverityPolicy(data.severityPolicy),
+            sanctionLadder: resolveSanctionLadder(data),
+            warningExpiryDays: data.warningExpiryDays ?? DEFAULT_CONFIGURATION.warningExpiryDays,
+            reporterReputation: { ...DEFAULT_CONFIGURATION.reporterReputation, ...(data.reporterReputation || {}) }
+          } as AdminConfiguration;
           callback(config);
         } else {
           // Document doesn't exist, create it with defaults
@@ -315,5 +394,57 @@ export const validateConfiguration = (config: Partial<AdminConfiguration>): stri
     }
   }
 
+  if (config.severityPolicy !== undefined) {
+    const severities: string[] = Object.values(REPORT_SEVERITY);
+    const actions: string[] = Object.values(SEVERITY_ACTIONS);
+
+    if (Object.values(config.severityPolicy.categorySeverity).some((severity) => !severities.includes(severity))) {
+      errors.push('Every report category must map to a valid severity');
+    }
+    if (Object.values(config.severityPolicy.severityActions).some((action) => !actions.includes(action))) {
+      errors.push('Every severity level must have a valid report action');
+    }
+  }
+
+  if (config.sanctionLadder !== undefined) {
+    const ladder = config.sanctionLadder;
+    const stepTypes = Object.keys(SANCTION_STEP_TYPE_LABELS);
+
+    if (ladder.length < 1 || ladder.length > MAX_SANCTION_STEPS) {
+      errors.push(`The sanction ladder must have between 1 and ${MAX_SANCTION_STEPS} steps`);
+    }
+    if (ladder.some((step) => !stepTypes.includes(step.type))) {
+      errors.push('Every sanction step must have a valid type');
+    }
+    if (ladder.some((step, index) => step.type === 'ban' && index < ladder.length - 1)) {
+      errors.push('A permanent ban can only be the last sanction step');
+    }
+    if (ladder.some((step) =>
+      (step.type === 'posting_restriction' || step.type === 'suspension') &&
+      (!step.durationDays || step.durationDays < 1 || step.durationDays > 365)
+    )) {
+      errors.push('Posting restrictions and suspensions must last between 1 and 365 days');
+    }
+    if (ladder.some((step) => step.decayDays !== null && (step.decayDays < 1 || step.decayDays > 3650))) {
+      errors.push('Sanction steps must decay after between 1 and 3650 days, or never');
+    }
+  }
+
+  if (config.warningExpiryDays !== undefined) {
+    if (config.warningExpiryDays < 0 || config.warningExpiryDays > 3650) {
+      errors.push('Warnings must expire after between 1 and 3650 days, or 0 to never expire');
+    }
+  }
+
+  if (config.reporterReputation !== undefined) {
+    const { minAccuracy, minDecidedReports } = config.reporterReputation;
+    if (minAccuracy < 0 || minAccuracy > 100) {
+      errors.push('Minimum reporter accuracy must be between 0 and 100%');
+    }
+    if (minDecidedReports < 1) {
+      errors.push('Reporter decided reports minimum must be at least 1');
+    }
+  }
+
   return errors;
 };
\ No newline at end of file
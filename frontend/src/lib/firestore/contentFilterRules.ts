@@ -0,0 +1,182 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  onSnapshot,
+  orderBy,
+  query,
+  Unsubscribe
+} from 'firebase/firestore';
+import { auth, db } from '@/lib/firebase';
+import { ConfigurationLog, ContentFilterRule } from '@/types';
+import { CONTENT_FILTER_ACTIONS, CONTENT_FILTER_RULE_TYPES } from '@/types/constants';
+
+const CONTENT_FILTER_RULES_COLLECTION = 'content_filter_rules';
+const CONFIGURATION_LOG_COLLECTION = 'configuration_logs';
+
+export type ContentFilterRuleInput = Pick<ContentFilterRule, 'type' | 'pattern' | 'action' | 'enabled' | 'description'>;
+
+/**
+ * Record a rule change in the configuration history alongside other settings changes
+ */
+const logRuleChange = async (
+  ruleId: string,
+  oldValue: ContentFilterRuleInput | null,
+  newValue: ContentFilterRuleInput | null
+) => {
+  const currentUser = auth.currentUser;
+  const logEntry: Omit<ConfigurationLog, 'id'> = {
+    adminId: currentUser?.uid || 'unknown',
+    adminEmail: currentUser?.email || 'unknown',
+    timestamp: new Date().toISOString(),
+    changes: [{ field: `contentFilterRules.${ruleId}`, oldValue, newValue }]
+  };
+
+  await addDoc(collection(db, CONFIGURATION_LOG_COLLECTION), logEntry);
+};
+
+/**
+ * Subscribe to all content filter rules, oldest first
+ */
+export const subscribeToContentFilterRules = (
+  callback: (rules: ContentFilterRule[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  const rulesQuery = query(collection(db, CONTENT_FILTER_RULES_COLLECTION), orderBy('createdAt', 'asc'));
+
+  return onSnapshot(
+    rulesQuery,
+    (snapshot) => {
+      callback(snapshot.docs.map((docSnapshot) => {
+        const data = docSnapshot.data();
+        return {
+          id: docSnapshot.id,
+          type: data.type || CONTENT_FILTER_RULE_TYPES.KEYWORD,
+          pattern: data.pattern || '',
+          action: data.action || CONTENT_FILTER_ACTIONS.FLAG,
+          enabled: data.enabled !== false,
+          description: data.description || '',
+          createdAt: data.createdAt || '',
+          createdBy: data.createdBy || '',
+          updatedAt: data.updatedAt || ''
+        };
+      }));
+    },
+    (error) => {
+      console.error('Error in content filter rules subscription:', error);
+      if (onError) {
+        onError(error);
+      }
+    }
+  );
+};
+
+/**
+ * Whether a regex repeats a group that can match the same text more than one way, because it
+ * contains a repeat, an optional part or an alternation, like (a+)+, (\w+\s?)* or (a|ab)*,
+ * the shape that backtracks catastrophically on text that almost matches
+ * Mirrors hasAmbiguousRepeat in functions/src/contentFilters.ts, which skips such rules
+ */
+const hasAmbiguousRepeat = (pattern: string): boolean => {
+  const isQuantifier = (char: string | undefined) => char === '*' || char === '+' || char === '{';
+  // Per open group, whether it contains a quantifier, an optional part or an alternation
+  const groups: boolean[] = [];
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+      // The ? of (?: (?= (?! and (?< is group syntax, not an optional part
+      if (pattern[i + 1] === '?') {
+        i++;
+      }
+    } else if (char === ')') {
+      const containsQuantifier = groups.pop() || false;
+      const repeated = isQuantifier(pattern[i + 1]);
+      if (containsQuantifier && repeated) {
+        return true;
+      }
+      if (groups.length > 0 && (containsQuantifier || repeated)) {
+        groups[groups.length - 1] = true;
+      }
+    } else if ((isQuantifier(char) || char === '?' || char === '|') && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+
+  return false;
+};
+
+/**
+ * Validate a rule before saving; regex patterns must compile in JavaScript,
+ * which is also what the Cloud Function uses to evaluate them
+ */
+export const validateContentFilterRule = (rule: ContentFilterRuleInput): string[] => {
+  const errors: string[] = [];
+  const pattern = rule.pattern.trim();
+
+  if (pattern === '') {
+    errors.push('Pattern is required');
+  } else if (pattern.length > 200) {
+    errors.push('Pattern must be 200 characters or fewer');
+  }
+
+  if (rule.type === CONTENT_FILTER_RULE_TYPES.REGEX && pattern !== '') {
+    try {
+      if (new RegExp(pattern, 'i').test('')) {
+        errors.push('Regular expression must not match empty text');
+      }
+      if (hasAmbiguousRepeat(pattern)) {
+        errors.push('Regular expression must not repeat a group with a repeat, optional part or alternation, like (a+)+ or (a|ab)*');
+      }
+    } catch {
+      errors.push('Regular expression is not valid');
+    }
+  }
+
+  return errors;
+};
+
+export const createContentFilterRule = async (rule: ContentFilterRuleInput): Promise<void> => {
+  const now = new Date().toISOString();
+  const newRule = { ...rule, pattern: rule.pattern.trim(), description: rule.description.trim() };
+  const ruleRef = await addDoc(collection(db, CONTENT_FILTER_RULES_COLLECTION), {
+    ...newRule,
+    createdAt: now,
+    createdBy: auth.currentUser?.email || 'unknown',
+    updatedAt: now
+  });
+
+  await logRuleChange(ruleRef.id, null, newRule);
+};
+
+export const updateContentFilterRule = async (
+  rule: ContentFilterRule,
+  updates: Partial<ContentFilterRuleInput>
+): Promise<void> => {
+  const { type, pattern, action, enabled, description } = rule;
+  const oldValue: ContentFilterRuleInput = { type, pattern, action, enabled, description };
+
+  await updateDoc(doc(db, CONTENT_FILTER_RULES_COLLECTION, rule.id), {
+    ...updates,
+    updatedAt: new Date().toISOString()
+  });
+
+  await logRuleChange(rule.id, oldValue, { ...oldValue, ...updates });
+};
+
+export const deleteContentFilterRule = async (rule: ContentFilterRule): Promise<void> => {
+  const { type, pattern, action, enabled, description } = rule;
+
+  await deleteDoc(doc(db, CONTENT_FILTER_RULES_COLLECTION, rule.id));
+  await logRuleChange(rule.id, { type, pattern, action, enabled, description }, null);
+};
@@ -0,0 +1,110 @@
+import {
+  collection,
+  query,
+  where,
+  orderBy,
+  limit,
+  onSnapshot,
+  DocumentData,
+  QuerySnapshot,
+  Unsubscribe,
+  Timestamp
+} from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "@/lib/firebase";
+import { MediaReview, MediaReviewStatus } from "@/types/export";
+
+const MEDIA_REVIEWS_COLLECTION = 'media_reviews';
+// The queue shows recent uploads; older ones are reached by filtering on status
+const MEDIA_REVIEW_LIMIT = 120;
+
+export type MediaReviewAction = 'approve' | 'blur' | 'delete';
+
+export interface ReviewMediaResult {
+  status: MediaReviewStatus;
+  // Only for deletes: false when the photo was unlinked but its Storage object could not be deleted
+  storageDeleted?: boolean;
+}
+
+const toIsoString = (value: unknown): string | null => {
+  if (value instanceof Timestamp) {
+    return value.toDate().toISOString();
+  }
+  return typeof value === 'string' ? value : null;
+};
+
+const mapMediaReviewDoc = (docSnapshot: { id: string; data: () => DocumentData }): MediaReview => {
+  const data = docSnapshot.data();
+  return {
+    id: docSnapshot.id,
+    path: data.path || '',
+    parentType: data.parentType || 'post',
+    parentId: data.parentId || '',
+    authorId: data.authorId ?? null,
+    authorName: data.authorName || 'Unknown User',
+    parentText: data.parentText || '',
+    status: data.status || 'pending',
+    // serverTimestamp() is null in the local snapshot until the write is acknowledged
+    uploadedAt: toIsoString(data.uploadedAt) || new Date().toISOString(),
+    reviewedAt: toIsoString(data.reviewedAt),
+    reviewedBy: data.reviewedBy ?? null,
+    reason: data.reason ?? null,
+  };
+};
+
+/**
+ * Subscribe to the most recently uploaded photos, optionally only those with the given status
+ */
+export const subscribeToMediaReviews = (
+  status: MediaReviewStatus | '',
+  callback: (reviews: MediaReview[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  const q = status
+    ? query(
+      collection(db, MEDIA_REVIEWS_COLLECTION),
+      where('status', '==', status),
+      orderBy('uploadedAt', 'desc'),
+      limit(MEDIA_REVIEW_LIMIT)
+    )
+    : query(collection(db, MEDIA_REVIEWS_COLLECTION), orderBy('uploadedAt', 'desc'), limit(MEDIA_REVIEW_LIMIT));
+
+  return onSnapshot(
+    q,
+    (snapshot: QuerySnapshot<DocumentData>) => {
+      callback(snapshot.docs.map(mapMediaReviewDoc));
+    },
+    (error) => {
+      console.error('Error in media reviews subscription:', error);
+      if (onError) {
+        onError(error);
+      }
+    }
+  );
+};
+
+/**
+ * ✅ Approves, blurs or deletes a single photo via Cloud Function
+ * Deleting removes it from the post or announcement, notifies the author and deletes the file
+ */
+export async function reviewMedia(
+  reviewId: string,
+  action: MediaReviewAction,
+  reason?: string
+): Promise<ReviewMediaResult> {
+  try {
+    const reviewMediaFn = httpsCallable(functions, 'reviewMedia');
+
+    const result = await reviewMediaFn({ reviewId, action, reason });
+    const data = result.data as { success: boolean; message?: string } & ReviewMediaResult;
+
+    if (!data.success) {
+      throw new Error(data.message || 'Failed to review photo');
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error reviewing photo:', error);
+    throw new Error(error instanceof Error ? error.message : 'Failed to review photo');
+  }
+}
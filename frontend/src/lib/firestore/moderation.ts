@@ -0,0 +1,183 @@
+import { httpsCallable } from "firebase/functions";
+import { functions } from "@/lib/firebase";
+import { UserStatus, PostStatus } from "@/types/constants";
+
+export type UserModerationAction = "warn" | "suspend" | "unsuspend" | "ban";
+export type PostModerationAction = "remove" | "remove_and_warn" | "restore" | "dismiss_reports" | "resolve_reports";
+export type ModerationEscalation = "none" | "warning" | "restricted" | "suspended" | "banned";
+
+export interface ModeratedUserState {
+    id: string;
+    status: UserStatus;
+    warningCount: number;
+    suspendCount: number;
+    suspendedAt: string | null;
+    suspendExpiresAt: string | null;
+    bannedAt: string | null;
+    sanctionLevel: number | null;
+    lastViolationAt: string | null;
+}
+
+export interface ModerateUserResult {
+    user: ModeratedUserState;
+    escalation: ModerationEscalation;
+    warnedPostIds: string[];
+    resolvedReportIds: string[];
+    // Posts/reports of a warned user that could not be marked; the warning itself was applied
+    failed: BulkItemFailure[];
+}
+
+export interface ModeratePostResult {
+    post: {
+        id: string;
+        status: PostStatus;
+        isWarned: boolean;
+    };
+    reportStatus: "resolved" | "dismissed";
+    resolvedReportIds: string[];
+    author: ModeratedUserState | null;
+    escalation: ModerationEscalation;
+}
+
+/**
+ * ✅ Warns, suspends, unsuspends or bans a user via Cloud Function
+ * Warnings apply the next step of the sanction ladder atomically on the server
+ */
+export async function moderateUser(
+    userId: string,
+    action: UserModerationAction,
+    options: { reason?: string; relatedPostId?: string } = {}
+): Promise<ModerateUserResult> {
+    try {
+        const moderateUserFn = httpsCallable(functions, 'moderateUser');
+
+        const result = await moderateUserFn({
+            userId,
+            action,
+            ...options
+        });
+
+        const data = result.data as { success: boolean; message?: string } & ModerateUserResult;
+
+        if (!data.success) {
+            throw new Error(data.message || `Failed to ${action} user`);
+        }
+
+        return data;
+    } catch (error) {
+        console.error('Error moderating user:', error);
+        throw new Error(error instanceof Error ? error.message : `Failed to ${action} user`);
+    }
+}
+
+/**
+ * ✅ Removes or restores a post and/or settles its reports via Cloud Function
+ * "remove_and_warn" also warns the author with the configured escalation,
+ * "restore" brings back a post held for review and dismisses its reports
+ */
+export async function moderatePost(
+    postId: string,
+    action: PostModerationAction,
+    options: { reason?: string } = {}
+): Promise<ModeratePostResult> {
+    try {
+        const moderatePostFn = httpsCallable(functions, 'moderatePost');
+
+        const result = await moderatePostFn({
+            postId,
+            action,
+            ...options
+        });
+
+        const data = result.data as { success: boolean; message?: string } & ModeratePostResult;
+
+        if (!data.success) {
+            throw new Error(data.message || 'Failed to moderate post');
+        }
+
+        return data;
+    } catch (error) {
+        console.error('Error moderating post:', error);
+        throw new Error(error instanceof Error ? error.message : 'Failed to moderate post');
+    }
+}
+
+export type BulkModerationAction =
+    "remove_posts" | "remove_posts_and_warn" | "warn_authors" | "dismiss_reports" | "resolve_reports";
+
+export interface BulkItemFailure {
+    id: string;
+    error: string;
+}
+
+export interface BulkModerationResult {
+    succeeded: string[];
+    failed: BulkItemFailure[];
+    warnedUserIds: string[];
+}
+
+// Items per Cloud Function call; each call reports back so the dashboard can show progress
+const BULK_CHUNK_SIZE = 25;
+
+/**
+ * ✅ Removes posts (optionally warning their authors), warns post authors, or dismisses/resolves reports in bulk
+ * Sends the ids in chunks, calling onProgress after each one. Items are applied
+ * independently, so the result lists which ones failed instead of throwing
+ */
+export async function bulkModerate(
+    action: BulkModerationAction,
+    ids: string[],
+    onProgress?: (processed: number, total: number) => void,
+    options: { reason?: string } = {}
+): Promise<BulkModerationResult> {
+    const bulkModerateFn = httpsCallable(functions, 'bulkModerate');
+    const uniqueIds = [...new Set(ids)];
+    const summary: BulkModerationResult = { succeeded: [], failed: [], warnedUserIds: [] };
+
+    onProgress?.(0, uniqueIds.length);
+
+    for (let i = 0; i < uniqueIds.length; i += BULK_CHUNK_SIZE) {
+        const chunk = uniqueIds.slice(i, i + BULK_CHUNK_SIZE);
+
+        try {
+            const result = await bulkModerateFn({
+                action,
+                ids: chunk,
+                // An author with several selected posts is only warned once
+                skipWarnUserIds: summary.warnedUserIds,
+                ...options
+            });
+
+            const data = result.data as { success: boolean; message?: string } & BulkModerationResult;
+
+            if (!data.success) {
+                throw new Error(data.message || 'Bulk action failed');
+            }
+
+            summary.succeeded.push(...data.succeeded);
+            summary.failed.push(...data.failed);
+            summary.warnedUserIds.push(...data.warnedUserIds);
+        } catch (error) {
+            console.error('Error running bulk moderation:', error);
+            const message = error instanceof Error ? error.message : 'Bulk action failed';
+            summary.failed.push(...chunk.map((id) => ({ id, error: message })));
+        }
+
+        onProgress?.(Math.min(i + chunk.length, uniqueIds.length), uniqueIds.length);
+    }
+
+    return summary;
+}
+
+/**
+ * Summarizes the failures of a bulk action for a toast, e.g.
+ * "abc123: Post not found; def456: Post is already removed (+3 more)"
+ */
+export function formatBulkFailures(failed: BulkItemFailure[], maxListed: number = 3): string {
+    const listed = failed
+        .slice(0, maxListed)
+        .map((failure) => `${failure.id}: ${failure.error}`)
+        .join('; ');
+
+    return failed.length > maxListed ? `${listed} (+${failed.length - maxListed} more)` : listed;
+}
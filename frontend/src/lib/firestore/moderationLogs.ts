@@ -0,0 +1,129 @@
+import {
+  collection,
+  getDocs,
+  addDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  QueryConstraint,
+  DocumentData
+} from 'firebase/firestore';
+import { auth, db } from '@/lib/firebase';
+import { ModerationLog } from '@/types';
+
+const MODERATION_LOG_COLLECTION = 'moderation_logs';
+
+export type NewModerationLog = Omit<ModerationLog, 'id' | 'adminId' | 'adminEmail' | 'timestamp' | 'targetUserId' | 'reason' | 'relatedIds'> & {
+  targetUserId?: string | null;
+  reason?: string | null;
+  relatedIds?: string[];
+};
+
+export interface ModerationLogFilters {
+  startDate?: string;
+  endDate?: string;
+  adminId?: string;
+  targetType?: ModerationLog['targetType'];
+  maxResults?: number;
+}
+
+const mapModerationLog = (id: string, data: DocumentData): ModerationLog => ({
+  id,
+  adminId: data.adminId || 'unknown',
+  adminEmail: data.adminEmail || 'unknown',
+  action: data.action,
+  targetType: data.targetType,
+  targetId: data.targetId || '',
+  targetUserId: data.targetUserId ?? null,
+  beforeStatus: data.beforeStatus ?? null,
+  afterStatus: data.afterStatus ?? null,
+  reason: data.reason ?? null,
+  relatedIds: data.relatedIds || [],
+  timestamp: data.timestamp || new Date().toISOString()
+});
+
+/**
+ * Record an admin action taken directly from the dashboard
+ * Actions performed by Cloud Functions are logged server-side
+ */
+export const logModerationAction = async (entry: NewModerationLog): Promise<void> => {
+  const currentUser = auth.currentUser;
+
+  try {
+    const logEntry: Omit<ModerationLog, 'id'> = {
+      adminId: currentUser?.uid || 'unknown',
+      adminEmail: currentUser?.email || 'unknown',
+      action: entry.action,
+      targetType: entry.targetType,
+      targetId: entry.targetId,
+      targetUserId: entry.targetUserId ?? null,
+      beforeStatus: entry.beforeStatus,
+      afterStatus: entry.afterStatus,
+      reason: entry.reason ?? null,
+      relatedIds: entry.relatedIds ?? [],
+      timestamp: new Date().toISOString()
+    };
+
+    await addDoc(collection(db, MODERATION_LOG_COLLECTION), logEntry);
+  } catch (error) {
+    // Don't throw - the action itself already succeeded
+    console.error('Error writing moderation log:', error);
+  }
+};
+
+/**
+ * Fetch moderation logs, newest first, optionally limited to a date range, an admin and a target type
+ * Dates are ISO strings; every filter is applied by the query so results are not cut off by maxResults
+ */
+export const fetchModerationLogs = async (
+  filters: ModerationLogFilters = {}
+): Promise<ModerationLog[]> => {
+  try {
+    const constraints: QueryConstraint[] = [];
+
+    if (filters.adminId) {
+      constraints.push(where('adminId', '==', filters.adminId));
+    }
+    if (filters.targetType) {
+      constraints.push(where('targetType', '==', filters.targetType));
+    }
+    if (filters.startDate) {
+      constraints.push(where('timestamp', '>=', filters.startDate));
+    }
+    if (filters.endDate) {
+      constraints.push(where('timestamp', '<=', filters.endDate));
+    }
+
+    constraints.push(orderBy('timestamp', 'desc'), limit(filters.maxResults || 500));
+
+    const snapshot = await getDocs(query(collection(db, MODERATION_LOG_COLLECTION), ...constraints));
+    return snapshot.docs.map((doc) => mapModerationLog(doc.id, doc.data()));
+  } catch (error) {
+    console.error('Error fetching moderation logs:', error);
+    throw error;
+  }
+};
+
+/**
+ * Fetch the moderation history of a single user, newest first
+ */
+export const fetchUserModerationLogs = async (
+  userId: string,
+  maxResults: number = 20
+): Promise<ModerationLog[]> => {
+  try {
+    const q = query(
+      collection(db, MODERATION_LOG_COLLECTION),
+      where('targetUserId', '==', userId),
+      orderBy('timestamp', 'desc'),
+      limit(maxResults)
+    );
+
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map((doc) => mapModerationLog(doc.id, doc.data()));
+  } catch (error) {
+    console.error('Error fetching user moderation logs:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,52 @@
+import { doc, getDoc, Timestamp } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "@/lib/firebase";
+import { DailyPostCount } from "@/types/export";
+
+/**
+ * Fetch a user's posts today and their limit override, counted server-side in daily_post_counts
+ */
+export const fetchDailyPostCount = async (userId: string): Promise<DailyPostCount> => {
+  try {
+    const counterSnap = await getDoc(doc(db, 'daily_post_counts', userId));
+    const data = counterSnap.exists() ? counterSnap.data() : {};
+    const resetAt = data.resetAt instanceof Timestamp ? data.resetAt.toDate() : null;
+    // The counter is only rewritten on the next post, so a past resetAt means nothing was posted today
+    const isCurrent = resetAt !== null && resetAt.getTime() > Date.now();
+
+    return {
+      userId,
+      count: isCurrent ? data.count || 0 : 0,
+      resetAt: resetAt ? resetAt.toISOString() : null,
+      limitOverride: typeof data.limitOverride === 'number' ? data.limitOverride : null,
+    };
+  } catch (error) {
+    console.error('Error fetching daily post count:', error);
+    return { userId, count: 0, resetAt: null, limitOverride: null };
+  }
+};
+
+/**
+ * ✅ Sets or clears (limit = null) a user's daily post limit override via Cloud Function
+ */
+export async function setDailyPostLimitOverride(
+  userId: string,
+  limit: number | null,
+  reason?: string
+): Promise<number | null> {
+  try {
+    const setLimitFn = httpsCallable(functions, 'setDailyPostLimitOverride');
+
+    const result = await setLimitFn({ userId, limit, reason });
+    const data = result.data as { success: boolean; message?: string; limitOverride: number | null };
+
+    if (!data.success) {
+      throw new Error(data.message || 'Failed to set daily post limit');
+    }
+
+    return data.limitOverride;
+  } catch (error) {
+    console.error('Error setting daily post limit:', error);
+    throw new Error(error instanceof Error ? error.message : 'Failed to set daily post limit');
+  }
+}
@@ -1,95 +1,362 @@
 import {
   collection,
   getDocs,
+  getCountFromServer,
   query,
   orderBy,
   limit,
   startAfter,
   where,
   doc,
+  documentId,
   updateDoc,
   deleteDoc,
   onSnapshot,
+  QueryConstraint,
   QueryDocumentSnapshot,
   DocumentData,
-  getDoc
+  Timestamp
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
-import { Post } from '@/types';
+import { Post, PostRevision, UserSnapshot } from '@/types';
+import { USER_STATUS } from '@/types/constants';
 
 const POSTS_COLLECTION = 'posts';
 const USERS_COLLECTION = 'users';
 
+// Firestore caps `in` queries at 30 values
+const USER_LOOKUP_BATCH_SIZE = 30;
+
+// Status filter value that selects posts matched by a content filter rule instead of a status
+export const AUTO_FLAGGED_FILTER = 'auto_flagged';
+
+export type PostSortField = 'date' | 'likes' | 'dislikes' | 'reports';
+
+export interface PostFilters {
+  postId?: string;
+  status?: string;
+  category?: string;
+  location?: string;
+  startDate?: string; // ISO timestamp, inclusive
+  endDate?: string; // ISO timestamp, inclusive
+  minReportCount?: number;
+}
+
+export interface PostPageOptions {
+  pageSize: number;
+  sortBy?: PostSortField;
+  sortOrder?: 'asc' | 'desc';
+  cursor?: QueryDocumentSnapshot<DocumentData> | null; // last document of the previous page
+}
+
+export interface PostPage {
+  posts: Post[];
+  lastDoc: QueryDocumentSnapshot<DocumentData> | null;
+  hasMore: boolean;
+}
+
+// firestore.indexes.json has a composite index for every combination of the equality filters
+// (status or autoFlagged, category, location), sort field and minReportCount; add the
+// matching indexes when adding a filter or a sort field
+const SORT_FIELDS: Record<PostSortField, string> = {
+  date: 'date',
+  likes: 'likeCount',
+  dislikes: 'dislikeCount',
+  reports: 'reportCount'
+};
+
+// Author names are cached for the lifetime of the page; only used for posts without an author snapshot
+const userNameCache = new Map<string, string>();
+
 /**
- * Get user name by userId
+ * Resolve author names for a set of user ids, fetching only the ids not
+ * already cached and batching them into `in` queries
  */
-const getUserName = async (userId: string): Promise<string> => {
-  try {
-    const userDoc = await getDoc(doc(db, USERS_COLLECTION, userId));
-    if (userDoc.exists()) {
-      const userData = userDoc.data();
-      return userData.name || userData.nickname || 'Unknown User';
+export const resolveUserNames = async (userIds: string[]): Promise<Map<string, string>> => {
+  const missing = [...new Set(userIds)].filter((id) => id && !userNameCache.has(id));
+
+  for (let i = 0; i < missing.length; i += USER_LOOKUP_BATCH_SIZE) {
+    const batch = missing.slice(i, i + USER_LOOKUP_BATCH_SIZE);
+    try {
+      const snapshot = await getDocs(
+        query(collection(db, USERS_COLLECTION), where(documentId(), 'in', batch))
+      );
+      snapshot.docs.forEach((userDoc) => {
+        const userData = userDoc.data();
+        userNameCache.set(userDoc.id, userData.name || userData.nickname || 'Unknown User');
+      });
+      // Deleted accounts are cached too so they are not looked up again
+      batch.forEach((id) => {
+        if (!userNameCache.has(id)) {
+          userNameCache.set(id, 'Unknown User');
+        }
+      });
+    } catch (error) {
+      console.error('Error fetching users:', error);
     }
-    return 'Unknown User';
-  } catch (error) {
-    console.error('Error fetching user:', error);
-    return 'Unknown User';
   }
+
+  return userNameCache;
+};
+
+// Posts created before author snapshots were backfilled have no `author`
+const mapAuthorSnapshot = (value: DocumentData | undefined): UserSnapshot | undefined => {
+  if (!value || typeof value.id !== 'string') {
+    return undefined;
+  }
+
+  return {
+    id: value.id,
+    name: value.name || value.nickname || 'Unknown User',
+    nickname: value.nickname || '',
+    avatarPath: value.avatarPath || null,
+    status: value.status || USER_STATUS.ACTIVE
+  };
+};
+
+const mapPost = (docSnapshot: QueryDocumentSnapshot<DocumentData>, userNames: Map<string, string>): Post => {
+  const data = docSnapshot.data();
+  const author = mapAuthorSnapshot(data.author);
+
+  return {
+    id: docSnapshot.id,
+    postDate: data.date?.toDate ? data.date.toDate().toISOString() : new Date().toISOString(),
+    expiresAt: data.expiresAt?.toDate ? data.expiresAt.toDate().toISOString() : undefined,
+    user: {
+      id: data.userId || 'unknown',
+      name: author?.name || userNames.get(data.userId) || 'Unknown User',
+      avatar: author?.avatarPath || undefined
+    },
+    author,
+    content: data.content || '',
+    category: data.category || 'casual',
+    location: data.location || 'unknown',
+    likes: data.likeCount || 0,
+    dislikes: data.dislikeCount || 0,
+    reportCount: data.reportCount || 0,
+    status: data.status || 'active',
+    isWarned: data.isWarned || false,
+    photoPaths: data.photoPaths || [],
+    heldReason: data.heldReason || undefined,
+    autoFlagged: data.autoFlagged || false,
+    contentFilter: data.contentFilter || undefined,
+    duplicateImageMatches: data.duplicateImageMatches || undefined
+  };
+};
+
+// Only posts without an author snapshot need a user lookup
+const mapPosts = async (docs: QueryDocumentSnapshot<DocumentData>[]): Promise<Post[]> => {
+  const userNames = await resolveUserNames(
+    docs
+      .filter((docSnapshot) => !mapAuthorSnapshot(docSnapshot.data().author))
+      .map((docSnapshot) => docSnapshot.data().userId)
+  );
+  return docs.map((docSnapshot) => mapPost(docSnapshot, userNames));
+};
+
+/**
+ * Translate post filters into Firestore where clauses
+ * Combinations beyond the ones in firestore.indexes.json need a composite index
+ */
+const buildFilterConstraints = (filters: PostFilters): QueryConstraint[] => {
+  const constraints: QueryConstraint[] = [];
+
+  if (filters.postId) {
+    constraints.push(where(documentId(), '==', filters.postId));
+  }
+  if (filters.status === AUTO_FLAGGED_FILTER) {
+    constraints.push(where('autoFlagged', '==', true));
+  } else if (filters.status) {
+    constraints.push(where('status', '==', filters.status));
+  }
+  if (filters.category) {
+    constraints.push(where('category', '==', filters.category));
+  }
+  if (filters.location) {
+    constraints.push(where('location', '==', filters.location));
+  }
+  if (filters.startDate) {
+    constraints.push(where('date', '>=', Timestamp.fromDate(new Date(filters.startDate))));
+  }
+  if (filters.endDate) {
+    constraints.push(where('date', '<=', Timestamp.fromDate(new Date(filters.endDate))));
+  }
+  if (filters.minReportCount && filters.minReportCount > 0) {
+    constraints.push(where('reportCount', '>=', filters.minReportCount));
+  }
+
+  return constraints;
 };
 
 /**
  * Get all posts from Firestore
  */
-export const getAllPosts = async (): Promise<Post[]> => {
+export const getAllPosts = async (filters: PostFilters = {}): Promise<Post[]> => {
   try {
     const postsQuery = query(
       collection(db, POSTS_COLLECTION),
+      ...buildFilterConstraints(filters),
       orderBy('date', 'desc')
     );
 
     const querySnapshot = await getDocs(postsQuery);
-    const posts: Post[] = [];
+    return await mapPosts(querySnapshot.docs);
+  } catch (error) {
+    console.error('Error fetching posts:', error);
+    throw new Error('Failed to fetch posts');
+  }
+};
 
-    // Fetch all posts with user data
-    const postPromises = querySnapshot.docs.map(async (docSnapshot) => {
-      const data = docSnapshot.data();
-      const userName = await getUserName(data.userId);
+/**
+ * Get a single post by ID
+ */
+export const getPostById = async (postId: string): Promise<Post | null> => {
+  try {
+    const snapshot = await getDocs(
+      query(collection(db, POSTS_COLLECTION), where(documentId(), '==', postId))
+    );
+    const [post] = await mapPosts(snapshot.docs);
+    return post || null;
+  } catch (error) {
+    console.error('Error fetching post:', error);
+    throw new Error('Failed to fetch post');
+  }
+};
+
+/**
+ * Get every post of a user, newest first
+ * Sorted in memory to avoid requiring a composite index on userId and date
+ */
+export const getPostsByUser = async (userId: string): Promise<Post[]> => {
+  try {
+    const snapshot = await getDocs(
+      query(collection(db, POSTS_COLLECTION), where('userId', '==', userId))
+    );
+    const posts = await mapPosts(snapshot.docs);
+    return posts.sort((a, b) => new Date(b.postDate).getTime() - new Date(a.postDate).getTime());
+  } catch (error) {
+    console.error('Error fetching user posts:', error);
+    throw new Error('Failed to fetch user posts');
+  }
+};
 
+/**
+ * Get the edit history of a post, oldest edit first
+ * Revisions are recorded by the recordPostRevision Cloud Function
+ */
+export const getPostRevisions = async (postId: string): Promise<PostRevision[]> => {
+  try {
+    const snapshot = await getDocs(
+      query(collection(db, POSTS_COLLECTION, postId, 'revisions'), orderBy('revision', 'asc'))
+    );
+
+    return snapshot.docs.map((docSnapshot) => {
+      const data = docSnapshot.data();
       return {
         id: docSnapshot.id,
-        postDate: data.date?.toDate ? data.date.toDate().toISOString() : new Date().toISOString(),
-        user: { id: data.userId || 'unknown', name: userName },
+        revision: data.revision || 0,
+        previousContent: data.previousContent || '',
         content: data.content || '',
-        category: data.category || 'casual',
-        location: data.location || 'unknown',
-        likes: data.likeCount || 0,
-        dislikes: data.dislikeCount || 0,
-        reportCount: data.reportCount || 0,
-        status: data.status || 'active',
-        isWarned: data.isWarned || false,
-        photoPaths: data.photoPaths || []
+        previousPhotoPaths: data.previousPhotoPaths || [],
+        photoPaths: data.photoPaths || [],
+        editedAt: data.editedAt?.toDate ? data.editedAt.toDate().toISOString() : new Date().toISOString()
       };
     });
+  } catch (error) {
+    console.error('Error fetching post revisions:', error);
+    throw new Error('Failed to fetch post revisions');
+  }
+};
 
-    const resolvedPosts = await Promise.all(postPromises);
-    return resolvedPosts;
+/**
+ * Count the posts matching the filters without downloading them
+ */
+export const countPosts = async (filters: PostFilters = {}): Promise<number> => {
+  try {
+    const snapshot = await getCountFromServer(
+      query(collection(db, POSTS_COLLECTION), ...buildFilterConstraints(filters))
+    );
+    return snapshot.data().count;
+  } catch (error) {
+    console.error('Error counting posts:', error);
+    throw new Error('Failed to count posts');
+  }
+};
 
-    return posts;
+/**
+ * Get the IDs of every post matching the filters, across all pages
+ * Used by "select all matching" for bulk actions
+ */
+export const getMatchingPostIds = async (filters: PostFilters = {}): Promise<string[]> => {
+  try {
+    const snapshot = await getDocs(
+      query(collection(db, POSTS_COLLECTION), ...buildFilterConstraints(filters))
+    );
+    return snapshot.docs.map((docSnapshot) => docSnapshot.id);
   } catch (error) {
-    console.error('Error fetching posts:', error);
-    throw new Error('Failed to fetch posts');
+    console.error('Error fetching matching posts:', error);
+    throw new Error('Failed to fetch matching posts');
   }
 };
 
+/**
+ * Subscribe to real-time updates of one page of posts
+ * Pass the previous page's lastDoc as the cursor to get the next page
+ */
+export const subscribeToPostsPage = (
+  filters: PostFilters,
+  options: PostPageOptions,
+  callback: (page: PostPage) => void,
+  onError: (error: Error) => void
+) => {
+  const sortOrder = options.sortOrder || 'desc';
+  const constraints = [
+    ...buildFilterConstraints(filters),
+    orderBy(SORT_FIELDS[options.sortBy || 'date'], sortOrder)
+  ];
+  if (options.sortBy && options.sortBy !== 'date') {
+    // Keeps the order (and so the cursor) stable between posts with equal counts
+    constraints.push(orderBy('date', sortOrder));
+  }
+  if (options.cursor) {
+    constraints.push(startAfter(options.cursor));
+  }
+  // One extra document tells us whether there is a next page
+  constraints.push(limit(options.pageSize + 1));
+
+  return onSnapshot(
+    query(collection(db, POSTS_COLLECTION), ...constraints),
+    async (snapshot) => {
+      try {
+        const pageDocs = snapshot.docs.slice(0, options.pageSize);
+        callback({
+          posts: await mapPosts(pageDocs),
+          lastDoc: pageDocs.length > 0 ? pageDocs[pageDocs.length - 1] : null,
+          hasMore: snapshot.docs.length > options.pageSize
+        });
+      } catch (error) {
+        console.error('Error processing posts page snapshot:', error);
+        onError(new Error('Failed to process posts updates'));
+      }
+    },
+    (error) => {
+      console.error('Posts page subscription error:', error);
+      onError(error);
+    }
+  );
+};
+
 /**
  * Subscribe to real-time posts updates
  */
 export const subscribeToPostsUpdates = (
   callback: (posts: Post[]) => void,
-  onError: (error: Error) => void
+  onError: (error: Error) => void,
+  filters: PostFilters = {}
 ) => {
   const postsQuery = query(
     collection(db, POSTS_COLLECTION),
+    ...buildFilterConstraints(filters),
     orderBy('date', 'desc')
   );
 
@@ -97,31 +364,7 @@ export const subscribeToPostsUpdates = (
     postsQuery,
     async (snapshot) => {
       try {
-        const posts: Post[] = [];
-
-        // Fetch all posts with user data
-        const postPromises = snapshot.docs.map(async (docSnapshot) => {
-          const data = docSnapshot.data();
-          const userName = await getUserName(data.userId);
-
-          return {
-            id: docSnapshot.id,
-            postDate: data.date?.toDate ? data.date.toDate().toISOString() : new Date().toISOString(),
-            user: { id: data.userId || 'unknown', name: userName },
-            content: data.content || '',
-            category: data.category || 'casual',
-            location: data.location || 'unknown',
-            likes: data.likeCount || 0,
-            dislikes: data.dislikeCount || 0,
-            reportCount: data.reportCount || 0,
-            status: data.status || 'active',
-            isWarned: data.isWarned || false,
-            photoPaths: data.photoPaths || []
-          };
-        });
-
-        const resolvedPosts = await Promise.all(postPromises);
-        callback(resolvedPosts);
+        callback(await mapPosts(snapshot.docs));
       } catch (error) {
         console.error('Error processing posts snapshot:', error);
         onError(new Error('Failed to process posts updates'));
@@ -0,0 +1,60 @@
+import {
+  collection,
+  query,
+  orderBy,
+  onSnapshot,
+  DocumentData,
+  QuerySnapshot,
+  Unsubscribe,
+  Timestamp
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { ReportedPost } from "@/types/export";
+
+const toIsoString = (value: unknown): string => {
+  if (value instanceof Timestamp) {
+    return value.toDate().toISOString();
+  }
+
+  const date = new Date(typeof value === 'string' ? value : 0);
+  return Number.isNaN(date.getTime()) ? new Date(0).toISOString() : date.toISOString();
+};
+
+const mapReportedPostDoc = (docSnapshot: { id: string; data: () => DocumentData }): ReportedPost => {
+  const data = docSnapshot.data();
+  return {
+    id: docSnapshot.id,
+    postId: data.postId || docSnapshot.id,
+    reportedUserId: data.reportedUserId ?? null,
+    postContent: data.postContent || '',
+    reporterCount: data.reporterCount || 0,
+    categoryCounts: data.categoryCounts || {},
+    firstReportedAt: toIsoString(data.firstReportedAt),
+    lastReportedAt: toIsoString(data.lastReportedAt),
+    lastReportId: data.lastReportId || '',
+    postStatus: data.postStatus || 'active',
+  };
+};
+
+/**
+ * Subscribe to the per-post report aggregates, most recently reported first
+ */
+export const subscribeToReportedPosts = (
+  callback: (reportedPosts: ReportedPost[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  const q = query(collection(db, 'reported_posts'), orderBy('lastReportedAt', 'desc'));
+
+  return onSnapshot(
+    q,
+    (snapshot: QuerySnapshot<DocumentData>) => {
+      callback(snapshot.docs.map(mapReportedPostDoc));
+    },
+    (error) => {
+      console.error('Error in reported posts subscription:', error);
+      if (onError) {
+        onError(error);
+      }
+    }
+  );
+};
@@ -0,0 +1,44 @@
+import { doc, getDoc } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { AdminConfiguration, ReporterStats } from "@/types/export";
+
+/**
+ * Fetch a user's reporter reputation, or null if they have never reported anything
+ */
+export const fetchReporterStats = async (userId: string): Promise<ReporterStats | null> => {
+  try {
+    const statsSnap = await getDoc(doc(db, 'reporter_stats', userId));
+
+    if (!statsSnap.exists()) {
+      return null;
+    }
+
+    const data = statsSnap.data();
+    return {
+      userId: statsSnap.id,
+      totalReports: data.totalReports || 0,
+      pendingCount: data.pendingCount || 0,
+      resolvedCount: data.resolvedCount || 0,
+      dismissedCount: data.dismissedCount || 0,
+      accuracy: typeof data.accuracy === 'number' ? data.accuracy : null,
+    };
+  } catch (error) {
+    console.error('Error fetching reporter stats:', error);
+    return null;
+  }
+};
+
+/**
+ * Mirrors the check handleNewReport makes before letting a report auto-remove a post
+ */
+export const isLowAccuracyReporter = (
+  stats: ReporterStats | null,
+  reputation: AdminConfiguration['reporterReputation'] | undefined
+): boolean => {
+  if (!stats || !reputation || stats.accuracy === null || reputation.minAccuracy <= 0) {
+    return false;
+  }
+
+  const decided = stats.resolvedCount + stats.dismissedCount;
+  return decided >= reputation.minDecidedReports && stats.accuracy < reputation.minAccuracy;
+};
@@ -2,6 +2,7 @@ import {
   collection,
   getDocs,
   doc,
+  getDoc,
   updateDoc,
   query,
   orderBy,
@@ -15,6 +16,7 @@ import {
 import { db } from "@/lib/firebase";
 import { Report } from "@/types/export";
 import { normalizeReportCategory } from "@/types/constants";
+import { logModerationAction } from "./moderationLogs";
 
 const toIsoString = (value: any): string | undefined => {
   if (!value) return undefined;
@@ -37,11 +39,20 @@ const getReportDateIso = (data: any): string => {
   );
 };
 
+// reporter/reported are user snapshots kept current by the fanOutUserSnapshot Cloud Function
+const mapReportUser = (value: DocumentData | undefined): Report['reporter'] => ({
+  ...value,
+  id: value?.id || 'unknown',
+  name: value?.name || value?.nickname || 'Unknown User',
+});
+
 const mapReportDoc = (docSnapshot: { id: string; data: () => DocumentData }): Report => {
   const data = docSnapshot.data();
   return {
     id: docSnapshot.id,
     ...data,
+    reporter: mapReportUser(data.reporter),
+    reported: mapReportUser(data.reported),
     category: normalizeReportCategory(data.category),
     reportDate: getReportDateIso(data),
   } as Report;
@@ -124,6 +135,19 @@ export const subscribeToRecentReports = (
   );
 };
 
+/**
+ * Get a single report by ID
+ */
+export const getReportById = async (reportId: string): Promise<Report | null> => {
+  try {
+    const reportSnap = await getDoc(doc(db, 'reports', reportId));
+    return reportSnap.exists() ? mapReportDoc(reportSnap) : null;
+  } catch (error) {
+    console.error('Error fetching report:', error);
+    throw error;
+  }
+};
+
 /**
  * Get reports by status
  */
@@ -140,6 +164,51 @@ export const getReportsByStatus = async (status: string): Promise<Report[]> => {
   }
 };
 
+/**
+ * Get all reports against a post, newest first
+ */
+export const getReportsByPostId = async (postId: string): Promise<Report[]> => {
+  try {
+    const q = query(collection(db, 'reports'), where('postId', '==', postId));
+    const snapshot = await getDocs(q);
+
+    return sortByReportDateDesc(snapshot.docs.map(mapReportDoc));
+  } catch (error) {
+    console.error('Error fetching reports by post:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the reports a user filed, newest first
+ */
+export const getReportsByReporter = async (userId: string): Promise<Report[]> => {
+  try {
+    const q = query(collection(db, 'reports'), where('reporter.id', '==', userId));
+    const snapshot = await getDocs(q);
+
+    return sortByReportDateDesc(snapshot.docs.map(mapReportDoc));
+  } catch (error) {
+    console.error('Error fetching reports by reporter:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the reports filed against a user's posts, newest first
+ */
+export const getReportsAgainstUser = async (userId: string): Promise<Report[]> => {
+  try {
+    const q = query(collection(db, 'reports'), where('reported.id', '==', userId));
+    const snapshot = await getDocs(q);
+
+    return sortByReportDateDesc(snapshot.docs.map(mapReportDoc));
+  } catch (error) {
+    console.error('Error fetching reports against user:', error);
+    throw error;
+  }
+};
+
 /**
  * Get reports by category
  */
@@ -162,14 +231,30 @@ export const getReportsByCategory = async (category: string): Promise<Report[]>
 
 /**
  * Update report status
+ * Dismissals and resolutions are recorded in the moderation log
  */
 export const updateReportStatus = async (reportId: string, status: string): Promise<void> => {
   try {
     const reportDoc = doc(db, 'reports', reportId);
+    const reportSnap = await getDoc(reportDoc);
+    const previous = reportSnap.exists() ? reportSnap.data() : null;
+
     await updateDoc(reportDoc, {
       status,
       updatedAt: new Date().toISOString()
     });
+
+    if (status === 'dismissed' || status === 'resolved') {
+      await logModerationAction({
+        action: status === 'dismissed' ? 'dismiss_report' : 'resolve_report',
+        targetType: 'report',
+        targetId: reportId,
+        targetUserId: previous?.reported?.id || null,
+        beforeStatus: previous?.status || null,
+        afterStatus: status,
+        relatedIds: previous?.postId ? [previous.postId] : []
+      });
+    }
   } catch (error) {
     console.error('Error updating report status:', error);
     throw error;
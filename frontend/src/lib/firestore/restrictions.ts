@@ -0,0 +1,91 @@
+import { httpsCallable } from "firebase/functions";
+import { functions } from "@/lib/firebase";
+import { fetchUserById } from "@/lib/firestore/users";
+import { ActiveUserRestriction, User, USER_RESTRICTION_LABELS, UserRestrictionType } from "@/types/export";
+
+export interface SetUserRestrictionResult {
+  restriction: UserRestrictionType;
+  expiresAt: string | null;
+  active: boolean;
+}
+
+/**
+ * The user's restrictions that have not expired, in USER_RESTRICTION_LABELS order
+ */
+export const getActiveRestrictions = (user: Pick<User, 'restrictions'> | null): ActiveUserRestriction[] => {
+  const now = Date.now();
+
+  return (Object.keys(USER_RESTRICTION_LABELS) as UserRestrictionType[]).flatMap((type) => {
+    const restriction = user?.restrictions?.[type];
+    if (!restriction) return [];
+
+    const expiresAt = restriction.expiresAt ? restriction.expiresAt.toDate() : null;
+    if (expiresAt && expiresAt.getTime() <= now) return [];
+
+    return [{
+      type,
+      expiresAt: expiresAt ? expiresAt.toISOString() : null,
+      reason: restriction.reason || '',
+      appliedAt: restriction.appliedAt || '',
+    }];
+  });
+};
+
+/**
+ * Fetch a user's restrictions that have not expired
+ */
+export const fetchUserRestrictions = async (userId: string): Promise<ActiveUserRestriction[]> => {
+  return getActiveRestrictions(await fetchUserById(userId));
+};
+
+const callSetUserRestriction = async (request: {
+  userId: string;
+  restriction: UserRestrictionType;
+  durationDays?: number | null;
+  lift?: boolean;
+  reason?: string;
+}): Promise<SetUserRestrictionResult> => {
+  const setRestrictionFn = httpsCallable(functions, 'setUserRestriction');
+
+  const result = await setRestrictionFn(request);
+  const data = result.data as { success: boolean; message?: string } & SetUserRestrictionResult;
+
+  if (!data.success) {
+    throw new Error(data.message || 'Failed to update restriction');
+  }
+
+  return data;
+};
+
+/**
+ * ✅ Restricts posting, reporting or AR captures for durationDays (null = until lifted) via Cloud Function
+ */
+export async function restrictUser(
+  userId: string,
+  restriction: UserRestrictionType,
+  durationDays: number | null,
+  reason?: string
+): Promise<SetUserRestrictionResult> {
+  try {
+    return await callSetUserRestriction({ userId, restriction, durationDays, reason });
+  } catch (error) {
+    console.error('Error restricting user:', error);
+    throw new Error(error instanceof Error ? error.message : 'Failed to restrict user');
+  }
+}
+
+/**
+ * ✅ Lifts one of the user's restrictions via Cloud Function
+ */
+export async function liftUserRestriction(
+  userId: string,
+  restriction: UserRestrictionType,
+  reason?: string
+): Promise<SetUserRestrictionResult> {
+  try {
+    return await callSetUserRestriction({ userId, restriction, lift: true, reason });
+  } catch (error) {
+    console.error('Error lifting user restriction:', error);
+    throw new Error(error instanceof Error ? error.message : 'Failed to lift restriction');
+  }
+}
@@ -0,0 +1,79 @@
+import { collection, FieldPath, getDocs, limit, query, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { SearchResult } from '@/types';
+
+const SEARCH_INDEX_COLLECTION = 'search_index';
+
+// Matches sorted by recency; a search matching more than this sorts only the first ones found
+const CANDIDATE_LIMIT = 200;
+// Equality filters per query; tokens past these are checked on the matches
+const MAX_QUERY_TOKENS = 10;
+
+/**
+ * Split a search into the tokens every matching entry must contain
+ * Mirrors tokenize() in functions/src/search.ts: short words as they are,
+ * longer words as all their three-character slices
+ */
+export const tokenizeQuery = (text: string): string[] => {
+  const tokens = new Set<string>();
+  const words = text.toLowerCase().split(/[\s.,!?;:'"()[\]{}<>/\\|@#$%^&*+=~`_-]+/);
+
+  for (const word of words) {
+    if (word.length < 2) continue;
+    if (word.length <= 3) {
+      tokens.add(word);
+      continue;
+    }
+    for (let i = 0; i + 3 <= word.length; i++) {
+      tokens.add(word.slice(i, i + 3));
+    }
+  }
+
+  return [...tokens];
+};
+
+/**
+ * Search posts, users, reports and announcements through the search index
+ * Returns entries containing every token of the search, most recently updated first
+ * Each token is an equality filter on tokenMap, so Firestore only returns real matches
+ */
+export const searchAll = async (text: string, maxResults: number = 20): Promise<SearchResult[]> => {
+  const tokens = tokenizeQuery(text);
+
+  if (tokens.length === 0) {
+    return [];
+  }
+
+  try {
+    // Longer tokens are usually rarer, so they narrow the query the most
+    const queryTokens = [...tokens].sort((a, b) => b.length - a.length).slice(0, MAX_QUERY_TOKENS);
+    const snapshot = await getDocs(query(
+      collection(db, SEARCH_INDEX_COLLECTION),
+      ...queryTokens.map((token) => where(new FieldPath('tokenMap', token), '==', true)),
+      limit(CANDIDATE_LIMIT)
+    ));
+
+    return snapshot.docs
+      .filter((docSnapshot) => {
+        const tokenMap: Record<string, boolean> = docSnapshot.data().tokenMap || {};
+        return tokens.every((token) => tokenMap[token] === true);
+      })
+      .map((docSnapshot) => {
+        const data = docSnapshot.data();
+        return {
+          id: docSnapshot.id,
+          type: data.type,
+          targetId: data.targetId,
+          title: data.title || '',
+          subtitle: data.subtitle || '',
+          updatedAt: data.updatedAt || ''
+        };
+      })
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(0, maxResults);
+  } catch (error) {
+    console.error('Error searching:', error);
+    throw new Error('Failed to search');
+  }
+};
+
@@ -0,0 +1,244 @@
+import {
+  collection,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  documentId,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { getPostsByUser } from './posts';
+import { getReportsAgainstUser, getReportsByReporter } from './reports';
+import { fetchUserModerationLogs } from './moderationLogs';
+import { fetchUserWarnings } from './warnings';
+import { UserActivityItem } from '@/types';
+import {
+  CATEGORY_LABELS,
+  MODERATION_ACTION_LABELS,
+  USER_ACTIVITY_KINDS,
+  UserActivityKind
+} from '@/types/constants';
+
+export interface UserActivity {
+  items: UserActivityItem[];
+  // Sources that could not be loaded; the timeline shows everything else
+  failedKinds: UserActivityKind[];
+}
+
+// The timeline is an investigation aid, not an export; older entries are cut off
+const MAX_HISTORY_ENTRIES = 200;
+const SNIPPET_LENGTH = 140;
+
+const toIsoString = (value: unknown): string | null => {
+  if (!value) return null;
+
+  if (typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate().toISOString();
+  }
+
+  const date = new Date(value as string);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const snippet = (text: string | undefined): string => {
+  const value = (text || '').trim();
+  return value.length > SNIPPET_LENGTH ? `${value.slice(0, SNIPPET_LENGTH)}…` : value;
+};
+
+const fetchPostItems = async (userId: string): Promise<UserActivityItem[]> => {
+  const posts = await getPostsByUser(userId);
+
+  return posts.map((post) => ({
+    id: `${USER_ACTIVITY_KINDS.POST}:${post.id}`,
+    kind: USER_ACTIVITY_KINDS.POST,
+    date: post.postDate,
+    title: `Posted in ${post.category} at ${post.location}`,
+    detail: snippet(post.content),
+    status: post.status,
+    href: `/posts?id=${post.id}`
+  }));
+};
+
+const fetchReportFiledItems = async (userId: string): Promise<UserActivityItem[]> => {
+  const reports = await getReportsByReporter(userId);
+
+  return reports.map((report) => ({
+    id: `${USER_ACTIVITY_KINDS.REPORT_FILED}:${report.id}`,
+    kind: USER_ACTIVITY_KINDS.REPORT_FILED,
+    date: report.reportDate,
+    title: `Reported ${report.reported.name}'s post for ${CATEGORY_LABELS[report.category] || report.category}`,
+    detail: snippet(report.description || report.postContent),
+    status: report.status,
+    href: `/reports?id=${report.id}`
+  }));
+};
+
+const fetchReportReceivedItems = async (userId: string): Promise<UserActivityItem[]> => {
+  const reports = await getReportsAgainstUser(userId);
+
+  return reports.map((report) => ({
+    id: `${USER_ACTIVITY_KINDS.REPORT_RECEIVED}:${report.id}`,
+    kind: USER_ACTIVITY_KINDS.REPORT_RECEIVED,
+    date: report.reportDate,
+    title: `Reported by ${report.reporter.name} for ${CATEGORY_LABELS[report.category] || report.category}`,
+    detail: snippet(report.postContent),
+    status: report.status,
+    href: `/reports?id=${report.id}`
+  }));
+};
+
+const fetchNotificationItems = async (userId: string): Promise<UserActivityItem[]> => {
+  const snapshot = await getDocs(
+    query(
+      collection(db, 'user_notifications'),
+      where('userId', '==', userId),
+      orderBy('createdAt', 'desc'),
+      limit(MAX_HISTORY_ENTRIES)
+    )
+  );
+
+  return snapshot.docs.map((doc) => {
+    const data = doc.data();
+    const relatedPostId: string | undefined = data.relatedPostId || data.data?.postId;
+
+    return {
+      id: `${USER_ACTIVITY_KINDS.NOTIFICATION}:${doc.id}`,
+      kind: USER_ACTIVITY_KINDS.NOTIFICATION,
+      date: toIsoString(data.createdAt) || '',
+      title: data.title || 'Notification',
+      detail: snippet(data.message),
+      status: data.retracted ? 'retracted' : data.isRead ? 'read' : 'unread',
+      href: relatedPostId ? `/posts?id=${relatedPostId}` : null
+    };
+  });
+};
+
+/**
+ * Ordered by capturedAt, so captures without one are left out of the timeline
+ */
+const fetchArCaptureItems = async (userId: string): Promise<UserActivityItem[]> => {
+  const snapshot = await getDocs(
+    query(
+      collection(db, 'ar_captures'),
+      where('userId', '==', userId),
+      orderBy('capturedAt', 'desc'),
+      limit(MAX_HISTORY_ENTRIES)
+    )
+  );
+
+  return snapshot.docs.map((doc) => {
+    const data = doc.data();
+    const target = data.modelName || data.spawnName || data.spawnId;
+    const coins = data.coinReward ?? data.coins;
+
+    return {
+      id: `${USER_ACTIVITY_KINDS.AR_CAPTURE}:${doc.id}`,
+      kind: USER_ACTIVITY_KINDS.AR_CAPTURE,
+      date: toIsoString(data.capturedAt) || toIsoString(data.createdAt) || '',
+      title: target ? `Captured ${target}` : 'Captured an AR spawn',
+      detail: typeof coins === 'number' ? `${coins} coin${coins === 1 ? '' : 's'}` : '',
+      status: data.validated ? 'validated' : 'pending',
+      href: null
+    };
+  });
+};
+
+/**
+ * Reactions are keyed `${userId}_${postId}`, the convention firestore.rules enforces
+ * The id range can only be ordered by id, so the cut-off keeps the first reactions by post id
+ * rather than the newest
+ */
+const fetchReactionItems = async (userId: string): Promise<UserActivityItem[]> => {
+  const prefix = `${userId}_`;
+  const snapshot = await getDocs(
+    query(
+      collection(db, 'user_reactions'),
+      where(documentId(), '>=', prefix),
+      where(documentId(), '<', `${prefix}\uf8ff`),
+      orderBy(documentId()),
+      limit(MAX_HISTORY_ENTRIES)
+    )
+  );
+
+  return snapshot.docs.map((doc) => {
+    const data: DocumentData = doc.data();
+    const postId: string = data.postId || doc.id.slice(prefix.length);
+    const reaction: string = data.type || data.reaction || 'reaction';
+
+    return {
+      id: `${USER_ACTIVITY_KINDS.REACTION}:${doc.id}`,
+      kind: USER_ACTIVITY_KINDS.REACTION,
+      date: toIsoString(data.updatedAt) || toIsoString(data.createdAt) || '',
+      title: reaction === 'like' ? 'Liked a post' : reaction === 'dislike' ? 'Disliked a post' : 'Reacted to a post',
+      detail: '',
+      status: null,
+      href: `/posts?id=${postId}`
+    };
+  });
+};
+
+const fetchSanctionItems = async (userId: string): Promise<UserActivityItem[]> => {
+  const logs = await fetchUserModerationLogs(userId, MAX_HISTORY_ENTRIES);
+
+  return logs.map((log) => ({
+    id: `${USER_ACTIVITY_KINDS.SANCTION}:${log.id}`,
+    kind: USER_ACTIVITY_KINDS.SANCTION,
+    date: log.timestamp,
+    title: `${MODERATION_ACTION_LABELS[log.action] || log.action} by ${log.adminEmail}`,
+    detail: log.reason || '',
+    status: log.beforeStatus || log.afterStatus ? `${log.beforeStatus || '—'} → ${log.afterStatus || '—'}` : null,
+    href: null
+  }));
+};
+
+const fetchWarningItems = async (userId: string): Promise<UserActivityItem[]> => {
+  const warnings = await fetchUserWarnings(userId, MAX_HISTORY_ENTRIES);
+
+  return warnings.map((warning) => ({
+    id: `${USER_ACTIVITY_KINDS.WARNING}:${warning.id}`,
+    kind: USER_ACTIVITY_KINDS.WARNING,
+    date: warning.date,
+    title: `Warned by ${warning.adminName}`,
+    detail: snippet(warning.postContent ? `${warning.reason} · "${warning.postContent}"` : warning.reason),
+    status: warning.status,
+    href: warning.postId ? `/posts?id=${warning.postId}` : null
+  }));
+};
+
+const ACTIVITY_SOURCES: Record<UserActivityKind, (userId: string) => Promise<UserActivityItem[]>> = {
+  [USER_ACTIVITY_KINDS.POST]: fetchPostItems,
+  [USER_ACTIVITY_KINDS.REPORT_FILED]: fetchReportFiledItems,
+  [USER_ACTIVITY_KINDS.REPORT_RECEIVED]: fetchReportReceivedItems,
+  [USER_ACTIVITY_KINDS.NOTIFICATION]: fetchNotificationItems,
+  [USER_ACTIVITY_KINDS.AR_CAPTURE]: fetchArCaptureItems,
+  [USER_ACTIVITY_KINDS.REACTION]: fetchReactionItems,
+  [USER_ACTIVITY_KINDS.SANCTION]: fetchSanctionItems,
+  [USER_ACTIVITY_KINDS.WARNING]: fetchWarningItems
+};
+
+/**
+ * Fetch everything a user did and everything done to them, newest first
+ * A source that fails to load is reported in failedKinds instead of failing the whole timeline
+ */
+export const fetchUserActivity = async (userId: string): Promise<UserActivity> => {
+  const kinds = Object.keys(ACTIVITY_SOURCES) as UserActivityKind[];
+  const results = await Promise.allSettled(kinds.map((kind) => ACTIVITY_SOURCES[kind](userId)));
+
+  const items: UserActivityItem[] = [];
+  const failedKinds: UserActivityKind[] = [];
+
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      items.push(...result.value);
+    } else {
+      console.error(`Error fetching ${kinds[index]} activity:`, result.reason);
+      failedKinds.push(kinds[index]);
+    }
+  });
+
+  items.sort((a, b) => new Date(b.date || 0).getTime() - new Date(a.date || 0).getTime());
+
+  return { items, failedKinds };
+};
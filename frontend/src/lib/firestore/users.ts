@@ -33,23 +33,6 @@ export async function fetchUserById(userId: string): Promise<User | null> {
   }
 }
 
-/**
- * Increment warning count for a user
- */
-export const incrementUserWarningCount = async (userId: string): Promise<void> => {
-  try {
-    const userRef = doc(db, 'users', userId);
-    await updateDoc(userRef, {
-      warningCount: increment(1),
-      lastWarningDate: new Date().toISOString()
-    });
-    console.log('User warning count incremented for user:', userId);
-  } catch (error) {
-    console.error('Error incrementing warning count:', error);
-    throw new Error('Failed to increment user warning count');
-  }
-};
-
 /**
  * Update user status (supports active, warning, suspended, banned)
  */
@@ -71,7 +54,8 @@ export const updateUserStatus = async (userId: string, status: string, suspendDu
       updateData.suspendExpiresAt = suspendExpiresAt.toISOString();
       updateData.suspendCount = increment(1);
     } else if (status === 'banned') {
-      // Permanent ban - set bannedAt timestamp
+      // Permanent ban - set bannedAt timestamp; the enforceBanInAuth Cloud Function
+      // sets the banned claim, and clears it when the status changes back
       updateData.bannedAt = new Date().toISOString();
     } else if (status === 'active') {
       // Clear suspend timestamps when unsuspending, keep suspend count for history
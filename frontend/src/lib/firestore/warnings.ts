@@ -0,0 +1,51 @@
+import {
+  collection,
+  getDocs,
+  query,
+  orderBy,
+  limit,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { WarningRecord } from '@/types';
+
+const WARNINGS_SUBCOLLECTION = 'warnings';
+
+const mapWarningRecord = (id: string, userId: string, data: DocumentData): WarningRecord => ({
+  id,
+  userId,
+  postId: data.postId ?? null,
+  postContent: data.postContent || '',
+  date: data.date || new Date().toISOString(),
+  reportCounts: data.reportCounts || 0,
+  reason: data.reason || '',
+  adminId: data.adminId || 'unknown',
+  adminName: data.adminName || 'unknown',
+  escalation: data.escalation || 'none',
+  status: data.status || 'active',
+  expiredAt: data.expiredAt ?? null,
+  revokedAt: data.revokedAt ?? null
+});
+
+/**
+ * Fetch a user's warnings, newest first, including expired and revoked ones
+ * Records are written by Cloud Functions whenever the user is warned
+ */
+export const fetchUserWarnings = async (
+  userId: string,
+  maxResults: number = 50
+): Promise<WarningRecord[]> => {
+  try {
+    const q = query(
+      collection(db, 'users', userId, WARNINGS_SUBCOLLECTION),
+      orderBy('date', 'desc'),
+      limit(maxResults)
+    );
+
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map((doc) => mapWarningRecord(doc.id, userId, doc.data()));
+  } catch (error) {
+    console.error('Error fetching user warnings:', error);
+    throw error;
+  }
+};
@@ -8,6 +8,8 @@ export interface NotificationData {
   title: string;
   message: string;
   relatedPostId?: string;
+  // Tells suspensions and permanent bans apart on 'ban' notifications, for appeals
+  sanctionType?: 'suspension' | 'ban';
 }
 
 export interface AnnouncementNotificationData {
@@ -33,6 +35,7 @@ export const createUserNotification = async (notificationData: NotificationData)
       title: notificationData.title,
       message: notificationData.message,
       ...(notificationData.relatedPostId !== undefined ? { relatedPostId: notificationData.relatedPostId } : {}),
+      ...(notificationData.sanctionType ? { sanctionType: notificationData.sanctionType } : {}),
       createdAt: serverTimestamp(),
       isRead: false,
     });
@@ -102,6 +105,7 @@ export const sendTemporaryBan = async (
     userId,
     adminId,
     type: 'ban',
+    sanctionType: 'suspension',
     title: `Temporary Account Restriction - ${banDuration}`,
     message,
     relatedPostId,
@@ -123,6 +127,7 @@ export const sendPermanentBan = async (
     userId,
     adminId,
     type: 'ban',
+    sanctionType: 'ban',
     title: 'Account Permanently Banned',
     message,
     relatedPostId,
@@ -0,0 +1,34 @@
+import React from "react";
+import Sidebar from "@/components/Sidebar";
+import NotificationBell from "@/components/NotificationBell";
+import AppealTable from "@/components/tables/AppealTable";
+import { withAdminAuth } from "@/components/hoc/withAdminAuth";
+
+function Appeals() {
+  return (
+    <div className="min-h-screen bg-purple-50/40 dark:bg-black text-zinc-900 dark:text-zinc-50">
+      <div className="flex min-h-screen p-4">
+        <Sidebar />
+
+        {/* Main content */}
+        <main className="flex-1  p-6 min-h-full ml-4">
+          <header className="mb-8 flex justify-between items-start">
+            <div>
+              <h1 className="text-3xl font-bold">Appeals</h1>
+              <p className="mt-2 text-zinc-600 dark:text-zinc-400">
+                Review appeals against post removals, warnings, suspensions and
+                bans. Granting an appeal reverses the sanction and notifies the
+                user.
+              </p>
+            </div>
+            <NotificationBell className="group" />
+          </header>
+
+          <AppealTable />
+        </main>
+      </div>
+    </div>
+  );
+}
+
+export default withAdminAuth(Appeals);
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from "react";
 import Sidebar from "@/components/Sidebar";
 import NotificationBell from "@/components/NotificationBell";
+import ContentFilterRules from "@/components/ContentFilterRules";
 import { withAdminAuth } from "@/components/hoc/withAdminAuth";
 import {
   getAdminConfiguration,
@@ -8,8 +9,21 @@ import {
   validateConfiguration,
   subscribeToConfiguration,
   getConfigurationLogs,
+  DEFAULT_CONFIGURATION,
 } from "@/lib/firestore/configuration";
-import { AdminConfiguration, ConfigurationLog } from "@/types";
+import { describeSanctionStep } from "@/lib/businessRules";
+import { AdminConfiguration, ConfigurationLog, SanctionStep } from "@/types";
+import {
+  CATEGORY_LABELS,
+  SANCTION_STEP_TYPE_LABELS,
+  SanctionStepType,
+  SEVERITY_LABELS,
+  SEVERITY_ACTION_LABELS,
+  REPORT_SEVERITY,
+  ReportCategory,
+  ReportSeverity,
+  SeverityAction,
+} from "@/types/constants";
 
 function Configuration() {
   // Configuration state
@@ -33,9 +47,11 @@ function Configuration() {
     maxCoinReward: 1,
     maxActiveAnnouncements: 3,
     urgentAnnouncementThreshold: 48,
-    suspendThreshold: 5,
     suspendDurationDays: 30,
-    banAfterSuspendCount: 3,
+    sanctionLadder: DEFAULT_CONFIGURATION.sanctionLadder,
+    warningExpiryDays: DEFAULT_CONFIGURATION.warningExpiryDays,
+    severityPolicy: DEFAULT_CONFIGURATION.severityPolicy,
+    reporterReputation: DEFAULT_CONFIGURATION.reporterReputation,
   });
 
   // Load configuration on component mount
@@ -57,9 +73,11 @@ function Configuration() {
           maxActiveAnnouncements: configuration.maxActiveAnnouncements || 3,
           urgentAnnouncementThreshold:
             configuration.urgentAnnouncementThreshold || 48,
-          suspendThreshold: configuration.suspendThreshold || 5,
           suspendDurationDays: configuration.suspendDurationDays || 30,
-          banAfterSuspendCount: configuration.banAfterSuspendCount || 3,
+          sanctionLadder: configuration.sanctionLadder,
+          warningExpiryDays: configuration.warningExpiryDays,
+          severityPolicy: configuration.severityPolicy,
+          reporterReputation: configuration.reporterReputation,
         });
       } catch (err: any) {
         console.error("Error loading configuration:", err);
@@ -80,9 +98,11 @@ function Configuration() {
           maxCoinReward: 1,
           maxActiveAnnouncements: 3,
           urgentAnnouncementThreshold: 48,
-          suspendThreshold: 5,
           suspendDurationDays: 30,
-          banAfterSuspendCount: 3,
+          sanctionLadder: DEFAULT_CONFIGURATION.sanctionLadder,
+          warningExpiryDays: DEFAULT_CONFIGURATION.warningExpiryDays,
+          severityPolicy: DEFAULT_CONFIGURATION.severityPolicy,
+          reporterReputation: DEFAULT_CONFIGURATION.reporterReputation,
         });
       } finally {
         setLoading(false);
@@ -107,9 +127,11 @@ function Configuration() {
             maxActiveAnnouncements: updatedConfig.maxActiveAnnouncements || 3,
             urgentAnnouncementThreshold:
               updatedConfig.urgentAnnouncementThreshold || 48,
-            suspendThreshold: updatedConfig.suspendThreshold || 5,
             suspendDurationDays: updatedConfig.suspendDurationDays || 30,
-            banAfterSuspendCount: updatedConfig.banAfterSuspendCount || 3,
+            sanctionLadder: updatedConfig.sanctionLadder,
+            warningExpiryDays: updatedConfig.warningExpiryDays,
+            severityPolicy: updatedConfig.severityPolicy,
+            reporterReputation: updatedConfig.reporterReputation,
           });
         }
       },
@@ -146,6 +168,88 @@ function Configuration() {
     setError("");
   };
 
+  // Handle severity policy updates
+  const updateCategorySeverity = (
+    category: string,
+    severity: ReportSeverity,
+  ) => {
+    updateFormField("severityPolicy", {
+      ...formData.severityPolicy,
+      categorySeverity: {
+        ...formData.severityPolicy.categorySeverity,
+        [category]: severity,
+      },
+    });
+  };
+
+  const updateSeverityAction = (
+    severity: ReportSeverity,
+    action: SeverityAction,
+  ) => {
+    updateFormField("severityPolicy", {
+      ...formData.severityPolicy,
+      severityActions: {
+        ...formData.severityPolicy.severityActions,
+        [severity]: action,
+      },
+    });
+  };
+
+  // Handle sanction ladder updates
+  const updateSanctionStep = (index: number, changes: Partial<SanctionStep>) => {
+    updateFormField(
+      "sanctionLadder",
+      formData.sanctionLadder.map((step, i) =>
+        i === index ? { ...step, ...changes } : step,
+      ),
+    );
+  };
+
+  const changeSanctionStepType = (index: number, type: SanctionStepType) => {
+    const timed = type === "posting_restriction" || type === "suspension";
+    updateSanctionStep(index, {
+      type,
+      durationDays: timed
+        ? formData.sanctionLadder[index].durationDays || 7
+        : null,
+    });
+  };
+
+  const moveSanctionStep = (index: number, offset: number) => {
+    const ladder = [...formData.sanctionLadder];
+    [ladder[index], ladder[index + offset]] = [
+      ladder[index + offset],
+      ladder[index],
+    ];
+    updateFormField("sanctionLadder", ladder);
+  };
+
+  const removeSanctionStep = (index: number) => {
+    updateFormField(
+      "sanctionLadder",
+      formData.sanctionLadder.filter((_, i) => i !== index),
+    );
+  };
+
+  const addSanctionStep = () => {
+    const ladder = formData.sanctionLadder;
+    const newStep: SanctionStep = {
+      type: "warning",
+      durationDays: null,
+      decayDays: 90,
+    };
+    // New steps go before a final ban so the ban stays the last step
+    const insertAt =
+      ladder.length > 0 && ladder[ladder.length - 1].type === "ban"
+        ? ladder.length - 1
+        : ladder.length;
+    updateFormField("sanctionLadder", [
+      ...ladder.slice(0, insertAt),
+      newStep,
+      ...ladder.slice(insertAt),
+    ]);
+  };
+
   // Handle save configuration
   const handleSaveSettings = async () => {
     if (!config) return;
@@ -196,9 +300,11 @@ function Configuration() {
       maxCoinReward: 1,
       maxActiveAnnouncements: 3,
       urgentAnnouncementThreshold: 48,
-      suspendThreshold: 5,
       suspendDurationDays: 30,
-      banAfterSuspendCount: 3,
+      sanctionLadder: DEFAULT_CONFIGURATION.sanctionLadder,
+      warningExpiryDays: DEFAULT_CONFIGURATION.warningExpiryDays,
+      severityPolicy: DEFAULT_CONFIGURATION.severityPolicy,
+      reporterReputation: DEFAULT_CONFIGURATION.reporterReputation,
     });
     setValidationErrors([]);
     setError("");
@@ -511,14 +617,178 @@ function Configuration() {
                       />
                     </div>
                     <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
-                      Reports exceeding the urgent threshold will trigger
-                      automatic notifications to review the content.
+                      Posts reaching the urgent threshold are hidden for review
+                      and admins are notified until the post is restored or
+                      removed.
                     </p>
                   </div>
                 </div>
               </div>
             </section>
 
+            {/* Report Severity Policy Card */}
+            <section>
+              <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm border border-gray-200 dark:border-gray-700">
+                <div className="flex items-center justify-between mb-6">
+                  <h3 className="text-xl font-medium text-gray-900 dark:text-white">
+                    Report Severity Policy
+                  </h3>
+                  <div className="p-2 rounded-full bg-orange-100 dark:bg-orange-900">
+                    <svg
+                      className="w-5 h-5 text-orange-600 dark:text-orange-300"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M3 21v-4m0 0V5a2 2 0 012-2h6.5l1 1H21l-3 6 3 6h-8.5l-1-1H5a2 2 0 00-2 2zm9-13.5V9"
+                      />
+                    </svg>
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <div>
+                    <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                      Category Severity
+                    </p>
+                    <div className="space-y-2">
+                      {(Object.keys(CATEGORY_LABELS) as ReportCategory[]).map(
+                        (category) => (
+                          <div
+                            key={category}
+                            className="flex items-center justify-between gap-3"
+                          >
+                            <span className="text-sm text-gray-900 dark:text-white">
+                              {CATEGORY_LABELS[category]}
+                            </span>
+                            <select
+                              value={
+                                formData.severityPolicy.categorySeverity[
+                                  category
+                                ] || REPORT_SEVERITY.OTHER
+                              }
+                              onChange={(e) =>
+                                updateCategorySeverity(
+                                  category,
+                                  e.target.value as ReportSeverity,
+                                )
+                              }
+                              className="w-40 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-purple-500 focus:border-purple-500 dark:bg-gray-700 dark:text-white"
+                            >
+                              {Object.values(REPORT_SEVERITY).map(
+                                (severity) => (
+                                  <option key={severity} value={severity}>
+                                    {SEVERITY_LABELS[severity]}
+                                  </option>
+                                ),
+                              )}
+                            </select>
+                          </div>
+                        ),
+                      )}
+                    </div>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                      Action per Severity
+                    </p>
+                    <div className="space-y-2">
+                      {Object.values(REPORT_SEVERITY).map((severity) => (
+                        <div
+                          key={severity}
+                          className="flex items-center justify-between gap-3"
+                        >
+                          <span className="text-sm text-gray-900 dark:text-white">
+                            {SEVERITY_LABELS[severity]}
+                          </span>
+                          <select
+                            value={
+                              formData.severityPolicy.severityActions[severity]
+                            }
+                            onChange={(e) =>
+                              updateSeverityAction(
+                                severity,
+                                e.target.value as SeverityAction,
+                              )
+                            }
+                            className="w-48 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-purple-500 focus:border-purple-500 dark:bg-gray-700 dark:text-white"
+                          >
+                            {(
+                              Object.keys(
+                                SEVERITY_ACTION_LABELS,
+                              ) as SeverityAction[]
+                            ).map((action) => (
+                              <option key={action} value={action}>
+                                {SEVERITY_ACTION_LABELS[action]}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+                      Applied by the server when a report is submitted.
+                      Auto-remove hides the post immediately, ignore dismisses
+                      the report, and review leaves it pending for an admin.
+                    </p>
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Minimum Reporter Accuracy (%)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={formData.reporterReputation.minAccuracy}
+                      onChange={(e) =>
+                        updateFormField("reporterReputation", {
+                          ...formData.reporterReputation,
+                          minAccuracy: Number(e.target.value),
+                        })
+                      }
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-purple-500 focus:border-purple-500 dark:bg-gray-700 dark:text-white"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Reports from users whose upheld share is below this go to
+                      review instead of auto-removing posts (0 disables)
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Decided Reports Before Enforcing
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={formData.reporterReputation.minDecidedReports}
+                      onChange={(e) =>
+                        updateFormField("reporterReputation", {
+                          ...formData.reporterReputation,
+                          minDecidedReports: Number(e.target.value),
+                        })
+                      }
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-purple-500 focus:border-purple-500 dark:bg-gray-700 dark:text-white"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      New reporters are trusted until admins have resolved or
+                      dismissed this many of their reports
+                    </p>
+                  </div>
+                </div>
+              </div>
+            </section>
+
+            {/* Content Filter Rules Card */}
+            <section>
+              <ContentFilterRules />
+            </section>
+
             {/* User Moderation Card */}
             <section>
               <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm border border-gray-200 dark:border-gray-700">
@@ -543,101 +813,187 @@ function Configuration() {
                   </div>
                 </div>
                 <div className="space-y-6">
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                        Auto-Suspend Threshold
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                        Sanction Ladder
                       </label>
-                      <input
-                        type="number"
-                        min="1"
-                        max="50"
-                        value={formData.suspendThreshold}
-                        onChange={(e) =>
-                          updateFormField(
-                            "suspendThreshold",
-                            Number(e.target.value),
-                          )
-                        }
-                        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-purple-500 focus:border-purple-500 dark:bg-gray-700 dark:text-white"
-                      />
-                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                        Users exceeding this warning count will be automatically
-                        suspended (cannot post, can only view)
-                      </p>
+                      <button
+                        type="button"
+                        onClick={addSanctionStep}
+                        className="px-3 py-1 text-sm font-medium text-purple-700 dark:text-purple-300 border border-purple-300 dark:border-purple-700 rounded-md hover:bg-purple-50 dark:hover:bg-purple-900/30 transition-colors"
+                      >
+                        Add Step
+                      </button>
                     </div>
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                        Suspend Duration (Days)
-                      </label>
-                      <input
-                        type="number"
-                        min="1"
-                        max="365"
-                        value={formData.suspendDurationDays}
-                        onChange={(e) =>
-                          updateFormField(
-                            "suspendDurationDays",
-                            Number(e.target.value),
-                          )
-                        }
-                        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-purple-500 focus:border-purple-500 dark:bg-gray-700 dark:text-white"
-                      />
-                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                        How long a suspended user stays suspended before they
-                        can post again
-                      </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                      Each warning moves the user one step up the ladder and
+                      the last step repeats. A step that decays moves the user
+                      back down one step after that many days without a new
+                      violation; leave it empty to never decay.
+                    </p>
+                    <div className="space-y-2">
+                      {formData.sanctionLadder.map((step, index) => {
+                        const timed =
+                          step.type === "posting_restriction" ||
+                          step.type === "suspension";
+                        return (
+                          <div
+                            key={index}
+                            className="flex flex-wrap items-center gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700"
+                          >
+                            <span className="w-6 text-sm font-medium text-gray-500 dark:text-gray-400">
+                              {index + 1}.
+                            </span>
+                            <select
+                              value={step.type}
+                              onChange={(e) =>
+                                changeSanctionStepType(
+                                  index,
+                                  e.target.value as SanctionStepType,
+                                )
+                              }
+                              className="w-48 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-purple-500 focus:border-purple-500 dark:bg-gray-700 dark:text-white"
+                            >
+                              {(
+                                Object.keys(
+                                  SANCTION_STEP_TYPE_LABELS,
+                                ) as SanctionStepType[]
+                              ).map((type) => (
+                                <option key={type} value={type}>
+                                  {SANCTION_STEP_TYPE_LABELS[type]}
+                                </option>
+                              ))}
+                            </select>
+                            {timed && (
+                              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                                <input
+                                  type="number"
+                                  min="1"
+                                  max="365"
+                                  value={step.durationDays ?? ""}
+                                  onChange={(e) =>
+                                    updateSanctionStep(index, {
+                                      durationDays: Number(e.target.value),
+                                    })
+                                  }
+                                  className="w-20 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-purple-500 focus:border-purple-500 dark:bg-gray-700 dark:text-white"
+                                />
+                                days
+                              </label>
+                            )}
+                            {step.type !== "ban" && (
+                              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                                Decays after
+                                <input
+                                  type="number"
+                                  min="1"
+                                  placeholder="never"
+                                  value={step.decayDays ?? ""}
+                                  onChange={(e) =>
+                                    updateSanctionStep(index, {
+                                      decayDays: e.target.value
+                                        ? Number(e.target.value)
+                                        : null,
+                                    })
+                                  }
+                                  className="w-20 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-purple-500 focus:border-purple-500 dark:bg-gray-700 dark:text-white"
+                                />
+                                days
+                              </label>
+                            )}
+                            <div className="flex items-center gap-1 ml-auto">
+                              <button
+                                type="button"
+                                onClick={() => moveSanctionStep(index, -1)}
+                                disabled={index === 0}
+                                title="Move up"
+                                className="px-2 py-1 text-sm text-gray-600 dark:text-gray-300 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30 disabled:cursor-not-allowed"
+                              >
+                                ↑
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => moveSanctionStep(index, 1)}
+                                disabled={
+                                  index === formData.sanctionLadder.length - 1
+                                }
+                                title="Move down"
+                                className="px-2 py-1 text-sm text-gray-600 dark:text-gray-300 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30 disabled:cursor-not-allowed"
+                              >
+                                ↓
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => removeSanctionStep(index)}
+                                disabled={formData.sanctionLadder.length === 1}
+                                title="Remove step"
+                                className="px-2 py-1 text-sm text-red-600 dark:text-red-400 rounded hover:bg-red-50 dark:hover:bg-red-900/30 disabled:opacity-30 disabled:cursor-not-allowed"
+                              >
+                                ✕
+                              </button>
+                            </div>
+                          </div>
+                        );
+                      })}
                     </div>
                   </div>
                   <div className="p-4 rounded-lg bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800 w-full">
                     <p className="text-sm font-medium text-orange-800 dark:text-orange-200">
-                      Auto-Suspend Rule
+                      Escalation
                     </p>
                     <p className="text-xs text-orange-600 dark:text-orange-400 mt-1">
-                      When a user reaches{" "}
-                      <span className="font-bold">
-                        {formData.suspendThreshold}
-                      </span>{" "}
-                      warnings, they are automatically suspended for{" "}
-                      <span className="font-bold">
-                        {formData.suspendDurationDays}
-                      </span>{" "}
-                      days. Suspended users can still use the app but cannot
-                      create posts.
+                      {formData.sanctionLadder
+                        .map((step) => describeSanctionStep(step))
+                        .join(" → ")}
+                      . Restricted users cannot create posts, suspended users
+                      can still use the app but cannot post, and banned users
+                      cannot login.
                     </p>
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                      Auto Ban Threshold
+                      Manual Suspension Duration (Days)
                     </label>
                     <input
                       type="number"
                       min="1"
-                      max="10"
-                      value={formData.banAfterSuspendCount}
+                      max="365"
+                      value={formData.suspendDurationDays}
                       onChange={(e) =>
                         updateFormField(
-                          "banAfterSuspendCount",
+                          "suspendDurationDays",
                           Number(e.target.value),
                         )
                       }
                       className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-purple-500 focus:border-purple-500 dark:bg-gray-700 dark:text-white"
                     />
                     <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                      Number of suspensions before permanent ban (cannot login)
+                      How long a user suspended by an admin, outside the
+                      ladder, stays suspended before they can post again
                     </p>
                   </div>
-                  <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 w-full">
-                    <p className="text-sm font-medium text-red-800 dark:text-red-200">
-                      Permanent Ban Rule
-                    </p>
-                    <p className="text-xs text-red-600 dark:text-red-400 mt-1">
-                      When a user has been suspended{" "}
-                      <span className="font-bold">
-                        {formData.banAfterSuspendCount}
-                      </span>{" "}
-                      times, they are permanently banned and will not be able to
-                      login with this account.
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Warning Expiry (Days)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="3650"
+                      value={formData.warningExpiryDays}
+                      onChange={(e) =>
+                        updateFormField(
+                          "warningExpiryDays",
+                          Number(e.target.value),
+                        )
+                      }
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-purple-500 focus:border-purple-500 dark:bg-gray-700 dark:text-white"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Warnings older than this expire overnight and stop
+                      counting towards the user&apos;s warning count. 0 keeps
+                      them forever
                     </p>
                   </div>
                 </div>
@@ -0,0 +1,34 @@
+import React from "react";
+import Sidebar from "@/components/Sidebar";
+import NotificationBell from "@/components/NotificationBell";
+import MediaReviewQueue from "@/components/MediaReviewQueue";
+import { withAdminAuth } from "@/components/hoc/withAdminAuth";
+
+function MediaReview() {
+  return (
+    <div className="min-h-screen bg-purple-50/40 dark:bg-black text-zinc-900 dark:text-zinc-50">
+      <div className="flex min-h-screen p-4">
+        <Sidebar />
+
+        {/* Main content */}
+        <main className="flex-1  p-6 min-h-full ml-4">
+          <header className="mb-8 flex justify-between items-start">
+            <div>
+              <h1 className="text-3xl font-bold">Media Review</h1>
+              <p className="mt-2 text-zinc-600 dark:text-zinc-400">
+                Review photos uploaded to posts and announcements. Blurred
+                photos are shown blurred in the app; deleted photos are removed
+                from their post or announcement and the author is notified.
+              </p>
+            </div>
+            <NotificationBell className="group" />
+          </header>
+
+          <MediaReviewQueue />
+        </main>
+      </div>
+    </div>
+  );
+}
+
+export default withAdminAuth(MediaReview);
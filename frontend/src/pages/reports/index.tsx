@@ -54,10 +54,9 @@ function Reports() {
             <div>
               <h1 className="text-3xl font-bold">Report Management</h1>
               <p className="mt-2 text-zinc-600 dark:text-zinc-400">
-                Manage user reports by severity. High severity reports (threats,
-                inappropriate content, hate speech, scam) auto-remove posts.
-                Track harassment, impersonation, misinformation, spam, and other
-                violations.
+                Manage user reports by severity. Each category&apos;s severity,
+                and whether that severity auto-removes posts, is set in the
+                report severity policy on the Configuration page.
               </p>
             </div>
             <NotificationBell className="group" />
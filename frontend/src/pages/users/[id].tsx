@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import Sidebar from "@/components/Sidebar";
+import NotificationBell from "@/components/NotificationBell";
+import UserActivityTimeline from "@/components/UserActivityTimeline";
+import { withAdminAuth } from "@/components/hoc/withAdminAuth";
+import { fetchUserById } from "@/lib/firestore/users";
+import { getActiveRestrictions } from "@/lib/firestore/restrictions";
+import {
+  User,
+  USER_RESTRICTION_LABELS,
+  getUserStatusIndicator,
+} from "@/types/export";
+
+function UserProfile() {
+  const router = useRouter();
+  const userId = typeof router.query.id === "string" ? router.query.id : null;
+  const [user, setUser] = useState<User | null>(null);
+  // Still loading until the user in the URL has been fetched
+  const [loadedUserId, setLoadedUserId] = useState<string | null>(null);
+  const loading = !userId || loadedUserId !== userId;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    fetchUserById(userId)
+      .then(setUser)
+      .catch((err) => {
+        console.error("Error fetching user:", err);
+        setUser(null);
+      })
+      .finally(() => setLoadedUserId(userId));
+  }, [userId]);
+
+  const restrictions = getActiveRestrictions(user);
+
+  return (
+    <div className="min-h-screen bg-purple-50/40 dark:bg-black text-zinc-900 dark:text-zinc-50">
+      <div className="flex min-h-screen p-4">
+        <Sidebar />
+
+        {/* Main content */}
+        <main className="flex-1 p-6 min-h-full ml-4">
+          <header className="mb-8 flex justify-between items-start">
+            <div>
+              <Link
+                href="/users"
+                className="text-sm text-purple-600 dark:text-purple-400 hover:underline"
+              >
+                ← User Management
+              </Link>
+              <h1 className="mt-2 text-3xl font-bold">
+                {user ? user.name : "User Profile"}
+              </h1>
+              <p className="mt-2 text-zinc-600 dark:text-zinc-400">
+                Everything this user posted, reported, received and was
+                sanctioned for, on one timeline.
+              </p>
+            </div>
+            <NotificationBell className="group" />
+          </header>
+
+          {loading ? (
+            <div className="py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-500 mx-auto"></div>
+            </div>
+          ) : !user ? (
+            <div className="py-12 text-center text-sm text-gray-500 dark:text-gray-400">
+              User not found.
+            </div>
+          ) : (
+            <>
+              {/* Profile summary */}
+              <div className="mb-6 p-6 bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 flex items-start justify-between gap-6">
+                <div className="flex items-center space-x-4">
+                  <div className="relative shrink-0">
+                    <div className="w-16 h-16 bg-purple-100 dark:bg-purple-900 rounded-lg flex items-center justify-center">
+                      <span className="text-lg font-bold text-purple-600 dark:text-purple-300">
+                        {user.name
+                          .split(" ")
+                          .map((n) => n[0])
+                          .join("")}
+                      </span>
+                    </div>
+                    <div
+                      className={`absolute bottom-0 right-0 w-4 h-4 rounded-full border-2 border-white ${getUserStatusIndicator(
+                        user.status,
+                      )}`}
+                    ></div>
+                  </div>
+                  <div className="text-sm space-y-1">
+                    <div className="text-gray-900 dark:text-white">
+                      {user.email}
+                    </div>
+                    <div className="text-gray-600 dark:text-gray-400">
+                      Student ID: {user.studentId || "—"} · {user.faculty}
+                    </div>
+                    <div className="text-gray-600 dark:text-gray-400">
+                      Joined{" "}
+                      {new Date(user.joinedAt || new Date()).toLocaleDateString()}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="text-sm space-y-1 text-right">
+                  <div className="text-gray-900 dark:text-white capitalize">
+                    Status: {user.status}
+                  </div>
+                  <div className="text-gray-600 dark:text-gray-400">
+                    Warnings: {user.warningCount || 0} · Suspensions:{" "}
+                    {user.suspendCount || 0}
+                  </div>
+                  {restrictions.length > 0 && (
+                    <div className="text-amber-700 dark:text-amber-400">
+                      Restricted:{" "}
+                      {restrictions
+                        .map((restriction) => USER_RESTRICTION_LABELS[restriction.type])
+                        .join(", ")}
+                    </div>
+                  )}
+                  <Link
+                    href={`/users?id=${user.id}`}
+                    className="inline-block text-purple-600 dark:text-purple-400 hover:underline"
+                  >
+                    Manage in User Management
+                  </Link>
+                </div>
+              </div>
+
+              <UserActivityTimeline key={user.id} userId={user.id} />
+            </>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
+
+export default withAdminAuth(UserProfile);
@@ -13,7 +13,9 @@ export type UserStatus = typeof USER_STATUS[keyof typeof USER_STATUS];
 export const POST_STATUS = {
   ACTIVE: 'active',
   EXPIRED: 'expired',
-  REMOVED: 'removed'
+  REMOVED: 'removed',
+  // Hidden automatically when reportCount reaches the urgent threshold
+  UNDER_REVIEW: 'under_review'
 } as const;
 
 export type PostStatus = typeof POST_STATUS[keyof typeof POST_STATUS];
@@ -50,7 +52,8 @@ export const REPORT_SEVERITY = {
 
 export type ReportSeverity = typeof REPORT_SEVERITY[keyof typeof REPORT_SEVERITY];
 
-// Map categories to severity
+// Default category → severity mapping
+// The live mapping is admin_configuration.severityPolicy (see getCategorySeverity)
 export const CATEGORY_SEVERITY_MAP: Record<ReportCategory, ReportSeverity> = {
   [REPORT_CATEGORIES.THREATS_VIOLENCE]: REPORT_SEVERITY.HIGH,
   [REPORT_CATEGORIES.NUDITY]: REPORT_SEVERITY.HIGH,
@@ -63,6 +66,30 @@ export const CATEGORY_SEVERITY_MAP: Record<ReportCategory, ReportSeverity> = {
   [REPORT_CATEGORIES.OTHER]: REPORT_SEVERITY.OTHER
 };
 
+// Actions handleNewReport takes for each severity level
+export const SEVERITY_ACTIONS = {
+  AUTO_REMOVE: 'auto_remove',
+  REVIEW: 'review',
+  IGNORE: 'ignore'
+} as const;
+
+export type SeverityAction = typeof SEVERITY_ACTIONS[keyof typeof SEVERITY_ACTIONS];
+
+// Default per-severity actions
+export const DEFAULT_SEVERITY_ACTIONS: Record<ReportSeverity, SeverityAction> = {
+  [REPORT_SEVERITY.HIGH]: SEVERITY_ACTIONS.AUTO_REMOVE,
+  [REPORT_SEVERITY.MEDIUM]: SEVERITY_ACTIONS.REVIEW,
+  [REPORT_SEVERITY.LOW]: SEVERITY_ACTIONS.REVIEW,
+  [REPORT_SEVERITY.OTHER]: SEVERITY_ACTIONS.REVIEW
+};
+
+// Severity action display labels
+export const SEVERITY_ACTION_LABELS: Record<SeverityAction, string> = {
+  [SEVERITY_ACTIONS.AUTO_REMOVE]: 'Auto-remove post',
+  [SEVERITY_ACTIONS.REVIEW]: 'Queue for review',
+  [SEVERITY_ACTIONS.IGNORE]: 'Ignore (auto-dismiss)'
+};
+
 // Severity display labels
 export const SEVERITY_LABELS: Record<ReportSeverity, string> = {
   [REPORT_SEVERITY.HIGH]: '🔴 High',
@@ -107,6 +134,19 @@ export const normalizeReportCategory = (category?: string): string => {
   return REPORT_CATEGORY_ALIASES[normalized] || normalized;
 };
 
+// Resolve a category's severity from the configured mapping, falling back to the defaults
+export const getCategorySeverity = (
+  category: string | undefined,
+  categorySeverity: Record<string, ReportSeverity> = CATEGORY_SEVERITY_MAP
+): ReportSeverity => {
+  const normalizedCategory = normalizeReportCategory(category);
+  return (
+    categorySeverity[normalizedCategory] ||
+    CATEGORY_SEVERITY_MAP[normalizedCategory as ReportCategory] ||
+    REPORT_SEVERITY.OTHER
+  );
+};
+
 // Report status
 export const REPORT_STATUS = {
   PENDING: 'pending',
@@ -145,6 +185,182 @@ export const ANNOUNCER_STATUS = {
 
 export type AnnouncerStatus = typeof ANNOUNCER_STATUS[keyof typeof ANNOUNCER_STATUS];
 
+// Moderation log target types
+export const MODERATION_TARGET_TYPES = {
+  USER: 'user',
+  POST: 'post',
+  REPORT: 'report',
+  ANNOUNCEMENT: 'announcement',
+  ANNOUNCER: 'announcer',
+  APPEAL: 'appeal'
+} as const;
+
+export type ModerationTargetType = typeof MODERATION_TARGET_TYPES[keyof typeof MODERATION_TARGET_TYPES];
+
+// Moderation log actions (kept in sync with functions/src/moderationLogs.ts)
+export const MODERATION_ACTION_LABELS = {
+  warn: 'Warned',
+  expire_warnings: 'Warnings Expired',
+  suspend: 'Suspended',
+  unsuspend: 'Unsuspended',
+  ban: 'Banned',
+  lift_suspension: 'Suspension Lifted',
+  restrict: 'Restricted',
+  lift_restriction: 'Restriction Lifted',
+  remove_post: 'Post Removed',
+  hold_post: 'Post Held for Review',
+  restore_post: 'Post Restored',
+  dismiss_reports: 'Reports Dismissed',
+  resolve_reports: 'Reports Resolved',
+  dismiss_report: 'Report Dismissed',
+  resolve_report: 'Report Resolved',
+  approve_announcement: 'Announcement Approved',
+  decline_announcement: 'Announcement Declined',
+  activate_announcer: 'Announcer Activated',
+  deactivate_announcer: 'Announcer Deactivated',
+  grant_appeal: 'Appeal Granted',
+  deny_appeal: 'Appeal Denied',
+  set_post_limit: 'Post Limit Changed',
+  approve_photo: 'Photo Approved',
+  blur_photo: 'Photo Blurred',
+  delete_photo: 'Photo Deleted'
+} as const;
+
+export type ModerationAction = keyof typeof MODERATION_ACTION_LABELS;
+
+// Appeal statuses and the sanctions a user can appeal
+export const APPEAL_STATUS = {
+  PENDING: 'pending',
+  GRANTED: 'granted',
+  DENIED: 'denied'
+} as const;
+
+export type AppealStatus = typeof APPEAL_STATUS[keyof typeof APPEAL_STATUS];
+
+export const SANCTION_TYPE_LABELS = {
+  post_removal: 'Post Removal',
+  warning: 'Warning',
+  suspension: 'Suspension',
+  ban: 'Ban'
+} as const;
+
+export type SanctionType = keyof typeof SANCTION_TYPE_LABELS;
+
+// Steps of the configurable sanction ladder a warning moves the user along
+export const SANCTION_STEP_TYPE_LABELS = {
+  warning: 'Warning',
+  posting_restriction: 'Posting Restriction',
+  suspension: 'Suspension',
+  ban: 'Permanent Ban'
+} as const;
+
+export type SanctionStepType = keyof typeof SANCTION_STEP_TYPE_LABELS;
+
+// Partial restrictions kept in users/{id}.restrictions (kept in sync with functions/src/restrictions.ts)
+export const USER_RESTRICTION_LABELS = {
+  posting: 'Posting',
+  reporting: 'Reporting',
+  ar: 'AR Captures'
+} as const;
+
+export const USER_RESTRICTION_DESCRIPTIONS = {
+  posting: 'Cannot create posts',
+  reporting: 'Cannot report posts',
+  ar: 'Cannot capture AR spawns or earn their coin rewards'
+} as const;
+
+export type UserRestrictionType = keyof typeof USER_RESTRICTION_LABELS;
+
+// Warning records in users/{id}/warnings; only active warnings count towards warningCount
+export const WARNING_STATUS = {
+  ACTIVE: 'active',
+  EXPIRED: 'expired',
+  REVOKED: 'revoked'
+} as const;
+
+export type WarningStatus = typeof WARNING_STATUS[keyof typeof WARNING_STATUS];
+
+// Photo reviews queued by Cloud Functions when posts and announcements gain photos
+export const MEDIA_REVIEW_STATUS = {
+  PENDING: 'pending',
+  APPROVED: 'approved',
+  BLURRED: 'blurred',
+  DELETED: 'deleted'
+} as const;
+
+export type MediaReviewStatus = typeof MEDIA_REVIEW_STATUS[keyof typeof MEDIA_REVIEW_STATUS];
+
+export const MEDIA_PARENT_TYPE_LABELS = {
+  post: 'Post',
+  announcement: 'Announcement'
+} as const;
+
+export type MediaParentType = keyof typeof MEDIA_PARENT_TYPE_LABELS;
+
+// Content filter rules evaluated by the screenNewPost Cloud Function
+export const CONTENT_FILTER_RULE_TYPES = {
+  KEYWORD: 'keyword',
+  REGEX: 'regex'
+} as const;
+
+export type ContentFilterRuleType = typeof CONTENT_FILTER_RULE_TYPES[keyof typeof CONTENT_FILTER_RULE_TYPES];
+
+export const CONTENT_FILTER_ACTIONS = {
+  FLAG: 'flag',
+  HOLD: 'hold',
+  REJECT: 'reject'
+} as const;
+
+export type ContentFilterAction = typeof CONTENT_FILTER_ACTIONS[keyof typeof CONTENT_FILTER_ACTIONS];
+
+export const CONTENT_FILTER_ACTION_LABELS: Record<ContentFilterAction, string> = {
+  [CONTENT_FILTER_ACTIONS.FLAG]: 'Flag only',
+  [CONTENT_FILTER_ACTIONS.HOLD]: 'Hold for review',
+  [CONTENT_FILTER_ACTIONS.REJECT]: 'Reject (remove)'
+};
+
+// Document types in the search index maintained by Cloud Functions
+export const SEARCH_RESULT_TYPES = {
+  POST: 'post',
+  USER: 'user',
+  REPORT: 'report',
+  ANNOUNCEMENT: 'announcement'
+} as const;
+
+export type SearchResultType = typeof SEARCH_RESULT_TYPES[keyof typeof SEARCH_RESULT_TYPES];
+
+export const SEARCH_RESULT_TYPE_LABELS: Record<SearchResultType, string> = {
+  [SEARCH_RESULT_TYPES.POST]: 'Post',
+  [SEARCH_RESULT_TYPES.USER]: 'User',
+  [SEARCH_RESULT_TYPES.REPORT]: 'Report',
+  [SEARCH_RESULT_TYPES.ANNOUNCEMENT]: 'Announcement'
+};
+
+// Sources aggregated on the /users/[id] activity timeline
+export const USER_ACTIVITY_KINDS = {
+  POST: 'post',
+  REPORT_FILED: 'report_filed',
+  REPORT_RECEIVED: 'report_received',
+  NOTIFICATION: 'notification',
+  AR_CAPTURE: 'ar_capture',
+  REACTION: 'reaction',
+  SANCTION: 'sanction',
+  WARNING: 'warning'
+} as const;
+
+export type UserActivityKind = typeof USER_ACTIVITY_KINDS[keyof typeof USER_ACTIVITY_KINDS];
+
+export const USER_ACTIVITY_KIND_LABELS: Record<UserActivityKind, string> = {
+  [USER_ACTIVITY_KINDS.POST]: 'Posts',
+  [USER_ACTIVITY_KINDS.REPORT_FILED]: 'Reports Filed',
+  [USER_ACTIVITY_KINDS.REPORT_RECEIVED]: 'Reports Received',
+  [USER_ACTIVITY_KINDS.NOTIFICATION]: 'Notifications',
+  [USER_ACTIVITY_KINDS.AR_CAPTURE]: 'AR Captures',
+  [USER_ACTIVITY_KINDS.REACTION]: 'Reactions',
+  [USER_ACTIVITY_KINDS.SANCTION]: 'Sanctions',
+  [USER_ACTIVITY_KINDS.WARNING]: 'Warnings'
+};
+
 // Affiliation Types
 export const AFFILIATION_TYPE = {
   FACULTY: 'Faculty',
@@ -15,6 +15,27 @@ export interface User {
   suspendedAt?: string;
   suspendExpiresAt?: string;
   bannedAt?: string;
+  // Sanction ladder position, written by the moderation Cloud Functions
+  sanctionLevel?: number;
+  lastViolationAt?: string;
+  lastWarningDate?: string;
+  // Partial restrictions, written by the moderation Cloud Functions
+  restrictions?: Partial<Record<import('./constants').UserRestrictionType, UserRestriction>>;
+}
+
+// One entry of users/{id}.restrictions as stored in Firestore
+export interface UserRestriction {
+  expiresAt: import('firebase/firestore').Timestamp | null; // null lasts until an admin lifts it
+  reason: string;
+  appliedAt: string;
+}
+
+// A restriction that has not expired yet, with its expiry as an ISO string
+export interface ActiveUserRestriction {
+  type: import('./constants').UserRestrictionType;
+  expiresAt: string | null;
+  reason: string;
+  appliedAt: string;
 }
 
 export interface UserProfile extends User {
@@ -29,6 +50,15 @@ export interface UserProfile extends User {
   joinDate: string;
 }
 
+// Copy of a user's display fields kept on posts and reports by the fanOutUserSnapshot Cloud Function
+export interface UserSnapshot {
+  id: string;
+  name: string;
+  nickname: string;
+  avatarPath: string | null;
+  status: import('./constants').UserStatus;
+}
+
 // Post related types
 export interface Post {
   id: string;
@@ -38,6 +68,7 @@ export interface Post {
     name: string;
     avatar?: string;
   };
+  author?: UserSnapshot; // missing on posts created before snapshots were backfilled
   content: string;
   category: string;
   location: string;
@@ -46,20 +77,65 @@ export interface Post {
   reportCount: number;
   status: import('./constants').PostStatus;
   isWarned: boolean; photoPaths?: string[];
+  // Set by the setPostExpiry Cloud Function; expirePosts moves the post to expired after it
+  expiresAt?: string;
+  // Set while the post is under_review after crossing the urgent threshold
+  heldReason?: string;
+  // Set by the screenNewPost Cloud Function when the content matched a filter rule
+  autoFlagged?: boolean;
+  contentFilter?: PostContentFilterResult;
+  // Set by the hashUploadedImage Cloud Function when a photo matches one removed by moderators
+  duplicateImageMatches?: DuplicateImageMatch[];
+}
+
+export interface DuplicateImageMatch {
+  path: string; // the photo of this post
+  matchedPath: string; // the removed photo it looks like
+  matchedParentType: import('./constants').MediaParentType;
+  matchedParentId: string;
+  distance: number; // differing bits between the two 64-bit perceptual hashes
+}
+
+export interface ContentFilterMatch {
+  ruleId: string;
+  ruleType: import('./constants').ContentFilterRuleType;
+  pattern: string;
+  action: import('./constants').ContentFilterAction;
+  matchedText: string;
+  start: number; // offsets into the post content
+  end: number;
+}
+
+export interface PostContentFilterResult {
+  action: import('./constants').ContentFilterAction; // strongest action among the matched rules
+  ruleIds: string[];
+  matches: ContentFilterMatch[];
+  evaluatedAt: string;
 }
 
 // Report related types
+// Written to posts/{postId}/revisions by the recordPostRevision Cloud Function on every edit
+export interface PostRevision {
+  id: string;
+  revision: number; // 1 for the first edit
+  previousContent: string;
+  content: string;
+  previousPhotoPaths: string[];
+  photoPaths: string[];
+  editedAt: string;
+}
+
 export interface Report {
   id: string;
   reportDate: string;
   reporter: {
     name: string;
     id: string;
-  };
+  } & Partial<UserSnapshot>;
   reported: {
     name: string;
     id: string;
-  };
+  } & Partial<UserSnapshot>;
   postId: string;
   postContent: string;
   category: import('./constants').ReportCategory;
@@ -67,6 +143,41 @@ export interface Report {
   status: import('./constants').ReportStatus;
   description: string;
   autoRemoved?: boolean;
+  // Set when auto-removal was skipped because the reporter's accuracy is too low
+  lowReporterAccuracy?: boolean;
+  reporterAccuracy?: number;
+}
+
+// Per-reporter report outcomes maintained by the updateReporterStats Cloud Function
+export interface ReporterStats {
+  userId: string;
+  totalReports: number;
+  pendingCount: number;
+  resolvedCount: number; // upheld by an admin
+  dismissedCount: number; // dismissed by an admin
+  accuracy: number | null; // % of decided reports that were resolved, null until one is decided
+}
+
+// Per-user daily post counter maintained by the countDailyPost and createPost Cloud Functions
+export interface DailyPostCount {
+  userId: string;
+  count: number; // posts created today, 0 once the day has reset
+  resetAt: string | null; // when the count starts over at midnight (Bangkok time)
+  limitOverride: number | null; // set by an admin, null when the configured limit applies
+}
+
+// Per-post report aggregate maintained by handleNewReport
+export interface ReportedPost {
+  id: string;
+  postId: string;
+  reportedUserId: string | null;
+  postContent: string;
+  reporterCount: number;
+  categoryCounts: Record<string, number>;
+  firstReportedAt: string;
+  lastReportedAt: string;
+  lastReportId: string;
+  postStatus: import('./constants').PostStatus | string;
 }
 
 // Announcement related types
@@ -93,15 +204,21 @@ export interface Announcement {
 }
 
 // Warning related types
+// Written by Cloud Functions to users/{userId}/warnings whenever a user is warned
 export interface WarningRecord {
   id: string;
-  postId: string;
+  userId: string;
+  postId: string | null; // the post the warning was given for, if any
   postContent: string;
   date: string;
   reportCounts: number;
   reason: string;
   adminId: string;
   adminName: string;
+  escalation: string; // what the warning escalated to on the sanction ladder: none, warning, restricted, suspended or banned
+  status: import('./constants').WarningStatus;
+  expiredAt: string | null;
+  revokedAt: string | null;
 }
 
 // Announcer related types
@@ -143,6 +260,18 @@ export interface UserActivity {
 }
 
 // Configuration types
+export interface SeverityPolicy {
+  categorySeverity: Record<string, import('./constants').ReportSeverity>; // keyed by normalized category
+  severityActions: Record<import('./constants').ReportSeverity, import('./constants').SeverityAction>;
+}
+
+// One step of the sanction ladder; each warning moves the user one step up
+export interface SanctionStep {
+  type: import('./constants').SanctionStepType;
+  durationDays: number | null; // length of a posting restriction or suspension, null otherwise
+  decayDays: number | null; // days without a new violation before the user drops back a step, null never decays
+}
+
 export interface AdminConfiguration {
   id: string;
   postVisibilityDuration: number; // hours
@@ -156,13 +285,53 @@ export interface AdminConfiguration {
   maxCoinReward: number; // maximum coin reward for announcer announcements in the iOS app
   maxActiveAnnouncements: number;
   urgentAnnouncementThreshold: number; // hours before startDate to show in notification
-  suspendThreshold: number; // warning count threshold for automatic suspend
-  suspendDurationDays: number; // duration in days for user suspend (default: 30)
-  banAfterSuspendCount: number; // number of suspensions before permanent ban (default: 3)
+  suspendThreshold: number; // legacy: seeds sanctionLadder for configurations saved before it existed
+  suspendDurationDays: number; // duration in days for a manual suspend (default: 30)
+  banAfterSuspendCount: number; // legacy: seeds sanctionLadder for configurations saved before it existed
+  sanctionLadder: SanctionStep[]; // ordered steps applied by successive warnings, the last one repeats
+  warningExpiryDays: number; // days before a warning expires and stops counting towards warningCount (0 = never)
+  severityPolicy: SeverityPolicy; // category → severity mapping and per-severity report action
+  reporterReputation: {
+    minAccuracy: number; // % of decided reports that must be upheld for reports to auto-remove (0 disables)
+    minDecidedReports: number; // decided reports needed before accuracy is enforced
+  };
   lastUpdated: string;
   updatedBy: string;
 }
 
+export interface ContentFilterRule {
+  id: string;
+  type: import('./constants').ContentFilterRuleType;
+  pattern: string;
+  action: import('./constants').ContentFilterAction;
+  enabled: boolean;
+  description: string;
+  createdAt: string;
+  createdBy: string;
+  updatedAt: string;
+}
+
+// Entry in the search_index collection, one per searchable document
+export interface SearchResult {
+  id: string;
+  type: import('./constants').SearchResultType;
+  targetId: string;
+  title: string;
+  subtitle: string;
+  updatedAt: string;
+}
+
+// One entry of the /users/[id] activity timeline, built from the source document
+export interface UserActivityItem {
+  id: string; // kind and source document id, unique across sources
+  kind: import('./constants').UserActivityKind;
+  date: string;
+  title: string;
+  detail: string;
+  status: string | null;
+  href: string | null; // dashboard page showing the source document
+}
+
 export interface ConfigurationLog {
   id: string;
   adminId: string;
@@ -176,6 +345,58 @@ export interface ConfigurationLog {
   ipAddress?: string;
 }
 
+export interface ModerationLog {
+  id: string;
+  adminId: string;
+  adminEmail: string;
+  action: import('./constants').ModerationAction;
+  targetType: import('./constants').ModerationTargetType;
+  targetId: string;
+  targetUserId: string | null;
+  beforeStatus: string | null;
+  afterStatus: string | null;
+  reason: string | null;
+  relatedIds: string[];
+  timestamp: string;
+}
+
+export interface Appeal {
+  // Same id as the user_notifications entry that announced the sanction
+  id: string;
+  userId: string;
+  userName: string | null;
+  message: string;
+  status: import('./constants').AppealStatus;
+  createdAt: string;
+  // Filled in by the handleNewAppeal Cloud Function
+  sanctionType: import('./constants').SanctionType | null;
+  sanctionTitle: string;
+  sanctionMessage: string;
+  sanctionIssuedAt: string | null;
+  relatedPostId: string | null;
+  response: string | null;
+  reversedActions: string[];
+  decidedAt: string | null;
+  decidedByEmail: string | null;
+}
+
+// Review of one uploaded photo, queued by the queuePostMediaReview and
+// queueAnnouncementMediaReview Cloud Functions
+export interface MediaReview {
+  id: string;
+  path: string; // Storage path, also the entry in the parent's photoPaths
+  parentType: import('./constants').MediaParentType;
+  parentId: string;
+  authorId: string | null;
+  authorName: string;
+  parentText: string; // post content or announcement title and body, shortened
+  status: import('./constants').MediaReviewStatus;
+  uploadedAt: string;
+  reviewedAt: string | null;
+  reviewedBy: string | null;
+  reason: string | null;
+}
+
 // Component Props types
 export interface TableProps<T> {
   data?: T[];
@@ -68,4 +68,127 @@ export const AnnouncementStatusColors = {
 export const getAnnouncementStatusColor = (status: string) => {
   const normalizedStatus = status.toLowerCase().trim();
   return AnnouncementStatusColors[normalizedStatus as keyof typeof AnnouncementStatusColors] || AnnouncementStatusColors.pending;
-};
\ No newline at end of file
+};
+// Moderation log action colors for the audit log and user history
+export const ModerationActionColors = {
+  warning: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+  restriction: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300',
+  removal: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+  restore: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+  neutral: 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-300'
+};
+
+export const getModerationActionColor = (action: string) => {
+  switch (action) {
+    case 'warn':
+      return ModerationActionColors.warning;
+    case 'suspend':
+    case 'restrict':
+    case 'hold_post':
+    case 'deactivate_announcer':
+    case 'blur_photo':
+      return ModerationActionColors.restriction;
+    case 'ban':
+    case 'remove_post':
+    case 'decline_announcement':
+    case 'delete_photo':
+      return ModerationActionColors.removal;
+    case 'unsuspend':
+    case 'lift_suspension':
+    case 'lift_restriction':
+    case 'expire_warnings':
+    case 'restore_post':
+    case 'grant_appeal':
+    case 'approve_announcement':
+    case 'activate_announcer':
+    case 'approve_photo':
+      return ModerationActionColors.restore;
+    default:
+      return ModerationActionColors.neutral;
+  }
+};
+
+// Appeal status colors for the appeals table and drawer
+export const AppealStatusColors = {
+  pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+  granted: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+  denied: 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-300'
+};
+
+export const getAppealStatusColor = (status: string) => {
+  return AppealStatusColors[status as keyof typeof AppealStatusColors] || AppealStatusColors.pending;
+};
+
+// Media review status colors for the media review queue
+export const MediaReviewStatusColors = {
+  pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+  approved: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+  blurred: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300',
+  deleted: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300'
+};
+
+export const getMediaReviewStatusColor = (status: string) => {
+  return MediaReviewStatusColors[status as keyof typeof MediaReviewStatusColors] || MediaReviewStatusColors.pending;
+};
+
+// Warning record status colors for the user's warning history
+export const WarningStatusColors = {
+  active: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+  expired: 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-300',
+  revoked: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300'
+};
+
+export const getWarningStatusColor = (status: string) => {
+  return WarningStatusColors[status as keyof typeof WarningStatusColors] || WarningStatusColors.active;
+};
+
+// Activity kind colors for the user profile timeline
+export const UserActivityKindColors = {
+  post: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-300',
+  report_filed: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300',
+  report_received: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+  notification: 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-300',
+  ar_capture: 'bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-300',
+  reaction: 'bg-pink-100 text-pink-800 dark:bg-pink-900 dark:text-pink-300',
+  sanction: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300',
+  warning: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300'
+};
+
+export const getUserActivityKindColor = (kind: string) => {
+  return UserActivityKindColors[kind as keyof typeof UserActivityKindColors] || UserActivityKindColors.notification;
+};
+
+// Sanction ladder step colors for the configuration ladder and next-step previews
+export const SanctionStepColors = {
+  warning: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+  posting_restriction: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300',
+  suspension: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300',
+  ban: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300'
+};
+
+export const getSanctionStepColor = (type: string) => {
+  return SanctionStepColors[type as keyof typeof SanctionStepColors] || SanctionStepColors.warning;
+};
+
+// Content filter action colors for the configuration rules list and flagged posts
+export const ContentFilterActionColors = {
+  flag: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+  hold: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300',
+  reject: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300'
+};
+
+export const getContentFilterActionColor = (action: string) => {
+  return ContentFilterActionColors[action as keyof typeof ContentFilterActionColors] || ContentFilterActionColors.flag;
+};
+
+// Search result type badges in the sidebar search
+export const SearchResultTypeColors = {
+  post: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300',
+  user: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-300',
+  report: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+  announcement: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300'
+};
+
+export const getSearchResultTypeColor = (type: string) => {
+  return SearchResultTypeColors[type as keyof typeof SearchResultTypeColors] || SearchResultTypeColors.post;
+};
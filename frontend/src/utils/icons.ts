@@ -8,5 +8,8 @@ export const Icons = {
     arModels: "/icons/ar-models.svg",
     logo: "/icons/logo.png", 
     settings: "/icons/settings.png",
+    audit: "/icons/view.png",
+    appeals: "/icons/warning.png",
+    media: "/icons/view.png",
 };
 
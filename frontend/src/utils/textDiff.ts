@@ -0,0 +1,76 @@
+/**
+ * Word-level text diff for comparing post revisions
+ */
+
+export type DiffPartType = 'same' | 'added' | 'removed';
+
+export interface DiffPart {
+    type: DiffPartType;
+    text: string;
+}
+
+// Words, runs of whitespace, and single Thai characters. Thai is written without
+// spaces, so diffing it by "word" would mark whole sentences as changed
+const TOKEN_PATTERN = /[\u0E00-\u0E7F]|\s+|[^\s\u0E00-\u0E7F]+/g;
+
+// Above this many token pairs the LCS table gets slow; fall back to a whole-text replacement
+const MAX_DIFF_CELLS = 1000000;
+
+const tokenizeForDiff = (text: string): string[] => text.match(TOKEN_PATTERN) || [];
+
+const pushPart = (parts: DiffPart[], type: DiffPartType, text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+        last.text += text;
+    } else {
+        parts.push({ type, text });
+    }
+};
+
+/**
+ * Diff two texts, returning the unchanged, removed and added parts in reading order
+ */
+export const diffText = (before: string, after: string): DiffPart[] => {
+    if (before === after) {
+        return before ? [{ type: 'same', text: before }] : [];
+    }
+
+    const a = tokenizeForDiff(before);
+    const b = tokenizeForDiff(after);
+
+    if (a.length * b.length > MAX_DIFF_CELLS) {
+        return [
+            ...(before ? [{ type: 'removed' as const, text: before }] : []),
+            ...(after ? [{ type: 'added' as const, text: after }] : []),
+        ];
+    }
+
+    // lcs[i][j] is the longest common subsequence of a[i..] and b[j..]
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const parts: DiffPart[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            pushPart(parts, 'same', a[i]);
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            pushPart(parts, 'removed', a[i]);
+            i++;
+        } else {
+            pushPart(parts, 'added', b[j]);
+            j++;
+        }
+    }
+    a.slice(i).forEach((token) => pushPart(parts, 'removed', token));
+    b.slice(j).forEach((token) => pushPart(parts, 'added', token));
+
+    return parts;
+};
@@ -1,5 +1,6 @@
 import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
+import { buildModerationLog, getModerationActor, moderationLogRef } from "./moderationLogs";
 
 interface CreateAnnouncerRequest {
     email: string;
@@ -445,14 +446,33 @@ export const updateAnnouncerStatus = functions.https.onCall(async (data: { annou
 
         functions.logger.info(`Updating status for announcer ${announcerId} to: ${status}`);
 
-        // Update Firestore document
-        await admin.firestore()
-            .collection("announcers")
-            .doc(announcerId)
-            .update({
-                status: status,
-                updated_at: admin.firestore.FieldValue.serverTimestamp()
-            });
+        const announcerRef = admin.firestore().collection("announcers").doc(announcerId);
+        const announcerSnapshot = await announcerRef.get();
+
+        if (!announcerSnapshot.exists) {
+            throw new functions.https.HttpsError(
+                "not-found",
+                "Announcer not found"
+            );
+        }
+
+        // Update Firestore document and record the change in the moderation log
+        const batch = admin.firestore().batch();
+
+        batch.update(announcerRef, {
+            status: status,
+            updated_at: admin.firestore.FieldValue.serverTimestamp()
+        });
+
+        batch.set(moderationLogRef(), buildModerationLog(getModerationActor(context), {
+            action: status === "active" ? "activate_announcer" : "deactivate_announcer",
+            targetType: "announcer",
+            targetId: announcerId,
+            beforeStatus: announcerSnapshot.data()?.status || null,
+            afterStatus: status,
+        }));
+
+        await batch.commit();
 
         functions.logger.info(`Status updated successfully for announcer: ${announcerId}`);
 
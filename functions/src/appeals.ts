@@ -0,0 +1,325 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { assertAdmin } from "./moderation";
+import { buildModerationLog, getModerationActor, moderationLogRef } from "./moderationLogs";
+import { warningRef } from "./warnings";
+
+type SanctionType = "post_removal" | "warning" | "suspension" | "ban";
+type AppealDecision = "granted" | "denied";
+
+interface DecideAppealRequest {
+    appealId: string;
+    decision: AppealDecision;
+    response?: string;
+}
+
+// user_notifications types that announce a sanction the user can appeal
+const APPEALABLE_NOTIFICATION_TYPES = ["warning", "ban", "post_removed"];
+// A warning's escalation is written in the same transaction as its record, so it was
+// applied within moments of the record's date; anything applied later is a newer sanction
+const ESCALATION_MATCH_WINDOW_MS = 60 * 1000;
+
+/**
+ * Works out which sanction a notification announced; "ban" notifications are sent for
+ * both suspensions and permanent bans and record which one in sanctionType.
+ * Notifications sent before sanctionType existed are told apart by their title,
+ * never by the user's current status, which may come from a later sanction
+ */
+function getSanctionType(notification: admin.firestore.DocumentData): SanctionType {
+    if (notification.type === "post_removed") {
+        return "post_removal";
+    }
+    if (notification.type === "warning") {
+        return "warning";
+    }
+    if (notification.sanctionType === "ban" || notification.sanctionType === "suspension") {
+        return notification.sanctionType;
+    }
+    return (notification.title || "").startsWith("Account Permanently Banned") ? "ban" : "suspension";
+}
+
+function toIsoString(value: unknown): string | null {
+    if (value instanceof admin.firestore.Timestamp) {
+        return value.toDate().toISOString();
+    }
+    return typeof value === "string" ? value : null;
+}
+
+/**
+ * Whether a sanction still in force is the one the appealed warning escalated to
+ */
+function appliedWithWarning(appliedAt: unknown, warningDate: string | undefined): boolean {
+    const applied = Date.parse(toIsoString(appliedAt) || "");
+    const warned = Date.parse(warningDate || "");
+    return !Number.isNaN(applied) && !Number.isNaN(warned) &&
+        Math.abs(applied - warned) <= ESCALATION_MATCH_WINDOW_MS;
+}
+
+/**
+ * Cloud Function: Attach the appealed sanction to a new appeal and notify admins
+ * The appeal id is the id of the user_notifications entry that announced the sanction
+ * Triggers when a new appeal is created
+ */
+export const handleNewAppeal = functions.firestore
+    .document("appeals/{appealId}")
+    .onCreate(async (snapshot, context) => {
+        const appealId = context.params.appealId;
+        const appeal = snapshot.data();
+        const db = admin.firestore();
+
+        const notificationSnapshot = await db.collection("user_notifications").doc(appealId).get();
+        const notification = notificationSnapshot.data();
+
+        if (
+            !notification ||
+            notification.userId !== appeal.userId ||
+            !APPEALABLE_NOTIFICATION_TYPES.includes(notification.type)
+        ) {
+            functions.logger.warn(`Appeal ${appealId} does not match an appealable sanction`);
+            await snapshot.ref.update({
+                status: "denied",
+                response: "This notification cannot be appealed.",
+                decidedAt: new Date().toISOString(),
+                decidedBy: "system",
+            });
+            return;
+        }
+
+        const userSnapshot = await db.collection("users").doc(appeal.userId).get();
+        const sanctionType = getSanctionType(notification);
+        const relatedPostId: string | null = notification.relatedPostId || notification.data?.postId || null;
+
+        const batch = db.batch();
+
+        batch.update(snapshot.ref, {
+            sanctionType,
+            sanctionTitle: notification.title || "",
+            sanctionMessage: notification.message || "",
+            sanctionIssuedAt: toIsoString(notification.createdAt),
+            relatedPostId,
+            // The users/{userId}/warnings record a warning notice announced
+            warningId: notification.warningId || null,
+            userName: userSnapshot.data()?.name || null,
+        });
+
+        batch.set(db.collection("admin_notifications").doc(), {
+            type: "new_appeal",
+            title: "New Appeal",
+            message: `${userSnapshot.data()?.name || "A user"} appealed a ${sanctionType.replace(/_/g, " ")}.`,
+            appealId,
+            userId: appeal.userId,
+            isRead: false,
+            createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        await batch.commit();
+
+        functions.logger.info(`Appeal ${appealId} recorded for ${sanctionType}`, { userId: appeal.userId });
+    });
+
+/**
+ * Grants or denies an appeal in a single transaction
+ * Granting reverses the sanction: the post is restored, the warning taken back
+ * along with the restriction, suspension or ban it escalated to, or the
+ * suspension/ban lifted. The user is notified of the decision either way
+ */
+export const decideAppeal = functions.https.onCall(async (data: DecideAppealRequest, context) => {
+    try {
+        const adminId = await assertAdmin(context, "decide appeals");
+        const actor = getModerationActor(context);
+        const { appealId, decision } = data;
+        const response = data.response?.trim() || null;
+
+        if (!appealId || !["granted", "denied"].includes(decision)) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "appealId and a decision of granted or denied are required"
+            );
+        }
+
+        functions.logger.info(`Deciding appeal ${appealId}: ${decision}`, { adminId });
+
+        const db = admin.firestore();
+        const appealRef = db.collection("appeals").doc(appealId);
+
+        const result = await db.runTransaction(async (transaction) => {
+            const appealSnapshot = await transaction.get(appealRef);
+            if (!appealSnapshot.exists) {
+                throw new functions.https.HttpsError("not-found", "Appeal not found");
+            }
+
+            const appeal = appealSnapshot.data() || {};
+            if (appeal.status !== "pending") {
+                throw new functions.https.HttpsError(
+                    "failed-precondition",
+                    `Appeal has already been ${appeal.status}`
+                );
+            }
+
+            const sanctionType: SanctionType = appeal.sanctionType || "warning";
+            const userRef = db.collection("users").doc(appeal.userId);
+            const postRef = appeal.relatedPostId ? db.collection("posts").doc(appeal.relatedPostId) : null;
+            const userSnapshot = await transaction.get(userRef);
+            const postSnapshot = postRef ? await transaction.get(postRef) : null;
+            // A granted warning appeal reverses exactly the warning its notice announced
+            if (decision === "granted" && sanctionType === "warning" && !appeal.warningId) {
+                throw new functions.https.HttpsError(
+                    "failed-precondition",
+                    "This warning notice is not linked to a warning record, so it cannot be reversed"
+                );
+            }
+            const warningSnapshot = decision === "granted" && sanctionType === "warning" ?
+                await transaction.get(warningRef(appeal.userId, appeal.warningId)) :
+                null;
+
+            const now = new Date().toISOString();
+            const reversedActions: string[] = [];
+
+            if (decision === "granted") {
+                const user = userSnapshot.data() || {};
+                const userStatus = (user.status || "active").toLowerCase();
+                const post = postSnapshot?.data();
+                const userUpdates: Record<string, unknown> = {};
+
+                // Warnings that came with a removal (remove_and_warn) restore the post too
+                if (
+                    postRef && post &&
+                    (sanctionType === "post_removal" || sanctionType === "warning") &&
+                    (post.status === "removed" || post.status === "under_review")
+                ) {
+                    transaction.update(postRef, {
+                        status: "active",
+                        isWarned: false,
+                        removedAt: null,
+                        removedReason: null,
+                        heldAt: null,
+                        heldReason: null,
+                        restoredAt: now,
+                        lastUpdated: now,
+                    });
+                    reversedActions.push("post_restored");
+                }
+
+                // Only a warning still in force is taken back; an expired one no longer counts
+                const warning = warningSnapshot?.data()?.status === "active" ? warningSnapshot.data() : undefined;
+                const warningCount = Math.max(0, (user.warningCount || 0) - (warning ? 1 : 0));
+                // What the warning escalated to on the sanction ladder is reversed with it
+                const escalation: string | null = warning?.escalation || null;
+
+                if (warningSnapshot && warning) {
+                    userUpdates.warningCount = warningCount;
+                    reversedActions.push("warning_removed");
+                    transaction.update(warningSnapshot.ref, { status: "revoked", revokedAt: now });
+
+                    if (userStatus === "warning" && warningCount === 0) {
+                        userUpdates.status = "active";
+                    }
+                }
+
+                if (
+                    escalation === "restricted" &&
+                    user.restrictions?.posting &&
+                    appliedWithWarning(user.restrictions.posting.appliedAt, warning?.date)
+                ) {
+                    userUpdates["restrictions.posting"] = admin.firestore.FieldValue.delete();
+                    reversedActions.push("posting_restriction_lifted");
+                }
+
+                if (
+                    userStatus === "suspended" &&
+                    (sanctionType === "suspension" ||
+                        (escalation === "suspended" && appliedWithWarning(user.suspendedAt, warning?.date)))
+                ) {
+                    Object.assign(userUpdates, {
+                        status: warningCount > 0 ? "warning" : "active",
+                        suspendedAt: null,
+                        suspendExpiresAt: null,
+                        suspendCount: Math.max(0, (user.suspendCount || 0) - 1),
+                    });
+                    reversedActions.push("suspension_lifted");
+                }
+
+                if (
+                    userStatus === "banned" &&
+                    (sanctionType === "ban" ||
+                        (escalation === "banned" && appliedWithWarning(user.bannedAt, warning?.date)))
+                ) {
+                    Object.assign(userUpdates, {
+                        status: warningCount > 0 ? "warning" : "active",
+                        bannedAt: null,
+                    });
+                    reversedActions.push("ban_lifted");
+                }
+
+                // A reversed sanction also takes the user back down a step of the sanction ladder
+                if (reversedActions.some((action) => action !== "post_restored") && (user.sanctionLevel || 0) > 0) {
+                    userUpdates.sanctionLevel = user.sanctionLevel - 1;
+                }
+
+                if (userSnapshot.exists && Object.keys(userUpdates).length > 0) {
+                    transaction.update(userRef, { ...userUpdates, lastStatusUpdate: now });
+                }
+            }
+
+            transaction.update(appealRef, {
+                status: decision,
+                response,
+                reversedActions,
+                decidedAt: now,
+                decidedBy: actor.adminId,
+                decidedByEmail: actor.adminEmail,
+            });
+
+            const sanctionLabel = sanctionType.replace(/_/g, " ");
+            transaction.set(db.collection("user_notifications").doc(), {
+                userId: appeal.userId,
+                adminId,
+                type: "info",
+                title: decision === "granted" ? "Appeal Granted" : "Appeal Denied",
+                message: (decision === "granted" ?
+                    `Your appeal against the ${sanctionLabel} was granted and the sanction has been reversed.` :
+                    `Your appeal against the ${sanctionLabel} was reviewed and the sanction stands.`) +
+                    (response ? ` Admin response: ${response}` : ""),
+                ...(appeal.relatedPostId ? { relatedPostId: appeal.relatedPostId } : {}),
+                createdAt: admin.firestore.FieldValue.serverTimestamp(),
+                isRead: false,
+            });
+
+            transaction.set(moderationLogRef(), buildModerationLog(actor, {
+                action: decision === "granted" ? "grant_appeal" : "deny_appeal",
+                targetType: "appeal",
+                targetId: appealId,
+                targetUserId: appeal.userId,
+                beforeStatus: "pending",
+                afterStatus: decision,
+                reason: response,
+                relatedIds: appeal.relatedPostId ? [appeal.relatedPostId] : [],
+            }));
+
+            return {
+                appeal: { id: appealId, status: decision },
+                reversedActions,
+            };
+        });
+
+        functions.logger.info(`Appeal ${appealId} ${decision}`, {
+            reversedActions: result.reversedActions,
+        });
+
+        return {
+            success: true,
+            ...result,
+        };
+    } catch (error: any) {
+        functions.logger.error("Error deciding appeal:", error);
+
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+
+        throw new functions.https.HttpsError(
+            "internal",
+            `Failed to decide appeal: ${error.message}`
+        );
+    }
+});
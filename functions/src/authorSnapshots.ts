@@ -0,0 +1,109 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+
+// Leaves headroom under Firestore's 500 writes per batch
+const BATCH_LIMIT = 400;
+
+/**
+ * Copy of the user fields the dashboard shows next to a post or report,
+ * so lists can render without looking up every user
+ */
+export interface UserSnapshot {
+    id: string;
+    name: string;
+    nickname: string;
+    avatarPath: string | null;
+    status: string;
+}
+
+export function buildUserSnapshot(userId: string, user: admin.firestore.DocumentData | undefined): UserSnapshot {
+    return {
+        id: userId,
+        name: user?.name || user?.nickname || "Unknown User",
+        nickname: user?.nickname || "",
+        avatarPath: user?.avatar || null,
+        status: user?.status || "active",
+    };
+}
+
+function snapshotChanged(before: UserSnapshot, after: UserSnapshot): boolean {
+    return before.name !== after.name ||
+        before.nickname !== after.nickname ||
+        before.avatarPath !== after.avatarPath ||
+        before.status !== after.status;
+}
+
+/**
+ * Applies the same update to every document in the snapshots, in batches
+ */
+async function updateInBatches(
+    docs: admin.firestore.QueryDocumentSnapshot[],
+    buildUpdate: (doc: admin.firestore.QueryDocumentSnapshot) => admin.firestore.UpdateData<admin.firestore.DocumentData>
+): Promise<void> {
+    const db = admin.firestore();
+
+    for (let i = 0; i < docs.length; i += BATCH_LIMIT) {
+        const batch = db.batch();
+        docs.slice(i, i + BATCH_LIMIT).forEach((doc) => batch.update(doc.ref, buildUpdate(doc)));
+        await batch.commit();
+    }
+}
+
+/**
+ * Cloud Function: Store the author snapshot on new posts
+ * Triggers when a new post is created
+ */
+export const setPostAuthorSnapshot = functions.firestore
+    .document("posts/{postId}")
+    .onCreate(async (snapshot, context) => {
+        const userId = snapshot.data().userId;
+
+        if (!userId) {
+            return;
+        }
+
+        const userDoc = await admin.firestore().collection("users").doc(userId).get();
+
+        await snapshot.ref.update({
+            author: buildUserSnapshot(userId, userDoc.data()),
+        });
+
+        functions.logger.info(`Stored author snapshot on post ${context.params.postId}`);
+    });
+
+/**
+ * Cloud Function: Fan out user profile changes to the copies on posts and reports
+ * Updates posts.author and the reporter/reported objects of reports
+ * Triggers when a user document is updated
+ */
+export const fanOutUserSnapshot = functions.firestore
+    .document("users/{userId}")
+    .onUpdate(async (change, context) => {
+        const userId = context.params.userId;
+        const before = buildUserSnapshot(userId, change.before.data());
+        const after = buildUserSnapshot(userId, change.after.data());
+
+        if (!snapshotChanged(before, after)) {
+            return;
+        }
+
+        const db = admin.firestore();
+        const [postsSnapshot, reporterSnapshot, reportedSnapshot] = await Promise.all([
+            db.collection("posts").where("userId", "==", userId).get(),
+            db.collection("reports").where("reporter.id", "==", userId).get(),
+            db.collection("reports").where("reported.id", "==", userId).get(),
+        ]);
+
+        const { id, ...snapshotFields } = after;
+
+        await updateInBatches(postsSnapshot.docs, () => ({ author: after }));
+        await updateInBatches(reporterSnapshot.docs, (doc) => ({
+            reporter: { ...doc.data().reporter, id, ...snapshotFields },
+        }));
+        await updateInBatches(reportedSnapshot.docs, (doc) => ({
+            reported: { ...doc.data().reported, id, ...snapshotFields },
+        }));
+
+        functions.logger.info(`Updated user snapshot ${userId} on ${postsSnapshot.size} post(s) and ` +
+            `${reporterSnapshot.size + reportedSnapshot.size} report(s)`);
+    });
@@ -0,0 +1,134 @@
+/**
+ * Sanction ladder rules shared by every callable that warns a user
+ * The dashboard's lib/businessRules.ts previews the next step with the same
+ * evaluation, so the two must stay in sync
+ *
+ * Each violation moves the user one step up admin_configuration.sanctionLadder
+ * (the last step repeats once reached). A step with decayDays moves the user
+ * back down one step for every decayDays that pass without a new violation.
+ */
+
+export type SanctionStepType = "warning" | "posting_restriction" | "suspension" | "ban";
+
+export interface SanctionStep {
+    type: SanctionStepType;
+    // Length of a posting restriction or suspension; null for warnings and bans
+    durationDays: number | null;
+    // Days without a new violation before the user drops back a step; null never decays
+    decayDays: number | null;
+}
+
+export interface SanctionHistory {
+    // Steps climbed so far; null for users warned before the ladder existed
+    sanctionLevel: number | null;
+    lastViolationAt: string | null;
+    warningCount: number;
+}
+
+export interface SanctionEvaluation {
+    // Steps the user stands on after decay; 0 means no standing sanction
+    currentLevel: number;
+    // The level, and ladder step, the next violation applies
+    nextLevel: number;
+    nextStep: SanctionStep;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Mirrors DEFAULT_CONFIGURATION.sanctionLadder in the dashboard's lib/firestore/configuration.ts
+export const DEFAULT_SANCTION_LADDER: SanctionStep[] = [
+    { type: "warning", durationDays: null, decayDays: 90 },
+    { type: "posting_restriction", durationDays: 3, decayDays: 90 },
+    { type: "suspension", durationDays: 14, decayDays: 180 },
+    { type: "suspension", durationDays: 60, decayDays: 365 },
+    { type: "ban", durationDays: null, decayDays: null },
+];
+
+const STEP_TYPES: SanctionStepType[] = ["warning", "posting_restriction", "suspension", "ban"];
+
+/**
+ * The ladder that reproduces the old fixed escalation, for configurations saved
+ * before sanctionLadder existed: warnings up to suspendThreshold, then a
+ * suspension per warning until banAfterSuspendCount suspensions, then a ban
+ */
+export function buildLegacySanctionLadder(
+    suspendThreshold: number,
+    suspendDurationDays: number,
+    banAfterSuspendCount: number
+): SanctionStep[] {
+    const warnings = Array.from({ length: Math.max(0, suspendThreshold - 1) }, (): SanctionStep => ({
+        type: "warning",
+        durationDays: null,
+        decayDays: null,
+    }));
+    const suspensions = Array.from({ length: Math.max(1, banAfterSuspendCount) }, (): SanctionStep => ({
+        type: "suspension",
+        durationDays: suspendDurationDays,
+        decayDays: null,
+    }));
+
+    return [...warnings, ...suspensions, { type: "ban", durationDays: null, decayDays: null }];
+}
+
+/**
+ * Drops malformed steps from a stored ladder; null when nothing usable is left
+ */
+export function parseSanctionLadder(value: unknown): SanctionStep[] | null {
+    if (!Array.isArray(value)) {
+        return null;
+    }
+
+    const steps = value
+        .filter((step) => step && STEP_TYPES.includes(step.type))
+        .map((step): SanctionStep => ({
+            type: step.type,
+            durationDays: typeof step.durationDays === "number" && step.durationDays > 0 ? step.durationDays : null,
+            decayDays: typeof step.decayDays === "number" && step.decayDays > 0 ? step.decayDays : null,
+        }))
+        // A timed step without a duration cannot be applied
+        .filter((step) => (step.type !== "posting_restriction" && step.type !== "suspension") || step.durationDays);
+
+    return steps.length > 0 ? steps : null;
+}
+
+/**
+ * The user's level once every step that decayed since the last violation is taken off
+ * Users warned before the ladder existed start from their warning count
+ */
+export function getSanctionLevel(ladder: SanctionStep[], history: SanctionHistory, now: Date = new Date()): number {
+    let level = Math.min(history.sanctionLevel ?? history.warningCount, ladder.length);
+    const lastViolation = history.lastViolationAt ? new Date(history.lastViolationAt).getTime() : NaN;
+
+    if (Number.isNaN(lastViolation)) {
+        return level;
+    }
+
+    let elapsedDays = (now.getTime() - lastViolation) / DAY_MS;
+    while (level > 0) {
+        const decayDays = ladder[level - 1].decayDays;
+        if (!decayDays || elapsedDays < decayDays) {
+            break;
+        }
+        elapsedDays -= decayDays;
+        level--;
+    }
+    return level;
+}
+
+/**
+ * What a new violation does to the user
+ */
+export function evaluateNextSanction(
+    ladder: SanctionStep[],
+    history: SanctionHistory,
+    now: Date = new Date()
+): SanctionEvaluation {
+    const currentLevel = getSanctionLevel(ladder, history, now);
+    const nextLevel = Math.min(currentLevel + 1, ladder.length);
+
+    return {
+        currentLevel,
+        nextLevel,
+        nextStep: ladder[nextLevel - 1],
+    };
+}
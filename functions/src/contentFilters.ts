@@ -0,0 +1,308 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import * as vm from "vm";
+import { SYSTEM_ACTOR, buildModerationLog, moderationLogRef } from "./moderationLogs";
+
+type ContentFilterRuleType = "keyword" | "regex";
+type ContentFilterAction = "flag" | "hold" | "reject";
+
+interface ContentFilterRule {
+    id: string;
+    type: ContentFilterRuleType;
+    pattern: string;
+    action: ContentFilterAction;
+}
+
+interface ContentFilterMatch {
+    ruleId: string;
+    ruleType: ContentFilterRuleType;
+    pattern: string;
+    action: ContentFilterAction;
+    matchedText: string;
+    // UTF-16 offsets into the post content, used by the dashboard to highlight the match
+    start: number;
+    end: number;
+}
+
+// Later entries win when several rules match the same post
+const ACTION_PRIORITY: ContentFilterAction[] = ["flag", "hold", "reject"];
+
+// Keeps the post document small when a rule matches over and over
+const MAX_RECORDED_MATCHES = 20;
+// Same limit the dashboard validates rules against
+const MAX_PATTERN_LENGTH = 200;
+// A JavaScript regex cannot be interrupted, so each match runs in a vm with this time limit
+const MATCH_TIMEOUT_MS = 100;
+
+const matchScript = new vm.Script("expression.exec(content)");
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Whether a regex repeats a group that can match the same text more than one way, because it
+ * contains a repeat, an optional part or an alternation, like (a+)+, (\w+\s?)* or (a|ab)*,
+ * the shape that backtracks catastrophically on text that almost matches
+ * Mirrors hasAmbiguousRepeat in the dashboard's lib/firestore/contentFilterRules.ts
+ */
+function hasAmbiguousRepeat(pattern: string): boolean {
+    const isQuantifier = (char: string | undefined) => char === "*" || char === "+" || char === "{";
+    // Per open group, whether it contains a quantifier, an optional part or an alternation
+    const groups: boolean[] = [];
+    let inClass = false;
+
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === "\\") {
+            i++;
+        } else if (inClass) {
+            inClass = char !== "]";
+        } else if (char === "[") {
+            inClass = true;
+        } else if (char === "(") {
+            groups.push(false);
+            // The ? of (?: (?= (?! and (?< is group syntax, not an optional part
+            if (pattern[i + 1] === "?") {
+                i++;
+            }
+        } else if (char === ")") {
+            const containsQuantifier = groups.pop() || false;
+            const repeated = isQuantifier(pattern[i + 1]);
+            if (containsQuantifier && repeated) {
+                return true;
+            }
+            if (groups.length > 0 && (containsQuantifier || repeated)) {
+                groups[groups.length - 1] = true;
+            }
+        } else if ((isQuantifier(char) || char === "?" || char === "|") && groups.length > 0) {
+            groups[groups.length - 1] = true;
+        }
+    }
+
+    return false;
+}
+
+/**
+ * Loads the enabled rules, skipping any with an unknown type or action, and regexes the
+ * dashboard would not have saved: over MAX_PATTERN_LENGTH or with an ambiguous repeated group
+ */
+async function getEnabledRules(): Promise<ContentFilterRule[]> {
+    const snapshot = await admin.firestore()
+        .collection("content_filter_rules")
+        .where("enabled", "==", true)
+        .get();
+
+    return snapshot.docs
+        .map((doc) => ({ id: doc.id, ...doc.data() } as ContentFilterRule))
+        .filter((rule) => {
+            if (
+                typeof rule.pattern !== "string" || rule.pattern.trim() === "" ||
+                (rule.type !== "keyword" && rule.type !== "regex") ||
+                !ACTION_PRIORITY.includes(rule.action)
+            ) {
+                return false;
+            }
+            if (
+                rule.type === "regex" &&
+                (rule.pattern.length > MAX_PATTERN_LENGTH || hasAmbiguousRepeat(rule.pattern))
+            ) {
+                functions.logger.warn(`Skipping content filter rule ${rule.id} with an unsafe regex`);
+                return false;
+            }
+            return true;
+        });
+}
+
+/**
+ * Finds every occurrence of a rule in the content. Keywords match
+ * case-insensitively anywhere in the text, since Thai has no word boundaries
+ * A rule that runs past MATCH_TIMEOUT_MS keeps only the matches found before
+ */
+function findRuleMatches(rule: ContentFilterRule, content: string): ContentFilterMatch[] {
+    let expression: RegExp;
+    try {
+        expression = new RegExp(
+            rule.type === "keyword" ? escapeRegExp(rule.pattern.trim()) : rule.pattern,
+            "gi"
+        );
+    } catch (error) {
+        functions.logger.warn(`Skipping content filter rule ${rule.id} with an invalid pattern`, { error });
+        return [];
+    }
+
+    const matches: ContentFilterMatch[] = [];
+    const context = vm.createContext({ expression, content });
+    let result: RegExpExecArray | null;
+
+    try {
+        while (
+            (result = matchScript.runInContext(context, { timeout: MATCH_TIMEOUT_MS })) !== null &&
+            matches.length < MAX_RECORDED_MATCHES
+        ) {
+            if (result[0] === "") {
+                // Zero-length regex matches would loop forever and have nothing to highlight
+                expression.lastIndex++;
+                continue;
+            }
+
+            matches.push({
+                ruleId: rule.id,
+                ruleType: rule.type,
+                pattern: rule.pattern,
+                action: rule.action,
+                matchedText: result[0],
+                start: result.index,
+                end: result.index + result[0].length,
+            });
+        }
+    } catch (error) {
+        functions.logger.warn(`Stopped content filter rule ${rule.id} after ${MATCH_TIMEOUT_MS}ms`, { error });
+    }
+
+    return matches;
+}
+
+/**
+ * Screens a post's content against the enabled rules and records the matches
+ * flag only marks the post, hold hides it as under_review, reject removes it
+ * An edit that no longer matches clears the earlier matches, whose offsets point into
+ * the old content, and the auto-flag unless a photo matched too; a post already held or removed stays that way
+ */
+async function screenPost(postId: string, content: string, edited: boolean): Promise<void> {
+    const rules = await getEnabledRules();
+    const matches = rules
+        .flatMap((rule) => findRuleMatches(rule, content))
+        .slice(0, MAX_RECORDED_MATCHES);
+
+    const db = admin.firestore();
+    const postRef = db.collection("posts").doc(postId);
+
+    if (matches.length === 0) {
+        if (edited) {
+            await db.runTransaction(async (transaction) => {
+                const current = (await transaction.get(postRef)).data();
+                if (current?.contentFilter && current.content === content) {
+                    // A matching photo still keeps the post auto-flagged
+                    const hasDuplicateImages = (current.duplicateImageMatches || []).length > 0;
+                    transaction.update(postRef, {
+                        contentFilter: admin.firestore.FieldValue.delete(),
+                        ...(hasDuplicateImages ? {} : { autoFlagged: false }),
+                    });
+                }
+            });
+        }
+        return;
+    }
+
+    const action = matches.reduce<ContentFilterAction>((strongest, match) =>
+        ACTION_PRIORITY.indexOf(match.action) > ACTION_PRIORITY.indexOf(strongest) ? match.action : strongest,
+    "flag");
+    const ruleIds = [...new Set(matches.map((match) => match.ruleId))];
+    const reason = `Matched content filter: ${[...new Set(matches.map((match) => match.pattern))].join(", ")}`;
+
+    await db.runTransaction(async (transaction) => {
+        const currentSnapshot = await transaction.get(postRef);
+        const current = currentSnapshot.data();
+
+        // Skip when the post is gone or was edited again; that edit is screened on its own
+        if (!current || current.content !== content) {
+            return;
+        }
+
+        const now = new Date().toISOString();
+        const currentStatus = current.status || "active";
+        // Only posts that are still live get hidden; an admin may already have acted on it
+        const changesStatus = action !== "flag" && currentStatus === "active";
+        const nextStatus = action === "reject" ? "removed" : "under_review";
+
+        transaction.update(postRef, {
+            autoFlagged: true,
+            contentFilter: {
+                action,
+                ruleIds,
+                matches,
+                evaluatedAt: now,
+            },
+            ...(changesStatus && action === "hold" ? { status: nextStatus, heldAt: now, heldReason: reason } : {}),
+            ...(changesStatus && action === "reject" ? { status: nextStatus, removedAt: now, removedReason: reason } : {}),
+            ...(changesStatus ? { lastUpdated: now } : {}),
+        });
+
+        if (!changesStatus) {
+            return;
+        }
+
+        if (action === "hold") {
+            transaction.set(db.collection("admin_notifications").doc(), {
+                type: "post_under_review",
+                title: "Post Hidden for Review",
+                message: `${edited ? "An edited" : "A new"} post matched a content filter rule and was hidden ` +
+                    "until an admin restores or removes it.",
+                postId,
+                userId: current.userId || null,
+                isRead: false,
+                createdAt: admin.firestore.FieldValue.serverTimestamp(),
+            });
+        } else if (current.userId) {
+            transaction.set(db.collection("user_notifications").doc(), {
+                userId: current.userId,
+                adminId: "system",
+                type: "post_removed",
+                title: "Post Removed",
+                message: "Your post was removed because it contains content that is not allowed.",
+                relatedPostId: postId,
+                createdAt: admin.firestore.FieldValue.serverTimestamp(),
+                isRead: false,
+            });
+        }
+
+        transaction.set(moderationLogRef(), buildModerationLog(SYSTEM_ACTOR, {
+            action: action === "hold" ? "hold_post" : "remove_post",
+            targetType: "post",
+            targetId: postId,
+            targetUserId: current.userId || null,
+            beforeStatus: currentStatus,
+            afterStatus: nextStatus,
+            reason,
+            relatedIds: ruleIds,
+        }));
+    });
+
+    functions.logger.info(`Post ${postId} matched ${ruleIds.length} content filter rule(s): ${action}`);
+}
+
+/**
+ * Cloud Function: Screen new posts against the content filter rules
+ * Triggers when a new post is created
+ */
+export const screenNewPost = functions.firestore
+    .document("posts/{postId}")
+    .onCreate(async (snapshot, context) => {
+        const post = snapshot.data();
+        const content: string = typeof post.content === "string" ? post.content : "";
+
+        if (!content) {
+            return;
+        }
+
+        await screenPost(context.params.postId, content, false);
+    });
+
+/**
+ * Cloud Function: Screen edited posts again, so a filtered word cannot be added after posting
+ * Triggers when a post's content changes
+ */
+export const screenEditedPost = functions.firestore
+    .document("posts/{postId}")
+    .onUpdate(async (change, context) => {
+        const before = change.before.data();
+        const after = change.after.data();
+        const content: string = typeof after.content === "string" ? after.content : "";
+
+        if (content === before.content) {
+            return;
+        }
+
+        await screenPost(context.params.postId, content, true);
+    });
@@ -0,0 +1,330 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import sharp from "sharp";
+import { buildModerationLog, moderationLogRef, SYSTEM_ACTOR } from "./moderationLogs";
+
+type ImageParentType = "post" | "announcement";
+
+interface DuplicateImageMatch {
+    // The newly uploaded photo
+    path: string;
+    // The removed photo it matched
+    matchedPath: string;
+    matchedParentType: ImageParentType;
+    matchedParentId: string;
+    // Differing bits between the two 64-bit hashes
+    distance: number;
+}
+
+const IMAGE_HASHES_COLLECTION = "image_hashes";
+// Storage folders of post and announcement photos, keyed by the parent's id
+const IMAGE_PARENT_FOLDERS: Record<string, ImageParentType> = {
+    posts: "post",
+    announcements: "announcement",
+};
+// Hashes this close survive re-encoding, resizing and small crops but rarely match unrelated photos
+const MAX_MATCH_DISTANCE = 10;
+// One more band than the bits two matching hashes may differ in, so at least one band is identical
+const HASH_BAND_COUNT = MAX_MATCH_DISTANCE + 1;
+// Leaves headroom under Firestore's 500 writes per batch
+const BATCH_LIMIT = 400;
+
+/**
+ * One hash per Storage object; the path is encoded because document ids cannot contain "/"
+ */
+export function imageHashRef(path: string): admin.firestore.DocumentReference {
+    return admin.firestore().collection(IMAGE_HASHES_COLLECTION).doc(encodeURIComponent(path));
+}
+
+/**
+ * Difference hash (dHash): shrink to 9x8 greyscale and record whether each pixel is
+ * brighter than its right neighbour, giving 64 bits as 16 hex characters
+ */
+async function computeImageHash(image: Buffer): Promise<string> {
+    const pixels = await sharp(image)
+        .rotate()
+        .greyscale()
+        .resize(9, 8, { fit: "fill" })
+        .raw()
+        .toBuffer();
+
+    let hash = "";
+    for (let row = 0; row < 8; row++) {
+        let nibble = 0;
+        for (let column = 0; column < 8; column++) {
+            nibble = (nibble << 1) | (pixels[row * 9 + column] > pixels[row * 9 + column + 1] ? 1 : 0);
+            if (column % 4 === 3) {
+                hash += nibble.toString(16);
+                nibble = 0;
+            }
+        }
+    }
+    return hash;
+}
+
+function hammingDistance(a: string, b: string): number {
+    let distance = 0;
+    for (let i = 0; i < a.length; i += 4) {
+        let diff = parseInt(a.slice(i, i + 4), 16) ^ parseInt(b.slice(i, i + 4), 16);
+        while (diff) {
+            distance += diff & 1;
+            diff >>= 1;
+        }
+    }
+    return distance;
+}
+
+/**
+ * Splits the 64 hash bits into HASH_BAND_COUNT bands keyed by position, stored on each
+ * hash as "bands" so matches are looked up by shared band instead of reading every hash
+ * scripts/backfillImageHashBands.js must split hashes the same way
+ */
+function hashBands(hash: string): string[] {
+    const bits = hash.split("").map((nibble) => parseInt(nibble, 16).toString(2).padStart(4, "0")).join("");
+    return Array.from({ length: HASH_BAND_COUNT }, (_, band) => {
+        const start = Math.floor(band * bits.length / HASH_BAND_COUNT);
+        const end = Math.floor((band + 1) * bits.length / HASH_BAND_COUNT);
+        return `${band}:${bits.slice(start, end)}`;
+    });
+}
+
+/**
+ * The closest photo removed by moderators, if any is within MAX_MATCH_DISTANCE
+ * Only removed hashes sharing a band can be that close, so only those are read
+ */
+async function findRemovedMatch(path: string, hash: string): Promise<DuplicateImageMatch | null> {
+    const removedSnapshot = await admin.firestore().collection(IMAGE_HASHES_COLLECTION)
+        .where("removed", "==", true)
+        .where("bands", "array-contains-any", hashBands(hash))
+        .select("path", "hash", "parentType", "parentId")
+        .get();
+
+    let best: DuplicateImageMatch | null = null;
+    for (const doc of removedSnapshot.docs) {
+        const removed = doc.data();
+        if (removed.path === path || typeof removed.hash !== "string") {
+            continue;
+        }
+
+        const distance = hammingDistance(hash, removed.hash);
+        if (distance <= MAX_MATCH_DISTANCE && (!best || distance < best.distance)) {
+            best = {
+                path,
+                matchedPath: removed.path,
+                matchedParentType: removed.parentType,
+                matchedParentId: removed.parentId,
+                distance,
+            };
+        }
+    }
+    return best;
+}
+
+/**
+ * Hide a live post whose photo matches a removed one and record the match for the post drawer
+ */
+async function holdPostForDuplicateImage(postId: string, match: DuplicateImageMatch): Promise<void> {
+    const db = admin.firestore();
+    const postRef = db.collection("posts").doc(postId);
+
+    await db.runTransaction(async (transaction) => {
+        const postSnapshot = await transaction.get(postRef);
+        const post = postSnapshot.data();
+
+        if (!post) {
+            return;
+        }
+
+        const now = new Date().toISOString();
+        const currentStatus = post.status || "active";
+        // Only posts that are still live get hidden; an admin may already have acted on it
+        const holdsPost = currentStatus === "active";
+        const reason = "A photo matches a photo removed by moderators";
+
+        transaction.update(postRef, {
+            autoFlagged: true,
+            duplicateImageMatches: admin.firestore.FieldValue.arrayUnion(match),
+            ...(holdsPost ? { status: "under_review", heldAt: now, heldReason: reason, lastUpdated: now } : {}),
+        });
+
+        if (!holdsPost) {
+            return;
+        }
+
+        transaction.set(db.collection("admin_notifications").doc(), {
+            type: "post_under_review",
+            title: "Post Hidden for Review",
+            message: "A new post has a photo matching one removed by moderators and was hidden " +
+                "until an admin restores or removes it.",
+            postId,
+            userId: post.userId || null,
+            isRead: false,
+            createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        transaction.set(moderationLogRef(), buildModerationLog(SYSTEM_ACTOR, {
+            action: "hold_post",
+            targetType: "post",
+            targetId: postId,
+            targetUserId: post.userId || null,
+            beforeStatus: currentStatus,
+            afterStatus: "under_review",
+            reason,
+            relatedIds: [match.matchedParentId],
+        }));
+    });
+}
+
+/**
+ * Mark the hashes of a parent's photos as removed by moderators, or no longer removed
+ * Restoring the parent leaves photos deleted through media review marked as removed
+ */
+async function setParentImagesRemoved(
+    parentType: ImageParentType,
+    parentId: string,
+    removed: boolean
+): Promise<number> {
+    const db = admin.firestore();
+    const hashesSnapshot = await db.collection(IMAGE_HASHES_COLLECTION)
+        .where("parentId", "==", parentId)
+        .get();
+    const deletedPaths = new Set<string>();
+
+    if (!removed) {
+        const deletedSnapshot = await db.collection("media_reviews")
+            .where("parentId", "==", parentId)
+            .where("status", "==", "deleted")
+            .get();
+        deletedSnapshot.docs
+            .filter((doc) => doc.data().parentType === parentType)
+            .forEach((doc) => deletedPaths.add(doc.data().path));
+    }
+
+    const docs = hashesSnapshot.docs.filter((doc) =>
+        doc.data().parentType === parentType && !deletedPaths.has(doc.data().path)
+    );
+
+    for (let i = 0; i < docs.length; i += BATCH_LIMIT) {
+        const batch = db.batch();
+        docs.slice(i, i + BATCH_LIMIT).forEach((doc) => {
+            batch.update(doc.ref, {
+                removed,
+                removedAt: removed ? new Date().toISOString() : null,
+            });
+        });
+        await batch.commit();
+    }
+    return docs.length;
+}
+
+/**
+ * Cloud Function: Hash uploaded post and announcement photos and compare them
+ * against photos removed by moderators; a post with a matching photo is held for review
+ * Triggers when a file is uploaded to Storage
+ */
+export const hashUploadedImage = functions
+    .runWith({ memory: "512MB" })
+    .storage.object()
+    .onFinalize(async (object) => {
+        const path = object.name || "";
+        const [folder, parentId, fileName] = path.split("/");
+        const parentType = IMAGE_PARENT_FOLDERS[folder];
+
+        if (!parentType || !parentId || !fileName || !object.contentType?.startsWith("image/")) {
+            return;
+        }
+
+        try {
+            const [image] = await admin.storage().bucket(object.bucket).file(path).download();
+            const hash = await computeImageHash(image);
+            const match = await findRemovedMatch(path, hash);
+
+            await imageHashRef(path).set({
+                path,
+                hash,
+                bands: hashBands(hash),
+                parentType,
+                parentId,
+                removed: false,
+                removedAt: null,
+                duplicateOf: match,
+                createdAt: admin.firestore.FieldValue.serverTimestamp(),
+            });
+
+            if (!match) {
+                return;
+            }
+
+            functions.logger.info(`Photo ${path} matches removed photo ${match.matchedPath} ` +
+                `(distance ${match.distance})`);
+
+            // The post may not exist yet; holdPostsWithDuplicateImages picks the match up when it is created
+            if (parentType === "post") {
+                await holdPostForDuplicateImage(parentId, match);
+            }
+        } catch (error) {
+            functions.logger.error(`Error hashing image ${path}:`, error);
+        }
+    });
+
+/**
+ * Cloud Function: Hold new posts whose photos were uploaded, and matched, before the post was created
+ * Triggers when a new post is created
+ */
+export const holdPostsWithDuplicateImages = functions.firestore
+    .document("posts/{postId}")
+    .onCreate(async (snapshot, context) => {
+        const postId = context.params.postId;
+        const photoPaths: string[] = snapshot.data().photoPaths || [];
+
+        if (photoPaths.length === 0) {
+            return;
+        }
+
+        const hashSnapshots = await admin.firestore().getAll(...photoPaths.map(imageHashRef));
+        const matches = hashSnapshots
+            .map((hashSnapshot) => hashSnapshot.data()?.duplicateOf as DuplicateImageMatch | null | undefined)
+            .filter((match): match is DuplicateImageMatch => !!match);
+
+        for (const match of matches) {
+            await holdPostForDuplicateImage(postId, match);
+        }
+    });
+
+/**
+ * Cloud Function: Track which post photos were removed by moderators
+ * Triggers when a post is updated
+ */
+export const trackRemovedPostImages = functions.firestore
+    .document("posts/{postId}")
+    .onUpdate(async (change, context) => {
+        const before = change.before.data().status;
+        const after = change.after.data().status;
+
+        if (before === after || (before !== "removed" && after !== "removed")) {
+            return;
+        }
+
+        const count = await setParentImagesRemoved("post", context.params.postId, after === "removed");
+        functions.logger.info(`Marked ${count} photo(s) of post ${context.params.postId} as ` +
+            `${after === "removed" ? "removed" : "restored"}`);
+    });
+
+/**
+ * Cloud Function: Track which announcement photos were removed by moderators
+ * Triggers when an announcement is updated
+ */
+export const trackRemovedAnnouncementImages = functions.firestore
+    .document("announcements/{announcementId}")
+    .onUpdate(async (change, context) => {
+        const before = change.before.data().status;
+        const after = change.after.data().status;
+
+        if (before === after || (before !== "removed" && after !== "removed")) {
+            return;
+        }
+
+        const count = await setParentImagesRemoved("announcement", context.params.announcementId, after === "removed");
+        functions.logger.info(`Marked ${count} photo(s) of announcement ${context.params.announcementId} as ` +
+            `${after === "removed" ? "removed" : "restored"}`);
+    });
@@ -21,7 +21,35 @@ import {
 import {
   handleNewReport,
   updateReportMetrics,
+  recomputeReportMetrics,
+  recomputeMetricsOnPolicyChange,
+  syncReportedPostStatus,
+  holdPostOnUrgentThreshold,
+  updateReporterStats,
 } from "./reports";
+import { liftExpiredSuspensions, enforceBanInAuth } from "./users";
+import { expireWarnings } from "./warnings";
+import { moderateUser, setUserRestriction, moderatePost, bulkModerate } from "./moderation";
+import { handleNewAppeal, decideAppeal } from "./appeals";
+import { screenEditedPost, screenNewPost } from "./contentFilters";
+import { setPostAuthorSnapshot, fanOutUserSnapshot } from "./authorSnapshots";
+import { recordPostRevision } from "./postRevisions";
+import { setPostExpiry, expirePosts, recomputePostExpiries } from "./postExpiry";
+import { countDailyPost, createPost, setDailyPostLimitOverride } from "./postLimits";
+import { queuePostMediaReview, queueAnnouncementMediaReview, reviewMedia } from "./mediaReviews";
+import {
+  hashUploadedImage,
+  holdPostsWithDuplicateImages,
+  trackRemovedPostImages,
+  trackRemovedAnnouncementImages,
+} from "./imageHashes";
+import {
+  indexPostForSearch,
+  indexUserForSearch,
+  indexReportForSearch,
+  indexAnnouncementForSearch,
+  rebuildSearchIndex,
+} from "./search";
 
 // Export all functions
 export { sendUserNotification, sendAnnouncementNotification };
@@ -33,4 +61,62 @@ export { createAnnouncer, updateAnnouncer, deleteAnnouncer, setAnnouncerClaim, u
 export { activateScheduledAnnouncements, expireEndedAnnouncements, createAnnouncement };
 
 // Export report management functions
-export { handleNewReport, updateReportMetrics };
\ No newline at end of file
+export {
+  handleNewReport,
+  updateReportMetrics,
+  recomputeReportMetrics,
+  recomputeMetricsOnPolicyChange,
+  syncReportedPostStatus,
+  holdPostOnUrgentThreshold,
+  updateReporterStats,
+};
+
+// Export user moderation scheduled functions
+export { liftExpiredSuspensions };
+
+// Export ban enforcement in Firebase Auth
+export { enforceBanInAuth };
+
+// Export warning expiry
+export { expireWarnings };
+
+// Export admin moderation actions
+export { moderateUser, setUserRestriction, moderatePost, bulkModerate };
+
+// Export appeal handling
+export { handleNewAppeal, decideAppeal };
+
+// Export content filtering
+export { screenNewPost, screenEditedPost };
+
+// Export denormalized user snapshots
+export { setPostAuthorSnapshot, fanOutUserSnapshot };
+
+// Export post edit history
+export { recordPostRevision };
+
+// Export post expiry
+export { setPostExpiry, expirePosts, recomputePostExpiries };
+
+// Export daily post limits
+export { countDailyPost, createPost, setDailyPostLimitOverride };
+
+// Export media review
+export { queuePostMediaReview, queueAnnouncementMediaReview, reviewMedia };
+
+// Export duplicate image detection
+export {
+  hashUploadedImage,
+  holdPostsWithDuplicateImages,
+  trackRemovedPostImages,
+  trackRemovedAnnouncementImages,
+};
+
+// Export search indexing
+export {
+  indexPostForSearch,
+  indexUserForSearch,
+  indexReportForSearch,
+  indexAnnouncementForSearch,
+  rebuildSearchIndex,
+};
@@ -0,0 +1,273 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { assertAdmin } from "./moderation";
+import { imageHashRef } from "./imageHashes";
+import {
+    buildModerationLog,
+    getModerationActor,
+    moderationLogRef,
+    ModerationLogAction,
+} from "./moderationLogs";
+
+type MediaParentType = "post" | "announcement";
+type MediaReviewAction = "approve" | "blur" | "delete";
+type MediaReviewStatus = "pending" | "approved" | "blurred" | "deleted";
+
+interface ReviewMediaRequest {
+    reviewId: string;
+    action: MediaReviewAction;
+    reason?: string;
+}
+
+interface MediaParent {
+    collection: string;
+    // The account notified when a photo is deleted
+    getAuthorId: (data: admin.firestore.DocumentData) => string | null;
+    getAuthorName: (data: admin.firestore.DocumentData) => string;
+    // Text shown next to the photo so it can be judged in context
+    getText: (data: admin.firestore.DocumentData) => string;
+}
+
+const MEDIA_REVIEWS_COLLECTION = "media_reviews";
+const SNIPPET_LENGTH = 200;
+
+const MEDIA_PARENTS: Record<MediaParentType, MediaParent> = {
+    post: {
+        collection: "posts",
+        getAuthorId: (data) => data.userId || null,
+        getAuthorName: (data) => data.author?.name || "Unknown User",
+        getText: (data) => data.content || "",
+    },
+    announcement: {
+        collection: "announcements",
+        getAuthorId: (data) => data.createdByUID || null,
+        getAuthorName: (data) => data.createdByName || "Unknown Announcer",
+        getText: (data) => [data.title, data.body].filter(Boolean).join(" · "),
+    },
+};
+
+const STATUS_BY_ACTION: Record<MediaReviewAction, MediaReviewStatus> = {
+    approve: "approved",
+    blur: "blurred",
+    delete: "deleted",
+};
+
+const LOG_ACTION_BY_ACTION: Record<MediaReviewAction, ModerationLogAction> = {
+    approve: "approve_photo",
+    blur: "blur_photo",
+    delete: "delete_photo",
+};
+
+/**
+ * One review per Storage object; the path is encoded because document ids cannot contain "/"
+ */
+function mediaReviewRef(path: string): admin.firestore.DocumentReference {
+    return admin.firestore().collection(MEDIA_REVIEWS_COLLECTION).doc(encodeURIComponent(path));
+}
+
+/**
+ * Queue a review for every photo path the write added to the parent document
+ */
+async function queueNewPhotos(
+    parentType: MediaParentType,
+    parentId: string,
+    change: functions.Change<functions.firestore.DocumentSnapshot>
+): Promise<void> {
+    const after = change.after.data();
+    if (!after) {
+        return;
+    }
+
+    const previousPaths: string[] = change.before.data()?.photoPaths || [];
+    const addedPaths = ((after.photoPaths || []) as string[])
+        .filter((path) => typeof path === "string" && path && !previousPaths.includes(path));
+
+    if (addedPaths.length === 0) {
+        return;
+    }
+
+    const parent = MEDIA_PARENTS[parentType];
+    const batch = admin.firestore().batch();
+
+    addedPaths.forEach((path) => {
+        batch.set(mediaReviewRef(path), {
+            path,
+            parentType,
+            parentId,
+            authorId: parent.getAuthorId(after),
+            authorName: parent.getAuthorName(after),
+            parentText: parent.getText(after).slice(0, SNIPPET_LENGTH),
+            status: "pending",
+            uploadedAt: admin.firestore.FieldValue.serverTimestamp(),
+            reviewedAt: null,
+            reviewedBy: null,
+        });
+    });
+
+    await batch.commit();
+
+    functions.logger.info(`Queued ${addedPaths.length} photo(s) of ${parentType} ${parentId} for review`);
+}
+
+/**
+ * Cloud Function: Queue photos added to posts for review
+ * Triggers when a post is written
+ */
+export const queuePostMediaReview = functions.firestore
+    .document("posts/{postId}")
+    .onWrite((change, context) => queueNewPhotos("post", context.params.postId, change));
+
+/**
+ * Cloud Function: Queue photos added to announcements for review
+ * Triggers when an announcement is written
+ */
+export const queueAnnouncementMediaReview = functions.firestore
+    .document("announcements/{announcementId}")
+    .onWrite((change, context) => queueNewPhotos("announcement", context.params.announcementId, change));
+
+/**
+ * Cloud Function: Approve, blur or delete a single reviewed photo (admin only)
+ * Blurring lists the photo in the parent's blurredPhotoPaths for the apps to blur it;
+ * deleting removes it from photoPaths, notifies the author and deletes the Storage object
+ */
+export const reviewMedia = functions.https.onCall(async (data: ReviewMediaRequest, context) => {
+    try {
+        const adminId = await assertAdmin(context, "review media");
+        const actor = getModerationActor(context);
+        const { reviewId, action, reason } = data;
+
+        if (!reviewId || !action) {
+            throw new functions.https.HttpsError("invalid-argument", "reviewId and action are required");
+        }
+
+        if (!Object.keys(STATUS_BY_ACTION).includes(action)) {
+            throw new functions.https.HttpsError("invalid-argument", `Unknown media action: ${action}`);
+        }
+
+        functions.logger.info(`Reviewing media ${reviewId}: ${action}`, { adminId });
+
+        const db = admin.firestore();
+        const reviewRef = db.collection(MEDIA_REVIEWS_COLLECTION).doc(reviewId);
+        const nextStatus = STATUS_BY_ACTION[action];
+
+        const review = await db.runTransaction(async (transaction) => {
+            const reviewSnapshot = await transaction.get(reviewRef);
+            if (!reviewSnapshot.exists) {
+                throw new functions.https.HttpsError("not-found", "Media review not found");
+            }
+
+            const current = reviewSnapshot.data() || {};
+            if (current.status === "deleted") {
+                throw new functions.https.HttpsError("failed-precondition", "This photo has already been deleted");
+            }
+
+            const parentType = current.parentType as MediaParentType;
+            const parent = MEDIA_PARENTS[parentType];
+            const parentRef = db.collection(parent.collection).doc(current.parentId);
+            const parentSnapshot = await transaction.get(parentRef);
+            const path: string = current.path;
+            const hashSnapshot = action === "delete" ? await transaction.get(imageHashRef(path)) : null;
+            const now = new Date().toISOString();
+
+            if (parentSnapshot.exists) {
+                if (action === "delete") {
+                    transaction.update(parentRef, {
+                        photoPaths: admin.firestore.FieldValue.arrayRemove(path),
+                        blurredPhotoPaths: admin.firestore.FieldValue.arrayRemove(path),
+                    });
+                } else {
+                    transaction.update(parentRef, {
+                        blurredPhotoPaths: action === "blur" ?
+                            admin.firestore.FieldValue.arrayUnion(path) :
+                            admin.firestore.FieldValue.arrayRemove(path),
+                    });
+                }
+            }
+
+            // Re-uploads of a deleted photo are held like photos of removed posts
+            if (hashSnapshot?.exists) {
+                transaction.update(hashSnapshot.ref, { removed: true, removedAt: now });
+            }
+
+            transaction.update(reviewRef, {
+                status: nextStatus,
+                reviewedAt: now,
+                reviewedBy: actor.adminEmail,
+                ...(reason ? { reason } : {}),
+            });
+
+            const authorId: string | null = current.authorId || null;
+            if (action === "delete" && authorId && parentSnapshot.exists) {
+                const message = "A photo was removed from your " +
+                    `${parentType} because it does not follow the community guidelines.` +
+                    (reason ? ` Reason: ${reason}` : "");
+
+                if (parentType === "post") {
+                    transaction.set(db.collection("user_notifications").doc(), {
+                        userId: authorId,
+                        adminId,
+                        type: "photo_removed",
+                        title: "Photo Removed",
+                        message,
+                        relatedPostId: current.parentId,
+                        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+                        isRead: false,
+                    });
+                } else {
+                    transaction.set(db.collection("announcement_notifications").doc(), {
+                        userId: authorId,
+                        adminId,
+                        announcementId: current.parentId,
+                        announcementTitle: parentSnapshot.data()?.title || "",
+                        action: "photo_removed",
+                        title: "Photo Removed",
+                        message,
+                        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+                        isRead: false,
+                    });
+                }
+            }
+
+            transaction.set(moderationLogRef(), buildModerationLog(actor, {
+                action: LOG_ACTION_BY_ACTION[action],
+                targetType: parentType,
+                targetId: current.parentId,
+                targetUserId: parentType === "post" ? authorId : null,
+                beforeStatus: current.status || "pending",
+                afterStatus: nextStatus,
+                reason,
+                relatedIds: [reviewId],
+            }));
+
+            return { path, parentType, parentId: current.parentId as string };
+        });
+
+        // Storage is not transactional, so the object goes once nothing references it
+        let storageDeleted = false;
+        if (action === "delete") {
+            try {
+                await admin.storage().bucket().file(review.path).delete({ ignoreNotFound: true });
+                storageDeleted = true;
+            } catch (error) {
+                functions.logger.error(`Failed to delete Storage object ${review.path}:`, error);
+            }
+        }
+
+        return {
+            success: true,
+            status: nextStatus,
+            ...(action === "delete" ? { storageDeleted } : {}),
+        };
+    } catch (error: any) {
+        functions.logger.error("Error reviewing media:", error);
+
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+
+        throw new functions.https.HttpsError(
+            "internal",
+            `Failed to review media: ${error.message}`
+        );
+    }
+});
@@ -0,0 +1,1237 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { buildModerationLog, getModerationActor, moderationLogRef } from "./moderationLogs";
+import {
+    buildLegacySanctionLadder,
+    DEFAULT_SANCTION_LADDER,
+    evaluateNextSanction,
+    parseSanctionLadder,
+    SanctionStep,
+} from "./businessRules";
+import { buildWarningRecord, warningRef } from "./warnings";
+import {
+    buildRestriction,
+    describeRestriction,
+    getActiveRestriction,
+    getRestoredStatus,
+    RESTRICTION_LABELS,
+    RESTRICTION_TYPES,
+    RestrictionType,
+} from "./restrictions";
+
+type UserModerationAction = "warn" | "suspend" | "unsuspend" | "ban";
+type PostModerationAction = "remove" | "remove_and_warn" | "restore" | "dismiss_reports" | "resolve_reports";
+type Escalation = "none" | "warning" | "restricted" | "suspended" | "banned";
+
+interface ModerateUserRequest {
+    userId: string;
+    action: UserModerationAction;
+    reason?: string;
+    relatedPostId?: string;
+}
+
+interface SetUserRestrictionRequest {
+    userId: string;
+    restriction: RestrictionType;
+    // Days the restriction lasts; null until lifted. Ignored when lifting
+    durationDays?: number | null;
+    lift?: boolean;
+    reason?: string;
+}
+
+interface ModeratePostRequest {
+    postId: string;
+    action: PostModerationAction;
+    reason?: string;
+}
+
+type BulkModerationAction =
+    "remove_posts" | "remove_posts_and_warn" | "warn_authors" | "dismiss_reports" | "resolve_reports";
+
+interface BulkModerateRequest {
+    action: BulkModerationAction;
+    // Post ids for the post actions, report ids for the report actions
+    ids: string[];
+    reason?: string;
+    // Authors already warned by an earlier chunk of the same bulk action
+    skipWarnUserIds?: string[];
+}
+
+interface BulkItemFailure {
+    id: string;
+    error: string;
+}
+
+// Where an item's writes are queued: a batch, or a transaction when the item warns an author
+interface BulkWriter {
+    set(ref: admin.firestore.DocumentReference, data: admin.firestore.DocumentData): unknown;
+    update(ref: admin.firestore.DocumentReference, data: admin.firestore.UpdateData<admin.firestore.DocumentData>): unknown;
+}
+
+// Writes for one item of a bulk action; they always land in the same batch or transaction
+interface BulkItemWrites {
+    id: string;
+    writes: ((writer: BulkWriter) => void)[];
+    // Reads the author inside the item's own transaction and returns the warning's writes,
+    // so each warning builds on the author's latest sanction ladder state
+    warnAuthor?: (transaction: admin.firestore.Transaction) => Promise<((writer: BulkWriter) => void)[]>;
+}
+
+interface ModerationConfig {
+    // Length of a manual suspension; warnings follow the sanction ladder
+    suspendDurationDays: number;
+    sanctionLadder: SanctionStep[];
+}
+
+interface ModeratedUserState {
+    id: string;
+    status: string;
+    warningCount: number;
+    suspendCount: number;
+    suspendedAt: string | null;
+    suspendExpiresAt: string | null;
+    bannedAt: string | null;
+    sanctionLevel: number | null;
+    lastViolationAt: string | null;
+}
+
+interface PlannedUserUpdate {
+    updates: Record<string, unknown>;
+    state: ModeratedUserState;
+    escalation: Escalation;
+    notification?: {
+        title: string;
+        message: string;
+        type: "warning" | "ban" | "info";
+        // "ban" notifications announce suspensions too; appeals read which one it was from here
+        sanctionType?: "suspension" | "ban";
+    };
+}
+
+// The dashboard sends bulk actions in chunks so it can show progress
+const MAX_BULK_IDS = 50;
+// Leaves headroom under Firestore's 500 writes per batch
+const BULK_BATCH_WRITE_LIMIT = 400;
+const MAX_RESTRICTION_DAYS = 365;
+// Sent for every warning that does not come with a posting restriction notice of its own
+const WARNING_NOTICE: NonNullable<PlannedUserUpdate["notification"]> = {
+    type: "warning",
+    title: "Community Guidelines Warning",
+    message: "Content you shared was reviewed by our admin team and does not follow our community " +
+        "guidelines. Repeated violations may lead to temporary restrictions or a permanent ban.",
+};
+
+// Mirrors DEFAULT_CONFIGURATION in the dashboard's lib/firestore/configuration.ts
+const DEFAULT_MODERATION_CONFIG = {
+    suspendThreshold: 5,
+    suspendDurationDays: 30,
+    banAfterSuspendCount: 3,
+};
+
+/**
+ * Reads the escalation settings from admin_configuration/default,
+ * falling back to the legacy banThreshold/banDurationDays field names
+ * Configurations saved before sanctionLadder existed keep their old escalation
+ */
+async function getModerationConfig(
+    transaction?: admin.firestore.Transaction
+): Promise<ModerationConfig> {
+    const configRef = admin.firestore().collection("admin_configuration").doc("default");
+    const configSnapshot = transaction ? await transaction.get(configRef) : await configRef.get();
+
+    if (!configSnapshot.exists) {
+        return {
+            suspendDurationDays: DEFAULT_MODERATION_CONFIG.suspendDurationDays,
+            sanctionLadder: DEFAULT_SANCTION_LADDER,
+        };
+    }
+
+    const data = configSnapshot.data() || {};
+    const suspendDurationDays = data.suspendDurationDays || data.banDurationDays ||
+        DEFAULT_MODERATION_CONFIG.suspendDurationDays;
+
+    return {
+        suspendDurationDays,
+        sanctionLadder: parseSanctionLadder(data.sanctionLadder) || buildLegacySanctionLadder(
+            data.suspendThreshold || data.banThreshold || DEFAULT_MODERATION_CONFIG.suspendThreshold,
+            suspendDurationDays,
+            data.banAfterSuspendCount || DEFAULT_MODERATION_CONFIG.banAfterSuspendCount
+        ),
+    };
+}
+
+/**
+ * Throws unless the caller is signed in with the admin custom claim
+ */
+export async function assertAdmin(context: functions.https.CallableContext, action: string): Promise<string> {
+    if (!context.auth) {
+        throw new functions.https.HttpsError(
+            "unauthenticated",
+            "User must be authenticated"
+        );
+    }
+
+    const callerToken = await admin.auth().getUser(context.auth.uid);
+    const isAdmin = callerToken.customClaims?.admin === true;
+
+    if (!isAdmin) {
+        throw new functions.https.HttpsError(
+            "permission-denied",
+            `Only admins can ${action}`
+        );
+    }
+
+    return context.auth.uid;
+}
+
+function toUserState(userId: string, data: admin.firestore.DocumentData): ModeratedUserState {
+    return {
+        id: userId,
+        status: (data.status || "active").toLowerCase(),
+        warningCount: data.warningCount || 0,
+        suspendCount: data.suspendCount || 0,
+        suspendedAt: data.suspendedAt || null,
+        suspendExpiresAt: data.suspendExpiresAt || null,
+        bannedAt: data.bannedAt || null,
+        sanctionLevel: typeof data.sanctionLevel === "number" ? data.sanctionLevel : null,
+        lastViolationAt: data.lastViolationAt || data.lastWarningDate || null,
+    };
+}
+
+function buildSuspension(
+    state: ModeratedUserState,
+    durationDays: number,
+    reason: string
+): PlannedUserUpdate {
+    const now = new Date();
+    const suspendExpiresAt = new Date(now);
+    suspendExpiresAt.setDate(suspendExpiresAt.getDate() + durationDays);
+
+    const updates = {
+        status: "suspended",
+        suspendedAt: now.toISOString(),
+        suspendExpiresAt: suspendExpiresAt.toISOString(),
+        suspendCount: state.suspendCount + 1,
+        lastStatusUpdate: now.toISOString(),
+    };
+
+    return {
+        updates,
+        state: { ...state, ...updates },
+        escalation: "suspended",
+        notification: {
+            type: "ban",
+            sanctionType: "suspension",
+            title: `Temporary Account Restriction - ${durationDays} days`,
+            message: `Your account has been temporarily restricted for ${durationDays} days ` +
+                `due to: ${reason}. You will not be able to post during this period. ` +
+                "Please review our community guidelines to avoid future restrictions.",
+        },
+    };
+}
+
+function buildBan(state: ModeratedUserState, reason: string): PlannedUserUpdate {
+    const now = new Date().toISOString();
+    const updates = {
+        status: "banned",
+        bannedAt: now,
+        lastStatusUpdate: now,
+    };
+
+    return {
+        updates,
+        state: { ...state, ...updates },
+        escalation: "banned",
+        notification: {
+            type: "ban",
+            sanctionType: "ban",
+            title: "Account Permanently Banned",
+            message: "Your account has been permanently banned due to repeated violations of our " +
+                `community guidelines. Reason: ${reason}. This decision is final and your access ` +
+                "to the platform has been revoked.",
+        },
+    };
+}
+
+/**
+ * Mutes the user from posting without suspending the account; firestore.rules
+ * and createPost reject new posts until restrictions.posting.expiresAt
+ */
+function buildPostingRestriction(
+    state: ModeratedUserState,
+    durationDays: number,
+    reason: string
+): PlannedUserUpdate {
+    const now = new Date();
+    // A suspension already covers posting, so it stays the visible status
+    const status = state.status === "suspended" ? state.status : "warning";
+
+    return {
+        updates: {
+            "restrictions.posting": buildRestriction(durationDays, reason),
+            status,
+            lastStatusUpdate: now.toISOString(),
+        },
+        state: { ...state, status },
+        escalation: "restricted",
+        notification: {
+            type: "warning",
+            title: `Posting Restricted - ${durationDays} days`,
+            message: `You cannot create posts for ${durationDays} days due to: ${reason}. ` +
+                "You can still use the rest of the app. " +
+                "Please review our community guidelines to avoid further restrictions.",
+        },
+    };
+}
+
+/**
+ * Adds one warning to the user and applies the next step of the configured sanction ladder,
+ * the step the dashboard previews with lib/businessRules.ts before an admin confirms
+ * A step no stronger than the sanction in force is skipped: banned users are never moved
+ * down, and a suspension is not restarted or counted again
+ */
+function planWarning(state: ModeratedUserState, config: ModerationConfig): PlannedUserUpdate {
+    const now = new Date().toISOString();
+    const { nextLevel, nextStep } = evaluateNextSanction(config.sanctionLadder, state, new Date(now));
+    const warned: ModeratedUserState = {
+        ...state,
+        warningCount: state.warningCount + 1,
+        sanctionLevel: nextLevel,
+        lastViolationAt: now,
+    };
+    const warningUpdates = {
+        warningCount: warned.warningCount,
+        lastWarningDate: now,
+        sanctionLevel: nextLevel,
+        lastViolationAt: now,
+    };
+    const reason = "Repeated violations of the community guidelines";
+
+    let planned: PlannedUserUpdate;
+
+    if (warned.status === "banned") {
+        planned = { updates: {}, state: warned, escalation: "none" };
+    } else if (nextStep.type === "ban") {
+        planned = buildBan(warned, reason);
+    } else if (warned.status === "suspended") {
+        // A suspension in force outranks every step below a ban
+        planned = { updates: {}, state: warned, escalation: "none" };
+    } else if (nextStep.type === "suspension") {
+        planned = buildSuspension(warned, nextStep.durationDays || config.suspendDurationDays, reason);
+    } else if (nextStep.type === "posting_restriction") {
+        planned = buildPostingRestriction(warned, nextStep.durationDays || 1, reason);
+    } else {
+        planned = {
+            updates: { status: "warning", lastStatusUpdate: now },
+            state: { ...warned, status: "warning" },
+            escalation: "warning",
+        };
+    }
+
+    return {
+        ...planned,
+        updates: { ...warningUpdates, ...planned.updates },
+    };
+}
+
+function planUserAction(
+    action: UserModerationAction,
+    state: ModeratedUserState,
+    config: ModerationConfig,
+    user: admin.firestore.DocumentData,
+    reason?: string
+): PlannedUserUpdate {
+    switch (action) {
+        case "warn":
+            return planWarning(state, config);
+        case "suspend":
+            if (state.status === "banned") {
+                throw new functions.https.HttpsError("failed-precondition", "User is permanently banned");
+            }
+            return buildSuspension(state, config.suspendDurationDays, reason || "Manual suspension by admin");
+        case "unsuspend": {
+            const now = new Date().toISOString();
+            // Keep suspendCount for history, only clear the active suspension window
+            const updates = {
+                status: getRestoredStatus(user),
+                suspendedAt: null,
+                suspendExpiresAt: null,
+                lastStatusUpdate: now,
+            };
+            return { updates, state: { ...state, ...updates }, escalation: "none" };
+        }
+        case "ban":
+            return buildBan(state, reason || "Manual ban by admin");
+        default:
+            throw new functions.https.HttpsError("invalid-argument", `Unknown user action: ${action}`);
+    }
+}
+
+function buildUserNotification(
+    userId: string,
+    adminId: string,
+    planned: PlannedUserUpdate,
+    relatedPostId?: string
+): Record<string, unknown> | null {
+    if (!planned.notification) return null;
+
+    return {
+        userId,
+        adminId,
+        type: planned.notification.type,
+        title: planned.notification.title,
+        message: planned.notification.message,
+        ...(planned.notification.sanctionType ? { sanctionType: planned.notification.sanctionType } : {}),
+        ...(relatedPostId ? { relatedPostId } : {}),
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        isRead: false,
+    };
+}
+
+/**
+ * Writes a warning's users/{userId}/warnings record and its notices: a "warning" notice
+ * carrying the record's id as warningId, which an appeal against it reverses, and the
+ * suspension or ban notice when the warning escalated to one
+ */
+function writeWarning(
+    writer: BulkWriter,
+    userId: string,
+    adminId: string,
+    actor: ReturnType<typeof getModerationActor>,
+    planned: PlannedUserUpdate,
+    details: {
+        reason?: string | null;
+        post?: { id: string; content?: string; reportCount?: number } | null;
+        relatedPostId?: string;
+    }
+): void {
+    const record = warningRef(userId);
+    const notifications = admin.firestore().collection("user_notifications");
+    // A posting restriction's notice doubles as the warning notice
+    const restrictionNotice = planned.notification?.type === "warning" ? planned.notification : null;
+    const warningNotice = buildUserNotification(userId, adminId, {
+        ...planned,
+        notification: restrictionNotice || WARNING_NOTICE,
+    }, details.relatedPostId);
+    const escalationNotification = planned.notification && !restrictionNotice ?
+        buildUserNotification(userId, adminId, planned, details.relatedPostId) :
+        null;
+
+    writer.set(record, buildWarningRecord(userId, actor, {
+        reason: details.reason,
+        post: details.post,
+        escalation: planned.escalation,
+    }));
+    writer.set(notifications.doc(), { ...warningNotice, warningId: record.id });
+    if (escalationNotification) {
+        writer.set(notifications.doc(), escalationNotification);
+    }
+}
+
+function queueUserNotification(
+    transaction: admin.firestore.Transaction,
+    userId: string,
+    adminId: string,
+    planned: PlannedUserUpdate,
+    relatedPostId?: string
+): void {
+    const notification = buildUserNotification(userId, adminId, planned, relatedPostId);
+    if (!notification) return;
+
+    transaction.set(admin.firestore().collection("user_notifications").doc(), notification);
+}
+
+/**
+ * Fetches the pending reports for the given posts, inside a transaction when one is given,
+ * chunked to stay within the "in" query limit
+ */
+async function getPendingReportsForPosts(
+    transaction: admin.firestore.Transaction | undefined,
+    postIds: string[]
+): Promise<admin.firestore.QueryDocumentSnapshot[]> {
+    const reports: admin.firestore.QueryDocumentSnapshot[] = [];
+    const batchSize = 10;
+
+    for (let i = 0; i < postIds.length; i += batchSize) {
+        const reportsQuery = admin.firestore()
+            .collection("reports")
+            .where("postId", "in", postIds.slice(i, i + batchSize))
+            .where("status", "==", "pending");
+        const snapshot = transaction ? await transaction.get(reportsQuery) : await reportsQuery.get();
+        reports.push(...snapshot.docs);
+    }
+
+    return reports;
+}
+
+/**
+ * Marks a warned user's posts as warned and resolves their pending reports in chunked
+ * batches; a prolific user's posts and reports would not fit in one transaction
+ */
+async function markUserPostsWarned(
+    userId: string
+): Promise<{ warnedPostIds: string[]; resolvedReportIds: string[]; failed: BulkItemFailure[] }> {
+    const postsSnapshot = await admin.firestore().collection("posts").where("userId", "==", userId).get();
+    const reportDocs = await getPendingReportsForPosts(undefined, postsSnapshot.docs.map((doc) => doc.id));
+    const now = new Date().toISOString();
+
+    const posts = await commitBulkItems(postsSnapshot.docs.map((doc) => ({
+        id: doc.id,
+        writes: [(batch) => batch.update(doc.ref, { isWarned: true, lastUpdated: now })],
+    })));
+    const reports = await commitBulkItems(reportDocs.map((doc) => ({
+        id: doc.id,
+        writes: [(batch) => batch.update(doc.ref, { status: "resolved", updatedAt: now })],
+    })));
+
+    return {
+        warnedPostIds: posts.succeeded,
+        resolvedReportIds: reports.succeeded,
+        failed: [...posts.failed, ...reports.failed],
+    };
+}
+
+/**
+ * Warns, suspends, unsuspends or bans a user in a single transaction
+ * Warnings then mark the user's posts as warned and resolve their pending reports
+ */
+export const moderateUser = functions.https.onCall(async (data: ModerateUserRequest, context) => {
+    try {
+        const adminId = await assertAdmin(context, "moderate users");
+        const actor = getModerationActor(context);
+        const { userId, action, reason, relatedPostId } = data;
+
+        if (!userId || !action) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "userId and action are required"
+            );
+        }
+
+        functions.logger.info(`Moderating user ${userId}: ${action}`, { adminId });
+
+        const db = admin.firestore();
+        const userRef = db.collection("users").doc(userId);
+
+        const result = await db.runTransaction(async (transaction) => {
+            // Reads first: Firestore transactions require all reads before any write
+            const userSnapshot = await transaction.get(userRef);
+            if (!userSnapshot.exists) {
+                throw new functions.https.HttpsError("not-found", "User not found");
+            }
+
+            const config = await getModerationConfig(transaction);
+            const state = toUserState(userId, userSnapshot.data() || {});
+
+            const relatedPost = action === "warn" && relatedPostId ?
+                await transaction.get(db.collection("posts").doc(relatedPostId)) :
+                null;
+
+            const planned = planUserAction(action, state, config, userSnapshot.data() || {}, reason);
+
+            if (Object.keys(planned.updates).length > 0) {
+                transaction.update(userRef, planned.updates);
+            }
+
+            if (action === "warn") {
+                writeWarning(transaction, userId, adminId, actor, planned, {
+                    reason,
+                    post: relatedPost?.exists && relatedPost.data()?.userId === userId ?
+                        {
+                            id: relatedPost.id,
+                            content: relatedPost.data()?.content,
+                            reportCount: relatedPost.data()?.reportCount,
+                        } :
+                        null,
+                    relatedPostId,
+                });
+            } else {
+                queueUserNotification(transaction, userId, adminId, planned, relatedPostId);
+            }
+
+            transaction.set(moderationLogRef(), buildModerationLog(actor, {
+                action,
+                targetType: "user",
+                targetId: userId,
+                targetUserId: userId,
+                beforeStatus: state.status,
+                afterStatus: planned.state.status,
+                reason,
+                relatedIds: relatedPostId ? [relatedPostId] : [],
+            }));
+
+            return {
+                user: planned.state,
+                escalation: planned.escalation,
+            };
+        });
+
+        const warnedPosts = action === "warn" ?
+            await markUserPostsWarned(userId) :
+            { warnedPostIds: [], resolvedReportIds: [], failed: [] };
+
+        if (warnedPosts.failed.length > 0) {
+            functions.logger.warn(`Could not update ${warnedPosts.failed.length} posts/reports of warned user ${userId}`, {
+                failed: warnedPosts.failed,
+            });
+        }
+
+        functions.logger.info(`User ${userId} moderated: ${action}`, {
+            status: result.user.status,
+            escalation: result.escalation,
+        });
+
+        return {
+            success: true,
+            ...result,
+            warnedPostIds: warnedPosts.warnedPostIds,
+            resolvedReportIds: warnedPosts.resolvedReportIds,
+            failed: warnedPosts.failed,
+        };
+    } catch (error: any) {
+        functions.logger.error("Error moderating user:", error);
+
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+
+        throw new functions.https.HttpsError(
+            "internal",
+            `Failed to moderate user: ${error.message}`
+        );
+    }
+});
+
+/**
+ * Applies or lifts one partial restriction (posting, reporting or AR captures) without
+ * changing the account status; firestore.rules enforce it until it expires
+ */
+export const setUserRestriction = functions.https.onCall(async (data: SetUserRestrictionRequest, context) => {
+    try {
+        const adminId = await assertAdmin(context, "restrict users");
+        const actor = getModerationActor(context);
+        const { userId, restriction, lift = false } = data;
+        const durationDays = data.durationDays ?? null;
+        const reason = data.reason?.trim() || "Community guidelines violation";
+
+        if (!userId || !RESTRICTION_TYPES.includes(restriction)) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                `userId and a restriction of ${RESTRICTION_TYPES.join(", ")} are required`
+            );
+        }
+
+        if (!lift && durationDays !== null &&
+            (!Number.isInteger(durationDays) || durationDays < 1 || durationDays > MAX_RESTRICTION_DAYS)) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                `durationDays must be a whole number between 1 and ${MAX_RESTRICTION_DAYS}, or null`
+            );
+        }
+
+        functions.logger.info(`${lift ? "Lifting" : "Applying"} ${restriction} restriction of ${userId}`, { adminId });
+
+        const db = admin.firestore();
+        const userRef = db.collection("users").doc(userId);
+
+        const result = await db.runTransaction(async (transaction) => {
+            const userSnapshot = await transaction.get(userRef);
+            if (!userSnapshot.exists) {
+                throw new functions.https.HttpsError("not-found", "User not found");
+            }
+
+            const previous = getActiveRestriction(userSnapshot.data(), restriction);
+            if (lift && !previous) {
+                throw new functions.https.HttpsError(
+                    "failed-precondition",
+                    `This user has no active ${RESTRICTION_LABELS[restriction].toLowerCase()} restriction`
+                );
+            }
+
+            const next = lift ? null : buildRestriction(durationDays, reason);
+            const label = RESTRICTION_LABELS[restriction];
+            const until = next?.expiresAt ?
+                `until ${next.expiresAt.toDate().toDateString()}` :
+                "until an admin lifts it";
+
+            transaction.update(userRef, {
+                [`restrictions.${restriction}`]: next ?? admin.firestore.FieldValue.delete(),
+                lastStatusUpdate: new Date().toISOString(),
+            });
+
+            transaction.set(db.collection("user_notifications").doc(), {
+                userId,
+                adminId,
+                type: lift ? "info" : "warning",
+                title: lift ? `${label} Restriction Lifted` : `${label} Restricted`,
+                message: lift ?
+                    `Your ${label.toLowerCase()} restriction has been lifted.` :
+                    `${label} has been restricted on your account ${until} due to: ${reason}. ` +
+                    "You can still use the rest of the app.",
+                createdAt: admin.firestore.FieldValue.serverTimestamp(),
+                isRead: false,
+            });
+
+            transaction.set(moderationLogRef(), buildModerationLog(actor, {
+                action: lift ? "lift_restriction" : "restrict",
+                targetType: "user",
+                targetId: userId,
+                targetUserId: userId,
+                beforeStatus: describeRestriction(restriction, previous),
+                afterStatus: describeRestriction(restriction, next),
+                reason: data.reason?.trim() || null,
+            }));
+
+            return {
+                restriction,
+                expiresAt: next?.expiresAt ? next.expiresAt.toDate().toISOString() : null,
+                active: !!next,
+            };
+        });
+
+        return {
+            success: true,
+            ...result,
+        };
+    } catch (error: any) {
+        functions.logger.error("Error setting user restriction:", error);
+
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+
+        throw new functions.https.HttpsError(
+            "internal",
+            `Failed to set user restriction: ${error.message}`
+        );
+    }
+});
+
+/**
+ * Removes or restores a post and/or settles its reports in a single transaction
+ * "remove_and_warn" also warns the author with the configured escalation,
+ * "restore" brings back a post hidden for review or removed and dismisses its reports,
+ * including the ones that auto-removed it, and retracts the "Post Removed" notice
+ */
+export const moderatePost = functions.https.onCall(async (data: ModeratePostRequest, context) => {
+    try {
+        const adminId = await assertAdmin(context, "moderate posts");
+        const actor = getModerationActor(context);
+        const { postId, action, reason } = data;
+
+        if (!postId || !action) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                "postId and action are required"
+            );
+        }
+
+        if (!["remove", "remove_and_warn", "restore", "dismiss_reports", "resolve_reports"].includes(action)) {
+            throw new functions.https.HttpsError("invalid-argument", `Unknown post action: ${action}`);
+        }
+
+        functions.logger.info(`Moderating post ${postId}: ${action}`, { adminId });
+
+        const db = admin.firestore();
+        const postRef = db.collection("posts").doc(postId);
+
+        const result = await db.runTransaction(async (transaction) => {
+            const postSnapshot = await transaction.get(postRef);
+            if (!postSnapshot.exists) {
+                throw new functions.https.HttpsError("not-found", "Post not found");
+            }
+
+            const post = postSnapshot.data() || {};
+            const postStatus = post.status || "active";
+            const restoresPost = action === "restore";
+
+            if (restoresPost && postStatus !== "under_review" && postStatus !== "removed") {
+                throw new functions.https.HttpsError(
+                    "failed-precondition",
+                    `Only posts under review or removed can be restored (status: ${postStatus})`
+                );
+            }
+
+            const reportDocs = await getPendingReportsForPosts(transaction, [postId]);
+
+            // A decision on a held post settles its "hidden for review" notification
+            const reviewNotifications = postStatus === "under_review" ?
+                await transaction.get(
+                    db.collection("admin_notifications")
+                        .where("postId", "==", postId)
+                        .where("type", "==", "post_under_review")
+                        .where("isRead", "==", false)
+                ) :
+                null;
+
+            const authorId: string | undefined = post.userId;
+            const authorRef = authorId ? db.collection("users").doc(authorId) : null;
+
+            // Undoing a removal also takes back the reports that triggered an auto-removal
+            // and the "Post Removed" notice the author was sent for it
+            const restoresRemoval = restoresPost && postStatus === "removed";
+            const autoRemovedReports = restoresRemoval ?
+                await transaction.get(
+                    db.collection("reports")
+                        .where("postId", "==", postId)
+                        .where("autoRemoved", "==", true)
+                        .where("status", "==", "resolved")
+                ) :
+                null;
+            const removalNotices = restoresRemoval && authorId ?
+                (await transaction.get(
+                    db.collection("user_notifications")
+                        .where("userId", "==", authorId)
+                        .where("type", "==", "post_removed")
+                )).docs.filter((doc) =>
+                    doc.data().relatedPostId === postId || doc.data().data?.postId === postId
+                ) :
+                [];
+            let authorSnapshot: admin.firestore.DocumentSnapshot | null = null;
+            let config: ModerationConfig | null = null;
+            if (action === "remove_and_warn" && authorRef) {
+                authorSnapshot = await transaction.get(authorRef);
+                config = await getModerationConfig(transaction);
+            }
+
+            const now = new Date().toISOString();
+            const removesPost = action === "remove" || action === "remove_and_warn";
+            const reportStatus = action === "dismiss_reports" || restoresPost ? "dismissed" : "resolved";
+
+            if (removesPost) {
+                transaction.update(postRef, {
+                    status: "removed",
+                    ...(action === "remove_and_warn" ? { isWarned: true } : {}),
+                    ...(reason ? { removedReason: reason } : {}),
+                    removedAt: now,
+                    lastUpdated: now,
+                });
+            } else if (restoresPost) {
+                transaction.update(postRef, {
+                    status: "active",
+                    heldAt: null,
+                    heldReason: null,
+                    removedAt: null,
+                    removedReason: null,
+                    restoredAt: now,
+                    lastUpdated: now,
+                });
+            }
+
+            if (removesPost || restoresPost) {
+                reviewNotifications?.docs.forEach((doc) => {
+                    transaction.update(doc.ref, { isRead: true, readAt: now });
+                });
+            }
+
+            reportDocs.forEach((doc) => {
+                transaction.update(doc.ref, { status: reportStatus, updatedAt: now });
+            });
+
+            autoRemovedReports?.docs.forEach((doc) => {
+                transaction.update(doc.ref, { status: "dismissed", updatedAt: now });
+            });
+
+            if (restoresRemoval && authorId) {
+                removalNotices.forEach((doc) => {
+                    transaction.update(doc.ref, { retracted: true, retractedAt: now });
+                });
+
+                transaction.set(db.collection("user_notifications").doc(), {
+                    userId: authorId,
+                    adminId,
+                    type: "info",
+                    title: "Post Restored",
+                    message: "Your post has been reviewed and restored. " +
+                        "The earlier removal notice no longer applies.",
+                    relatedPostId: postId,
+                    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+                    isRead: false,
+                });
+            }
+
+            let author: ModeratedUserState | null = null;
+            let escalation: Escalation = "none";
+            if (authorRef && authorSnapshot?.exists && config) {
+                const authorState = toUserState(authorRef.id, authorSnapshot.data() || {});
+                const planned = planWarning(authorState, config);
+                transaction.update(authorRef, planned.updates);
+                writeWarning(transaction, authorRef.id, adminId, actor, planned, {
+                    reason,
+                    post: { id: postId, content: post.content, reportCount: post.reportCount },
+                    relatedPostId: postId,
+                });
+                author = planned.state;
+                escalation = planned.escalation;
+
+                transaction.set(moderationLogRef(), buildModerationLog(actor, {
+                    action: "warn",
+                    targetType: "user",
+                    targetId: authorRef.id,
+                    targetUserId: authorRef.id,
+                    beforeStatus: authorState.status,
+                    afterStatus: planned.state.status,
+                    reason,
+                    relatedIds: [postId],
+                }));
+            }
+
+            const reportIds = [
+                ...reportDocs.map((doc) => doc.id),
+                ...(autoRemovedReports?.docs.map((doc) => doc.id) || []),
+            ];
+            const nextPostStatus = removesPost ? "removed" : restoresPost ? "active" : postStatus;
+            const changesPost = removesPost || restoresPost;
+
+            // Removals and restores record the post status change,
+            // report-only actions the report status change
+            transaction.set(moderationLogRef(), buildModerationLog(actor, {
+                action: removesPost ? "remove_post" :
+                    restoresPost ? "restore_post" :
+                        action as "dismiss_reports" | "resolve_reports",
+                targetType: "post",
+                targetId: postId,
+                targetUserId: authorId || null,
+                beforeStatus: changesPost ? postStatus : "pending",
+                afterStatus: changesPost ? nextPostStatus : reportStatus,
+                reason,
+                relatedIds: reportIds,
+            }));
+
+            return {
+                post: {
+                    id: postId,
+                    status: nextPostStatus,
+                    isWarned: action === "remove_and_warn" ? true : post.isWarned || false,
+                },
+                reportStatus,
+                resolvedReportIds: reportIds,
+                author,
+                escalation,
+            };
+        });
+
+        functions.logger.info(`Post ${postId} moderated: ${action}`, {
+            reports: result.resolvedReportIds.length,
+            escalation: result.escalation,
+        });
+
+        return {
+            success: true,
+            ...result,
+        };
+    } catch (error: any) {
+        functions.logger.error("Error moderating post:", error);
+
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+
+        throw new functions.https.HttpsError(
+            "internal",
+            `Failed to moderate post: ${error.message}`
+        );
+    }
+});
+
+/**
+ * Commits the items' writes in as few batches as possible without splitting an item
+ * across batches, so a failed commit only fails the items in that batch
+ * Items that warn an author are committed in their own transaction instead
+ */
+async function commitBulkItems(
+    items: BulkItemWrites[]
+): Promise<{ succeeded: string[]; failed: BulkItemFailure[] }> {
+    const db = admin.firestore();
+    const succeeded: string[] = [];
+    const failed: BulkItemFailure[] = [];
+    let batch = db.batch();
+    let batchItems: string[] = [];
+    let operations = 0;
+
+    const commit = async () => {
+        if (batchItems.length === 0) return;
+        try {
+            await batch.commit();
+            succeeded.push(...batchItems);
+        } catch (error: any) {
+            failed.push(...batchItems.map((id) => ({ id, error: error.message || "Write failed" })));
+        }
+        batch = db.batch();
+        batchItems = [];
+        operations = 0;
+    };
+
+    for (const item of items) {
+        const warnAuthor = item.warnAuthor;
+        if (warnAuthor) {
+            try {
+                await db.runTransaction(async (transaction) => {
+                    const warningWrites = await warnAuthor(transaction);
+                    [...item.writes, ...warningWrites].forEach((write) => write(transaction));
+                });
+                succeeded.push(item.id);
+            } catch (error: any) {
+                failed.push({ id: item.id, error: error.message || "Write failed" });
+            }
+            continue;
+        }
+
+        if (operations + item.writes.length > BULK_BATCH_WRITE_LIMIT) {
+            await commit();
+        }
+        const currentBatch = batch;
+        item.writes.forEach((write) => write(currentBatch));
+        batchItems.push(item.id);
+        operations += item.writes.length;
+    }
+    await commit();
+
+    return { succeeded, failed };
+}
+
+/**
+ * Plans removing the given posts and resolving their pending reports, warning each
+ * author once for "remove_posts_and_warn", or only warning them for "warn_authors"
+ */
+async function planBulkPostAction(
+    request: BulkModerateRequest,
+    adminId: string,
+    actor: ReturnType<typeof getModerationActor>
+): Promise<{ items: BulkItemWrites[]; failed: BulkItemFailure[]; warnedAuthors: Map<string, string> }> {
+    const db = admin.firestore();
+    const remove = request.action !== "warn_authors";
+    const warn = request.action !== "remove_posts";
+    const postSnapshots = await db.getAll(...request.ids.map((id) => db.collection("posts").doc(id)));
+    const failed: BulkItemFailure[] = [];
+    const posts = postSnapshots.filter((snapshot) => {
+        if (!snapshot.exists) {
+            failed.push({ id: snapshot.id, error: "Post not found" });
+            return false;
+        }
+        if (remove && snapshot.data()?.status === "removed") {
+            failed.push({ id: snapshot.id, error: "Post is already removed" });
+            return false;
+        }
+        if (!remove && !snapshot.data()?.userId) {
+            failed.push({ id: snapshot.id, error: "Post has no author" });
+            return false;
+        }
+        return true;
+    });
+
+    const reportDocs = remove ?
+        await getPendingReportsForPosts(undefined, posts.map((snapshot) => snapshot.id)) :
+        [];
+    const reviewNotifications = await Promise.all(posts.map((snapshot) =>
+        remove && snapshot.data()?.status === "under_review" ?
+            db.collection("admin_notifications")
+                .where("postId", "==", snapshot.id)
+                .where("type", "==", "post_under_review")
+                .where("isRead", "==", false)
+                .get()
+                .then((result) => result.docs) :
+            Promise.resolve([])
+    ));
+
+    // Each author is warned once, with the post that comes first in the request
+    const skipWarn = new Set(request.skipWarnUserIds || []);
+    const authorIds = warn ?
+        [...new Set(posts.map((snapshot) => snapshot.data()?.userId).filter((id): id is string => !!id))]
+            .filter((id) => !skipWarn.has(id)) :
+        [];
+    // Authors without a user document are not warned; the rest are read again when warned
+    const authorSnapshots = authorIds.length > 0 ?
+        await db.getAll(...authorIds.map((id) => db.collection("users").doc(id))) :
+        [];
+    const authorsToWarn = new Set(authorSnapshots
+        .filter((snapshot) => snapshot.exists)
+        .map((snapshot) => snapshot.id));
+
+    // Post id -> the author warned along with it
+    const warnedAuthors = new Map<string, string>();
+    const now = new Date().toISOString();
+    const items = posts.map((snapshot, index): BulkItemWrites => {
+        const post = snapshot.data() || {};
+        const postStatus = post.status || "active";
+        const authorId: string | undefined = post.userId;
+        const postReports = reportDocs.filter((doc) => doc.data().postId === snapshot.id);
+        const writes: BulkItemWrites["writes"] = remove ?
+            [
+                (writer) => writer.update(snapshot.ref, {
+                    status: "removed",
+                    ...(warn ? { isWarned: true } : {}),
+                    ...(request.reason ? { removedReason: request.reason } : {}),
+                    removedAt: now,
+                    lastUpdated: now,
+                }),
+                ...reviewNotifications[index].map((doc) =>
+                    (writer: BulkWriter) => writer.update(doc.ref, { isRead: true, readAt: now })
+                ),
+                ...postReports.map((doc) =>
+                    (writer: BulkWriter) => writer.update(doc.ref, { status: "resolved", updatedAt: now })
+                ),
+                (writer) => writer.set(moderationLogRef(), buildModerationLog(actor, {
+                    action: "remove_post",
+                    targetType: "post",
+                    targetId: snapshot.id,
+                    targetUserId: authorId || null,
+                    beforeStatus: postStatus,
+                    afterStatus: "removed",
+                    reason: request.reason,
+                    relatedIds: postReports.map((doc) => doc.id),
+                })),
+            ] :
+            [(writer) => writer.update(snapshot.ref, { isWarned: true, lastUpdated: now })];
+
+        if (!authorId || !authorsToWarn.has(authorId)) {
+            return { id: snapshot.id, writes };
+        }
+
+        authorsToWarn.delete(authorId);
+        warnedAuthors.set(snapshot.id, authorId);
+        const warnAuthor = async (transaction: admin.firestore.Transaction) => {
+            const authorSnapshot = await transaction.get(db.collection("users").doc(authorId));
+            if (!authorSnapshot.exists) {
+                throw new Error("Author not found");
+            }
+            const config = await getModerationConfig(transaction);
+            const authorState = toUserState(authorId, authorSnapshot.data() || {});
+            const planned = planWarning(authorState, config);
+
+            return [
+                (writer: BulkWriter) => writer.update(authorSnapshot.ref, planned.updates),
+                (writer: BulkWriter) => writeWarning(writer, authorId, adminId, actor, planned, {
+                    reason: request.reason,
+                    post: { id: snapshot.id, content: post.content, reportCount: post.reportCount },
+                    relatedPostId: snapshot.id,
+                }),
+                (writer: BulkWriter) => writer.set(moderationLogRef(), buildModerationLog(actor, {
+                    action: "warn",
+                    targetType: "user",
+                    targetId: authorId,
+                    targetUserId: authorId,
+                    beforeStatus: authorState.status,
+                    afterStatus: planned.state.status,
+                    reason: request.reason,
+                    relatedIds: [snapshot.id],
+                })),
+            ];
+        };
+
+        return { id: snapshot.id, writes, warnAuthor };
+    });
+
+    return { items, failed, warnedAuthors };
+}
+
+/**
+ * Plans dismissing or resolving the given pending reports one by one
+ */
+async function planBulkReportDecision(
+    request: BulkModerateRequest,
+    actor: ReturnType<typeof getModerationActor>
+): Promise<{ items: BulkItemWrites[]; failed: BulkItemFailure[] }> {
+    const db = admin.firestore();
+    const status = request.action === "dismiss_reports" ? "dismissed" : "resolved";
+    const reportSnapshots = await db.getAll(...request.ids.map((id) => db.collection("reports").doc(id)));
+    const failed: BulkItemFailure[] = [];
+    const now = new Date().toISOString();
+
+    const items = reportSnapshots
+        .filter((snapshot) => {
+            if (!snapshot.exists) {
+                failed.push({ id: snapshot.id, error: "Report not found" });
+                return false;
+            }
+            if ((snapshot.data()?.status || "pending") !== "pending") {
+                failed.push({ id: snapshot.id, error: `Report is already ${snapshot.data()?.status}` });
+                return false;
+            }
+            return true;
+        })
+        .map((snapshot): BulkItemWrites => {
+            const report = snapshot.data() || {};
+            return {
+                id: snapshot.id,
+                writes: [
+                    (writer) => writer.update(snapshot.ref, { status, updatedAt: now }),
+                    (writer) => writer.set(moderationLogRef(), buildModerationLog(actor, {
+                        action: status === "dismissed" ? "dismiss_report" : "resolve_report",
+                        targetType: "report",
+                        targetId: snapshot.id,
+                        targetUserId: report.reported?.id || null,
+                        beforeStatus: "pending",
+                        afterStatus: status,
+                        reason: request.reason,
+                        relatedIds: report.postId ? [report.postId] : [],
+                    })),
+                ],
+            };
+        });
+
+    return { items, failed };
+}
+
+/**
+ * Removes posts (optionally warning their authors), warns post authors, or
+ * dismisses/resolves reports in bulk
+ * Writes are committed as batches rather than one transaction, so each item
+ * succeeds or fails on its own and the result lists the failures
+ */
+export const bulkModerate = functions.https.onCall(async (data: BulkModerateRequest, context) => {
+    try {
+        const adminId = await assertAdmin(context, "run bulk moderation");
+        const actor = getModerationActor(context);
+        const ids = [...new Set(Array.isArray(data?.ids) ? data.ids : [])];
+
+        const postActions: BulkModerationAction[] = ["remove_posts", "remove_posts_and_warn", "warn_authors"];
+        if (![...postActions, "dismiss_reports", "resolve_reports"].includes(data?.action)) {
+            throw new functions.https.HttpsError("invalid-argument", `Unknown bulk action: ${data?.action}`);
+        }
+
+        if (ids.length === 0 || ids.length > MAX_BULK_IDS) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                `Between 1 and ${MAX_BULK_IDS} ids are required per request`
+            );
+        }
+
+        functions.logger.info(`Bulk moderation: ${data.action} on ${ids.length} item(s)`, { adminId });
+
+        const request = { ...data, ids };
+        const planned = postActions.includes(data.action) ?
+            await planBulkPostAction(request, adminId, actor) :
+            { ...(await planBulkReportDecision(request, actor)), warnedAuthors: new Map<string, string>() };
+
+        const committed = await commitBulkItems(planned.items);
+        const failed = [...planned.failed, ...committed.failed];
+        // Only warnings committed with their post count, so a retry can warn the rest
+        const warnedUserIds = committed.succeeded
+            .map((id) => planned.warnedAuthors.get(id))
+            .filter((id): id is string => !!id);
+
+        functions.logger.info(`Bulk moderation ${data.action} finished`, {
+            succeeded: committed.succeeded.length,
+            failed: failed.length,
+        });
+
+        return {
+            success: true,
+            succeeded: committed.succeeded,
+            failed,
+            warnedUserIds,
+        };
+    } catch (error: any) {
+        functions.logger.error("Error running bulk moderation:", error);
+
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+
+        throw new functions.https.HttpsError(
+            "internal",
+            `Failed to run bulk moderation: ${error.message}`
+        );
+    }
+});
@@ -0,0 +1,92 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+
+export const MODERATION_LOGS_COLLECTION = "moderation_logs";
+
+export type ModerationLogAction =
+    | "warn"
+    | "expire_warnings"
+    | "suspend"
+    | "unsuspend"
+    | "ban"
+    | "lift_suspension"
+    | "restrict"
+    | "lift_restriction"
+    | "remove_post"
+    | "hold_post"
+    | "restore_post"
+    | "dismiss_reports"
+    | "resolve_reports"
+    | "dismiss_report"
+    | "resolve_report"
+    | "approve_announcement"
+    | "decline_announcement"
+    | "activate_announcer"
+    | "deactivate_announcer"
+    | "grant_appeal"
+    | "deny_appeal"
+    | "set_post_limit"
+    | "approve_photo"
+    | "blur_photo"
+    | "delete_photo";
+
+export type ModerationLogTargetType = "user" | "post" | "report" | "announcement" | "announcer" | "appeal";
+
+export interface ModerationActor {
+    adminId: string;
+    adminEmail: string;
+}
+
+export interface ModerationLogEntry {
+    action: ModerationLogAction;
+    targetType: ModerationLogTargetType;
+    targetId: string;
+    // The app user affected by the action, used for the per-user history
+    targetUserId?: string | null;
+    beforeStatus: string | null;
+    afterStatus: string | null;
+    reason?: string | null;
+    relatedIds?: string[];
+}
+
+/** Actor recorded for actions taken by scheduled functions */
+export const SYSTEM_ACTOR: ModerationActor = {
+    adminId: "system",
+    adminEmail: "system",
+};
+
+/**
+ * Resolves the admin recorded as the actor of a callable request
+ */
+export function getModerationActor(context: functions.https.CallableContext): ModerationActor {
+    return {
+        adminId: context.auth?.uid || "unknown",
+        adminEmail: (context.auth?.token.email as string | undefined) || "unknown",
+    };
+}
+
+/**
+ * Returns a new document reference in the moderation_logs collection
+ * so the entry can be written inside the caller's transaction or batch
+ */
+export function moderationLogRef(): admin.firestore.DocumentReference {
+    return admin.firestore().collection(MODERATION_LOGS_COLLECTION).doc();
+}
+
+/**
+ * Builds a moderation_logs document for the given actor and entry
+ */
+export function buildModerationLog(actor: ModerationActor, entry: ModerationLogEntry) {
+    return {
+        ...actor,
+        action: entry.action,
+        targetType: entry.targetType,
+        targetId: entry.targetId,
+        targetUserId: entry.targetUserId ?? null,
+        beforeStatus: entry.beforeStatus,
+        afterStatus: entry.afterStatus,
+        reason: entry.reason ?? null,
+        relatedIds: entry.relatedIds ?? [],
+        timestamp: new Date().toISOString(),
+    };
+}
@@ -8,7 +8,7 @@ interface UserNotification {
   message: string;
   relatedPostId?: string;
   title: string;
-  type: "warning" | "ban" | "info" | "announcement";
+  type: "warning" | "ban" | "info" | "announcement" | "photo_removed";
   userId: string;
 }
 
@@ -23,7 +23,7 @@ interface AnnouncementNotification {
   adminId: string;
   announcementId: string;
   announcementTitle: string;
-  action: "approved" | "declined";
+  action: "approved" | "declined" | "photo_removed";
   createdAt: admin.firestore.Timestamp;
   isRead: boolean;
   message: string;
@@ -0,0 +1,121 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+
+// Leaves headroom under Firestore's 500 writes per batch
+const BATCH_LIMIT = 400;
+// Mirrors DEFAULT_CONFIGURATION.postVisibilityDuration in the dashboard's lib/firestore/configuration.ts
+const DEFAULT_VISIBILITY_HOURS = 24;
+// Posts whose expiry is still ahead of them; held posts expire once restored
+const PENDING_EXPIRY_STATUSES = ["active", "under_review"];
+
+function toVisibilityHours(data: admin.firestore.DocumentData | undefined): number {
+    return data?.postVisibilityDuration || DEFAULT_VISIBILITY_HOURS;
+}
+
+async function getVisibilityHours(): Promise<number> {
+    const configSnapshot = await admin.firestore().collection("admin_configuration").doc("default").get();
+    return toVisibilityHours(configSnapshot.data());
+}
+
+/**
+ * expiresAt is the post date plus the visibility duration, stored as a Timestamp like the post date
+ */
+function computeExpiresAt(
+    post: admin.firestore.DocumentData,
+    createTime: admin.firestore.Timestamp | undefined,
+    visibilityHours: number
+): admin.firestore.Timestamp {
+    const postedAt: admin.firestore.Timestamp = post.date?.toMillis ? post.date : createTime || admin.firestore.Timestamp.now();
+    return admin.firestore.Timestamp.fromMillis(postedAt.toMillis() + visibilityHours * 60 * 60 * 1000);
+}
+
+/**
+ * Cloud Function: Store when a new post expires
+ * Triggers when a new post is created
+ */
+export const setPostExpiry = functions.firestore
+    .document("posts/{postId}")
+    .onCreate(async (snapshot, context) => {
+        const expiresAt = computeExpiresAt(snapshot.data(), snapshot.createTime, await getVisibilityHours());
+
+        await snapshot.ref.update({ expiresAt });
+
+        functions.logger.info(`Post ${context.params.postId} expires at ${expiresAt.toDate().toISOString()}`);
+    });
+
+/**
+ * Scheduled function that runs every 15 minutes to move active posts
+ * past their expiresAt to "expired"
+ */
+export const expirePosts = functions.pubsub
+    .schedule("every 15 minutes")
+    .timeZone("Asia/Bangkok") // Adjust to your timezone if needed
+    .onRun(async () => {
+        try {
+            const db = admin.firestore();
+            const now = new Date().toISOString();
+            const expiredQuery = await db.collection("posts")
+                .where("status", "==", "active")
+                .where("expiresAt", "<=", admin.firestore.Timestamp.now())
+                .get();
+
+            if (expiredQuery.empty) {
+                functions.logger.info("No posts to expire");
+                return null;
+            }
+
+            for (let i = 0; i < expiredQuery.docs.length; i += BATCH_LIMIT) {
+                const batch = db.batch();
+                expiredQuery.docs.slice(i, i + BATCH_LIMIT).forEach((doc) => {
+                    batch.update(doc.ref, {
+                        status: "expired",
+                        expiredAt: now,
+                        lastUpdated: now,
+                    });
+                });
+                await batch.commit();
+            }
+
+            functions.logger.info(`Expired ${expiredQuery.size} post(s)`);
+            return null;
+        } catch (error) {
+            functions.logger.error("Error expiring posts:", error);
+            return null;
+        }
+    });
+
+/**
+ * Cloud Function: Recompute pending expiries when the visibility duration changes
+ * Posts that are not yet expired get an expiresAt based on the new duration;
+ * ones already past it expire on the next scheduled run
+ */
+export const recomputePostExpiries = functions.firestore
+    .document("admin_configuration/default")
+    .onUpdate(async (change) => {
+        const before = toVisibilityHours(change.before.data());
+        const after = toVisibilityHours(change.after.data());
+
+        if (before === after) {
+            return;
+        }
+
+        try {
+            const db = admin.firestore();
+            const pendingQuery = await db.collection("posts")
+                .where("status", "in", PENDING_EXPIRY_STATUSES)
+                .get();
+
+            for (let i = 0; i < pendingQuery.docs.length; i += BATCH_LIMIT) {
+                const batch = db.batch();
+                pendingQuery.docs.slice(i, i + BATCH_LIMIT).forEach((doc) => {
+                    batch.update(doc.ref, { expiresAt: computeExpiresAt(doc.data(), doc.createTime, after) });
+                });
+                await batch.commit();
+            }
+
+            functions.logger.info(`Recomputed expiry of ${pendingQuery.size} post(s) ` +
+                `for a visibility duration of ${after} hour(s) (was ${before})`);
+        } catch (error) {
+            functions.logger.error("Error recomputing post expiries:", error);
+        }
+    });
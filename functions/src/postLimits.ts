@@ -0,0 +1,277 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { assertAdmin } from "./moderation";
+import { buildModerationLog, getModerationActor, moderationLogRef } from "./moderationLogs";
+import { getActiveRestriction } from "./restrictions";
+
+interface CreatePostRequest {
+    content: string;
+    category: string;
+    location?: string;
+    photoPaths?: string[];
+}
+
+interface SetDailyPostLimitRequest {
+    userId: string;
+    // null removes the override so the configured limit applies again
+    limit: number | null;
+    reason?: string;
+}
+
+const DAILY_POST_COUNTS_COLLECTION = "daily_post_counts";
+
+// Mirrors DEFAULT_CONFIGURATION.dailyFreePostLimit in the dashboard's lib/firestore/configuration.ts
+const DEFAULT_DAILY_POST_LIMIT = 3;
+// Days start at midnight in Bangkok, like the scheduled functions' time zone
+const POSTING_DAY_UTC_OFFSET_HOURS = 7;
+const MAX_CONTENT_LENGTH = 5000;
+const MAX_LIMIT_OVERRIDE = 100;
+
+/**
+ * The posting day ("YYYY-MM-DD", Bangkok time) and the moment the next one starts
+ */
+function getPostingDay(now: Date = new Date()): { date: string; resetAt: admin.firestore.Timestamp } {
+    const offsetMs = POSTING_DAY_UTC_OFFSET_HOURS * 60 * 60 * 1000;
+    const local = new Date(now.getTime() + offsetMs);
+    const nextMidnight = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate() + 1) - offsetMs;
+
+    return {
+        date: local.toISOString().slice(0, 10),
+        resetAt: admin.firestore.Timestamp.fromMillis(nextMidnight),
+    };
+}
+
+function counterRef(userId: string): admin.firestore.DocumentReference {
+    return admin.firestore().collection(DAILY_POST_COUNTS_COLLECTION).doc(userId);
+}
+
+/**
+ * Today's count from a counter document; counts from an earlier day no longer apply
+ */
+function getTodayCount(counter: admin.firestore.DocumentData | undefined, date: string): number {
+    return counter?.date === date ? counter.count || 0 : 0;
+}
+
+/**
+ * The user's override when an admin set one, otherwise the configured limit
+ * firestore.rules resolves the limit the same way for direct post creates
+ */
+function getDailyPostLimit(
+    counter: admin.firestore.DocumentData | undefined,
+    config: admin.firestore.DocumentData | undefined
+): number {
+    if (typeof counter?.limitOverride === "number") {
+        return counter.limitOverride;
+    }
+    return typeof config?.dailyFreePostLimit === "number" ? config.dailyFreePostLimit : DEFAULT_DAILY_POST_LIMIT;
+}
+
+/**
+ * Cloud Function: Count posts created directly in Firestore towards the author's daily limit
+ * firestore.rules rejects creates once the count reaches the limit; posts created through
+ * createPost are already counted in its transaction
+ * Direct creates are counted after the fact, so a burst of them can overshoot the limit
+ * before the count catches up; clients that need a strict limit must post through createPost
+ * Triggers when a new post is created
+ */
+export const countDailyPost = functions.firestore
+    .document("posts/{postId}")
+    .onCreate(async (snapshot, context) => {
+        const post = snapshot.data();
+
+        if (!post.userId || post.countedInDailyLimit) {
+            return;
+        }
+
+        const db = admin.firestore();
+        const { date, resetAt } = getPostingDay();
+        const ref = counterRef(post.userId);
+
+        const count = await db.runTransaction(async (transaction) => {
+            const counter = await transaction.get(ref);
+            const nextCount = getTodayCount(counter.data(), date) + 1;
+
+            transaction.set(ref, {
+                userId: post.userId,
+                date,
+                count: nextCount,
+                resetAt,
+                updatedAt: new Date().toISOString(),
+            }, { merge: true });
+
+            return nextCount;
+        });
+
+        functions.logger.info(`Post ${context.params.postId} is post ${count} of ${date} for user ${post.userId}`);
+    });
+
+/**
+ * Cloud Function: Create a post on behalf of the signed-in user
+ * Checks the daily limit, creates the post and counts it in one transaction,
+ * so concurrent requests cannot go over the limit
+ */
+export const createPost = functions.https.onCall(async (data: CreatePostRequest, context) => {
+    try {
+        if (!context.auth) {
+            throw new functions.https.HttpsError("unauthenticated", "User must be authenticated");
+        }
+
+        const userId = context.auth.uid;
+        const email = (context.auth.token.email as string | undefined) || "";
+        if (!/@au\.edu$/.test(email)) {
+            throw new functions.https.HttpsError("permission-denied", "Only AU accounts can create posts");
+        }
+
+        const content = typeof data?.content === "string" ? data.content.trim() : "";
+        if (!content || content.length > MAX_CONTENT_LENGTH || !data.category) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                `content (up to ${MAX_CONTENT_LENGTH} characters) and category are required`
+            );
+        }
+
+        const db = admin.firestore();
+        const postRef = db.collection("posts").doc();
+        const { date, resetAt } = getPostingDay();
+
+        const result = await db.runTransaction(async (transaction) => {
+            const [userSnapshot, counterSnapshot, configSnapshot] = await Promise.all([
+                transaction.get(db.collection("users").doc(userId)),
+                transaction.get(counterRef(userId)),
+                transaction.get(db.collection("admin_configuration").doc("default")),
+            ]);
+
+            const status = userSnapshot.data()?.status;
+            if (status === "suspended" || status === "banned") {
+                throw new functions.https.HttpsError("permission-denied", `Your account is ${status}`);
+            }
+
+            const postingRestriction = getActiveRestriction(userSnapshot.data(), "posting");
+            if (postingRestriction) {
+                throw new functions.https.HttpsError(
+                    "permission-denied",
+                    postingRestriction.expiresAt ?
+                        `You cannot post until ${postingRestriction.expiresAt.toDate().toISOString()}` :
+                        "Posting is restricted on your account"
+                );
+            }
+
+            const limit = getDailyPostLimit(counterSnapshot.data(), configSnapshot.data());
+            const count = getTodayCount(counterSnapshot.data(), date);
+            if (count >= limit) {
+                throw new functions.https.HttpsError(
+                    "resource-exhausted",
+                    `Daily post limit of ${limit} posts reached. Your limit will reset at midnight.`
+                );
+            }
+
+            transaction.set(postRef, {
+                userId,
+                content,
+                category: data.category,
+                location: data.location || "",
+                photoPaths: Array.isArray(data.photoPaths) ? data.photoPaths : [],
+                date: admin.firestore.FieldValue.serverTimestamp(),
+                status: "active",
+                likeCount: 0,
+                dislikeCount: 0,
+                reportCount: 0,
+                isWarned: false,
+                countedInDailyLimit: true,
+            });
+            transaction.set(counterRef(userId), {
+                userId,
+                date,
+                count: count + 1,
+                resetAt,
+                updatedAt: new Date().toISOString(),
+            }, { merge: true });
+
+            return { count: count + 1, limit };
+        });
+
+        functions.logger.info(`User ${userId} created post ${postRef.id} (${result.count}/${result.limit} today)`);
+
+        return {
+            success: true,
+            postId: postRef.id,
+            remaining: Math.max(0, result.limit - result.count),
+        };
+    } catch (error: any) {
+        functions.logger.error("Error creating post:", error);
+
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+
+        throw new functions.https.HttpsError(
+            "internal",
+            `Failed to create post: ${error.message}`
+        );
+    }
+});
+
+/**
+ * Cloud Function: Set or clear a user's daily post limit override (admin only)
+ * The override is stored on the user's counter document, which only Cloud Functions can write
+ */
+export const setDailyPostLimitOverride = functions.https.onCall(async (data: SetDailyPostLimitRequest, context) => {
+    try {
+        const adminId = await assertAdmin(context, "change post limits");
+        const actor = getModerationActor(context);
+        const { userId, limit, reason } = data;
+
+        if (!userId) {
+            throw new functions.https.HttpsError("invalid-argument", "userId is required");
+        }
+
+        if (limit !== null && (!Number.isInteger(limit) || limit < 0 || limit > MAX_LIMIT_OVERRIDE)) {
+            throw new functions.https.HttpsError(
+                "invalid-argument",
+                `limit must be a whole number between 0 and ${MAX_LIMIT_OVERRIDE}, or null`
+            );
+        }
+
+        functions.logger.info(`Setting daily post limit of ${userId} to ${limit ?? "default"}`, { adminId });
+
+        const db = admin.firestore();
+        const ref = counterRef(userId);
+
+        await db.runTransaction(async (transaction) => {
+            const counter = await transaction.get(ref);
+            const previous = counter.data()?.limitOverride;
+
+            transaction.set(ref, {
+                userId,
+                limitOverride: limit,
+                updatedAt: new Date().toISOString(),
+            }, { merge: true });
+
+            transaction.set(moderationLogRef(), buildModerationLog(actor, {
+                action: "set_post_limit",
+                targetType: "user",
+                targetId: userId,
+                targetUserId: userId,
+                beforeStatus: typeof previous === "number" ? `${previous} posts/day` : "default",
+                afterStatus: limit !== null ? `${limit} posts/day` : "default",
+                reason,
+            }));
+        });
+
+        return {
+            success: true,
+            limitOverride: limit,
+        };
+    } catch (error: any) {
+        functions.logger.error("Error setting daily post limit:", error);
+
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+
+        throw new functions.https.HttpsError(
+            "internal",
+            `Failed to set daily post limit: ${error.message}`
+        );
+    }
+});
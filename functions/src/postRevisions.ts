@@ -0,0 +1,43 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+
+function samePhotos(before: string[], after: string[]): boolean {
+    return before.length === after.length && before.every((path, index) => path === after[index]);
+}
+
+/**
+ * Cloud Function: Record the edit history of posts
+ * Writes posts/{postId}/revisions/{revisionId} with the content and photos before and
+ * after the edit, so a post edited after being reported can still be judged on what
+ * its readers saw. Status, reaction and report count updates are ignored
+ * Triggers when a post is updated
+ */
+export const recordPostRevision = functions.firestore
+    .document("posts/{postId}")
+    .onUpdate(async (change, context) => {
+        const postId = context.params.postId;
+        const before = change.before.data();
+        const after = change.after.data();
+        const previousContent: string = before.content || "";
+        const content: string = after.content || "";
+        const previousPhotoPaths: string[] = before.photoPaths || [];
+        const photoPaths: string[] = after.photoPaths || [];
+
+        if (previousContent === content && samePhotos(previousPhotoPaths, photoPaths)) {
+            return;
+        }
+
+        const revisionsRef = change.after.ref.collection("revisions");
+        const revision = (await revisionsRef.count().get()).data().count + 1;
+
+        await revisionsRef.add({
+            revision,
+            previousContent,
+            content,
+            previousPhotoPaths,
+            photoPaths,
+            editedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        functions.logger.info(`Recorded revision ${revision} of post ${postId}`);
+    });
@@ -1,13 +1,41 @@
 import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
+import { SYSTEM_ACTOR, buildModerationLog, moderationLogRef } from "./moderationLogs";
 
-// High severity categories that trigger auto-removal
-const HIGH_SEVERITY_CATEGORIES = [
-    "threats_violence",
-    "inappropriate",
-    "hate_speech",
-    "scam",
-];
+type ReportSeverity = "high" | "medium" | "low" | "other";
+type ReportStatus = "pending" | "resolved" | "dismissed";
+type SeverityAction = "auto_remove" | "review" | "ignore";
+
+interface SeverityPolicy {
+    // Keyed by normalized category; unknown categories fall back to "other"
+    categorySeverity: Record<string, ReportSeverity>;
+    severityActions: Record<ReportSeverity, SeverityAction>;
+}
+
+const REPORT_SEVERITIES: ReportSeverity[] = ["high", "medium", "low", "other"];
+const SEVERITY_ACTIONS: SeverityAction[] = ["auto_remove", "review", "ignore"];
+
+// Used until admins save a policy on the configuration page
+// (mirrors CATEGORY_SEVERITY_MAP in the dashboard)
+const DEFAULT_SEVERITY_POLICY: SeverityPolicy = {
+    categorySeverity: {
+        threats_violence: "high",
+        inappropriate: "high",
+        hate_speech: "high",
+        scam: "high",
+        harassment: "medium",
+        impersonation: "medium",
+        misinformation: "medium",
+        spam: "low",
+        other: "other",
+    },
+    severityActions: {
+        high: "auto_remove",
+        medium: "review",
+        low: "review",
+        other: "review",
+    },
+};
 
 // Backward-compatible aliases for legacy or iOS-side category values
 const REPORT_CATEGORY_ALIASES: Record<string, string> = {
@@ -35,7 +63,189 @@ function normalizeReportCategory(category: unknown): string {
 }
 
 /**
- * Cloud Function: Auto-remove posts when reported with high severity
+ * Reads the severity policy from admin_configuration, ignoring any
+ * unknown severities or actions so a bad edit cannot break report handling
+ */
+function toSeverityPolicy(data: admin.firestore.DocumentData | undefined): SeverityPolicy {
+    const stored = data?.severityPolicy || {};
+    const policy: SeverityPolicy = {
+        categorySeverity: { ...DEFAULT_SEVERITY_POLICY.categorySeverity },
+        severityActions: { ...DEFAULT_SEVERITY_POLICY.severityActions },
+    };
+
+    Object.entries(stored.categorySeverity || {}).forEach(([category, severity]) => {
+        const normalizedCategory = normalizeReportCategory(category);
+        if (normalizedCategory && REPORT_SEVERITIES.includes(severity as ReportSeverity)) {
+            policy.categorySeverity[normalizedCategory] = severity as ReportSeverity;
+        }
+    });
+
+    REPORT_SEVERITIES.forEach((severity) => {
+        const action = stored.severityActions?.[severity];
+        if (SEVERITY_ACTIONS.includes(action)) {
+            policy.severityActions[severity] = action;
+        }
+    });
+
+    return policy;
+}
+
+async function getSeverityPolicy(
+    transaction?: admin.firestore.Transaction
+): Promise<SeverityPolicy> {
+    const configRef = admin.firestore().collection("admin_configuration").doc("default");
+    const configSnapshot = transaction ? await transaction.get(configRef) : await configRef.get();
+    return toSeverityPolicy(configSnapshot.data());
+}
+
+// Used until admins save thresholds on the configuration page
+const DEFAULT_URGENT_THRESHOLD = 10;
+
+async function getUrgentThreshold(
+    transaction: admin.firestore.Transaction
+): Promise<number> {
+    const configRef = admin.firestore().collection("admin_configuration").doc("default");
+    const configSnapshot = await transaction.get(configRef);
+    const urgent = configSnapshot.data()?.reportThresholds?.urgent;
+    return typeof urgent === "number" && urgent > 0 ? urgent : DEFAULT_URGENT_THRESHOLD;
+}
+
+interface ReporterReputationPolicy {
+    // Percentage of decided reports that must have been upheld (0 disables the check)
+    minAccuracy: number;
+    // Reporters with fewer decided reports are trusted until they have a track record
+    minDecidedReports: number;
+}
+
+// Used until admins save the reporter reputation settings on the configuration page
+const DEFAULT_REPORTER_REPUTATION: ReporterReputationPolicy = {
+    minAccuracy: 50,
+    minDecidedReports: 5,
+};
+
+async function getReporterReputationPolicy(): Promise<ReporterReputationPolicy> {
+    const configSnapshot = await admin.firestore().collection("admin_configuration").doc("default").get();
+    const stored = configSnapshot.data()?.reporterReputation || {};
+
+    return {
+        minAccuracy: typeof stored.minAccuracy === "number" ?
+            stored.minAccuracy :
+            DEFAULT_REPORTER_REPUTATION.minAccuracy,
+        minDecidedReports: typeof stored.minDecidedReports === "number" ?
+            stored.minDecidedReports :
+            DEFAULT_REPORTER_REPUTATION.minDecidedReports,
+    };
+}
+
+/**
+ * Returns the reporter's accuracy when it is below the configured minimum,
+ * or null when the reporter's reports can be trusted to auto-remove posts
+ */
+async function getLowReporterAccuracy(reporterId: string | undefined): Promise<number | null> {
+    if (!reporterId) {
+        return null;
+    }
+
+    const policy = await getReporterReputationPolicy();
+    if (policy.minAccuracy <= 0) {
+        return null;
+    }
+
+    const statsSnapshot = await admin.firestore().collection("reporter_stats").doc(reporterId).get();
+    const stats = statsSnapshot.data();
+    const decided = (stats?.resolvedCount || 0) + (stats?.dismissedCount || 0);
+
+    if (!stats || decided < policy.minDecidedReports || typeof stats.accuracy !== "number") {
+        return null;
+    }
+
+    return stats.accuracy < policy.minAccuracy ? stats.accuracy : null;
+}
+
+function getReportSeverity(normalizedCategory: string, policy: SeverityPolicy): ReportSeverity {
+    return policy.categorySeverity[normalizedCategory] || "other";
+}
+
+/**
+ * Records a report in the reported_posts aggregate of its post, keyed by reporter
+ * Returns false when the reporter already has another report against the post
+ */
+async function recordReportedPost(
+    reportId: string,
+    report: admin.firestore.DocumentData,
+    normalizedCategory: string
+): Promise<boolean> {
+    const db = admin.firestore();
+    const postId: string = report.postId;
+    const reporterId: string | undefined = report.reporter?.id;
+    const aggregateRef = db.collection("reported_posts").doc(postId);
+    const reporterRef = reporterId ? aggregateRef.collection("reporters").doc(reporterId) : null;
+    const postRef = db.collection("posts").doc(postId);
+
+    return db.runTransaction(async (transaction) => {
+        const reporterSnapshot = reporterRef ? await transaction.get(reporterRef) : null;
+        const aggregateSnapshot = await transaction.get(aggregateRef);
+        const postSnapshot = await transaction.get(postRef);
+
+        if (reporterSnapshot?.exists) {
+            // Same report id means this trigger is being retried, not a duplicate
+            return reporterSnapshot.data()?.reportId === reportId;
+        }
+
+        const now = admin.firestore.FieldValue.serverTimestamp();
+        const category = normalizedCategory || "other";
+
+        if (reporterRef) {
+            transaction.set(reporterRef, {
+                reportId,
+                category,
+                reportedAt: now,
+            });
+        }
+
+        transaction.set(aggregateRef, {
+            postId,
+            reportedUserId: report.reported?.id || null,
+            postContent: report.postContent || postSnapshot.data()?.content || "",
+            reporterCount: admin.firestore.FieldValue.increment(1),
+            categoryCounts: { [category]: admin.firestore.FieldValue.increment(1) },
+            ...(aggregateSnapshot.exists ? {} : { firstReportedAt: now }),
+            lastReportedAt: now,
+            lastReportId: reportId,
+            postStatus: postSnapshot.data()?.status || "active",
+        }, { merge: true });
+
+        return true;
+    });
+}
+
+/**
+ * Deletes a duplicate report and takes back the reportCount increment
+ * the app made on the post when it was submitted
+ */
+async function rejectDuplicateReport(
+    snapshot: admin.firestore.QueryDocumentSnapshot,
+    postId: string
+): Promise<void> {
+    const db = admin.firestore();
+    const postRef = db.collection("posts").doc(postId);
+
+    await db.runTransaction(async (transaction) => {
+        const postSnapshot = await transaction.get(postRef);
+
+        if (postSnapshot.exists && (postSnapshot.data()?.reportCount || 0) > 0) {
+            transaction.update(postRef, {
+                reportCount: admin.firestore.FieldValue.increment(-1),
+            });
+        }
+
+        transaction.delete(snapshot.ref);
+    });
+}
+
+/**
+ * Cloud Function: Apply the configured severity action to a new report
+ * auto_remove removes the post, ignore dismisses the report, review leaves it pending
  * Triggers when a new report is created
  */
 export const handleNewReport = functions.firestore
@@ -48,9 +258,26 @@ export const handleNewReport = functions.firestore
         console.log(`[handleNewReport] Triggered for report ${reportId}`);
         console.log(`[handleNewReport] Report category: ${report.category}`);
         console.log(`[handleNewReport] Normalized category: ${normalizedCategory}`);
-        console.log(`[handleNewReport] High severity categories:`, HIGH_SEVERITY_CATEGORIES);
 
         try {
+            // Only the first report per reporter and post counts; firestore.rules
+            // rejects most repeats, this catches the ones that race the aggregate
+            if (report.postId) {
+                const isFirstReport = await recordReportedPost(reportId, report, normalizedCategory);
+
+                if (!isFirstReport) {
+                    console.log(`[handleNewReport] Reporter ${report.reporter?.id} already reported post ${report.postId} - deleting duplicate`);
+                    await rejectDuplicateReport(snapshot, report.postId);
+                    return;
+                }
+            }
+
+            const policy = await getSeverityPolicy();
+            const severity = getReportSeverity(normalizedCategory, policy);
+            let severityAction = policy.severityActions[severity];
+
+            console.log(`[handleNewReport] Severity: ${severity}, action: ${severityAction}`);
+
             if (normalizedCategory && normalizedCategory !== report.category) {
                 await snapshot.ref.update({
                     category: normalizedCategory,
@@ -58,9 +285,24 @@ export const handleNewReport = functions.firestore
                 });
             }
 
-            // Check if report category is high severity
-            if (HIGH_SEVERITY_CATEGORIES.includes(normalizedCategory)) {
-                console.log(`[handleNewReport] Category "${normalizedCategory}" is HIGH SEVERITY - proceeding with auto-removal`);
+            // Reporters whose reports are mostly dismissed cannot take posts down on their own
+            if (severityAction === "auto_remove") {
+                const lowAccuracy = await getLowReporterAccuracy(report.reporter?.id);
+
+                if (lowAccuracy !== null) {
+                    console.log(`[handleNewReport] Reporter ${report.reporter?.id} accuracy ${lowAccuracy}% is below the minimum - sending to review instead of auto-removal`);
+                    severityAction = "review";
+
+                    await snapshot.ref.update({
+                        lowReporterAccuracy: true,
+                        reporterAccuracy: lowAccuracy,
+                        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+                    });
+                }
+            }
+
+            if (severityAction === "auto_remove") {
+                console.log(`[handleNewReport] Category "${normalizedCategory}" is ${severity} severity - proceeding with auto-removal`);
                 const postId = report.postId;
 
                 if (!postId) {
@@ -80,7 +322,7 @@ export const handleNewReport = functions.firestore
                 await postRef.update({
                     status: "removed",
                     removedAt: admin.firestore.FieldValue.serverTimestamp(),
-                    removedReason: `Auto-removed due to high severity report: ${normalizedCategory}`,
+                    removedReason: `Auto-removed due to ${severity} severity report: ${normalizedCategory}`,
                     updatedAt: admin.firestore.FieldValue.serverTimestamp(),
                 });
 
@@ -93,7 +335,7 @@ export const handleNewReport = functions.firestore
                 });
 
                 console.log(
-                    `Post ${postId} auto-removed due to high severity report: ${normalizedCategory}`
+                    `Post ${postId} auto-removed due to ${severity} severity report: ${normalizedCategory}`
                 );
 
                 // Optionally: Send notification to reported user
@@ -113,8 +355,16 @@ export const handleNewReport = functions.firestore
                         },
                     });
                 }
+            } else if (severityAction === "ignore") {
+                await snapshot.ref.update({
+                    status: "dismissed",
+                    autoDismissed: true,
+                    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+                });
+
+                console.log(`[handleNewReport] Category "${normalizedCategory || report.category}" is ignored by policy - report dismissed`);
             } else {
-                console.log(`[handleNewReport] Category "${normalizedCategory || report.category}" is NOT high severity - no auto-removal`);
+                console.log(`[handleNewReport] Category "${normalizedCategory || report.category}" is queued for review - no auto-removal`);
             }
         } catch (error) {
             console.error("[handleNewReport] Error handling new report:", error);
@@ -124,75 +374,438 @@ export const handleNewReport = functions.firestore
         console.log(`[handleNewReport] Completed processing for report ${reportId}`);
     });
 
+/**
+ * Cloud Function: Keep reported_posts.postStatus in sync with the post
+ * Triggers when a post is updated
+ */
+export const syncReportedPostStatus = functions.firestore
+    .document("posts/{postId}")
+    .onUpdate(async (change, context) => {
+        const beforeStatus = change.before.data().status;
+        const afterStatus = change.after.data().status;
+
+        if (beforeStatus === afterStatus) {
+            return;
+        }
+
+        const aggregateRef = admin.firestore().collection("reported_posts").doc(context.params.postId);
+        const aggregateSnapshot = await aggregateRef.get();
+
+        if (!aggregateSnapshot.exists) {
+            return;
+        }
+
+        await aggregateRef.update({
+            postStatus: afterStatus || "active",
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+    });
+
+/**
+ * Cloud Function: Hide a post for review once its report count reaches the urgent threshold
+ * The post stays under_review until an admin restores or removes it
+ * Triggers when a post is updated
+ */
+export const holdPostOnUrgentThreshold = functions.firestore
+    .document("posts/{postId}")
+    .onUpdate(async (change, context) => {
+        const beforeCount: number = change.before.data().reportCount || 0;
+        const afterCount: number = change.after.data().reportCount || 0;
+
+        if (afterCount <= beforeCount) {
+            return;
+        }
+
+        const postId = context.params.postId;
+        const db = admin.firestore();
+        const postRef = db.collection("posts").doc(postId);
+
+        const held = await db.runTransaction(async (transaction) => {
+            const urgent = await getUrgentThreshold(transaction);
+
+            // Only the update that crosses the threshold holds the post, so a
+            // post restored by an admin is not hidden again by later reports
+            if (beforeCount >= urgent || afterCount < urgent) {
+                return false;
+            }
+
+            const postSnapshot = await transaction.get(postRef);
+            const post = postSnapshot.data();
+
+            if (!post || (post.status || "active") !== "active") {
+                return false;
+            }
+
+            const now = new Date().toISOString();
+
+            transaction.update(postRef, {
+                status: "under_review",
+                heldAt: now,
+                heldReason: `Report count reached the urgent threshold (${urgent})`,
+                lastUpdated: now,
+            });
+
+            transaction.set(db.collection("admin_notifications").doc(), {
+                type: "post_under_review",
+                title: "Post Hidden for Review",
+                message: `A post reached ${afterCount} reports and was hidden until an admin restores or removes it.`,
+                postId,
+                userId: post.userId || null,
+                reportCount: afterCount,
+                threshold: urgent,
+                isRead: false,
+                createdAt: admin.firestore.FieldValue.serverTimestamp(),
+            });
+
+            transaction.set(moderationLogRef(), buildModerationLog(SYSTEM_ACTOR, {
+                action: "hold_post",
+                targetType: "post",
+                targetId: postId,
+                targetUserId: post.userId || null,
+                beforeStatus: "active",
+                afterStatus: "under_review",
+                reason: `Report count reached the urgent threshold (${urgent})`,
+            }));
+
+            return true;
+        });
+
+        if (held) {
+            functions.logger.info(`Post ${postId} held for review at ${afterCount} reports`);
+        }
+    });
+
+interface ReporterCounts {
+    totalReports: number;
+    pendingCount: number;
+    resolvedCount: number;
+    dismissedCount: number;
+}
+
+const REPORTER_COUNT_FIELDS: (keyof ReporterCounts)[] = ["totalReports", "pendingCount", "resolvedCount", "dismissedCount"];
+
+/**
+ * A single report's contribution to its reporter's counters
+ * Only admin decisions count towards accuracy: auto-removals have not been
+ * confirmed yet and policy dismissals say nothing about the reporter
+ */
+function getReporterContribution(report: admin.firestore.DocumentData): ReporterCounts {
+    const status = report.status || "pending";
+    return {
+        totalReports: 1,
+        pendingCount: status === "pending" ? 1 : 0,
+        resolvedCount: status === "resolved" && !report.autoRemoved ? 1 : 0,
+        dismissedCount: status === "dismissed" && !report.autoDismissed ? 1 : 0,
+    };
+}
+
+/**
+ * Cloud Function: Keep reporter_stats in step with each reporter's reports
+ * Accuracy is the share of admin-decided reports that were resolved rather than dismissed
+ * Triggers when a report is created, updated or deleted
+ */
+export const updateReporterStats = functions.firestore
+    .document("reports/{reportId}")
+    .onWrite(async (change) => {
+        const deltas = new Map<string, ReporterCounts>();
+
+        const applyContribution = (snapshot: functions.firestore.DocumentSnapshot, direction: 1 | -1) => {
+            const report = snapshot.data();
+            const reporterId: string | undefined = report?.reporter?.id;
+            if (!report || !reporterId) {
+                return;
+            }
+
+            const delta = deltas.get(reporterId) || { totalReports: 0, pendingCount: 0, resolvedCount: 0, dismissedCount: 0 };
+            const contribution = getReporterContribution(report);
+            REPORTER_COUNT_FIELDS.forEach((field) => {
+                delta[field] += direction * contribution[field];
+            });
+            deltas.set(reporterId, delta);
+        };
+
+        applyContribution(change.before, -1);
+        applyContribution(change.after, 1);
+
+        const changed = [...deltas.entries()].filter(([, delta]) =>
+            REPORTER_COUNT_FIELDS.some((field) => delta[field] !== 0)
+        );
+
+        if (changed.length === 0) {
+            return;
+        }
+
+        try {
+            const db = admin.firestore();
+
+            await db.runTransaction(async (transaction) => {
+                const statsRefs = changed.map(([reporterId]) => db.collection("reporter_stats").doc(reporterId));
+                const statsSnapshots = await Promise.all(statsRefs.map((ref) => transaction.get(ref)));
+
+                changed.forEach(([reporterId, delta], index) => {
+                    const current = statsSnapshots[index].data() || {};
+                    const counts = {} as ReporterCounts;
+                    REPORTER_COUNT_FIELDS.forEach((field) => {
+                        counts[field] = Math.max(0, (current[field] || 0) + delta[field]);
+                    });
+
+                    const decided = counts.resolvedCount + counts.dismissedCount;
+
+                    transaction.set(statsRefs[index], {
+                        userId: reporterId,
+                        ...counts,
+                        accuracy: decided > 0 ? Math.round((counts.resolvedCount / decided) * 100) : null,
+                        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+                    });
+                });
+            });
+        } catch (error) {
+            functions.logger.error("Error updating reporter stats:", error);
+        }
+    });
+
+interface ReportMetrics {
+    categoryCounts: Record<string, number>;
+    severityCounts: Record<ReportSeverity, number>;
+    statusCounts: Record<ReportStatus, number>;
+    totalReports: number;
+}
+
+function createEmptyReportMetrics(): ReportMetrics {
+    return {
+        categoryCounts: {},
+        severityCounts: {
+            high: 0,
+            medium: 0,
+            low: 0,
+            other: 0,
+        },
+        statusCounts: {
+            pending: 0,
+            resolved: 0,
+            dismissed: 0,
+        },
+        totalReports: 0,
+    };
+}
+
+/**
+ * Add (direction = 1) or remove (direction = -1) a single report's
+ * contribution to the category, severity, status and total counters
+ */
+function applyReportToMetrics(
+    metrics: ReportMetrics,
+    report: admin.firestore.DocumentData,
+    direction: 1 | -1,
+    policy: SeverityPolicy
+): void {
+    const normalizedCategory = normalizeReportCategory(report.category) || "other";
+
+    const categoryCount = (metrics.categoryCounts[normalizedCategory] || 0) + direction;
+    if (categoryCount > 0) {
+        metrics.categoryCounts[normalizedCategory] = categoryCount;
+    } else {
+        // A full scan never produces zero entries, so drop the key instead
+        delete metrics.categoryCounts[normalizedCategory];
+    }
+
+    metrics.severityCounts[getReportSeverity(normalizedCategory, policy)] += direction;
+
+    if (report.status in metrics.statusCounts) {
+        metrics.statusCounts[report.status as ReportStatus] += direction;
+    }
+
+    metrics.totalReports += direction;
+}
+
+/**
+ * Count every report in the collection from scratch
+ */
+async function computeReportMetrics(
+    transaction?: admin.firestore.Transaction
+): Promise<ReportMetrics> {
+    const reportsQuery = admin.firestore().collection("reports");
+    const reportsSnapshot = transaction ?
+        await transaction.get(reportsQuery) :
+        await reportsQuery.get();
+
+    const policy = await getSeverityPolicy(transaction);
+    const metrics = createEmptyReportMetrics();
+    reportsSnapshot.docs.forEach((doc) => applyReportToMetrics(metrics, doc.data(), 1, policy));
+
+    return metrics;
+}
+
+function toReportMetricsUpdate(metrics: ReportMetrics) {
+    return {
+        categoryCounts: metrics.categoryCounts,
+        severityCounts: metrics.severityCounts,
+        statusCounts: metrics.statusCounts,
+        totalReports: metrics.totalReports,
+        lastUpdated: admin.firestore.FieldValue.serverTimestamp(),
+    };
+}
+
+// Replace the counter maps wholesale so removed categories do not linger,
+// while leaving any other fields on the metrics document untouched
+const REPORT_METRICS_FIELDS = ["categoryCounts", "severityCounts", "statusCounts", "totalReports", "lastUpdated"];
+// Triggers can be delivered more than once; markers of applied events are kept this long
+// and then deleted by the TTL policy on processed_events.expiresAt
+const PROCESSED_EVENT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Retries of updateReportMetrics stop after a day, well within the processed event TTL
+const MAX_METRICS_RETRY_MS = 24 * 60 * 60 * 1000;
+
 /**
  * Cloud Function: Update report metrics when reports change
- * Useful for tracking report statistics
+ * Applies the difference between the before/after snapshots instead of
+ * rescanning the whole reports collection on every write
+ * Each event is recorded in metrics/reports/processed_events in the same transaction,
+ * so a redelivered event is not counted twice
+ * Failures are retried, so a failed update does not leave the metrics drifted
  */
-export const updateReportMetrics = functions.firestore
+export const updateReportMetrics = functions
+    .runWith({ failurePolicy: true })
+    .firestore
     .document("reports/{reportId}")
     .onWrite(async (change, context) => {
+        if (Date.now() - Date.parse(context.timestamp) > MAX_METRICS_RETRY_MS) {
+            functions.logger.error(`Gave up applying report metrics event ${context.eventId}; ` +
+                "call recomputeReportMetrics to repair metrics/reports");
+            return;
+        }
+
         try {
-            const metricsRef = admin.firestore().collection("metrics").doc("reports");
-
-            // Count reports by category and severity
-            const reportsSnapshot = await admin
-                .firestore()
-                .collection("reports")
-                .get();
-
-            const categoryCounts: Record<string, number> = {};
-            const severityCounts = {
-                high: 0,
-                medium: 0,
-                low: 0,
-                other: 0,
-            };
-            const statusCounts = {
-                pending: 0,
-                resolved: 0,
-                dismissed: 0,
-            };
-
-            reportsSnapshot.docs.forEach((doc) => {
-                const report = doc.data();
-                const normalizedCategory = normalizeReportCategory(report.category) || "other";
-
-                // Count by category
-                categoryCounts[normalizedCategory] =
-                    (categoryCounts[normalizedCategory] || 0) + 1;
-
-                // Count by severity
-                if (HIGH_SEVERITY_CATEGORIES.includes(normalizedCategory)) {
-                    severityCounts.high++;
-                } else if (
-                    ["harassment", "impersonation", "misinformation"].includes(
-                        normalizedCategory
-                    )
-                ) {
-                    severityCounts.medium++;
-                } else if (normalizedCategory === "spam") {
-                    severityCounts.low++;
-                } else {
-                    severityCounts.other++;
+            const db = admin.firestore();
+            const metricsRef = db.collection("metrics").doc("reports");
+            const eventRef = metricsRef.collection("processed_events").doc(context.eventId);
+
+            await db.runTransaction(async (transaction) => {
+                const eventSnapshot = await transaction.get(eventRef);
+                if (eventSnapshot.exists) {
+                    functions.logger.info(`Report metrics event ${context.eventId} already applied`);
+                    return;
                 }
 
-                // Count by status
-                if (report.status in statusCounts) {
-                    statusCounts[report.status as keyof typeof statusCounts]++;
+                const metricsSnapshot = await transaction.get(metricsRef);
+                let metrics: ReportMetrics;
+
+                if (!metricsSnapshot.exists) {
+                    // No metrics yet (first deploy or manual cleanup): seed them from a full scan,
+                    // which already includes this write, so no delta should be applied on top
+                    metrics = await computeReportMetrics(transaction);
+                } else {
+                    const policy = await getSeverityPolicy(transaction);
+                    const current = metricsSnapshot.data() || {};
+                    const empty = createEmptyReportMetrics();
+                    metrics = {
+                        categoryCounts: { ...(current.categoryCounts || {}) },
+                        severityCounts: { ...empty.severityCounts, ...(current.severityCounts || {}) },
+                        statusCounts: { ...empty.statusCounts, ...(current.statusCounts || {}) },
+                        totalReports: current.totalReports || 0,
+                    };
+
+                    if (change.before.exists) {
+                        applyReportToMetrics(metrics, change.before.data() || {}, -1, policy);
+                    }
+                    if (change.after.exists) {
+                        applyReportToMetrics(metrics, change.after.data() || {}, 1, policy);
+                    }
                 }
+
+                transaction.set(eventRef, {
+                    reportId: context.params.reportId,
+                    processedAt: admin.firestore.FieldValue.serverTimestamp(),
+                    expiresAt: admin.firestore.Timestamp.fromMillis(Date.now() + PROCESSED_EVENT_TTL_MS),
+                });
+                transaction.set(metricsRef, toReportMetricsUpdate(metrics), { mergeFields: REPORT_METRICS_FIELDS });
             });
+        } catch (error) {
+            functions.logger.error("Error updating report metrics:", error);
+            throw error;
+        }
+    });
+
+/**
+ * Recomputes report metrics from scratch
+ * Used to repair metrics/reports if incremental updates ever drift
+ * This function can only be called by admin users
+ */
+export const recomputeReportMetrics = functions.https.onCall(async (data: unknown, context) => {
+    try {
+        // ✅ Verify caller is admin
+        if (!context.auth) {
+            throw new functions.https.HttpsError(
+                "unauthenticated",
+                "User must be authenticated"
+            );
+        }
 
-            await metricsRef.set(
-                {
-                    categoryCounts,
-                    severityCounts,
-                    statusCounts,
-                    totalReports: reportsSnapshot.size,
-                    lastUpdated: admin.firestore.FieldValue.serverTimestamp(),
-                },
-                { merge: true }
+        const callerToken = await admin.auth().getUser(context.auth.uid);
+        const isAdmin = callerToken.customClaims?.admin === true;
+
+        if (!isAdmin) {
+            throw new functions.https.HttpsError(
+                "permission-denied",
+                "Only admins can recompute report metrics"
             );
+        }
+
+        functions.logger.info(`Recomputing report metrics, requested by: ${context.auth.uid}`);
+
+        const db = admin.firestore();
+        const metricsRef = db.collection("metrics").doc("reports");
+
+        const metrics = await db.runTransaction(async (transaction) => {
+            const recomputed = await computeReportMetrics(transaction);
+            transaction.set(metricsRef, toReportMetricsUpdate(recomputed), { mergeFields: REPORT_METRICS_FIELDS });
+            return recomputed;
+        });
+
+        functions.logger.info("Report metrics recomputed", { totalReports: metrics.totalReports });
+
+        return {
+            success: true,
+            ...metrics,
+        };
+    } catch (error: any) {
+        functions.logger.error("Error recomputing report metrics:", error);
+
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+
+        throw new functions.https.HttpsError(
+            "internal",
+            `Failed to recompute report metrics: ${error.message}`
+        );
+    }
+});
+
+/**
+ * Cloud Function: Recount severity metrics when the severity policy changes
+ * Incremental updates assume every report was counted under the current mapping
+ */
+export const recomputeMetricsOnPolicyChange = functions.firestore
+    .document("admin_configuration/default")
+    .onUpdate(async (change) => {
+        const before = toSeverityPolicy(change.before.data());
+        const after = toSeverityPolicy(change.after.data());
+
+        if (JSON.stringify(before.categorySeverity) === JSON.stringify(after.categorySeverity)) {
+            return;
+        }
+
+        try {
+            const db = admin.firestore();
+            const metricsRef = db.collection("metrics").doc("reports");
+
+            await db.runTransaction(async (transaction) => {
+                const recomputed = await computeReportMetrics(transaction);
+                transaction.set(metricsRef, toReportMetricsUpdate(recomputed), { mergeFields: REPORT_METRICS_FIELDS });
+            });
+
+            functions.logger.info("Report metrics recomputed after severity policy change");
         } catch (error) {
-            console.error("Error updating report metrics:", error);
+            functions.logger.error("Error recomputing report metrics after policy change:", error);
         }
     });
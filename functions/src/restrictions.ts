@@ -0,0 +1,87 @@
+import * as admin from "firebase-admin";
+
+/**
+ * Partial sanctions kept in the users/{userId}.restrictions map, one entry per type;
+ * firestore.rules reads the same map to reject new posts, reports and AR captures
+ */
+export type RestrictionType = "posting" | "reporting" | "ar";
+
+export interface UserRestriction {
+    // null lasts until an admin lifts it
+    expiresAt: admin.firestore.Timestamp | null;
+    reason: string;
+    appliedAt: string;
+}
+
+export const RESTRICTION_TYPES: RestrictionType[] = ["posting", "reporting", "ar"];
+
+export const RESTRICTION_LABELS: Record<RestrictionType, string> = {
+    posting: "Posting",
+    reporting: "Reporting",
+    ar: "AR Captures",
+};
+
+/**
+ * A restriction lasting durationDays from now, or until lifted when durationDays is null
+ */
+export function buildRestriction(durationDays: number | null, reason: string): UserRestriction {
+    const now = new Date();
+    let expiresAt: admin.firestore.Timestamp | null = null;
+
+    if (durationDays !== null) {
+        const expiry = new Date(now);
+        expiry.setDate(expiry.getDate() + durationDays);
+        expiresAt = admin.firestore.Timestamp.fromDate(expiry);
+    }
+
+    return {
+        expiresAt,
+        reason,
+        appliedAt: now.toISOString(),
+    };
+}
+
+/**
+ * The user's restriction of the given type, if it has not expired
+ */
+export function getActiveRestriction(
+    user: admin.firestore.DocumentData | undefined,
+    type: RestrictionType,
+    now: number = Date.now()
+): UserRestriction | null {
+    const restriction: UserRestriction | undefined = user?.restrictions?.[type];
+
+    if (!restriction) {
+        return null;
+    }
+    if (restriction.expiresAt && restriction.expiresAt.toMillis() <= now) {
+        return null;
+    }
+    return restriction;
+}
+
+/**
+ * Status a user goes back to when a suspension ends: "warning" while they still carry warnings
+ * or a posting restriction, so the status column keeps reflecting their history, else "active"
+ */
+export function getRestoredStatus(
+    user: admin.firestore.DocumentData | undefined,
+    now: number = Date.now()
+): "warning" | "active" {
+    return (user?.warningCount || 0) > 0 || getActiveRestriction(user, "posting", now) ? "warning" : "active";
+}
+
+/**
+ * "posting restricted until 2026-01-31", "reporting restricted until lifted" or "posting allowed",
+ * for moderation log statuses and error messages
+ */
+export function describeRestriction(type: RestrictionType, restriction: UserRestriction | null): string {
+    const label = RESTRICTION_LABELS[type].toLowerCase();
+
+    if (!restriction) {
+        return `${label} allowed`;
+    }
+    return restriction.expiresAt ?
+        `${label} restricted until ${restriction.expiresAt.toDate().toISOString().slice(0, 10)}` :
+        `${label} restricted until lifted`;
+}
@@ -0,0 +1,227 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { assertAdmin } from "./moderation";
+
+type SearchResultType = "post" | "user" | "report" | "announcement";
+
+interface SearchEntry {
+    title: string;
+    subtitle: string;
+    // Free text that should be findable, e.g. content, names, student ID
+    text: string[];
+}
+
+interface SearchSource {
+    collection: string;
+    build: (id: string, data: admin.firestore.DocumentData) => SearchEntry;
+}
+
+// Leaves headroom under Firestore's 500 writes per batch
+const BATCH_LIMIT = 400;
+// Keeps index documents well below Firestore's per-document index entry limit
+const MAX_TOKENS = 1000;
+const SNIPPET_LENGTH = 120;
+
+const SEARCH_SOURCES: Record<SearchResultType, SearchSource> = {
+    post: {
+        collection: "posts",
+        build: (id, data) => {
+            const authorName = data.author?.name || "Unknown User";
+            return {
+                title: (data.content || "").slice(0, SNIPPET_LENGTH),
+                subtitle: `${authorName} · ${data.category || "casual"}`,
+                text: [data.content, authorName, data.author?.nickname, data.location, data.category],
+            };
+        },
+    },
+    user: {
+        collection: "users",
+        build: (id, data) => ({
+            title: data.name || data.nickname || "Unknown User",
+            subtitle: [data.studentId, data.email].filter(Boolean).join(" · "),
+            text: [data.name, data.nickname, data.studentId, data.email, data.faculty],
+        }),
+    },
+    report: {
+        collection: "reports",
+        build: (id, data) => ({
+            title: (data.postContent || data.description || "").slice(0, SNIPPET_LENGTH),
+            subtitle: `${data.category || "other"} · ${data.reported?.name || "Unknown User"} ` +
+                `reported by ${data.reporter?.name || "Unknown User"}`,
+            text: [data.postContent, data.description, data.category, data.reporter?.name, data.reported?.name],
+        }),
+    },
+    announcement: {
+        collection: "announcements",
+        build: (id, data) => ({
+            title: data.title || "",
+            subtitle: [data.department, data.status].filter(Boolean).join(" · "),
+            text: [data.title, data.body, data.department, data.createdByName],
+        }),
+    },
+};
+
+/**
+ * Splits text into search tokens: words of up to three characters as they are,
+ * and every three-character slice of longer words. Matching on trigrams finds
+ * text in the middle of a word, which covers partial student IDs and Thai,
+ * which is written without spaces between words.
+ * The dashboard's tokenizer in lib/firestore/search.ts must stay in sync
+ */
+export function tokenize(text: string): string[] {
+    const tokens = new Set<string>();
+    const words = text.toLowerCase().split(/[\s.,!?;:'"()[\]{}<>/\\|@#$%^&*+=~`_-]+/);
+
+    for (const word of words) {
+        if (word.length < 2) {
+            continue;
+        }
+        // Two-letter searches match the start of longer words
+        tokens.add(word.slice(0, 2));
+        if (word.length <= 3) {
+            tokens.add(word);
+            continue;
+        }
+        for (let i = 0; i + 3 <= word.length; i++) {
+            tokens.add(word.slice(i, i + 3));
+        }
+    }
+
+    return [...tokens];
+}
+
+/**
+ * Tokens are stored as tokenMap.<token> = true so a search can match every token with one
+ * equality filter each and let Firestore intersect them
+ */
+function buildIndexEntry(type: SearchResultType, id: string, data: admin.firestore.DocumentData) {
+    const entry = SEARCH_SOURCES[type].build(id, data);
+    const text = [id, ...entry.text]
+        .filter((value): value is string => typeof value === "string" && value !== "")
+        .join(" ");
+
+    return {
+        type,
+        targetId: id,
+        title: entry.title,
+        subtitle: entry.subtitle,
+        tokenMap: Object.fromEntries(tokenize(text).slice(0, MAX_TOKENS).map((token) => [token, true])),
+    };
+}
+
+function indexRef(type: SearchResultType, id: string) {
+    return admin.firestore().collection("search_index").doc(`${type}_${id}`);
+}
+
+/**
+ * Builds the onWrite trigger that keeps one collection's search index entries current
+ */
+function createIndexTrigger(type: SearchResultType) {
+    return functions.firestore
+        .document(`${SEARCH_SOURCES[type].collection}/{docId}`)
+        .onWrite(async (change, context) => {
+            const id = context.params.docId;
+
+            if (!change.after.exists) {
+                await indexRef(type, id).delete();
+                return;
+            }
+
+            const entry = buildIndexEntry(type, id, change.after.data()!);
+
+            // Likes, counters etc. change often without touching any searchable field
+            if (change.before.exists) {
+                const previous = buildIndexEntry(type, id, change.before.data()!);
+                if (JSON.stringify(previous) === JSON.stringify(entry)) {
+                    return;
+                }
+            }
+
+            await indexRef(type, id).set({
+                ...entry,
+                updatedAt: new Date().toISOString(),
+            });
+        });
+}
+
+/**
+ * Cloud Functions: Maintain the search index for each searchable collection
+ * Triggers on any write to posts, users, reports or announcements
+ */
+export const indexPostForSearch = createIndexTrigger("post");
+export const indexUserForSearch = createIndexTrigger("user");
+export const indexReportForSearch = createIndexTrigger("report");
+export const indexAnnouncementForSearch = createIndexTrigger("announcement");
+
+/**
+ * Cloud Function: Rebuild the whole search index (admin only)
+ * Use after deploying, or to repair entries for documents written while the triggers were down
+ */
+export const rebuildSearchIndex = functions.https.onCall(async (data: unknown, context) => {
+    try {
+        const adminId = await assertAdmin(context, "rebuild the search index");
+
+        functions.logger.info(`Rebuilding search index, requested by: ${adminId}`);
+
+        const db = admin.firestore();
+        const indexed = new Set<string>();
+        let batch = db.batch();
+        let operations = 0;
+
+        const commitIfFull = async () => {
+            if (operations >= BATCH_LIMIT) {
+                await batch.commit();
+                batch = db.batch();
+                operations = 0;
+            }
+        };
+
+        const updatedAt = new Date().toISOString();
+        for (const type of Object.keys(SEARCH_SOURCES) as SearchResultType[]) {
+            const snapshot = await db.collection(SEARCH_SOURCES[type].collection).get();
+
+            for (const doc of snapshot.docs) {
+                const ref = indexRef(type, doc.id);
+                batch.set(ref, { ...buildIndexEntry(type, doc.id, doc.data()), updatedAt });
+                indexed.add(ref.id);
+                operations++;
+                await commitIfFull();
+            }
+        }
+
+        // Drop entries whose document was deleted while the triggers were not running
+        const existingEntries = await db.collection("search_index").select().get();
+        let removed = 0;
+        for (const doc of existingEntries.docs) {
+            if (!indexed.has(doc.id)) {
+                batch.delete(doc.ref);
+                removed++;
+                operations++;
+                await commitIfFull();
+            }
+        }
+
+        if (operations > 0) {
+            await batch.commit();
+        }
+
+        functions.logger.info("Search index rebuilt", { indexed: indexed.size, removed });
+
+        return {
+            success: true,
+            indexed: indexed.size,
+            removed,
+        };
+    } catch (error: any) {
+        functions.logger.error("Error rebuilding search index:", error);
+
+        if (error instanceof functions.https.HttpsError) {
+            throw error;
+        }
+
+        throw new functions.https.HttpsError(
+            "internal",
+            `Failed to rebuild search index: ${error.message}`
+        );
+    }
+});
@@ -0,0 +1,179 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { SYSTEM_ACTOR, buildModerationLog, moderationLogRef } from "./moderationLogs";
+import { getRestoredStatus } from "./restrictions";
+
+// Retries of enforceBanInAuth stop after a day; the backfill script covers anything left
+const MAX_BAN_SYNC_RETRY_MS = 24 * 60 * 60 * 1000;
+// Leaves headroom under Firestore's 500 writes per batch
+const BATCH_LIMIT = 400;
+// Each lifted suspension writes the user, a notification and a log entry
+const WRITES_PER_LIFTED_SUSPENSION = 3;
+
+/**
+ * Scheduled function that runs every hour to lift suspensions
+ * whose suspendExpiresAt has passed
+ */
+export const liftExpiredSuspensions = functions.pubsub
+    .schedule("every 1 hours")
+    .timeZone("Asia/Bangkok") // Adjust to your timezone if needed
+    .onRun(async (context) => {
+        try {
+            // suspendExpiresAt is stored as an ISO string by the dashboard,
+            // so compare against an ISO string rather than a Timestamp
+            const now = new Date().toISOString();
+
+            functions.logger.info("Checking for suspensions to lift", {
+                currentTime: now,
+            });
+
+            // Query suspended users whose suspension has expired
+            const suspendedQuery = await admin
+                .firestore()
+                .collection("users")
+                .where("status", "==", "suspended")
+                .where("suspendExpiresAt", "<=", now)
+                .get();
+
+            if (suspendedQuery.empty) {
+                functions.logger.info("No expired suspensions to lift");
+                return null;
+            }
+
+            functions.logger.info(`Found ${suspendedQuery.size} suspensions to lift`);
+
+            // Batch update the users and queue their notifications and log entries,
+            // in chunks that stay under the batch write limit
+            const liftedUsers: string[] = [];
+            const usersPerBatch = Math.floor(BATCH_LIMIT / WRITES_PER_LIFTED_SUSPENSION);
+
+            for (let i = 0; i < suspendedQuery.docs.length; i += usersPerBatch) {
+                const batch = admin.firestore().batch();
+                const chunk = suspendedQuery.docs.slice(i, i + usersPerBatch);
+
+                chunk.forEach((doc) => {
+                    const user = doc.data();
+
+                    const restoredStatus = getRestoredStatus(user);
+
+                    batch.update(doc.ref, {
+                        status: restoredStatus,
+                        suspendedAt: null,
+                        suspendExpiresAt: null,
+                        lastStatusUpdate: now,
+                    });
+
+                    batch.set(admin.firestore().collection("user_notifications").doc(), {
+                        userId: doc.id,
+                        adminId: "system",
+                        type: "info",
+                        title: "Suspension Lifted",
+                        message: "Your account suspension has ended and you can post again. " +
+                            "Please keep following our community guidelines to avoid future restrictions.",
+                        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+                        isRead: false,
+                    });
+
+                    batch.set(moderationLogRef(), buildModerationLog(SYSTEM_ACTOR, {
+                        action: "lift_suspension",
+                        targetType: "user",
+                        targetId: doc.id,
+                        targetUserId: doc.id,
+                        beforeStatus: "suspended",
+                        afterStatus: restoredStatus,
+                        reason: "Suspension period ended",
+                    }));
+
+                    liftedUsers.push(doc.id);
+                });
+
+                await batch.commit();
+            }
+
+            functions.logger.info("Successfully lifted expired suspensions", {
+                count: suspendedQuery.size,
+                userIds: liftedUsers,
+            });
+
+            return {
+                success: true,
+                liftedCount: suspendedQuery.size,
+                userIds: liftedUsers,
+            };
+        } catch (error) {
+            functions.logger.error("Error lifting expired suspensions", {
+                error: error instanceof Error ? error.message : String(error),
+            });
+            throw error;
+        }
+    });
+
+function isBannedStatus(data: admin.firestore.DocumentData | undefined): boolean {
+    return (data?.status || "").toLowerCase() === "banned";
+}
+
+/**
+ * Sets the banned custom claim and revokes the refresh tokens, so the user's next token
+ * carries the claim, or clears the claim; false when the user has no Auth account.
+ * The account stays enabled: banned users must still be able to sign in to appeal
+ */
+async function setAuthBanned(userId: string, banned: boolean): Promise<boolean> {
+    try {
+        const authUser = await admin.auth().getUser(userId);
+        // Keep any admin or announcer claims the account already has
+        const claims = { ...(authUser.customClaims || {}) };
+        delete claims.banned;
+
+        await admin.auth().setCustomUserClaims(userId, banned ? { ...claims, banned: true } : claims);
+
+        if (banned) {
+            await admin.auth().revokeRefreshTokens(userId);
+        }
+        return true;
+    } catch (error: any) {
+        if (error.code === "auth/user-not-found") {
+            functions.logger.warn(`User ${userId} has no Auth account to ${banned ? "ban" : "unban"}`);
+            return false;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Cloud Function: Enforce bans in Firebase Auth, not just in the Firestore status
+ * Banning sets the banned claim and revokes the user's sessions; unbanning clears the claim.
+ * Rules reject banned tokens everywhere except appeals, which banned users can still file.
+ * Covers every way a user is banned: moderateUser, the sanction ladder, appeals and the dashboard
+ * Failures are retried; each attempt applies the user's current status, so a late retry
+ * cannot undo a newer ban or unban
+ * Triggers when a user is updated
+ */
+export const enforceBanInAuth = functions
+    .runWith({ failurePolicy: true })
+    .firestore
+    .document("users/{userId}")
+    .onUpdate(async (change, context) => {
+        const userId = context.params.userId;
+
+        if (isBannedStatus(change.before.data()) === isBannedStatus(change.after.data())) {
+            return;
+        }
+
+        if (Date.now() - Date.parse(context.timestamp) > MAX_BAN_SYNC_RETRY_MS) {
+            functions.logger.error(`Gave up syncing the ban of user ${userId} to Auth; ` +
+                "run scripts/backfillBannedAuth.js to set missing banned claims");
+            return;
+        }
+
+        const current = await change.after.ref.get();
+        const isBanned = isBannedStatus(current.data());
+
+        try {
+            if (await setAuthBanned(userId, isBanned)) {
+                functions.logger.info(`${isBanned ? "Set" : "Cleared"} the banned claim of user ${userId}`);
+            }
+        } catch (error) {
+            functions.logger.error(`Error syncing the ban of user ${userId} to Auth, will retry:`, error);
+            throw error;
+        }
+    });
@@ -0,0 +1,163 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { buildModerationLog, ModerationActor, moderationLogRef, SYSTEM_ACTOR } from "./moderationLogs";
+
+interface WarningDetails {
+    reason?: string | null;
+    // The post the warning was given for, if any
+    post?: { id: string; content?: string; reportCount?: number } | null;
+    // What the warning escalated to on the sanction ladder
+    escalation: string;
+}
+
+const WARNINGS_COLLECTION = "warnings";
+// Leaves headroom under Firestore's 500 writes per transaction
+const BATCH_LIMIT = 400;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SNIPPET_LENGTH = 200;
+// Mirrors DEFAULT_CONFIGURATION.warningExpiryDays in the dashboard's lib/firestore/configuration.ts
+const DEFAULT_WARNING_EXPIRY_DAYS = 365;
+
+/**
+ * A new document in the user's warnings subcollection, so the record can be
+ * written in the same transaction or batch as the warning itself, or an existing one by id
+ */
+export function warningRef(userId: string, warningId?: string): admin.firestore.DocumentReference {
+    const warnings = admin.firestore().collection("users").doc(userId).collection(WARNINGS_COLLECTION);
+    return warningId ? warnings.doc(warningId) : warnings.doc();
+}
+
+/**
+ * Builds a users/{userId}/warnings document; it counts towards warningCount while active
+ */
+export function buildWarningRecord(userId: string, actor: ModerationActor, details: WarningDetails) {
+    return {
+        userId,
+        reason: details.reason || "Community guidelines violation",
+        postId: details.post?.id || null,
+        postContent: (details.post?.content || "").slice(0, SNIPPET_LENGTH),
+        reportCounts: details.post?.reportCount || 0,
+        adminId: actor.adminId,
+        adminName: actor.adminEmail,
+        escalation: details.escalation,
+        status: "active",
+        date: new Date().toISOString(),
+        expiredAt: null,
+        revokedAt: null,
+    };
+}
+
+/**
+ * 0 keeps warnings forever
+ */
+function toWarningExpiryDays(data: admin.firestore.DocumentData | undefined): number {
+    return typeof data?.warningExpiryDays === "number" ? data.warningExpiryDays : DEFAULT_WARNING_EXPIRY_DAYS;
+}
+
+/**
+ * Expires one user's warnings and recomputes their warningCount in a transaction
+ * Warnings given before records were kept have nothing to expire, so they stay counted
+ */
+async function expireUserWarnings(
+    userId: string,
+    warningRefs: admin.firestore.DocumentReference[],
+    expiryDays: number
+): Promise<number> {
+    const db = admin.firestore();
+    const userRef = db.collection("users").doc(userId);
+
+    return db.runTransaction(async (transaction) => {
+        const [userSnapshot, ...warningSnapshots] = await transaction.getAll(userRef, ...warningRefs);
+        // An admin may have revoked a warning since the query ran
+        const stillActive = warningSnapshots.filter((snapshot) => snapshot.data()?.status === "active");
+
+        if (stillActive.length === 0) {
+            return 0;
+        }
+
+        const now = new Date().toISOString();
+        stillActive.forEach((snapshot) => {
+            transaction.update(snapshot.ref, { status: "expired", expiredAt: now });
+        });
+
+        if (!userSnapshot.exists) {
+            return stillActive.length;
+        }
+
+        const user = userSnapshot.data() || {};
+        const status = (user.status || "active").toLowerCase();
+        const previousCount = user.warningCount || 0;
+        const warningCount = Math.max(0, previousCount - stillActive.length);
+        const clearsWarningStatus = status === "warning" && warningCount === 0;
+
+        transaction.update(userRef, {
+            warningCount,
+            ...(clearsWarningStatus ? { status: "active", lastStatusUpdate: now } : {}),
+        });
+
+        transaction.set(moderationLogRef(), buildModerationLog(SYSTEM_ACTOR, {
+            action: "expire_warnings",
+            targetType: "user",
+            targetId: userId,
+            targetUserId: userId,
+            beforeStatus: status,
+            afterStatus: clearsWarningStatus ? "active" : status,
+            reason: `${stillActive.length} warning(s) older than ${expiryDays} days expired ` +
+                `(${previousCount} → ${warningCount})`,
+            relatedIds: stillActive.map((snapshot) => snapshot.id),
+        }));
+
+        return stillActive.length;
+    });
+}
+
+/**
+ * Scheduled function that runs daily to expire warnings older than
+ * admin_configuration.warningExpiryDays and recompute each user's warningCount
+ */
+export const expireWarnings = functions.pubsub
+    .schedule("every day 03:00")
+    .timeZone("Asia/Bangkok") // Adjust to your timezone if needed
+    .onRun(async () => {
+        try {
+            const db = admin.firestore();
+            const configSnapshot = await db.collection("admin_configuration").doc("default").get();
+            const expiryDays = toWarningExpiryDays(configSnapshot.data());
+
+            if (expiryDays <= 0) {
+                functions.logger.info("Warning expiry is disabled");
+                return null;
+            }
+
+            const cutoff = new Date(Date.now() - expiryDays * DAY_MS).toISOString();
+            const expiredQuery = await db.collectionGroup(WARNINGS_COLLECTION)
+                .where("status", "==", "active")
+                .where("date", "<=", cutoff)
+                .get();
+
+            if (expiredQuery.empty) {
+                functions.logger.info("No warnings to expire");
+                return null;
+            }
+
+            const refsByUser = new Map<string, admin.firestore.DocumentReference[]>();
+            expiredQuery.docs.forEach((doc) => {
+                const userId = doc.ref.parent.parent?.id;
+                if (userId) {
+                    refsByUser.set(userId, [...(refsByUser.get(userId) || []), doc.ref]);
+                }
+            });
+
+            let expiredCount = 0;
+            for (const [userId, refs] of refsByUser) {
+                // Anything over the limit is picked up by the next run
+                expiredCount += await expireUserWarnings(userId, refs.slice(0, BATCH_LIMIT), expiryDays);
+            }
+
+            functions.logger.info(`Expired ${expiredCount} warning(s) of ${refsByUser.size} user(s)`);
+            return null;
+        } catch (error) {
+            functions.logger.error("Error expiring warnings:", error);
+            return null;
+        }
+    });
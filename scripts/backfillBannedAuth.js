@@ -0,0 +1,76 @@
+
+const admin = require('firebase-admin');
+const serviceAccount = require('../serviceAccountKey.json');
+
+admin.initializeApp({
+  credential: admin.credential.cert(serviceAccount),
+});
+
+/**
+ * Backfill Script for Ban Enforcement in Auth
+ *
+ * enforceBanInAuth only sets the banned claim on users banned after it
+ * was deployed. This script:
+ * 1. Finds every user whose status is "banned"
+ * 2. Sets the banned custom claim, keeping any other claims
+ * 3. Revokes the refresh tokens so the next token carries the claim
+ *
+ * Accounts stay enabled so banned users can still sign in to appeal.
+ *
+ * Users without an Auth account are skipped. Running the script again is harmless.
+ *
+ * Usage:
+ *   node scripts/backfillBannedAuth.js
+ */
+
+async function backfillBannedAuth() {
+  const db = admin.firestore();
+
+  console.log('\n🔄 Starting Banned Auth Backfill...\n');
+  console.log('═══════════════════════════════════════════════════════════\n');
+
+  try {
+    const bannedSnapshot = await db.collection('users')
+      .where('status', '==', 'banned')
+      .get();
+
+    console.log(`📋 Banned users: ${bannedSnapshot.size}\n`);
+
+    let claimed = 0;
+    let missing = 0;
+
+    for (const doc of bannedSnapshot.docs) {
+      try {
+        const authUser = await admin.auth().getUser(doc.id);
+        // Must match setAuthBanned in functions/src/users.ts
+        await admin.auth().setCustomUserClaims(doc.id, { ...(authUser.customClaims || {}), banned: true });
+        await admin.auth().revokeRefreshTokens(doc.id);
+        claimed++;
+        console.log(`   🚫 ${authUser.email || doc.id}`);
+      } catch (error) {
+        if (error.code !== 'auth/user-not-found') {
+          throw error;
+        }
+        missing++;
+      }
+    }
+
+    // Final summary
+    console.log(`\n═══════════════════════════════════════════════════════════`);
+    console.log(`\n🎉 Backfill Complete!\n`);
+    console.log(`   ✅ Banned claims set: ${claimed}`);
+    if (missing > 0) {
+      console.log(`   ⚠️  Banned users without an Auth account: ${missing}`);
+    }
+    console.log(`\n═══════════════════════════════════════════════════════════\n`);
+
+    process.exit(0);
+
+  } catch (error) {
+    console.error('\n❌ Backfill failed with error:', error);
+    process.exit(1);
+  }
+}
+
+// Run the backfill
+backfillBannedAuth();
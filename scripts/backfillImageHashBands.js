@@ -0,0 +1,76 @@
+const admin = require('firebase-admin');
+const serviceAccount = require('../serviceAccountKey.json');
+
+admin.initializeApp({
+  credential: admin.credential.cert(serviceAccount),
+});
+
+/**
+ * Backfill Script for Image Hash Bands
+ *
+ * hashUploadedImage only looks up removed photos that share a hash band,
+ * and only stores bands on photos hashed after that was deployed.
+ * This script:
+ * 1. Reads every image_hashes document without bands
+ * 2. Writes the bands of its hash, so removed photos are matched again
+ *
+ * Running the script again only touches hashes still missing their bands.
+ *
+ * Usage:
+ *   node scripts/backfillImageHashBands.js
+ */
+
+const BATCH_LIMIT = 400;
+// Must match HASH_BAND_COUNT in functions/src/imageHashes.ts
+const HASH_BAND_COUNT = 11;
+
+// Must split hashes like hashBands in functions/src/imageHashes.ts
+function hashBands(hash) {
+  const bits = hash.split('').map((nibble) => parseInt(nibble, 16).toString(2).padStart(4, '0')).join('');
+  return Array.from({ length: HASH_BAND_COUNT }, (_, band) => {
+    const start = Math.floor(band * bits.length / HASH_BAND_COUNT);
+    const end = Math.floor((band + 1) * bits.length / HASH_BAND_COUNT);
+    return `${band}:${bits.slice(start, end)}`;
+  });
+}
+
+async function backfillImageHashBands() {
+  const db = admin.firestore();
+
+  console.log('\n🔄 Starting Image Hash Band Backfill...\n');
+  console.log('═══════════════════════════════════════════════════════════\n');
+
+  try {
+    const hashesSnapshot = await db.collection('image_hashes').get();
+    const docs = hashesSnapshot.docs.filter((doc) =>
+      !Array.isArray(doc.data().bands) && typeof doc.data().hash === 'string'
+    );
+
+    console.log(`📋 Hashes missing bands: ${docs.length} of ${hashesSnapshot.size}\n`);
+
+    for (let i = 0; i < docs.length; i += BATCH_LIMIT) {
+      const batch = db.batch();
+
+      docs.slice(i, i + BATCH_LIMIT).forEach((doc) => {
+        batch.update(doc.ref, { bands: hashBands(doc.data().hash) });
+      });
+
+      await batch.commit();
+    }
+
+    // Final summary
+    console.log(`═══════════════════════════════════════════════════════════`);
+    console.log(`\n🎉 Backfill Complete!\n`);
+    console.log(`   ✅ Hashes updated: ${docs.length}`);
+    console.log(`\n═══════════════════════════════════════════════════════════\n`);
+
+    process.exit(0);
+
+  } catch (error) {
+    console.error('\n❌ Backfill failed with error:', error);
+    process.exit(1);
+  }
+}
+
+// Run the backfill
+backfillImageHashBands();
@@ -0,0 +1,84 @@
+
+const admin = require('firebase-admin');
+const serviceAccount = require('../serviceAccountKey.json');
+
+admin.initializeApp({
+  credential: admin.credential.cert(serviceAccount),
+});
+
+/**
+ * Backfill Script for Post Expiry
+ *
+ * setPostExpiry only stores expiresAt on posts created after it was deployed,
+ * and expirePosts only looks at posts that have one.
+ * This script:
+ * 1. Reads postVisibilityDuration from admin_configuration/default
+ * 2. Writes expiresAt (post date + duration) on every active or held post
+ *
+ * Posts already past their expiry are moved to "expired" by the next
+ * scheduled expirePosts run. Running the script again simply rewrites expiresAt.
+ *
+ * Usage:
+ *   node scripts/backfillPostExpiry.js
+ */
+
+const BATCH_LIMIT = 400;
+// Must match DEFAULT_VISIBILITY_HOURS in functions/src/postExpiry.ts
+const DEFAULT_VISIBILITY_HOURS = 24;
+
+async function backfillPostExpiry() {
+  const db = admin.firestore();
+
+  console.log('\n🔄 Starting Post Expiry Backfill...\n');
+  console.log('═══════════════════════════════════════════════════════════\n');
+
+  try {
+    const configSnapshot = await db.collection('admin_configuration').doc('default').get();
+    const visibilityHours = configSnapshot.data()?.postVisibilityDuration || DEFAULT_VISIBILITY_HOURS;
+
+    console.log(`📋 Post visibility duration: ${visibilityHours} hour(s)\n`);
+
+    const postsSnapshot = await db.collection('posts')
+      .where('status', 'in', ['active', 'under_review'])
+      .get();
+
+    const now = Date.now();
+    let pastExpiry = 0;
+
+    for (let i = 0; i < postsSnapshot.docs.length; i += BATCH_LIMIT) {
+      const batch = db.batch();
+
+      postsSnapshot.docs.slice(i, i + BATCH_LIMIT).forEach((doc) => {
+        const postedAt = doc.data().date?.toMillis ? doc.data().date : doc.createTime;
+        const expiresAt = admin.firestore.Timestamp.fromMillis(
+          postedAt.toMillis() + visibilityHours * 60 * 60 * 1000
+        );
+
+        if (expiresAt.toMillis() <= now) {
+          pastExpiry++;
+        }
+        batch.update(doc.ref, { expiresAt });
+      });
+
+      await batch.commit();
+    }
+
+    // Final summary
+    console.log(`═══════════════════════════════════════════════════════════`);
+    console.log(`\n🎉 Backfill Complete!\n`);
+    console.log(`   ✅ Posts updated: ${postsSnapshot.size}`);
+    if (pastExpiry > 0) {
+      console.log(`   ⏰ Already past expiry (expired on the next scheduled run): ${pastExpiry}`);
+    }
+    console.log(`\n═══════════════════════════════════════════════════════════\n`);
+
+    process.exit(0);
+
+  } catch (error) {
+    console.error('\n❌ Backfill failed with error:', error);
+    process.exit(1);
+  }
+}
+
+// Run the backfill
+backfillPostExpiry();
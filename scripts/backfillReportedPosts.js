@@ -0,0 +1,162 @@
+
+const admin = require('firebase-admin');
+const serviceAccount = require('../serviceAccountKey.json');
+
+admin.initializeApp({
+  credential: admin.credential.cert(serviceAccount),
+});
+
+/**
+ * Backfill Script for the reported_posts Aggregate
+ *
+ * handleNewReport only aggregates reports created after it was deployed.
+ * This script:
+ * 1. Reads all reports from Firestore
+ * 2. Groups them by post, keeping the earliest report of each reporter
+ * 3. Writes reported_posts/{postId} with reporter count, category histogram,
+ *    first/last report time and the current post status
+ * 4. Writes reported_posts/{postId}/reporters/{reporterId}
+ *
+ * Duplicate reporter+post reports are listed but NOT deleted.
+ * Running the script again rebuilds the aggregates from scratch.
+ *
+ * Usage:
+ *   node scripts/backfillReportedPosts.js
+ */
+
+const BATCH_LIMIT = 400;
+
+const toDate = (value) => {
+  if (!value) return null;
+  if (typeof value.toDate === 'function') return value.toDate();
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+async function backfillReportedPosts() {
+  const db = admin.firestore();
+
+  console.log('\n🔄 Starting reported_posts Backfill...\n');
+  console.log('═══════════════════════════════════════════════════════════\n');
+
+  try {
+    const reportsSnapshot = await db.collection('reports').get();
+
+    if (reportsSnapshot.empty) {
+      console.log('⚠️  No reports found in Firestore');
+      console.log('\nNothing to backfill.');
+      process.exit(0);
+    }
+
+    console.log(`📋 Found ${reportsSnapshot.size} report(s)\n`);
+
+    // postId -> { reporters: Map<reporterId, { reportId, category, reportedAt }>, report }
+    const groups = new Map();
+    const duplicates = [];
+
+    const sortedDocs = [...reportsSnapshot.docs].sort((a, b) => {
+      const dateA = toDate(a.data().reportDate || a.data().createdAt) || new Date(0);
+      const dateB = toDate(b.data().reportDate || b.data().createdAt) || new Date(0);
+      return dateA - dateB;
+    });
+
+    for (const doc of sortedDocs) {
+      const report = doc.data();
+      const reporterId = report.reporter?.id;
+
+      if (!report.postId || !reporterId) {
+        continue;
+      }
+
+      if (!groups.has(report.postId)) {
+        groups.set(report.postId, { reporters: new Map(), report });
+      }
+
+      const group = groups.get(report.postId);
+
+      if (group.reporters.has(reporterId)) {
+        duplicates.push({ reportId: doc.id, postId: report.postId, reporterId });
+        continue;
+      }
+
+      group.reporters.set(reporterId, {
+        reportId: doc.id,
+        category: report.category || 'other',
+        reportedAt: toDate(report.reportDate || report.createdAt) || new Date(),
+      });
+      group.report = report;
+    }
+
+    let batch = db.batch();
+    let operations = 0;
+    let postCount = 0;
+
+    const commitIfFull = async () => {
+      if (operations >= BATCH_LIMIT) {
+        await batch.commit();
+        batch = db.batch();
+        operations = 0;
+      }
+    };
+
+    for (const [postId, group] of groups) {
+      const postSnapshot = await db.collection('posts').doc(postId).get();
+      const reporters = [...group.reporters.entries()];
+      const categoryCounts = {};
+
+      for (const [, entry] of reporters) {
+        categoryCounts[entry.category] = (categoryCounts[entry.category] || 0) + 1;
+      }
+
+      const aggregateRef = db.collection('reported_posts').doc(postId);
+      const lastEntry = reporters[reporters.length - 1][1];
+
+      batch.set(aggregateRef, {
+        postId,
+        reportedUserId: group.report.reported?.id || null,
+        postContent: group.report.postContent || postSnapshot.data()?.content || '',
+        reporterCount: reporters.length,
+        categoryCounts,
+        firstReportedAt: reporters[0][1].reportedAt,
+        lastReportedAt: lastEntry.reportedAt,
+        lastReportId: lastEntry.reportId,
+        postStatus: postSnapshot.data()?.status || 'active',
+      });
+      operations++;
+
+      for (const [reporterId, entry] of reporters) {
+        batch.set(aggregateRef.collection('reporters').doc(reporterId), entry);
+        operations++;
+        await commitIfFull();
+      }
+
+      postCount++;
+      await commitIfFull();
+    }
+
+    if (operations > 0) {
+      await batch.commit();
+    }
+
+    // Final summary
+    console.log(`\n═══════════════════════════════════════════════════════════`);
+    console.log(`\n🎉 Backfill Complete!\n`);
+    console.log(`   ✅ Aggregated posts: ${postCount}`);
+    if (duplicates.length > 0) {
+      console.log(`   ⚠️  Duplicate reporter+post reports (left in place): ${duplicates.length}`);
+      for (const duplicate of duplicates) {
+        console.log(`      ${duplicate.reportId} (post ${duplicate.postId}, reporter ${duplicate.reporterId})`);
+      }
+    }
+    console.log(`\n═══════════════════════════════════════════════════════════\n`);
+
+    process.exit(0);
+
+  } catch (error) {
+    console.error('\n❌ Backfill failed with error:', error);
+    process.exit(1);
+  }
+}
+
+// Run the backfill
+backfillReportedPosts();
@@ -0,0 +1,129 @@
+
+const admin = require('firebase-admin');
+const serviceAccount = require('../serviceAccountKey.json');
+
+admin.initializeApp({
+  credential: admin.credential.cert(serviceAccount),
+});
+
+/**
+ * Backfill Script for Denormalized User Snapshots
+ *
+ * setPostAuthorSnapshot and fanOutUserSnapshot only maintain snapshots
+ * for posts created, and users changed, after they were deployed.
+ * This script:
+ * 1. Reads all users from Firestore
+ * 2. Writes posts/{postId}.author for every post
+ * 3. Refreshes the reporter/reported objects on every report
+ *
+ * Posts whose author no longer exists get an "Unknown User" snapshot.
+ * Running the script again simply rewrites the snapshots.
+ *
+ * Usage:
+ *   node scripts/backfillUserSnapshots.js
+ */
+
+const BATCH_LIMIT = 400;
+
+// Must match buildUserSnapshot in functions/src/authorSnapshots.ts
+const buildUserSnapshot = (userId, user) => ({
+  id: userId,
+  name: user?.name || user?.nickname || 'Unknown User',
+  nickname: user?.nickname || '',
+  avatarPath: user?.avatar || null,
+  status: user?.status || 'active',
+});
+
+async function backfillUserSnapshots() {
+  const db = admin.firestore();
+
+  console.log('\n🔄 Starting User Snapshot Backfill...\n');
+  console.log('═══════════════════════════════════════════════════════════\n');
+
+  try {
+    const usersSnapshot = await db.collection('users').get();
+    const users = new Map(usersSnapshot.docs.map((doc) => [doc.id, doc.data()]));
+
+    console.log(`📋 Found ${users.size} user(s)\n`);
+
+    let batch = db.batch();
+    let operations = 0;
+
+    const queueUpdate = async (ref, data) => {
+      batch.update(ref, data);
+      operations++;
+      if (operations >= BATCH_LIMIT) {
+        await batch.commit();
+        batch = db.batch();
+        operations = 0;
+      }
+    };
+
+    // Posts
+    const postsSnapshot = await db.collection('posts').get();
+    let postCount = 0;
+    let missingAuthors = 0;
+
+    for (const doc of postsSnapshot.docs) {
+      const userId = doc.data().userId;
+
+      if (!userId) {
+        continue;
+      }
+      if (!users.has(userId)) {
+        missingAuthors++;
+      }
+
+      await queueUpdate(doc.ref, { author: buildUserSnapshot(userId, users.get(userId)) });
+      postCount++;
+    }
+
+    console.log(`   ✓ Queued ${postCount} post author snapshot(s)`);
+
+    // Reports
+    const reportsSnapshot = await db.collection('reports').get();
+    let reportCount = 0;
+
+    for (const doc of reportsSnapshot.docs) {
+      const report = doc.data();
+      const update = {};
+
+      for (const field of ['reporter', 'reported']) {
+        const userId = report[field]?.id;
+        if (userId && users.has(userId)) {
+          update[field] = { ...report[field], ...buildUserSnapshot(userId, users.get(userId)) };
+        }
+      }
+
+      if (Object.keys(update).length > 0) {
+        await queueUpdate(doc.ref, update);
+        reportCount++;
+      }
+    }
+
+    console.log(`   ✓ Queued ${reportCount} report snapshot update(s)`);
+
+    if (operations > 0) {
+      await batch.commit();
+    }
+
+    // Final summary
+    console.log(`\n═══════════════════════════════════════════════════════════`);
+    console.log(`\n🎉 Backfill Complete!\n`);
+    console.log(`   ✅ Posts updated: ${postCount}`);
+    console.log(`   ✅ Reports updated: ${reportCount}`);
+    if (missingAuthors > 0) {
+      console.log(`   ⚠️  Posts whose author no longer exists: ${missingAuthors}`);
+    }
+    console.log(`\n═══════════════════════════════════════════════════════════\n`);
+
+    process.exit(0);
+
+  } catch (error) {
+    console.error('\n❌ Backfill failed with error:', error);
+    process.exit(1);
+  }
+}
+
+// Run the backfill
+backfillUserSnapshots();